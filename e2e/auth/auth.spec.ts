@@ -0,0 +1,137 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../../src/app.module';
+import { TestHelpers } from '../helpers/test-helpers';
+import { AuthFixtures } from '../fixtures/auth.fixtures';
+
+describe('Auth (e2e)', () => {
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('/auth/login (POST)', () => {
+    it('should return an access and a refresh token', () => {
+      return request(app.getHttpServer())
+        .post('/auth/login')
+        .send(AuthFixtures.mailboxOwner)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toEqual({
+            accessToken: expect.any(String),
+            refreshToken: expect.any(String),
+            tokenType: 'Bearer',
+            expiresIn: 900,
+          });
+        });
+    });
+
+    it('should return 401 for a wrong password', () => {
+      return request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ ...AuthFixtures.mailboxOwner, password: 'wrong' })
+        .expect(401)
+        .expect((res) => {
+          expect(res.body.message).toBe('Invalid email or password');
+        });
+    });
+
+    it('should return 400 for malformed credentials', () => {
+      return request(app.getHttpServer())
+        .post('/auth/login')
+        .send({ email: 'not-an-email' })
+        .expect(400);
+    });
+  });
+
+  describe('/auth/refresh (POST)', () => {
+    it('should exchange a refresh token for new tokens', async () => {
+      const { body } = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send(AuthFixtures.mailboxOwner)
+        .expect(200);
+
+      const refreshed = await request(app.getHttpServer())
+        .post('/auth/refresh')
+        .send({ refreshToken: body.refreshToken })
+        .expect(200);
+
+      return request(app.getHttpServer())
+        .get('/mails/stats')
+        .auth(refreshed.body.accessToken, { type: 'bearer' })
+        .expect(200);
+    });
+
+    it('should not accept a refresh token as access token', async () => {
+      const { body } = await request(app.getHttpServer())
+        .post('/auth/login')
+        .send(AuthFixtures.mailboxOwner)
+        .expect(200);
+
+      return request(app.getHttpServer())
+        .get('/mails')
+        .auth(body.refreshToken, { type: 'bearer' })
+        .expect(401);
+    });
+  });
+
+  describe('Protected routes', () => {
+    it.each(['/mails', '/mails/1', '/threads', '/labels', '/drafts'])(
+      'should return 401 on %s without token',
+      (path) => {
+        return request(app.getHttpServer()).get(path).expect(401);
+      },
+    );
+
+    it('should return 401 with an invalid token', () => {
+      return request(app.getHttpServer())
+        .get('/mails')
+        .auth('invalid', { type: 'bearer' })
+        .expect(401);
+    });
+  });
+
+  describe('Per-user mailboxes', () => {
+    it('should only list the mails of the authenticated user', async () => {
+      const api = await TestHelpers.authenticatedAgent(
+        app,
+        AuthFixtures.otherUser,
+      );
+
+      await api
+        .get('/mails')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.totalCount).toBe(0);
+        });
+      await api.get('/mails/1').expect(404);
+      await api.get('/labels').expect(200).expect([]);
+
+      const { body: sent } = await api
+        .post('/mails')
+        .send({
+          to: [{ email: 'sam.lee@example.com' }],
+          subject: 'Hello Sam',
+          body: 'Hi',
+        })
+        .expect(201);
+      expect(sent.from.email).toBe('alex.smith@example.com');
+
+      const owner = await TestHelpers.authenticatedAgent(app);
+      return owner.get(`/mails/${sent.id}`).expect(404);
+    });
+  });
+});
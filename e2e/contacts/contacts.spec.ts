@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../../src/app.module';
+import { TestHelpers } from '../helpers/test-helpers';
+import { AuthFixtures } from '../fixtures/auth.fixtures';
+import { MailsService } from '../../src/mails/mails.service';
+import { mailboxOwner } from '../../src/mails/mailbox-owner';
+
+describe('Contacts (e2e)', () => {
+  let app: INestApplication;
+  let api: request.Agent;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+
+    await app.init();
+    api = await TestHelpers.authenticatedAgent(app);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('/contacts (GET)', () => {
+    it('should list the correspondents of the mailbox once each', () => {
+      return api
+        .get('/contacts')
+        .expect(200)
+        .expect((res) => {
+          const emails = res.body.map((contact: any) => contact.email);
+          expect(emails).toContain('alex.smith@example.com');
+          expect(emails).not.toContain('sam.lee@example.com');
+          expect(new Set(emails).size).toBe(emails.length);
+          res.body.forEach((contact: any) => {
+            expect(typeof contact.id).toBe('number');
+            expect(contact.harvested).toBe(true);
+            expect(contact.email).toMatch(/^[^@\s]+@[^@\s]+$/);
+          });
+        });
+    });
+
+    it('should harvest a draft sent after newer mails were listed', async () => {
+      const draft = (
+        await api
+          .post('/drafts')
+          .send({
+            to: [{ name: 'Nora Quinn', email: 'nora.quinn@example.com' }],
+            subject: 'Draft sent later',
+            body: 'Hello',
+          })
+          .expect(201)
+      ).body;
+      app.get(MailsService).insertMail({
+        ownerId: mailboxOwner.id,
+        from: { name: 'Omar Reyes', email: 'omar.reyes@example.com' },
+        to: [mailboxOwner],
+        subject: 'Newer mail',
+        body: 'Hello',
+        date: new Date().toISOString(),
+      });
+
+      await api
+        .get('/contacts')
+        .expect(200)
+        .expect((res) => {
+          const emails = res.body.map((contact: any) => contact.email);
+          expect(emails).toContain('omar.reyes@example.com');
+          expect(emails).not.toContain('nora.quinn@example.com');
+        });
+
+      await api
+        .post(`/drafts/${draft.id}/send`)
+        .send({ version: 1 })
+        .expect(200);
+
+      return api
+        .get('/contacts')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.map((contact: any) => contact.email)).toContain(
+            'nora.quinn@example.com',
+          );
+        });
+    });
+
+    it('should not share contacts between users', async () => {
+      const other = await TestHelpers.authenticatedAgent(
+        app,
+        AuthFixtures.otherUser,
+      );
+
+      return other.get('/contacts').expect(200).expect([]);
+    });
+  });
+
+  describe('/contacts (POST)', () => {
+    it('should create a contact and return 201', () => {
+      return api
+        .post('/contacts')
+        .send({ name: 'Zoe Park', email: 'Zoe.Park@example.com' })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body).toMatchObject({
+            name: 'Zoe Park',
+            email: 'zoe.park@example.com',
+            harvested: false,
+          });
+        });
+    });
+
+    it('should return 409 for an email already in the contacts', () => {
+      return api
+        .post('/contacts')
+        .send({ name: 'Alex', email: 'ALEX.SMITH@example.com' })
+        .expect(409);
+    });
+
+    it('should return 400 for an invalid email', () => {
+      return api
+        .post('/contacts')
+        .send({ name: 'Nobody', email: 'nobody' })
+        .expect(400);
+    });
+  });
+
+  describe('/contacts/:id (GET, PATCH, DELETE)', () => {
+    it('should update then delete a contact', async () => {
+      const { body: created } = await api
+        .post('/contacts')
+        .send({ name: 'Temp', email: 'temp@example.com' })
+        .expect(201);
+
+      await api
+        .patch(`/contacts/${created.id}`)
+        .send({ location: 'Oslo' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.location).toBe('Oslo');
+        });
+      await api.delete(`/contacts/${created.id}`).expect(204);
+      return api.get(`/contacts/${created.id}`).expect(404);
+    });
+
+    it('should return 404 for a contact of another user', async () => {
+      const other = await TestHelpers.authenticatedAgent(
+        app,
+        AuthFixtures.otherUser,
+      );
+
+      return other.get('/contacts/1').expect(404);
+    });
+  });
+
+  describe('/contacts/suggest (GET)', () => {
+    it('should rank suggestions by mails exchanged', () => {
+      return api
+        .get('/contacts/suggest')
+        .query({ q: 'example.com', take: '5' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.length).toBeLessThanOrEqual(5);
+          const counts = res.body.map(
+            (contact: any) => contact.correspondenceCount,
+          );
+          expect(counts).toEqual([...counts].sort((a, b) => b - a));
+          expect(counts[0]).toBeGreaterThan(0);
+        });
+    });
+
+    it('should return 400 for a negative take', () => {
+      return api
+        .get('/contacts/suggest')
+        .query({ q: 'example.com', take: '-5' })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain('Invalid take');
+        });
+    });
+
+    it('should return 400 without query', () => {
+      return api.get('/contacts/suggest').expect(400);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../../src/app.module';
+import { TestHelpers } from '../helpers/test-helpers';
+
+describe('Drafts (e2e)', () => {
+  let app: INestApplication;
+  let api: request.Agent;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+
+    await app.init();
+    api = await TestHelpers.authenticatedAgent(app);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const createDraft = async (body: object = {}) =>
+    (await api.post('/drafts').send(body).expect(201)).body;
+
+  describe('/drafts (POST, GET)', () => {
+    it('should create a draft and list it first', async () => {
+      const draft = await createDraft({ subject: 'Quarterly plan' });
+      expect(draft).toMatchObject({
+        folder: 'drafts',
+        subject: 'Quarterly plan',
+        version: 1,
+      });
+
+      return api
+        .get('/drafts')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.mails[0].id).toBe(draft.id);
+          res.body.mails.forEach((mail: any) => {
+            expect(mail.folder).toBe('drafts');
+          });
+        });
+    });
+
+    it('should keep drafts out of the default mail list and totals', async () => {
+      const { body: before } = await api.get('/mails/stats').expect(200);
+      const draft = await createDraft({ subject: 'Not listed' });
+
+      const { body: list } = await api.get('/mails?take=100').expect(200);
+      const { body: after } = await api.get('/mails/stats').expect(200);
+
+      expect(list.mails.map((mail: any) => mail.id)).not.toContain(draft.id);
+      expect(after.totalCount).toBe(before.totalCount);
+      expect(after.folders.drafts.totalCount).toBe(
+        before.folders.drafts.totalCount + 1,
+      );
+    });
+
+    it('should validate given fields with the mail creation rules', () => {
+      return api
+        .post('/drafts')
+        .send({ to: [{ email: 'not-an-email' }], subject: 'a'.repeat(256) })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toEqual(
+            expect.arrayContaining([
+              'to.0.recipient email must be a valid email',
+              'subject must be at most 255 characters',
+            ]),
+          );
+        });
+    });
+  });
+
+  describe('/drafts/:id (PUT)', () => {
+    it('should autosave with increasing versions', async () => {
+      const draft = await createDraft({ subject: 'Autosave' });
+
+      await api
+        .put(`/drafts/${draft.id}`)
+        .send({ version: 1, subject: 'Autosave', body: 'First words' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toMatchObject({ body: 'First words', version: 2 });
+        });
+
+      return api
+        .get(`/drafts/${draft.id}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.version).toBe(2);
+        });
+    });
+
+    it('should return 409 when another device saved first', async () => {
+      const draft = await createDraft({ subject: 'Shared' });
+      await api
+        .put(`/drafts/${draft.id}`)
+        .send({ version: 1, subject: 'From the laptop' })
+        .expect(200);
+
+      return api
+        .put(`/drafts/${draft.id}`)
+        .send({ version: 1, subject: 'From the phone' })
+        .expect(409)
+        .expect((res) => {
+          expect(res.body.version).toBe(2);
+        });
+    });
+
+    it('should not let the mail endpoints change a draft behind its version', async () => {
+      const draft = await createDraft({ subject: 'Versioned' });
+      const label = (
+        await api.post('/labels').send({ name: 'Draft label' }).expect(201)
+      ).body;
+
+      await api
+        .patch(`/mails/${draft.id}`)
+        .send({ unread: true })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toBe(
+            'Drafts are updated through the drafts API',
+          );
+        });
+      await api
+        .post('/mails/actions')
+        .send({ action: 'mark-unread', ids: [draft.id] })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results[0]).toMatchObject({ success: false });
+        });
+      await api
+        .post(`/labels/${label.id}/mails`)
+        .send({ ids: [draft.id] })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results[0]).toMatchObject({ success: false });
+        });
+
+      await api
+        .put(`/drafts/${draft.id}`)
+        .send({ version: 1, subject: 'Versioned' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.version).toBe(2);
+          expect(res.body.labelIds ?? []).toEqual([]);
+        });
+
+      await api.delete(`/labels/${label.id}`).expect(204);
+      return api
+        .put(`/drafts/${draft.id}`)
+        .send({ version: 1, subject: 'Stale' })
+        .expect(409);
+    });
+
+    it('should return 400 without version', async () => {
+      const draft = await createDraft();
+
+      return api
+        .put(`/drafts/${draft.id}`)
+        .send({ subject: 'No version' })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain('version must be an integer');
+        });
+    });
+
+    it('should return 404 for a mail that is not a draft', () => {
+      return api.put('/drafts/1').send({ version: 1 }).expect(404);
+    });
+  });
+
+  describe('/drafts/:id/send (POST)', () => {
+    it('should send the draft as a mail', async () => {
+      const draft = await createDraft({
+        to: [{ email: 'jordan.brown@example.com' }],
+        subject: 'Ready to go',
+        body: 'Hello',
+      });
+
+      await api
+        .post(`/drafts/${draft.id}/send`)
+        .send({ version: 1 })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toMatchObject({
+            id: draft.id,
+            folder: 'sent',
+            subject: 'Ready to go',
+          });
+          expect(res.body).not.toHaveProperty('version');
+        });
+
+      await api
+        .get(`/mails/${draft.id}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.folder).toBe('sent');
+        });
+
+      return api.get(`/drafts/${draft.id}`).expect(404);
+    });
+
+    it('should return 400 when the draft is not a valid mail', async () => {
+      const draft = await createDraft({ body: 'Missing everything' });
+
+      return api
+        .post(`/drafts/${draft.id}/send`)
+        .send({ version: 1 })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain(
+            'to must contain at least one recipient',
+          );
+        });
+    });
+  });
+
+  describe('/drafts/:id (DELETE)', () => {
+    it('should discard the draft', async () => {
+      const draft = await createDraft();
+
+      await api.delete(`/drafts/${draft.id}`).expect(204);
+
+      return api.get(`/drafts/${draft.id}`).expect(404);
+    });
+  });
+});
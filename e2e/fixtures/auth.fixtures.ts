@@ -0,0 +1,20 @@
+/**
+ * Test fixtures for authentication, matching the seed accounts
+ */
+export class AuthFixtures {
+  /**
+   * Owner of the seed mails
+   */
+  static readonly mailboxOwner = {
+    email: 'sam.lee@example.com',
+    password: 'changeme',
+  };
+
+  /**
+   * Seed account with an empty mailbox
+   */
+  static readonly otherUser = {
+    email: 'alex.smith@example.com',
+    password: 'changeme',
+  };
+}
@@ -1,6 +1,10 @@
 import { INestApplication } from '@nestjs/common';
+import * as request from 'supertest';
 import { MailsService } from '../../src/mails/mails.service';
 import { IMail } from '../../src/mails/interfaces/mail.interface';
+import { IUser } from '../../src/mails/interfaces/user.interface';
+import { IMailAttachment } from '../../src/mails/interfaces/mail-attachment.interface';
+import { AuthFixtures } from '../fixtures/auth.fixtures';
 
 /**
  * Helper class for e2e tests
@@ -13,7 +17,10 @@ export class TestHelpers {
   static expectPaginatedMailsResponse(response: any): void {
     expect(response.body).toHaveProperty('mails');
     expect(response.body).toHaveProperty('totalCount');
+    expect(response.body).toHaveProperty('nextCursor');
+    expect(response.body).toHaveProperty('hasMore');
     expect(Array.isArray(response.body.mails)).toBe(true);
+    expect(typeof response.body.hasMore).toBe('boolean');
     expect(typeof response.body.totalCount).toBe('number');
     expect(response.body.totalCount).toBeGreaterThanOrEqual(0);
   }
@@ -48,6 +55,29 @@ export class TestHelpers {
     expect(() => new Date(mail.date)).not.toThrow();
     expect(new Date(mail.date).toISOString()).toBe(mail.date);
 
+    // Validate optional recipient lists if present
+    ['to', 'cc', 'bcc', 'replyTo'].forEach((field) => {
+      if (mail.hasOwnProperty(field)) {
+        expect(Array.isArray(mail[field])).toBe(true);
+        mail[field].forEach((user: IUser) => {
+          expect(typeof user.name).toBe('string');
+          expect(user.email).toMatch(/^[^\s@]+@[^\s@]+\.[^\s@]+$/);
+        });
+      }
+    });
+
+    // Validate optional attachment metadata if present
+    if (mail.hasOwnProperty('attachments')) {
+      expect(Array.isArray(mail.attachments)).toBe(true);
+      mail.attachments?.forEach((attachment: IMailAttachment) => {
+        expect(typeof attachment.id).toBe('string');
+        expect(typeof attachment.filename).toBe('string');
+        expect(typeof attachment.contentType).toBe('string');
+        expect(typeof attachment.size).toBe('number');
+        expect(attachment.checksum).toMatch(/^[0-9a-f]{64}$/);
+      });
+    }
+
     // Validate optional unread field if present
     if (mail.hasOwnProperty('unread')) {
       expect(typeof mail.unread).toBe('boolean');
@@ -162,6 +192,40 @@ export class TestHelpers {
     return queryParts.length > 0 ? `?${queryParts.join('&')}` : '';
   }
 
+  /**
+   * Logs in through the API
+   * @param app - The NestJS application instance
+   * @param credentials - Email and password, the seed mailbox owner by default
+   * @returns Access token
+   */
+  static async login(
+    app: INestApplication,
+    credentials = AuthFixtures.mailboxOwner,
+  ): Promise<string> {
+    const response = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send(credentials)
+      .expect(200);
+    return response.body.accessToken;
+  }
+
+  /**
+   * Creates an agent sending a bearer token on every request, used like
+   * `request(app.getHttpServer())`
+   * @param app - The NestJS application instance
+   * @param credentials - Email and password, the seed mailbox owner by default
+   * @returns Authenticated agent
+   */
+  static async authenticatedAgent(
+    app: INestApplication,
+    credentials = AuthFixtures.mailboxOwner,
+  ): Promise<request.Agent> {
+    const accessToken = await TestHelpers.login(app, credentials);
+    return request
+      .agent(app.getHttpServer())
+      .auth(accessToken, { type: 'bearer' });
+  }
+
   /**
    * Gets the MailsService instance from the NestJS application
    * @param app - The NestJS application instance
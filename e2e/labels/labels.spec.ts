@@ -0,0 +1,199 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../../src/app.module';
+import { TestHelpers } from '../helpers/test-helpers';
+
+describe('Labels (e2e)', () => {
+  let app: INestApplication;
+  let api: request.Agent;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+
+    await app.init();
+    api = await TestHelpers.authenticatedAgent(app);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('/labels (GET, POST)', () => {
+    it('should list the seed labels', () => {
+      return api
+        .get('/labels')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.length).toBeGreaterThan(0);
+          res.body.forEach((label: any) => {
+            expect(typeof label.id).toBe('number');
+            expect(typeof label.name).toBe('string');
+            expect(label.color).toMatch(/^#[0-9a-f]{6}$/);
+          });
+        });
+    });
+
+    it('should create a label and return 201', async () => {
+      const response = await api
+        .post('/labels')
+        .send({ name: 'Roadmap', color: '#8E24AA' })
+        .expect(201);
+
+      expect(response.body).toMatchObject({
+        name: 'Roadmap',
+        color: '#8e24aa',
+      });
+
+      return api
+        .get(`/labels/${response.body.id}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toEqual(response.body);
+        });
+    });
+
+    it('should return 409 for a duplicated name', () => {
+      return api.post('/labels').send({ name: 'phoenix' }).expect(409);
+    });
+
+    it('should return 400 with validation messages for invalid labels', () => {
+      return api
+        .post('/labels')
+        .send({ name: '', color: 'blue' })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toEqual(
+            expect.arrayContaining([
+              'name must not be empty',
+              'color must be a hex color such as #1e88e5',
+            ]),
+          );
+        });
+    });
+    it('should return 400 for a blank name', () => {
+      return api
+        .post('/labels')
+        .send({ name: '   ' })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toEqual(['name must not be empty']);
+        });
+    });
+  });
+
+  describe('/labels/:id (PATCH, DELETE)', () => {
+    it('should rename a label', async () => {
+      const { body: label } = await api
+        .post('/labels')
+        .send({ name: 'Later' })
+        .expect(201);
+
+      return api
+        .patch(`/labels/${label.id}`)
+        .send({ name: 'Someday' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toEqual({ ...label, name: 'Someday' });
+        });
+    });
+
+    it('should return 400 when renaming to a blank name', async () => {
+      const { body: label } = await api
+        .post('/labels')
+        .send({ name: 'Blank' })
+        .expect(201);
+
+      return api
+        .patch(`/labels/${label.id}`)
+        .send({ name: ' \t ' })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toEqual(['name must not be empty']);
+        });
+    });
+
+    it('should delete a label and detach it from its mails', async () => {
+      const { body: label } = await api
+        .post('/labels')
+        .send({ name: 'Temporary' })
+        .expect(201);
+      await api
+        .post(`/labels/${label.id}/mails`)
+        .send({ ids: [1, 2] })
+        .expect(200);
+
+      await api.delete(`/labels/${label.id}`).expect(204);
+
+      await api.get(`/labels/${label.id}`).expect(404);
+
+      return api
+        .get('/mails/1')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.labelIds).not.toContain(label.id);
+        });
+    });
+
+    it('should return 404 when the label does not exist', () => {
+      return api.delete('/labels/999999').expect(404);
+    });
+  });
+
+  describe('/labels/:id/mails (POST, DELETE)', () => {
+    it('should add and remove a label on mails in bulk', async () => {
+      const { body: label } = await api
+        .post('/labels')
+        .send({ name: 'Follow-up' })
+        .expect(201);
+
+      await api
+        .post(`/labels/${label.id}/mails`)
+        .send({ ids: [3, 4, 999999] })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results).toEqual([
+            { id: 3, success: true },
+            { id: 4, success: true },
+            {
+              id: 999999,
+              success: false,
+              error: 'Mail with id 999999 not found',
+            },
+          ]);
+        });
+
+      await api
+        .get(`/mails?label=${label.id}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.mails.map((mail: any) => mail.id)).toEqual([3, 4]);
+        });
+
+      await api
+        .delete(`/labels/${label.id}/mails`)
+        .send({ ids: [3] })
+        .expect(200);
+
+      return api
+        .get(`/mails?label=${label.id}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.mails.map((mail: any) => mail.id)).toEqual([4]);
+        });
+    });
+
+    it('should return 400 when ids is empty', () => {
+      return api.post('/labels/1/mails').send({ ids: [] }).expect(400);
+    });
+
+    it('should return 400 for an invalid label filter', () => {
+      return api.get('/mails?label=abc').expect(400);
+    });
+  });
+});
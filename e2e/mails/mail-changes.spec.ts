@@ -0,0 +1,114 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../../src/app.module';
+import { TestHelpers } from '../helpers/test-helpers';
+
+describe('Mail changes (e2e)', () => {
+  let app: INestApplication;
+  let api: request.Agent;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+
+    await app.init();
+    api = await TestHelpers.authenticatedAgent(app);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const currentToken = async (): Promise<string> => {
+    const response = await api.get('/mails/changes').expect(200);
+    return response.body.token;
+  };
+
+  describe('/mails/changes (GET)', () => {
+    it('should return an empty delta and a token without since', () => {
+      return api
+        .get('/mails/changes')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toEqual({
+            created: [],
+            updated: [],
+            deleted: [],
+            mails: [],
+            token: expect.any(String),
+          });
+        });
+    });
+
+    it('should return the changes since the token', async () => {
+      const since = await currentToken();
+      await api.patch('/mails/1').send({ unread: false }).expect(200);
+      const { body: created } = await api
+        .post('/mails')
+        .send({
+          to: [{ email: 'alex.smith@example.com' }],
+          subject: 'Delta',
+          body: 'Hi',
+        })
+        .expect(201);
+
+      const response = await api
+        .get('/mails/changes')
+        .query({ since })
+        .expect(200);
+
+      expect(response.body.created).toEqual([created.id]);
+      expect(response.body.updated).toEqual([1]);
+      expect(response.body.deleted).toEqual([]);
+      expect(response.body.mails).toHaveLength(2);
+      response.body.mails.forEach((mail: any) =>
+        TestHelpers.expectValidMailStructure(mail),
+      );
+      expect(response.body.token).not.toBe(since);
+
+      return api
+        .get('/mails/changes')
+        .query({ since: response.body.token })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.created).toEqual([]);
+          expect(res.body.updated).toEqual([]);
+        });
+    });
+
+    it('should return 410 for a token of a previous change log', () => {
+      const since = Buffer.from(
+        JSON.stringify({ epoch: 'previous', changeId: 1 }),
+      ).toString('base64url');
+
+      return api
+        .get('/mails/changes')
+        .query({ since })
+        .expect(410)
+        .expect((res) => {
+          expect(res.body.message).toBe(
+            'Change token expired, resync required',
+          );
+        });
+    });
+
+    it('should return 400 for a malformed token', () => {
+      return api
+        .get('/mails/changes')
+        .query({ since: 'garbage' })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toBe('Invalid change token');
+        });
+    });
+
+    it('should return 401 without token', () => {
+      return request(app.getHttpServer()).get('/mails/changes').expect(401);
+    });
+  });
+});
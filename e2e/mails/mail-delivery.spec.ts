@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AddressInfo } from 'net';
+import { SMTPServer } from 'smtp-server';
+import { AppModule } from '../../src/app.module';
+import { MailDeliveryQueue } from '../../src/mails/delivery/mail-delivery.queue';
+import { TestHelpers } from '../helpers/test-helpers';
+
+/** Message received by the relay stand-in */
+interface IRelayedMessage {
+  from: string;
+  recipients: string[];
+  raw: string;
+}
+
+describe('Mail delivery (e2e)', () => {
+  let app: INestApplication;
+  let api: request.Agent;
+  let relay: SMTPServer;
+  let relayed: IRelayedMessage[];
+
+  beforeAll(async () => {
+    // Local relay: refuses bounce@ for good and later@ for now
+    relay = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['AUTH', 'STARTTLS'],
+      logger: false,
+      onRcptTo: ({ address }, session, callback) => {
+        const codes: Record<string, number> = {
+          'bounce@example.com': 550,
+          'later@example.com': 451,
+        };
+        callback(
+          codes[address]
+            ? Object.assign(new Error(`Refused ${address}`), {
+                responseCode: codes[address],
+              })
+            : undefined,
+        );
+      },
+      onData: (stream, session, callback) => {
+        const chunks: Buffer[] = [];
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('end', () => {
+          relayed.push({
+            from: session.envelope.mailFrom
+              ? session.envelope.mailFrom.address
+              : '',
+            recipients: session.envelope.rcptTo.map(({ address }) => address),
+            raw: Buffer.concat(chunks).toString(),
+          });
+          callback();
+        });
+      },
+    });
+    await new Promise<void>((resolve) => relay.listen(0, '127.0.0.1', resolve));
+    const { port } = relay.server.address() as AddressInfo;
+    process.env.MAIL_RELAY_URL = `smtp://127.0.0.1:${port}?ignoreTLS=true`;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+
+    await app.init();
+    api = await TestHelpers.authenticatedAgent(app);
+  });
+
+  beforeEach(() => {
+    relayed = [];
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await new Promise<void>((resolve) => relay.close(resolve));
+    delete process.env.MAIL_RELAY_URL;
+  });
+
+  const send = async (to: string) => {
+    const response = await api
+      .post('/mails')
+      .send({
+        to: [{ email: to }],
+        bcc: [{ email: 'hidden@example.com' }],
+        subject: 'Relayed',
+        body: 'Hello',
+      })
+      .expect(201);
+    expect(response.body.delivery).toEqual({ status: 'queued', attempts: 0 });
+    await app.get(MailDeliveryQueue).processQueue();
+    return (await api.get(`/mails/${response.body.id}`).expect(200)).body;
+  };
+
+  it('should deliver a sent mail to the relay', async () => {
+    const mail = await send('alex.smith@example.com');
+
+    expect(mail.delivery).toEqual({
+      status: 'sent',
+      attempts: 1,
+      sentAt: expect.any(String),
+    });
+    expect(relayed).toHaveLength(1);
+    expect(relayed[0].from).toBe('sam.lee@example.com');
+    expect(relayed[0].recipients).toEqual([
+      'alex.smith@example.com',
+      'hidden@example.com',
+    ]);
+    expect(relayed[0].raw).toContain('Subject: Relayed');
+    expect(relayed[0].raw).not.toContain('hidden@example.com');
+  });
+
+  it('should bounce a recipient permanently refused by the relay', async () => {
+    const mail = await send('bounce@example.com');
+
+    expect(mail.delivery).toMatchObject({
+      status: 'bounced',
+      attempts: 1,
+      bouncedRecipients: ['bounce@example.com'],
+    });
+    expect(mail.delivery.lastError).toContain('Refused bounce@example.com');
+    expect(relayed.map((message) => message.recipients)).toEqual([
+      ['hidden@example.com'],
+    ]);
+  });
+
+  it('should defer a recipient temporarily refused by the relay', async () => {
+    const mail = await send('later@example.com');
+
+    expect(mail.delivery).toMatchObject({
+      status: 'deferred',
+      attempts: 1,
+      pendingRecipients: ['later@example.com'],
+    });
+    expect(new Date(mail.delivery.nextAttemptAt).getTime()).toBeGreaterThan(
+      Date.now(),
+    );
+    expect(await app.get(MailDeliveryQueue).processQueue()).toBe(0);
+  });
+});
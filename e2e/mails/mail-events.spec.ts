@@ -0,0 +1,330 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { get, IncomingHttpHeaders, ClientRequest } from 'http';
+import { AddressInfo } from 'net';
+import { io, Socket } from 'socket.io-client';
+import { AppModule } from '../../src/app.module';
+import { TestHelpers } from '../helpers/test-helpers';
+import { AuthFixtures } from '../fixtures/auth.fixtures';
+
+interface IServerSentEvent {
+  id: string;
+  event: string;
+  data: any;
+}
+
+/**
+ * Opens a Server-Sent Events stream and collects its events
+ */
+class EventStream {
+  readonly events: IServerSentEvent[] = [];
+  status?: number;
+  private readonly request: ClientRequest;
+  private buffer = '';
+  private waiters: Array<() => void> = [];
+
+  private constructor(url: string, headers: IncomingHttpHeaders = {}) {
+    this.request = get(url, { headers }, (res) => {
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => this.parse(chunk));
+      this.status = res.statusCode;
+      this.notify();
+    });
+    this.request.on('error', () => undefined);
+  }
+
+  static async open(
+    url: string,
+    headers?: IncomingHttpHeaders,
+  ): Promise<EventStream> {
+    const stream = new EventStream(url, headers);
+    await stream.until(() => stream.status !== undefined);
+    return stream;
+  }
+
+  /** Resolves with the first `count` events once received */
+  async take(count: number): Promise<IServerSentEvent[]> {
+    await this.until(() => this.events.length >= count);
+    return this.events.slice(0, count);
+  }
+
+  close(): void {
+    this.request.destroy();
+  }
+
+  private until(condition: () => boolean): Promise<void> {
+    return new Promise((resolve) => {
+      const check = () => {
+        if (condition()) {
+          resolve();
+        } else {
+          this.waiters.push(check);
+        }
+      };
+      check();
+    });
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((waiter) => waiter());
+  }
+
+  private parse(chunk: string): void {
+    this.buffer += chunk;
+    const blocks = this.buffer.split('\n\n');
+    this.buffer = blocks.pop()!;
+    blocks.forEach((block) => {
+      const fields: Record<string, string> = {};
+      block.split('\n').forEach((line) => {
+        const separator = line.indexOf(': ');
+        if (separator > 0) {
+          fields[line.slice(0, separator)] = line.slice(separator + 2);
+        }
+      });
+      if (fields.data !== undefined) {
+        this.events.push({
+          id: fields.id,
+          event: fields.event,
+          data: JSON.parse(fields.data),
+        });
+      }
+    });
+    this.notify();
+  }
+}
+
+/** Resolves with the payload of the next `event` emitted to the socket */
+function nextEvent<T = any>(socket: Socket, event: string): Promise<T> {
+  return new Promise((resolve) => socket.once(event, resolve));
+}
+
+describe('Mail events (e2e)', () => {
+  let app: INestApplication;
+  let api: request.Agent;
+  let baseUrl: string;
+  let accessToken: string;
+  const streams: EventStream[] = [];
+  const sockets: Socket[] = [];
+
+  const openStream = async (
+    headers?: IncomingHttpHeaders,
+    token = accessToken,
+  ) => {
+    const stream = await EventStream.open(
+      `${baseUrl}/mails/events?access_token=${token}`,
+      headers,
+    );
+    streams.push(stream);
+    return stream;
+  };
+
+  const connect = (token?: string) => {
+    const socket = io(`${baseUrl}/mails`, {
+      auth: token === undefined ? {} : { token },
+      transports: ['websocket'],
+      reconnection: false,
+    });
+    sockets.push(socket);
+    return socket;
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+
+    await app.listen(0, '127.0.0.1');
+    const { port } = app.getHttpServer().address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+    accessToken = await TestHelpers.login(app);
+    api = await TestHelpers.authenticatedAgent(app);
+  });
+
+  afterEach(() => {
+    streams.splice(0).forEach((stream) => stream.close());
+    sockets.splice(0).forEach((socket) => socket.disconnect());
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('/mails/events (SSE)', () => {
+    it('should return 401 without token', () => {
+      return request(app.getHttpServer()).get('/mails/events').expect(401);
+    });
+
+    it('should push the created mails of the mailbox', async () => {
+      const stream = await openStream();
+      expect(stream.status).toBe(200);
+
+      const { body: mail } = await api
+        .post('/mails')
+        .send({
+          to: [{ email: 'alex.smith@example.com' }],
+          subject: 'Live',
+          body: 'Hi',
+        })
+        .expect(201);
+
+      const [event] = await stream.take(1);
+      expect(event.event).toBe('mail.created');
+      expect(event.id).toMatch(new RegExp(`:${event.data.id}$`));
+      expect(event.data).toMatchObject({
+        type: 'mail.created',
+        mailId: mail.id,
+        folders: ['sent'],
+        mail: { subject: 'Live' },
+      });
+    });
+
+    it('should replay the missed events with Last-Event-ID', async () => {
+      const stream = await openStream();
+      await api.patch('/mails/1').send({ unread: false }).expect(200);
+      await api.patch('/mails/2').send({ unread: false }).expect(200);
+      const [first, second] = await stream.take(2);
+      stream.close();
+
+      const resumed = await openStream({ 'last-event-id': first.id });
+      const [replayed] = await resumed.take(1);
+
+      expect(replayed).toEqual(second);
+      expect(replayed.data).toMatchObject({
+        type: 'mail.updated',
+        mailId: 2,
+        changes: { unread: false },
+      });
+    });
+
+    it('should send a reset when the missed events cannot be replayed', async () => {
+      const stream = await openStream({
+        'last-event-id': 'previous-epoch:1',
+      });
+
+      const [event] = await stream.take(1);
+      expect(event.event).toBe('mailbox.reset');
+      expect(event.data).toMatchObject({ type: 'mailbox.reset' });
+      expect(event.data).not.toHaveProperty('mailId');
+
+      await api.patch('/mails/1').send({ unread: false }).expect(200);
+      const [, next] = await stream.take(2);
+      expect(next.data).toMatchObject({ type: 'mail.updated', mailId: 1 });
+    });
+
+    it('should not push the events of other mailboxes', async () => {
+      const otherToken = await TestHelpers.login(app, AuthFixtures.otherUser);
+      const other = await TestHelpers.authenticatedAgent(
+        app,
+        AuthFixtures.otherUser,
+      );
+      const stream = await openStream(undefined, otherToken);
+
+      await api.patch('/mails/1').send({ unread: true }).expect(200);
+      await other
+        .post('/mails')
+        .send({
+          to: [{ email: 'sam.lee@example.com' }],
+          subject: 'Mine',
+          body: 'Hi',
+        })
+        .expect(201);
+
+      const [event] = await stream.take(1);
+      expect(event.data.mail).toMatchObject({
+        subject: 'Mine',
+        from: { email: 'alex.smith@example.com' },
+      });
+    });
+  });
+
+  describe('/mails (WebSocket)', () => {
+    it('should refuse sockets without a valid token', async () => {
+      const error = await nextEvent<Error>(connect(), 'connect_error');
+      expect(error.message).toBe('Missing bearer token');
+
+      const invalid = await nextEvent<Error>(
+        connect('invalid'),
+        'connect_error',
+      );
+      expect(invalid.message).toBe('Invalid or expired token');
+    });
+
+    it('should broadcast the changes of the mailbox', async () => {
+      const socket = connect(accessToken);
+      await nextEvent(socket, 'connect');
+
+      const received = nextEvent(socket, 'mail.created');
+      const { body: mail } = await api
+        .post('/mails')
+        .send({
+          to: [{ email: 'alex.smith@example.com' }],
+          subject: 'Socket',
+          body: 'Hi',
+        })
+        .expect(201);
+
+      expect(await received).toMatchObject({
+        type: 'mail.created',
+        mailId: mail.id,
+        mail: { subject: 'Socket' },
+      });
+    });
+
+    it('should only send the changes of the subscribed folders', async () => {
+      const socket = connect(accessToken);
+      await nextEvent(socket, 'connect');
+      const ack = await socket.emitWithAck('subscribe', { folders: ['trash'] });
+      expect(ack).toEqual({ folders: ['trash'] });
+
+      const received = nextEvent(socket, 'mail.updated');
+      await api.patch('/mails/2').send({ unread: true }).expect(200);
+      await api.post('/mails/3/move').send({ folder: 'trash' }).expect(200);
+
+      expect(await received).toMatchObject({
+        mailId: 3,
+        folders: ['inbox', 'trash'],
+        mail: { folder: 'trash' },
+      });
+    });
+
+    it('should mark a mail and acknowledge with the updated mail', async () => {
+      const socket = connect(accessToken);
+      await nextEvent(socket, 'connect');
+
+      const updated = nextEvent(socket, 'mail.updated');
+      const ack = await socket.emitWithAck('mail.mark', {
+        id: 4,
+        unread: false,
+      });
+
+      expect(ack).toMatchObject({ id: 4, unread: false });
+      expect(await updated).toMatchObject({
+        mailId: 4,
+        changes: { unread: false },
+      });
+    });
+
+    it('should report invalid and failed acknowledgements', async () => {
+      const socket = connect(accessToken);
+      await nextEvent(socket, 'connect');
+
+      const invalid = nextEvent(socket, 'exception');
+      socket.emit('mail.mark', { id: 'one', unread: false });
+      expect(await invalid).toMatchObject({ statusCode: 400 });
+
+      const missing = nextEvent(socket, 'exception');
+      socket.emit('mail.mark', { id: 9999, unread: false });
+      expect(await missing).toEqual({
+        statusCode: 404,
+        message: 'Mail with id 9999 not found',
+        error: 'Not Found',
+      });
+    });
+  });
+});
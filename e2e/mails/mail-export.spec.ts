@@ -0,0 +1,117 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../../src/app.module';
+import { parseMimeMessage } from '../../src/mails/import/mime-message.parser';
+import { splitMbox } from '../../src/mails/import/mbox';
+import { TestHelpers } from '../helpers/test-helpers';
+
+describe('Mail export (e2e)', () => {
+  let app: INestApplication;
+  let api: request.Agent;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+
+    await app.init();
+    api = await TestHelpers.authenticatedAgent(app);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  /** Buffer the raw response body, whatever its content type */
+  const download = (req: request.Test) =>
+    req.buffer(true).parse((res, callback) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => callback(null, Buffer.concat(chunks)));
+    });
+
+  describe('/mails/:id/raw (GET)', () => {
+    it('should export a mail as an .eml file', async () => {
+      const { body: mail } = await api.get('/mails/2').expect(200);
+
+      const response = await download(api.get('/mails/2/raw'))
+        .expect(200)
+        .expect('Content-Type', 'message/rfc822')
+        .expect('Content-Disposition', 'attachment; filename="2.eml"');
+
+      const parsed = await parseMimeMessage(response.body);
+      expect(parsed.mail.subject).toBe(mail.subject);
+      expect(parsed.mail.body).toBe(mail.body.trim());
+      expect(parsed.mail.from.email).toBe(mail.from.email);
+      // The Date header has a precision of one second
+      expect(parsed.mail.date.slice(0, 19)).toBe(mail.date.slice(0, 19));
+    });
+
+    it('should return 404 for an unknown mail', () => {
+      return api.get('/mails/999999/raw').expect(404);
+    });
+
+    it('should return 401 without token', () => {
+      return request(app.getHttpServer()).get('/mails/2/raw').expect(401);
+    });
+  });
+
+  describe('/mails/export (GET)', () => {
+    it('should export a folder as an mbox archive', async () => {
+      const { body: sent } = await api
+        .get('/mails?folder=sent&take=100')
+        .expect(200);
+
+      const response = await download(api.get('/mails/export?folder=sent'))
+        .expect(200)
+        .expect('Content-Type', 'application/mbox')
+        .expect('Content-Disposition', 'attachment; filename="sent.mbox"');
+
+      const messages = splitMbox(response.body);
+      expect(messages).toHaveLength(sent.totalCount);
+      const subjects = await Promise.all(
+        messages.map(async (raw) => (await parseMimeMessage(raw)).mail.subject),
+      );
+      expect(subjects.sort()).toEqual(
+        sent.mails.map((mail: any) => mail.subject).sort(),
+      );
+    });
+
+    it('should export a zip archive with the attachments', async () => {
+      const { body: mail } = await api
+        .post('/mails')
+        .field('to[0][email]', 'alex.smith@example.com')
+        .field('subject', 'Zipped')
+        .field('body', 'See attached')
+        .attach('attachments', Buffer.from('hello world'), 'deck.txt')
+        .expect(201);
+
+      const response = await download(
+        api.get('/mails/export?format=zip&folder=sent'),
+      )
+        .expect(200)
+        .expect('Content-Type', 'application/zip')
+        .expect('Content-Disposition', 'attachment; filename="sent.zip"');
+
+      const archive: Buffer = response.body;
+      expect(archive.subarray(0, 4)).toEqual(Buffer.from('PK\x03\x04'));
+      expect(archive.toString('latin1')).toContain(`sent/${mail.id}.eml`);
+      expect(archive.toString('latin1')).toContain(`sent/${mail.id}/deck.txt`);
+    });
+
+    it('should return 400 for an unknown format', () => {
+      return api
+        .get('/mails/export?format=pst')
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain(
+            'format must be one of: mbox, zip',
+          );
+        });
+    });
+  });
+});
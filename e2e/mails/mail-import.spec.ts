@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../../src/app.module';
+import { TestHelpers } from '../helpers/test-helpers';
+
+describe('Mail import (e2e)', () => {
+  let app: INestApplication;
+  let api: request.Agent;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+
+    await app.init();
+    api = await TestHelpers.authenticatedAgent(app);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const eml = [
+    'From: "Alice Martin" <alice.martin@example.com>',
+    'To: Sam Lee <sam.lee@example.com>',
+    'Subject: =?UTF-8?Q?Caf=C3=A9_tomorrow?=',
+    'Date: Mon, 01 Jan 2024 10:00:00 +0000',
+    'Message-ID: <import-1@example.com>',
+    'MIME-Version: 1.0',
+    'Content-Type: multipart/mixed; boundary="part"',
+    '',
+    '--part',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    'See you there.',
+    '--part',
+    'Content-Type: text/plain',
+    'Content-Disposition: attachment; filename="map.txt"',
+    'Content-Transfer-Encoding: base64',
+    '',
+    'aGVsbG8gd29ybGQ=',
+    '--part--',
+  ].join('\r\n');
+
+  const mbox = [
+    'From sam.lee@example.com Tue Jan  2 00:00:00 2024',
+    'From: Sam Lee <sam.lee@example.com>',
+    'To: alice.martin@example.com',
+    'Subject: Archived',
+    '',
+    '>From the archive',
+    '',
+    'From nobody Wed Jan  3 00:00:00 2024',
+    'Subject: No sender',
+    '',
+    'Lost',
+    '',
+  ].join('\n');
+
+  describe('/mails/import (POST)', () => {
+    it('should import an .eml file with its attachments', async () => {
+      const response = await api
+        .post('/mails/import')
+        .attach('files', Buffer.from(eml), 'cafe.eml')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        importedCount: 1,
+        failedCount: 0,
+        results: [
+          { source: 'cafe.eml', success: true, id: expect.any(Number) },
+        ],
+      });
+
+      return api
+        .get(`/mails/${response.body.results[0].id}`)
+        .expect(200)
+        .expect((res) => {
+          TestHelpers.expectValidMailStructure(res.body);
+          expect(res.body.subject).toBe('Café tomorrow');
+          expect(res.body.body).toBe('See you there.');
+          expect(res.body.folder).toBeUndefined();
+          expect(res.body.attachments).toMatchObject([
+            { filename: 'map.txt', size: 11 },
+          ]);
+        });
+    });
+
+    it('should report each message of an mbox archive', async () => {
+      const response = await api
+        .post('/mails/import')
+        .attach('files', Buffer.from(mbox), 'archive.mbox')
+        .expect(200);
+
+      expect(response.body).toEqual({
+        importedCount: 1,
+        failedCount: 1,
+        results: [
+          { source: 'archive.mbox#1', success: true, id: expect.any(Number) },
+          {
+            source: 'archive.mbox#2',
+            success: false,
+            error: 'Missing From header',
+          },
+        ],
+      });
+
+      return api
+        .get(`/mails/${response.body.results[0].id}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.folder).toBe('sent');
+          expect(res.body.body).toBe('From the archive');
+        });
+    });
+
+    it('should return 400 without file', () => {
+      return api.post('/mails/import').expect(400);
+    });
+
+    it('should return 401 without token', () => {
+      return request(app.getHttpServer())
+        .post('/mails/import')
+        .attach('files', Buffer.from(eml), 'cafe.eml')
+        .expect(401);
+    });
+  });
+});
@@ -3,11 +3,13 @@ import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
 import { AppModule } from '../../src/app.module';
 import { MailsService } from '../../src/mails/mails.service';
+import { mailboxOwner } from '../../src/mails/mailbox-owner';
 import { TestHelpers } from '../helpers/test-helpers';
 import { MailFixtures } from '../fixtures/mail.fixtures';
 
 describe('Mails (e2e) - Simplified', () => {
   let app: INestApplication;
+  let api: request.Agent;
   let mailsService: MailsService;
 
   beforeAll(async () => {
@@ -20,6 +22,7 @@ describe('Mails (e2e) - Simplified', () => {
     mailsService = TestHelpers.getMailsService(app);
 
     await app.init();
+    api = await TestHelpers.authenticatedAgent(app);
   });
 
   afterAll(async () => {
@@ -29,7 +32,7 @@ describe('Mails (e2e) - Simplified', () => {
   describe('/mails (GET)', () => {
     describe('Success Cases', () => {
       it('should return paginated mails with default parameters', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails')
           .expect(200)
           .expect((res) => {
@@ -45,7 +48,7 @@ describe('Mails (e2e) - Simplified', () => {
           it(`should handle pagination: ${description}`, () => {
             const queryString = TestHelpers.buildQueryString({ take, skip });
 
-            return request(app.getHttpServer())
+            return api
               .get(`/mails${queryString}`)
               .expect(200)
               .expect((res) => {
@@ -61,7 +64,7 @@ describe('Mails (e2e) - Simplified', () => {
       );
 
       it('should return mails with correct structure', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=3')
           .expect(200)
           .expect((res) => {
@@ -76,13 +79,9 @@ describe('Mails (e2e) - Simplified', () => {
       });
 
       it('should maintain consistent totalCount across different requests', async () => {
-        const response1 = await request(app.getHttpServer())
-          .get('/mails?take=5&skip=0')
-          .expect(200);
+        const response1 = await api.get('/mails?take=5&skip=0').expect(200);
 
-        const response2 = await request(app.getHttpServer())
-          .get('/mails?take=10&skip=5')
-          .expect(200);
+        const response2 = await api.get('/mails?take=10&skip=5').expect(200);
 
         TestHelpers.expectConsistentTotalCount(response1, response2);
       });
@@ -95,7 +94,7 @@ describe('Mails (e2e) - Simplified', () => {
         it(`should handle ${description}`, () => {
           const queryString = TestHelpers.buildQueryString({ take, skip });
 
-          return request(app.getHttpServer())
+          return api
             .get(`/mails${queryString}`)
             .expect(expectedStatus)
             .expect((res) => {
@@ -132,7 +131,7 @@ describe('Mails (e2e) - Simplified', () => {
       });
 
       it('should handle unknown query parameters gracefully', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?unknown=value&invalid=param&take=5')
           .expect(200)
           .expect((res) => {
@@ -144,7 +143,7 @@ describe('Mails (e2e) - Simplified', () => {
 
     describe('Edge Cases and Performance', () => {
       it('should handle large pagination values', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=1000&skip=0')
           .expect(200)
           .expect((res) => {
@@ -156,7 +155,7 @@ describe('Mails (e2e) - Simplified', () => {
       });
 
       it('should handle skip beyond available data', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=10&skip=10000')
           .expect(200)
           .expect((res) => {
@@ -167,7 +166,7 @@ describe('Mails (e2e) - Simplified', () => {
       });
 
       it('should return correct HTTP headers', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails')
           .expect(200)
           .expect('Content-Type', /json/)
@@ -185,11 +184,12 @@ describe('Mails (e2e) - Simplified', () => {
 
       it('should return consistent results between service and HTTP calls', async () => {
         const serviceParams = { take: '5', skip: '2' };
-        const serviceResult = mailsService.getMailPaginated(serviceParams);
+        const serviceResult = mailsService.getMailPaginated(
+          mailboxOwner,
+          serviceParams,
+        );
 
-        const httpResponse = await request(app.getHttpServer())
-          .get('/mails?take=5&skip=2')
-          .expect(200);
+        const httpResponse = await api.get('/mails?take=5&skip=2').expect(200);
 
         expect(httpResponse.body.mails).toEqual(serviceResult.mails);
         expect(httpResponse.body.totalCount).toBe(serviceResult.totalCount);
@@ -198,7 +198,7 @@ describe('Mails (e2e) - Simplified', () => {
 
     describe('Data Quality', () => {
       it('should return valid email addresses', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=10')
           .expect(200)
           .expect((res) => {
@@ -209,7 +209,7 @@ describe('Mails (e2e) - Simplified', () => {
       });
 
       it('should return valid ISO date strings', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=5')
           .expect(200)
           .expect((res) => {
@@ -221,7 +221,7 @@ describe('Mails (e2e) - Simplified', () => {
       });
 
       it('should have non-empty required fields', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=10')
           .expect(200)
           .expect((res) => {
@@ -3,11 +3,15 @@ import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
 import { AppModule } from '../../src/app.module';
 import { MailsService } from '../../src/mails/mails.service';
+import { AttachmentStorage } from '../../src/mails/attachments/attachment.storage';
+import { mailboxOwner } from '../../src/mails/mailbox-owner';
+import { MailFolder } from '../../src/mails/interfaces/mail-folder.enum';
 import { TestHelpers, ResponseHelpers } from '../helpers/test-helpers';
 import { MailFixtures } from '../fixtures/mail.fixtures';
 
 describe('Mails (e2e)', () => {
   let app: INestApplication;
+  let api: request.Agent;
   let mailsService: MailsService;
 
   beforeAll(async () => {
@@ -20,6 +24,7 @@ describe('Mails (e2e)', () => {
     mailsService = app.get<MailsService>(MailsService);
 
     await app.init();
+    api = await TestHelpers.authenticatedAgent(app);
   });
 
   afterAll(async () => {
@@ -29,7 +34,7 @@ describe('Mails (e2e)', () => {
   describe('/mails (GET)', () => {
     describe('Success cases', () => {
       it('should return paginated mails with default parameters', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails')
           .expect(200)
           .expect((res) => {
@@ -43,7 +48,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should return paginated mails with custom take parameter', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=5')
           .expect(200)
           .expect((res) => {
@@ -53,7 +58,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should return paginated mails with custom skip parameter', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?skip=2')
           .expect(200)
           .expect((res) => {
@@ -64,7 +69,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should return paginated mails with both take and skip parameters', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=3&skip=5')
           .expect(200)
           .expect((res) => {
@@ -74,7 +79,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should handle large skip values gracefully', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?skip=1000')
           .expect(200)
           .expect((res) => {
@@ -84,7 +89,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should return correct mail structure', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=1')
           .expect(200)
           .expect((res) => {
@@ -113,7 +118,7 @@ describe('Mails (e2e)', () => {
 
     describe('Validation and Error Handling', () => {
       it('should handle invalid take parameter (non-numeric)', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=invalid')
           .expect(400)
           .expect((res) => {
@@ -123,7 +128,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should handle invalid skip parameter (non-numeric)', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?skip=invalid')
           .expect(400)
           .expect((res) => {
@@ -133,7 +138,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should handle both invalid take and skip parameters', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=invalid&skip=invalid')
           .expect(400)
           .expect((res) => {
@@ -153,7 +158,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should handle negative take parameter', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=-1')
           .expect(400)
           .expect((res) => {
@@ -163,7 +168,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should handle negative skip parameter', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?skip=-1')
           .expect(400)
           .expect((res) => {
@@ -173,7 +178,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should handle zero take parameter', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=0')
           .expect(400)
           .expect((res) => {
@@ -183,7 +188,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should handle zero skip parameter', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?skip=0')
           .expect(200)
           .expect((res) => {
@@ -195,7 +200,7 @@ describe('Mails (e2e)', () => {
 
     describe('Performance and Limits', () => {
       it('should handle large take values', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=100')
           .expect(200)
           .expect((res) => {
@@ -209,7 +214,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should handle very large take values gracefully', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=10000')
           .expect(200)
           .expect((res) => {
@@ -221,13 +226,9 @@ describe('Mails (e2e)', () => {
       });
 
       it('should maintain consistent totalCount across different pagination parameters', async () => {
-        const response1 = await request(app.getHttpServer())
-          .get('/mails?take=5&skip=0')
-          .expect(200);
+        const response1 = await api.get('/mails?take=5&skip=0').expect(200);
 
-        const response2 = await request(app.getHttpServer())
-          .get('/mails?take=10&skip=5')
-          .expect(200);
+        const response2 = await api.get('/mails?take=10&skip=5').expect(200);
 
         expect(response1.body.totalCount).toBe(response2.body.totalCount);
       });
@@ -235,7 +236,7 @@ describe('Mails (e2e)', () => {
 
     describe('Edge Cases', () => {
       it('should handle empty query parameters', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?')
           .expect(200)
           .expect((res) => {
@@ -246,7 +247,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should handle unknown query parameters', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?unknown=value&take=5')
           .expect(200)
           .expect((res) => {
@@ -256,7 +257,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should handle decimal values in take parameter', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=5.5')
           .expect(200)
           .expect((res) => {
@@ -267,7 +268,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should handle decimal values in skip parameter', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?skip=2.7')
           .expect(200)
           .expect((res) => {
@@ -279,7 +280,7 @@ describe('Mails (e2e)', () => {
 
     describe('Data Integrity', () => {
       it('should return mails with all required fields', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=5')
           .expect(200)
           .expect((res) => {
@@ -309,7 +310,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should return mails with valid date format', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=3')
           .expect(200)
           .expect((res) => {
@@ -321,7 +322,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should return unique mail IDs', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=20')
           .expect(200)
           .expect((res) => {
@@ -332,7 +333,7 @@ describe('Mails (e2e)', () => {
       });
 
       it('should handle unread status correctly when present', () => {
-        return request(app.getHttpServer())
+        return api
           .get('/mails?take=20')
           .expect(200)
           .expect((res) => {
@@ -347,15 +348,970 @@ describe('Mails (e2e)', () => {
 
     describe('HTTP Headers and Status', () => {
       it('should return correct content-type header', () => {
-        return request(app.getHttpServer())
-          .get('/mails')
-          .expect(200)
-          .expect('Content-Type', /json/);
+        return api.get('/mails').expect(200).expect('Content-Type', /json/);
       });
 
       it('should handle HEAD request', () => {
-        return request(app.getHttpServer()).head('/mails').expect(200);
+        return api.head('/mails').expect(200);
+      });
+    });
+  });
+
+  describe('/mails (GET) with filters', () => {
+    it('should count only unread mails when unread=true', async () => {
+      const stats = await api.get('/mails/stats').expect(200);
+
+      return api
+        .get('/mails?unread=true&take=100')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.totalCount).toBe(stats.body.unreadCount);
+          res.body.mails.forEach((mail: any) => {
+            expect(mail.unread).toBe(true);
+          });
+        });
+    });
+
+    it('should filter by sender name or email', () => {
+      return api
+        .get('/mails?from=jordan')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.totalCount).toBeGreaterThan(0);
+          expect(res.body.totalCount).toBe(res.body.mails.length);
+          res.body.mails.forEach((mail: any) => {
+            expect(
+              `${mail.from.name} ${mail.from.email}`.toLowerCase(),
+            ).toContain('jordan');
+          });
+        });
+    });
+
+    it('should filter by date range', () => {
+      const after = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+      return api
+        .get(`/mails?after=${after}&take=100`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.totalCount).toBe(res.body.mails.length);
+          res.body.mails.forEach((mail: any) => {
+            expect(new Date(mail.date).getTime()).toBeGreaterThanOrEqual(
+              new Date(after).getTime(),
+            );
+          });
+        });
+    });
+
+    it('should filter by recipient', () => {
+      return api
+        .get('/mails?to=leadership@example.com')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.totalCount).toBeGreaterThan(0);
+          res.body.mails.forEach((mail: any) => {
+            expect(
+              [...mail.to, ...(mail.cc ?? [])].map((user: any) => user.email),
+            ).toContain('leadership@example.com');
+          });
+        });
+    });
+
+    it('should return 400 for invalid filter values', async () => {
+      await api
+        .get('/mails?unread=maybe')
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain('unread must be true or false');
+        });
+
+      return api
+        .get('/mails?before=yesterday')
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain('before must be an ISO 8601 date');
+        });
+    });
+  });
+
+  describe('/mails (GET) with sort', () => {
+    it('should sort by date descending by default', () => {
+      return api
+        .get('/mails?sort=date&take=100')
+        .expect(200)
+        .expect((res) => {
+          const dates = res.body.mails.map((mail: any) =>
+            new Date(mail.date).getTime(),
+          );
+          expect(dates).toEqual([...dates].sort((a, b) => b - a));
+        });
+    });
+
+    it('should sort by subject ascending', () => {
+      return api
+        .get('/mails?sort=subject&order=asc&take=100')
+        .expect(200)
+        .expect((res) => {
+          const subjects = res.body.mails.map((mail: any) =>
+            mail.subject.toLowerCase(),
+          );
+          expect(subjects).toEqual(
+            [...subjects].sort((a, b) => a.localeCompare(b)),
+          );
+        });
+    });
+
+    it('should return 400 for an invalid sort field or order', async () => {
+      await api
+        .get('/mails?sort=body')
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message[0]).toContain('sort must be one of');
+        });
+
+      return api.get('/mails?sort=date&order=random').expect(400);
+    });
+  });
+
+  describe('/mails (GET) with cursor', () => {
+    it('should walk every mail once by following nextCursor', async () => {
+      const all = await api.get('/mails?sort=date&take=100').expect(200);
+      const seenIds: number[] = [];
+
+      let page = await api.get('/mails?sort=date&take=6').expect(200);
+      seenIds.push(...page.body.mails.map((mail: any) => mail.id));
+
+      while (page.body.hasMore) {
+        expect(typeof page.body.nextCursor).toBe('string');
+        page = await api
+          .get(`/mails?take=6&cursor=${page.body.nextCursor}`)
+          .expect(200);
+        seenIds.push(...page.body.mails.map((mail: any) => mail.id));
+      }
+
+      expect(page.body.nextCursor).toBeNull();
+      expect(seenIds).toEqual(all.body.mails.map((mail: any) => mail.id));
+    });
+
+    it('should walk the default listing once by following nextCursor', async () => {
+      const all = await api.get('/mails?take=100').expect(200);
+      const seenIds: number[] = [];
+
+      let page = await api.get('/mails?take=6').expect(200);
+      seenIds.push(...page.body.mails.map((mail: any) => mail.id));
+
+      while (page.body.hasMore) {
+        expect(typeof page.body.nextCursor).toBe('string');
+        page = await api
+          .get(`/mails?take=6&cursor=${page.body.nextCursor}`)
+          .expect(200);
+        seenIds.push(...page.body.mails.map((mail: any) => mail.id));
+      }
+
+      expect(page.body.nextCursor).toBeNull();
+      expect(seenIds).toEqual(all.body.mails.map((mail: any) => mail.id));
+    });
+
+    it('should return 400 for a malformed cursor', () => {
+      return api
+        .get('/mails?cursor=garbage')
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toBe('Invalid cursor');
+        });
+    });
+  });
+
+  describe('/mails/search (GET)', () => {
+    it('should return ranked hits with highlights', () => {
+      return api
+        .get('/mails/search?q=sprint')
+        .expect(200)
+        .expect((res) => {
+          TestHelpers.expectPaginatedMailsResponse(res);
+          expect(res.body.totalCount).toBeGreaterThan(0);
+          const scores = res.body.mails.map((mail: any) => mail.score);
+          expect(scores).toEqual([...scores].sort((a, b) => b - a));
+          expect(res.body.mails[0].highlights.subject).toContain(
+            '<mark>Sprint</mark>',
+          );
+        });
+    });
+
+    it('should search the sender and recipients', () => {
+      return api
+        .get('/mails/search?q=jordan.brown@example.com')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.totalCount).toBeGreaterThan(0);
+          res.body.mails.forEach((mail: any) => {
+            const participants = [mail.from, ...mail.to, ...(mail.cc ?? [])];
+            expect(participants.map((user: any) => user.email)).toContain(
+              'jordan.brown@example.com',
+            );
+          });
+        });
+    });
+
+    it('should support operator queries', () => {
+      return api
+        .get('/mails/search?q=' + encodeURIComponent('from:jordan "sprint 3"'))
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.totalCount).toBeGreaterThan(0);
+          res.body.mails.forEach((mail: any) => {
+            expect(mail.from.name).toContain('Jordan');
+            expect(`${mail.subject} ${mail.body}`.toLowerCase()).toContain(
+              'sprint 3',
+            );
+          });
+        });
+    });
+
+    it('should return 400 pointing at an invalid operator', () => {
+      return api
+        .get('/mails/search?q=' + encodeURIComponent('sprint before:soon'))
+        .expect(400)
+        .expect((res) => {
+          expect(res.body).toMatchObject({
+            statusCode: 400,
+            token: 'before:soon',
+            position: 7,
+          });
+          expect(res.body.message).toContain('Invalid date');
+        });
+    });
+
+    it('should search a name that is not an operator as text', () => {
+      return api
+        .get('/mails/search?q=' + encodeURIComponent('constructor:x'))
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.totalCount).toBe(0);
+        });
+    });
+
+    it('should ignore punctuation only terms', async () => {
+      const budget = await api.get('/mails/search?q=budget').expect(200);
+
+      return api
+        .get('/mails/search?q=' + encodeURIComponent('budget ???'))
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.totalCount).toBe(budget.body.totalCount);
+        });
+    });
+
+    it('should return 400 when q is missing', () => {
+      return api
+        .get('/mails/search')
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain('q must not be empty');
+        });
+    });
+  });
+
+  describe('/mails/stats (GET)', () => {
+    it('should return counters consistent with the paginated list', async () => {
+      const listResponse = await api.get('/mails?take=100').expect(200);
+      const expectedUnreadCount = listResponse.body.mails.filter(
+        (mail: any) => mail.unread === true,
+      ).length;
+
+      return api
+        .get('/mails/stats')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toMatchObject({
+            totalCount: listResponse.body.totalCount,
+            unreadCount: expectedUnreadCount,
+          });
+        });
+    });
+
+    it('should count each folder as its paginated list', async () => {
+      const { body: stats } = await api.get('/mails/stats').expect(200);
+
+      for (const folder of Object.values(MailFolder)) {
+        const listResponse = await api
+          .get(`/mails?folder=${folder}&take=100`)
+          .expect(200);
+        expect(stats.folders[folder]).toEqual({
+          totalCount: listResponse.body.totalCount,
+          unreadCount: listResponse.body.mails.filter(
+            (mail: any) => mail.unread === true,
+          ).length,
+        });
+      }
+    });
+
+    it('should count the mails of each label', async () => {
+      const { body: label } = await api
+        .post('/labels')
+        .send({ name: 'Stats' })
+        .expect(201);
+      const { mails } = mailsService.getMailPaginated(mailboxOwner, {
+        take: '2',
+      });
+      await api
+        .post(`/labels/${label.id}/mails`)
+        .send({ ids: mails.map((mail) => mail.id) })
+        .expect(200);
+
+      const { body: stats } = await api.get('/mails/stats').expect(200);
+
+      expect(stats.labels[label.id]).toEqual({
+        totalCount: 2,
+        unreadCount: mails.filter((mail) => mail.unread === true).length,
+      });
+    });
+  });
+
+  describe('/mails/:id (GET)', () => {
+    it('should return the mail when it exists', () => {
+      const { mails } = mailsService.getMailPaginated(mailboxOwner, {
+        take: '1',
+      });
+      const expectedMail = mails[0];
+
+      return api
+        .get(`/mails/${expectedMail.id}`)
+        .expect(200)
+        .expect('Content-Type', /json/)
+        .expect((res) => {
+          TestHelpers.expectValidMailStructure(res.body);
+          expect(res.body).toEqual(expectedMail);
+        });
+    });
+
+    it('should return 404 when the mail does not exist', () => {
+      return api
+        .get('/mails/999999')
+        .expect(404)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('statusCode', 404);
+          expect(res.body).toHaveProperty('error', 'Not Found');
+          expect(res.body.message).toBe('Mail with id 999999 not found');
+        });
+    });
+
+    it('should return 400 when the id is not numeric', () => {
+      return api
+        .get('/mails/not-a-number')
+        .expect(400)
+        .expect((res) => {
+          ResponseHelpers.expectBadRequestResponse(res);
+          expect(res.body.message).toContain('numeric string is expected');
+        });
+    });
+
+    it('should return 400 when the id is a decimal number', () => {
+      return api.get('/mails/1.5').expect(400);
+    });
+  });
+
+  describe('/mails (POST)', () => {
+    const validMail = {
+      to: [{ name: 'Jordan Brown', email: 'jordan.brown@example.com' }],
+      subject: 'Sprint 4 kick-off',
+      body: 'Let us meet on Monday.',
+    };
+
+    it('should create the mail in the Sent folder and return 201', async () => {
+      const response = await api
+        .post('/mails')
+        .send(validMail)
+        .expect(201)
+        .expect('Content-Type', /json/);
+
+      TestHelpers.expectValidMailStructure(response.body);
+      expect(response.body).toMatchObject({
+        ...validMail,
+        folder: 'sent',
       });
+
+      return api
+        .get(`/mails/${response.body.id}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toEqual(response.body);
+        });
+    });
+
+    it('should return cc, bcc and replyTo to the sender', () => {
+      const recipients = {
+        cc: [{ name: 'Alex Smith', email: 'alex.smith@example.com' }],
+        bcc: [{ name: 'Taylor Green', email: 'taylor.green@example.com' }],
+        replyTo: [{ name: 'Sprint Team', email: 'sprint@example.com' }],
+      };
+
+      return api
+        .post('/mails')
+        .send({ ...validMail, ...recipients })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body).toMatchObject(recipients);
+        });
+    });
+
+    it('should ignore a client supplied id', async () => {
+      const response = await api
+        .post('/mails')
+        .send({ ...validMail, id: 1 })
+        .expect(201);
+
+      expect(response.body.id).not.toBe(1);
+    });
+
+    it('should return 400 with validation messages for invalid mails', () => {
+      return api
+        .post('/mails')
+        .send({
+          to: [{ email: 'not-an-email' }],
+          subject: '',
+          body: 42,
+        })
+        .expect(400)
+        .expect((res) => {
+          expect(Array.isArray(res.body.message)).toBe(true);
+          expect(res.body.message).toEqual(
+            expect.arrayContaining([
+              'to.0.recipient email must be a valid email',
+              'subject must not be empty',
+              'body must be a string',
+            ]),
+          );
+        });
+    });
+
+    it('should return 400 when there is no recipient', () => {
+      return api
+        .post('/mails')
+        .send({ ...validMail, to: [] })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain(
+            'to must contain at least one recipient',
+          );
+        });
+    });
+
+    it('should return 400 when the subject is too long', () => {
+      return api
+        .post('/mails')
+        .send({ ...validMail, subject: 'a'.repeat(256) })
+        .expect(400);
+    });
+  });
+
+  describe('Recipients', () => {
+    it('should return to and cc on received mails but hide bcc', async () => {
+      const { mails } = mailsService.getMailPaginated(mailboxOwner, {
+        take: '100',
+      });
+
+      mails.forEach((mail) => {
+        expect(Array.isArray(mail.to)).toBe(true);
+        if (mail.folder !== 'sent') {
+          expect(mail).not.toHaveProperty('bcc');
+        }
+      });
+
+      const bookClub = mails.find((mail) =>
+        mail.to!.some((user) => user.email === 'book-club@example.com'),
+      );
+      return api
+        .get(`/mails/${bookClub!.id}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).not.toHaveProperty('bcc');
+        });
+    });
+  });
+
+  describe('/mails/:id/reply (POST)', () => {
+    it('should reply to the sender in the same thread', async () => {
+      const original = mailsService.getMailById(mailboxOwner, 2);
+
+      const response = await api
+        .post('/mails/2/reply')
+        .send({ body: 'Great progress!' })
+        .expect(201);
+
+      TestHelpers.expectValidMailStructure(response.body);
+      expect(response.body).toMatchObject({
+        to: [{ name: original.from.name, email: original.from.email }],
+        subject: 'RE: Project Phoenix - Sprint 3 Update',
+        folder: 'sent',
+        inReplyTo: original.messageId,
+        references: [...original.references!, original.messageId],
+      });
+      expect(response.body.body).toContain('> Quick update on Sprint 3');
+
+      const threads = await api.get('/threads?take=100').expect(200);
+      const thread = threads.body.threads.find((candidate: any) =>
+        candidate.mailIds.includes(2),
+      );
+      expect(thread.mailIds).toEqual([2, response.body.id]);
+    });
+
+    it('should keep the other recipients on reply-all', () => {
+      return api
+        .post('/mails/2/reply-all')
+        .send({ body: 'Thanks all' })
+        .expect(201)
+        .expect((res) => {
+          const emails = (users: any[]) => users.map((user) => user.email);
+          expect(emails(res.body.to)).toEqual([
+            'jordan.brown@example.com',
+            'alex.smith@example.com',
+          ]);
+          expect(emails(res.body.cc)).toEqual(['morgan.white@example.com']);
+        });
+    });
+
+    it('should return 400 without body', () => {
+      return api
+        .post('/mails/2/reply')
+        .send({})
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain('body must be a string');
+        });
+    });
+
+    it('should return 404 when the mail does not exist', () => {
+      return api
+        .post('/mails/999999/reply-all')
+        .send({ body: 'Hello' })
+        .expect(404);
+    });
+  });
+
+  describe('/mails/:id/forward (POST)', () => {
+    it('should forward the mail with its headers', () => {
+      return api
+        .post('/mails/3/forward')
+        .send({ to: [{ email: 'alex.smith@example.com' }], body: 'FYI' })
+        .expect(201)
+        .expect((res) => {
+          TestHelpers.expectValidMailStructure(res.body);
+          expect(res.body.subject).toBe('FWD: Lunch Plans');
+          expect(res.body.to).toEqual([
+            { name: 'alex.smith@example.com', email: 'alex.smith@example.com' },
+          ]);
+          expect(res.body.body).toMatch(
+            /^FYI\n\n---------- Forwarded message ----------\nFrom: Taylor Green/,
+          );
+        });
+    });
+
+    it('should return 400 without recipient', () => {
+      return api.post('/mails/3/forward').send({ to: [] }).expect(400);
+    });
+  });
+
+  describe('/mails/:id/attachments/:attachmentId (GET)', () => {
+    const upload = () =>
+      api
+        .post('/mails')
+        .field('to[0][email]', 'alex.smith@example.com')
+        .field('subject', 'Preliminary deck')
+        .field('body', "I've attached the preliminary deck")
+        .attach('attachments', Buffer.from('hello world'), {
+          filename: 'deck.txt',
+          contentType: 'text/plain',
+        });
+
+    it('should create a mail with multipart attachments', () => {
+      return upload()
+        .expect(201)
+        .expect((res) => {
+          TestHelpers.expectValidMailStructure(res.body);
+          expect(res.body.to).toEqual([
+            { name: 'alex.smith@example.com', email: 'alex.smith@example.com' },
+          ]);
+          expect(res.body.attachments).toEqual([
+            {
+              id: expect.any(String),
+              filename: 'deck.txt',
+              contentType: 'text/plain',
+              size: 11,
+              checksum:
+                'b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9',
+            },
+          ]);
+        });
+    });
+
+    it('should filter mails by attachment presence', async () => {
+      const { body: mail } = await upload().expect(201);
+
+      const { body: withAttachments } = await api
+        .get('/mails?folder=sent&hasAttachments=true&take=100')
+        .expect(200);
+      const { body: withoutAttachments } = await api
+        .get('/mails?folder=sent&hasAttachments=false&take=100')
+        .expect(200);
+
+      expect(withAttachments.mails.map((sent: any) => sent.id)).toContain(
+        mail.id,
+      );
+      expect(withAttachments.totalCount).toBe(withAttachments.mails.length);
+      withAttachments.mails.forEach((sent: any) => {
+        expect(sent.attachments.length).toBeGreaterThan(0);
+      });
+      withoutAttachments.mails.forEach((sent: any) => {
+        expect(sent.attachments ?? []).toEqual([]);
+      });
+      await api
+        .get('/mails?hasAttachments=maybe')
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain(
+            'hasAttachments must be true or false',
+          );
+        });
+    });
+
+    it('should download the whole attachment', async () => {
+      const { body: mail } = await upload().expect(201);
+
+      return api
+        .get(`/mails/${mail.id}/attachments/${mail.attachments[0].id}`)
+        .expect(200)
+        .expect('Accept-Ranges', 'bytes')
+        .expect('Content-Type', /text\/plain/)
+        .expect('Content-Disposition', 'attachment; filename="deck.txt"')
+        .expect('Content-Length', '11')
+        .expect((res) => {
+          expect(res.text).toBe('hello world');
+        });
+    });
+
+    it('should download a byte range with 206', async () => {
+      const { body: mail } = await upload().expect(201);
+
+      return api
+        .get(`/mails/${mail.id}/attachments/${mail.attachments[0].id}`)
+        .set('Range', 'bytes=0-4')
+        .expect(206)
+        .expect('Content-Range', 'bytes 0-4/11')
+        .expect('Content-Length', '5')
+        .expect((res) => {
+          expect(res.text).toBe('hello');
+        });
+    });
+
+    it('should return 416 for a range past the content', async () => {
+      const { body: mail } = await upload().expect(201);
+
+      return api
+        .get(`/mails/${mail.id}/attachments/${mail.attachments[0].id}`)
+        .set('Range', 'bytes=100-')
+        .expect(416);
+    });
+
+    it('should return 500 when the stored content has been removed', async () => {
+      const { body: mail } = await upload().expect(201);
+      app.get(AttachmentStorage).delete(mail.attachments[0].id);
+
+      return api
+        .get(`/mails/${mail.id}/attachments/${mail.attachments[0].id}`)
+        .expect(500)
+        .expect('Content-Type', /json/)
+        .expect((res) => {
+          expect(res.body.message).toBe(
+            'Error reading attachment from storage',
+          );
+          expect(res.headers).not.toHaveProperty('content-disposition');
+        });
+    });
+
+    it('should return 404 for an unknown attachment', () => {
+      return api.get('/mails/1/attachments/unknown').expect(404);
+    });
+
+    it('should return 413 for a file above the size limit', () => {
+      return api
+        .post('/mails')
+        .field('to[0][email]', 'alex.smith@example.com')
+        .field('subject', 'Too large')
+        .field('body', '')
+        .attach('attachments', Buffer.alloc(10 * 1024 * 1024 + 1), 'big.bin')
+        .expect(413);
+    });
+  });
+
+  describe('Folders', () => {
+    it('should filter by folder and hide drafts, trash and spam by default', async () => {
+      const spam = await api.get('/mails?folder=spam&take=100').expect(200);
+      expect(spam.body.totalCount).toBeGreaterThan(0);
+      spam.body.mails.forEach((mail: any) => {
+        expect(mail.folder).toBe('spam');
+      });
+
+      return api
+        .get('/mails?take=100')
+        .expect(200)
+        .expect((res) => {
+          res.body.mails.forEach((mail: any) => {
+            expect(['drafts', 'trash', 'spam']).not.toContain(mail.folder);
+          });
+        });
+    });
+
+    it('should return 400 for an unknown folder', () => {
+      return api
+        .get('/mails?folder=starred')
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message[0]).toContain('folder must be one of');
+        });
+    });
+  });
+
+  describe('/mails/:id/move (POST)', () => {
+    it('should move a mail to the archive and back', async () => {
+      await api
+        .post('/mails/4/move')
+        .send({ folder: 'archive' })
+        .expect(200)
+        .expect((res) => {
+          TestHelpers.expectValidMailStructure(res.body);
+          expect(res.body.folder).toBe('archive');
+        });
+
+      await api
+        .get('/mails?folder=archive&take=100')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.mails.map((mail: any) => mail.id)).toContain(4);
+        });
+
+      return api.post('/mails/4/move').send({ folder: 'inbox' }).expect(200);
+    });
+
+    it('should return 400 for drafts or an unknown folder', async () => {
+      await api
+        .post('/mails/4/move')
+        .send({ folder: 'drafts' })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toBe('Drafts cannot be moved');
+        });
+
+      return api.post('/mails/4/move').send({ folder: 'starred' }).expect(400);
+    });
+
+    it('should return 404 when the mail does not exist', () => {
+      return api
+        .post('/mails/999999/move')
+        .send({ folder: 'archive' })
+        .expect(404);
+    });
+  });
+
+  describe('/mails/:id (PATCH)', () => {
+    it('should mark a mail as read then unread', async () => {
+      const mailId = 2;
+
+      await api
+        .patch(`/mails/${mailId}`)
+        .send({ unread: false })
+        .expect(200)
+        .expect((res) => {
+          TestHelpers.expectValidMailStructure(res.body);
+          expect(res.body).toHaveProperty('unread', false);
+        });
+
+      return api
+        .patch(`/mails/${mailId}`)
+        .send({ unread: true })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('unread', true);
+        });
+    });
+
+    it('should return 400 when unread is not a boolean', () => {
+      return api
+        .patch('/mails/2')
+        .send({ unread: 'nope' })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain('unread must be a boolean');
+        });
+    });
+
+    it('should return 400 when no flag is provided', () => {
+      return api
+        .patch('/mails/2')
+        .send({})
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toBe('No updatable field provided');
+        });
+    });
+
+    it('should return 404 when the mail does not exist', () => {
+      return api.patch('/mails/999999').send({ unread: false }).expect(404);
+    });
+  });
+
+  describe('/mails/:id (DELETE)', () => {
+    it('should move the mail to the trash, then delete it permanently', async () => {
+      const mail = mailsService.createMail(mailboxOwner, {
+        to: [{ email: 'alex.smith@example.com' }],
+        subject: 'To be deleted one by one',
+        body: 'Body',
+      });
+
+      await api.delete(`/mails/${mail.id}`).expect(204);
+
+      await api
+        .get(`/mails/${mail.id}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.folder).toBe('trash');
+          expect(res.body.trashedAt).toEqual(expect.any(String));
+        });
+
+      await api.delete(`/mails/${mail.id}`).expect(204);
+
+      return api.get(`/mails/${mail.id}`).expect(404);
+    });
+
+    it('should return 400 for a draft', async () => {
+      const draft = (
+        await api.post('/drafts').send({ subject: 'Kept draft' }).expect(201)
+      ).body;
+
+      await api
+        .delete(`/mails/${draft.id}`)
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toBe('Drafts cannot be moved to the trash');
+        });
+
+      return api.delete(`/drafts/${draft.id}`).expect(204);
+    });
+
+    it('should return 404 when the mail does not exist', () => {
+      return api.delete('/mails/999999').expect(404);
+    });
+
+    it('should return 400 for a non numeric id', () => {
+      return api.delete('/mails/abc').expect(400);
+    });
+  });
+
+  describe('/mails/actions (POST)', () => {
+    it('should apply the action and report per-id results', async () => {
+      await api
+        .post('/mails/actions')
+        .send({ action: 'mark-read', ids: [3, 999999] })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results).toEqual([
+            { id: 3, success: true },
+            {
+              id: 999999,
+              success: false,
+              error: 'Mail with id 999999 not found',
+            },
+          ]);
+        });
+
+      await api
+        .get('/mails/3')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('unread', false);
+        });
+
+      return api
+        .post('/mails/actions')
+        .send({ action: 'mark-unread', ids: [3] })
+        .expect(200);
+    });
+
+    it('should move deleted mails to the trash, then delete them', async () => {
+      const mail = mailsService.createMail(mailboxOwner, {
+        to: [{ email: 'alex.smith@example.com' }],
+        subject: 'To be deleted',
+        body: 'Body',
+      });
+
+      await api
+        .post('/mails/actions')
+        .send({ action: 'delete', ids: [mail.id] })
+        .expect(200);
+
+      await api
+        .get(`/mails/${mail.id}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.folder).toBe('trash');
+          expect(res.body.trashedAt).toEqual(expect.any(String));
+        });
+
+      await api
+        .post('/mails/actions')
+        .send({ action: 'delete', ids: [mail.id] })
+        .expect(200);
+
+      return api.get(`/mails/${mail.id}`).expect(404);
+    });
+
+    it('should report drafts as not deleted', async () => {
+      const draft = (
+        await api
+          .post('/drafts')
+          .send({ subject: 'Bulk kept draft' })
+          .expect(201)
+      ).body;
+
+      await api
+        .post('/mails/actions')
+        .send({ action: 'delete', ids: [draft.id] })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.results).toEqual([
+            {
+              id: draft.id,
+              success: false,
+              error: 'Drafts cannot be moved to the trash',
+            },
+          ]);
+        });
+
+      await api.get(`/drafts/${draft.id}`).expect(200);
+
+      return api.delete(`/drafts/${draft.id}`).expect(204);
+    });
+
+    it('should return 400 for an unknown action', () => {
+      return api
+        .post('/mails/actions')
+        .send({ action: 'explode', ids: [1] })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message[0]).toContain('action must be one of');
+        });
+    });
+
+    it('should return 400 when ids is empty or not a list of integers', async () => {
+      await api
+        .post('/mails/actions')
+        .send({ action: 'mark-read', ids: [] })
+        .expect(400);
+
+      return api
+        .post('/mails/actions')
+        .send({ action: 'mark-read', ids: ['a'] })
+        .expect(400);
     });
   });
 
@@ -366,14 +1322,12 @@ describe('Mails (e2e)', () => {
     });
 
     it('should return consistent results between direct service call and HTTP endpoint', async () => {
-      const serviceResult = mailsService.getMailPaginated({
+      const serviceResult = mailsService.getMailPaginated(mailboxOwner, {
         take: '5',
         skip: '0',
       });
 
-      const httpResponse = await request(app.getHttpServer())
-        .get('/mails?take=5&skip=0')
-        .expect(200);
+      const httpResponse = await api.get('/mails?take=5&skip=0').expect(200);
 
       expect(httpResponse.body.mails).toEqual(serviceResult.mails);
       expect(httpResponse.body.totalCount).toBe(serviceResult.totalCount);
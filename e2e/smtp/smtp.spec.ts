@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { createTransport, Transporter } from 'nodemailer';
+import { AppModule } from '../../src/app.module';
+import { SmtpIngestionServer } from '../../src/smtp/smtp-ingestion.server';
+import { AuthFixtures } from '../fixtures/auth.fixtures';
+import { TestHelpers } from '../helpers/test-helpers';
+
+describe('SMTP ingestion (e2e)', () => {
+  let app: INestApplication;
+  let owner: request.Agent;
+  let other: request.Agent;
+  let smtp: Transporter;
+
+  beforeAll(async () => {
+    process.env.SMTP_PORT = '0';
+    process.env.SMTP_MAX_MESSAGE_SIZE = '2048';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+
+    await app.init();
+    owner = await TestHelpers.authenticatedAgent(app);
+    other = await TestHelpers.authenticatedAgent(app, AuthFixtures.otherUser);
+    smtp = createTransport({
+      host: '127.0.0.1',
+      port: app.get(SmtpIngestionServer).port,
+      ignoreTLS: true,
+    });
+  });
+
+  afterAll(async () => {
+    smtp.close();
+    await app.close();
+    delete process.env.SMTP_PORT;
+    delete process.env.SMTP_MAX_MESSAGE_SIZE;
+  });
+
+  it('should deliver a message into the inbox of each recipient', async () => {
+    const info = await smtp.sendMail({
+      from: 'Jordan Brown <jordan.brown@example.com>',
+      to: 'Sam Lee <sam.lee@example.com>',
+      bcc: 'alex.smith@example.com',
+      subject: 'Over SMTP ✉️',
+      text: 'Delivered locally',
+    });
+
+    expect(info.accepted).toEqual([
+      'sam.lee@example.com',
+      'alex.smith@example.com',
+    ]);
+    for (const agent of [owner, other]) {
+      const response = await agent
+        .get('/mails?folder=inbox&take=100')
+        .expect(200);
+      const delivered = response.body.mails.filter(
+        (mail: any) => mail.subject === 'Over SMTP ✉️',
+      );
+      expect(delivered).toEqual([
+        expect.objectContaining({
+          from: { name: 'Jordan Brown', email: 'jordan.brown@example.com' },
+          body: 'Delivered locally',
+          unread: true,
+        }),
+      ]);
+      TestHelpers.expectValidMailStructure(delivered[0]);
+    }
+  });
+
+  it('should reject unknown recipients', async () => {
+    const info = await smtp.sendMail({
+      from: 'jordan.brown@example.com',
+      to: ['sam.lee@example.com', 'nobody@example.com'],
+      subject: 'Partly delivered',
+      text: 'Hi',
+    });
+
+    expect(info.accepted).toEqual(['sam.lee@example.com']);
+    expect(info.rejected).toEqual(['nobody@example.com']);
+    const { body } = await owner.get('/mails?folder=inbox&take=100');
+    expect(
+      body.mails.filter((mail: any) => mail.subject === 'Partly delivered'),
+    ).toHaveLength(1);
+  });
+
+  it('should deliver a single copy to a mailbox given twice', async () => {
+    await smtp.sendMail({
+      envelope: {
+        from: 'jordan.brown@example.com',
+        to: ['sam.lee@example.com', 'SAM.LEE@example.com'],
+      },
+      from: 'jordan.brown@example.com',
+      to: 'sam.lee@example.com',
+      subject: 'Given twice',
+      text: 'Hi',
+    });
+
+    const { body } = await owner.get('/mails?folder=inbox&take=100');
+    expect(
+      body.mails.filter((mail: any) => mail.subject === 'Given twice'),
+    ).toHaveLength(1);
+  });
+
+  it('should reject messages above the size limit', async () => {
+    const { body: before } = await owner.get('/mails/stats').expect(200);
+
+    const call = smtp.sendMail({
+      from: 'jordan.brown@example.com',
+      to: 'sam.lee@example.com',
+      subject: 'Too large',
+      text: 'x'.repeat(4096),
+    });
+
+    await expect(call).rejects.toMatchObject({ responseCode: 552 });
+    const { body: after } = await owner.get('/mails/stats').expect(200);
+    expect(after).toEqual(before);
+  });
+
+  it('should deliver an oversized message to none of the recipients', async () => {
+    const agents = [owner, other];
+    const before = await Promise.all(
+      agents.map(async (agent) => (await agent.get('/mails/stats')).body),
+    );
+
+    const call = smtp.sendMail({
+      from: 'jordan.brown@example.com',
+      to: ['sam.lee@example.com', 'nobody@example.com'],
+      cc: 'alex.smith@example.com',
+      subject: 'Too large for everyone',
+      text: 'x'.repeat(256 * 1024),
+    });
+
+    await expect(call).rejects.toMatchObject({ responseCode: 552 });
+    const after = await Promise.all(
+      agents.map(async (agent) => (await agent.get('/mails/stats')).body),
+    );
+    expect(after).toEqual(before);
+  });
+});
@@ -0,0 +1,97 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../../src/app.module';
+import { TestHelpers } from '../helpers/test-helpers';
+import { MailsService } from '../../src/mails/mails.service';
+import { mailboxOwner } from '../../src/mails/mailbox-owner';
+
+describe('Threads (e2e)', () => {
+  let app: INestApplication;
+  let api: request.Agent;
+  let mailsService: MailsService;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+    mailsService = app.get<MailsService>(MailsService);
+
+    await app.init();
+    api = await TestHelpers.authenticatedAgent(app);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('/threads (GET)', () => {
+    it('should return paginated threads with default parameters', () => {
+      return api
+        .get('/threads')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty('threads');
+          expect(res.body).toHaveProperty('totalCount');
+          expect(res.body).toHaveProperty('hasMore');
+          expect(res.body.threads.length).toBeLessThanOrEqual(10);
+
+          res.body.threads.forEach((thread: any) => {
+            expect(typeof thread.id).toBe('number');
+            expect(typeof thread.subject).toBe('string');
+            expect(thread.participants.length).toBeGreaterThan(0);
+            expect(thread.messageCount).toBe(thread.mailIds.length);
+            expect(new Date(thread.latestDate).toString()).not.toBe(
+              'Invalid Date',
+            );
+          });
+
+          const dates = res.body.threads.map((thread: any) =>
+            new Date(thread.latestDate).getTime(),
+          );
+          expect(dates).toEqual([...dates].sort((a, b) => b - a));
+        });
+    });
+
+    it('should group a reply with the mail it answers', async () => {
+      const original = mailsService.createMail(mailboxOwner, {
+        to: [{ email: 'jordan.brown@example.com' }],
+        subject: 'Threading check',
+        body: 'First message',
+      });
+      const reply = mailsService.createMail(mailboxOwner, {
+        to: [{ email: 'jordan.brown@example.com' }],
+        subject: 'RE: Threading check',
+        body: 'Second message',
+      });
+
+      const res = await api.get('/threads?take=100').expect(200);
+
+      const thread = res.body.threads.find((candidate: any) =>
+        candidate.mailIds.includes(original.id),
+      );
+      expect(thread.mailIds).toEqual([original.id, reply.id]);
+      expect(thread.subject).toBe('Threading check');
+      expect(thread.latestDate).toBe(reply.date);
+    });
+
+    it('should paginate threads', async () => {
+      const all = await api.get('/threads?take=100').expect(200);
+
+      return api
+        .get('/threads?take=2&skip=1')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.totalCount).toBe(all.body.totalCount);
+          expect(res.body.threads).toEqual(all.body.threads.slice(1, 3));
+        });
+    });
+
+    it('should return 400 for invalid pagination', () => {
+      return api.get('/threads?take=abc').expect(400);
+    });
+  });
+});
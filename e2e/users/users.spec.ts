@@ -0,0 +1,97 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { AppModule } from '../../src/app.module';
+import { TestHelpers } from '../helpers/test-helpers';
+
+describe('Users (e2e)', () => {
+  let app: INestApplication;
+  let api: request.Agent;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ transform: true }));
+
+    await app.init();
+    api = await TestHelpers.authenticatedAgent(app);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('/users/me (GET)', () => {
+    it('should return the profile of the authenticated user', () => {
+      return api
+        .get('/users/me')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toMatchObject({
+            id: 1,
+            name: 'Sam Lee',
+            email: 'sam.lee@example.com',
+          });
+          expect(res.body).not.toHaveProperty('passwordHash');
+        });
+    });
+
+    it('should return 401 without token', () => {
+      return request(app.getHttpServer()).get('/users/me').expect(401);
+    });
+  });
+
+  describe('/users/me (PATCH)', () => {
+    it('should update the profile', async () => {
+      await api
+        .patch('/users/me')
+        .send({
+          status: 'away',
+          location: 'Lisbon',
+          avatar: { src: 'https://example.com/sam.png', alt: 'Sam' },
+        })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toMatchObject({
+            email: 'sam.lee@example.com',
+            status: 'away',
+            location: 'Lisbon',
+            avatar: { src: 'https://example.com/sam.png', alt: 'Sam' },
+          });
+        });
+
+      return api
+        .get('/users/me')
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.status).toBe('away');
+        });
+    });
+
+    it('should return 400 for an unknown status', () => {
+      return api
+        .patch('/users/me')
+        .send({ status: 'sleeping' })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain(
+            'status must be one of: online, away, busy, offline',
+          );
+        });
+    });
+
+    it('should return 400 for an invalid avatar', () => {
+      return api
+        .patch('/users/me')
+        .send({ avatar: { src: 'not a url' } })
+        .expect(400);
+    });
+
+    it('should return 400 without updatable field', () => {
+      return api.patch('/users/me').send({}).expect(400);
+    });
+  });
+});
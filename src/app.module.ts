@@ -1,13 +1,27 @@
 import { Module } from '@nestjs/common';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
-import { MailsController } from './mails/mails.controller';
-import { MailsService } from './mails/mails.service';
 import { MailsModule } from './mails/mails.module';
+import { ThreadsModule } from './threads/threads.module';
+import { LabelsModule } from './labels/labels.module';
+import { DraftsModule } from './drafts/drafts.module';
+import { AuthModule } from './auth/auth.module';
+import { UsersModule } from './users/users.module';
+import { ContactsModule } from './contacts/contacts.module';
+import { SmtpModule } from './smtp/smtp.module';
 
 @Module({
-  imports: [MailsModule],
-  controllers: [AppController, MailsController],
-  providers: [AppService, MailsService],
+  imports: [
+    AuthModule,
+    MailsModule,
+    ThreadsModule,
+    LabelsModule,
+    DraftsModule,
+    UsersModule,
+    ContactsModule,
+    SmtpModule,
+  ],
+  controllers: [AppController],
+  providers: [AppService],
 })
 export class AppModule {}
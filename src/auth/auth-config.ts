@@ -0,0 +1,22 @@
+import { Logger } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * @description Read the secret signing the tokens from JWT_SECRET. Without
+ * it a random secret is used, so tokens do not survive a restart.
+ * @returns Signing secret
+ */
+export function readJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (secret) {
+    return secret;
+  }
+
+  new Logger('AuthModule').warn(
+    'JWT_SECRET is not set, tokens are signed with a random secret',
+  );
+  return randomBytes(32).toString('hex');
+}
@@ -0,0 +1,20 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { UsersModule } from '../users/users.module';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { readJwtSecret } from './auth-config';
+
+@Module({
+  imports: [
+    forwardRef(() => UsersModule),
+    JwtModule.registerAsync({
+      useFactory: () => ({ secret: readJwtSecret() }),
+    }),
+  ],
+  controllers: [AuthController],
+  providers: [AuthService, JwtAuthGuard],
+  exports: [AuthService, JwtAuthGuard],
+})
+export class AuthModule {}
@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { UsersService } from '../users/users.service';
+import { userRepositoryProvider } from '../users/repositories/user-repository.provider';
+import { TokenType } from './interfaces/jwt-payload.interface';
+
+// Mock the users data to have control over it during tests
+jest.mock('../users/users', () => {
+  const { hashPassword } =
+    jest.requireActual<typeof import('./password')>('./password');
+  return {
+    users: [
+      {
+        id: 1,
+        name: 'Test User 1',
+        email: 'test1@example.com',
+        passwordHash: hashPassword('secret-1'),
+      },
+    ],
+  };
+});
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let jwtService: JwtService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [JwtModule.register({ secret: 'test-secret' })],
+      providers: [AuthService, UsersService, userRepositoryProvider],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+    jwtService = module.get<JwtService>(JwtService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('login', () => {
+    it('should issue an access and a refresh token', () => {
+      // CALL
+      const result = service.login({
+        email: 'TEST1@example.com',
+        password: 'secret-1',
+      });
+
+      // CONTROL
+      expect(result).toMatchObject({ tokenType: 'Bearer', expiresIn: 900 });
+      expect(jwtService.verify(result.accessToken)).toMatchObject({
+        sub: 1,
+        type: TokenType.ACCESS,
+      });
+      expect(jwtService.verify(result.refreshToken)).toMatchObject({
+        sub: 1,
+        type: TokenType.REFRESH,
+      });
+    });
+
+    it('should reject a wrong password and an unknown email alike', () => {
+      // CALL
+      const wrongPassword = () =>
+        service.login({ email: 'test1@example.com', password: 'secret-2' });
+      const unknownEmail = () =>
+        service.login({ email: 'test2@example.com', password: 'secret-1' });
+
+      // CONTROL
+      expect(wrongPassword).toThrow(UnauthorizedException);
+      expect(wrongPassword).toThrow('Invalid email or password');
+      expect(unknownEmail).toThrow('Invalid email or password');
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve the user of an access token, without credentials', () => {
+      // PREPARE
+      const { accessToken } = service.login({
+        email: 'test1@example.com',
+        password: 'secret-1',
+      });
+
+      // CALL
+      const user = service.authenticate(accessToken);
+
+      // CONTROL
+      expect(user).toEqual({
+        id: 1,
+        name: 'Test User 1',
+        email: 'test1@example.com',
+      });
+    });
+
+    it('should reject refresh, foreign and expired tokens', () => {
+      // PREPARE
+      const { refreshToken } = service.login({
+        email: 'test1@example.com',
+        password: 'secret-1',
+      });
+      const foreignToken = new JwtService({ secret: 'other' }).sign({
+        sub: 1,
+        type: TokenType.ACCESS,
+      });
+      const expiredToken = jwtService.sign(
+        { sub: 1, type: TokenType.ACCESS },
+        { expiresIn: -1 },
+      );
+
+      // CALL
+      const calls = [refreshToken, foreignToken, expiredToken, 'garbage'].map(
+        (token) => () => service.authenticate(token),
+      );
+
+      // CONTROL
+      calls.forEach((call) => expect(call).toThrow(UnauthorizedException));
+    });
+
+    it('should reject the tokens of a deleted account', () => {
+      // PREPARE
+      const token = jwtService.sign({ sub: 42, type: TokenType.ACCESS });
+
+      // CALL
+      const call = () => service.authenticate(token);
+
+      // CONTROL
+      expect(call).toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('refresh', () => {
+    it('should exchange a refresh token for new tokens', () => {
+      // PREPARE
+      const { refreshToken } = service.login({
+        email: 'test1@example.com',
+        password: 'secret-1',
+      });
+
+      // CALL
+      const result = service.refresh({ refreshToken });
+
+      // CONTROL
+      expect(service.authenticate(result.accessToken)).toHaveProperty('id', 1);
+    });
+
+    it('should reject an access token', () => {
+      // PREPARE
+      const { accessToken } = service.login({
+        email: 'test1@example.com',
+        password: 'secret-1',
+      });
+
+      // CALL
+      const call = () => service.refresh({ refreshToken: accessToken });
+
+      // CONTROL
+      expect(call).toThrow(UnauthorizedException);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { plainToInstance } from 'class-transformer';
+import { UsersService } from '../users/users.service';
+import { IUser } from '../mails/interfaces/user.interface';
+import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { AuthTokensResponseDto } from './dto/auth-tokens-response.dto';
+import { IJwtPayload, TokenType } from './interfaces/jwt-payload.interface';
+import { hashPassword, verifyPassword } from './password';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS,
+} from './auth-config';
+
+/** Checked against unknown emails, so they take as long as a wrong password */
+const UNKNOWN_USER_HASH = hashPassword('unknown user');
+
+@Injectable()
+export class AuthService {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  private readonly logger = new Logger(AuthService.name);
+
+  /**
+   * @description Log in with an email and a password
+   * @param dto - Credentials
+   * @returns {AuthTokensResponseDto} Access and refresh tokens
+   */
+  login(dto: LoginDto): AuthTokensResponseDto {
+    const account = this.usersService.findAccountByEmail(dto.email);
+    const valid = verifyPassword(
+      dto.password,
+      account?.passwordHash ?? UNKNOWN_USER_HASH,
+    );
+
+    if (!account || !valid) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    return this.issueTokens(account.id);
+  }
+
+  /**
+   * @description Exchange a refresh token for a new pair of tokens
+   * @param dto - Refresh token from a previous login or refresh
+   * @returns {AuthTokensResponseDto} Access and refresh tokens
+   */
+  refresh(dto: RefreshTokenDto): AuthTokensResponseDto {
+    const user = this.verifyToken(dto.refreshToken, TokenType.REFRESH);
+    return this.issueTokens(user.id!);
+  }
+
+  /**
+   * @description Resolve the user of an access token
+   * @param accessToken - Token from the `Authorization` header
+   * @returns {IUser} The authenticated user, without credentials
+   */
+  authenticate(accessToken: string): IUser {
+    return this.verifyToken(accessToken, TokenType.ACCESS);
+  }
+
+  private issueTokens(userId: number): AuthTokensResponseDto {
+    const sign = (type: TokenType, expiresIn: number) =>
+      this.jwtService.sign<IJwtPayload>({ sub: userId, type }, { expiresIn });
+
+    return plainToInstance(AuthTokensResponseDto, {
+      accessToken: sign(TokenType.ACCESS, ACCESS_TOKEN_TTL_SECONDS),
+      refreshToken: sign(TokenType.REFRESH, REFRESH_TOKEN_TTL_SECONDS),
+      tokenType: 'Bearer',
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    });
+  }
+
+  /**
+   * @description Check the signature, expiry and type of a token, then load
+   * its user: a deleted account invalidates its tokens
+   * @param token - Signed token
+   * @param type - Expected token type
+   * @returns {IUser} The user of the token
+   */
+  private verifyToken(token: string, type: TokenType): IUser {
+    let payload: IJwtPayload;
+    try {
+      payload = this.jwtService.verify<IJwtPayload>(token);
+    } catch (error) {
+      this.logger.debug(`Rejected ${type} token: ${error}`);
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    if (payload.type !== type) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    try {
+      return this.usersService.getUserById(payload.sub);
+    } catch (error) {
+      this.logger.debug(
+        `Rejected ${type} token of user ${payload.sub}: ${error}`,
+      );
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+  }
+}
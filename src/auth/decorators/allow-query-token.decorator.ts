@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_QUERY_TOKEN = 'allowQueryToken';
+
+/**
+ * Let `JwtAuthGuard` read the access token from the `access_token` query
+ * parameter, for clients that cannot set headers such as `EventSource`
+ */
+export const AllowQueryToken = () => SetMetadata(ALLOW_QUERY_TOKEN, true);
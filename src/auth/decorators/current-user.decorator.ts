@@ -0,0 +1,9 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { IUser } from '../../mails/interfaces/user.interface';
+import { IAuthenticatedRequest } from '../interfaces/authenticated-request.interface';
+
+/** User authenticated by `JwtAuthGuard` */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): IUser =>
+    context.switchToHttp().getRequest<IAuthenticatedRequest>().user,
+);
@@ -0,0 +1,9 @@
+export class AuthTokensResponseDto {
+  /** Sent as `Authorization: Bearer <accessToken>` */
+  accessToken: string;
+  /** Exchanged for a new pair of tokens on `POST /auth/refresh` */
+  refreshToken: string;
+  tokenType: 'Bearer';
+  /** Lifetime of the access token, in seconds */
+  expiresIn: number;
+}
@@ -0,0 +1,11 @@
+import { IsEmail, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class LoginDto {
+  @IsEmail({}, { message: 'email must be a valid email' })
+  email: string;
+
+  @IsString({ message: 'password must be a string' })
+  @IsNotEmpty({ message: 'password must not be empty' })
+  @MaxLength(256, { message: 'password must be at most 256 characters' })
+  password: string;
+}
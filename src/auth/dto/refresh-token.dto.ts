@@ -0,0 +1,6 @@
+import { IsJWT } from 'class-validator';
+
+export class RefreshTokenDto {
+  @IsJWT({ message: 'refreshToken must be a JWT' })
+  refreshToken: string;
+}
@@ -0,0 +1,54 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthService } from '../auth.service';
+import { IAuthenticatedRequest } from '../interfaces/authenticated-request.interface';
+import { ALLOW_QUERY_TOKEN } from '../decorators/allow-query-token.decorator';
+
+/**
+ * @description Require a `Authorization: Bearer <accessToken>` header, the
+ * user of the token is set on `request.user`. Handlers marked with
+ * `@AllowQueryToken()` also accept an `access_token` query parameter.
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<IAuthenticatedRequest>();
+
+    const token = this.extractToken(context, request);
+    if (!token) {
+      throw new UnauthorizedException('Missing bearer token');
+    }
+
+    request.user = this.authService.authenticate(token);
+    return true;
+  }
+
+  private extractToken(
+    context: ExecutionContext,
+    request: IAuthenticatedRequest,
+  ): string | undefined {
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    if (scheme === 'Bearer' && token) {
+      return token;
+    }
+
+    const allowQueryToken = this.reflector.get<boolean>(
+      ALLOW_QUERY_TOKEN,
+      context.getHandler(),
+    );
+    const queryToken = request.query.access_token;
+    return allowQueryToken && typeof queryToken === 'string'
+      ? queryToken
+      : undefined;
+  }
+}
@@ -0,0 +1,7 @@
+import { Request } from 'express';
+import { IUser } from '../../mails/interfaces/user.interface';
+
+/** Request that went through `JwtAuthGuard` */
+export interface IAuthenticatedRequest extends Request {
+  user: IUser;
+}
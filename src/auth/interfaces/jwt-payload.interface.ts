@@ -0,0 +1,12 @@
+export enum TokenType {
+  ACCESS = 'access',
+  REFRESH = 'refresh',
+}
+
+/** Claims of the access and refresh tokens */
+export interface IJwtPayload {
+  /** Id of the user account */
+  sub: number;
+  /** Refresh tokens are rejected where an access token is expected, and the reverse */
+  type: TokenType;
+}
@@ -0,0 +1,36 @@
+import { hashPassword, verifyPassword } from './password';
+
+describe('password', () => {
+  it('should verify a password against its hash', () => {
+    // PREPARE
+    const passwordHash = hashPassword('changeme');
+
+    // CALL
+    const valid = verifyPassword('changeme', passwordHash);
+    const invalid = verifyPassword('change me', passwordHash);
+
+    // CONTROL
+    expect(passwordHash).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+    expect(valid).toBe(true);
+    expect(invalid).toBe(false);
+  });
+
+  it('should salt each hash', () => {
+    // CALL
+    const first = hashPassword('changeme');
+    const second = hashPassword('changeme');
+
+    // CONTROL
+    expect(first).not.toBe(second);
+  });
+
+  it('should reject malformed hashes', () => {
+    // CALL
+    const results = ['', 'changeme', 'bcrypt$salt$key', 'scrypt$$'].map(
+      (passwordHash) => verifyPassword('changeme', passwordHash),
+    );
+
+    // CONTROL
+    expect(results).toEqual([false, false, false, false]);
+  });
+});
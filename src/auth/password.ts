@@ -0,0 +1,40 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+/**
+ * @description Hash a password with scrypt and a random salt
+ * @param password - Plain password
+ * @returns Hash as `scrypt$<salt hex>$<key hex>`
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = scryptSync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+/**
+ * @description Check a password against a hash from `hashPassword`, in
+ * constant time
+ * @param password - Plain password
+ * @param passwordHash - Stored hash
+ * @returns Whether the password matches, false for a malformed hash
+ */
+export function verifyPassword(
+  password: string,
+  passwordHash: string,
+): boolean {
+  const [algorithm, salt, key] = passwordHash.split('$');
+  if (algorithm !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'hex');
+  const actual = scryptSync(
+    password,
+    Buffer.from(salt, 'hex'),
+    expected.length,
+  );
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
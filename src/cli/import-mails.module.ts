@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MailsService } from '../mails/mails.service';
+import { MailSearchIndex } from '../mails/search/mail-search.index';
+import { MailEventBus } from '../mails/events/mail-event.bus';
+import { MailImporter } from '../mails/import/mail.importer';
+import { mailRepositoryProvider } from '../mails/repositories/mail-repository.provider';
+import { attachmentStorageProvider } from '../mails/attachments/attachment-storage.provider';
+import { UsersService } from '../users/users.service';
+import { userRepositoryProvider } from '../users/repositories/user-repository.provider';
+
+/**
+ * @description Providers needed by the import command only. The mails module
+ * is not imported, so the SMTP listener, the trash purger and the delivery
+ * queue do not start while importing.
+ */
+@Module({
+  providers: [
+    MailsService,
+    MailSearchIndex,
+    MailEventBus,
+    MailImporter,
+    UsersService,
+    mailRepositoryProvider,
+    attachmentStorageProvider,
+    userRepositoryProvider,
+  ],
+})
+export class ImportMailsModule {}
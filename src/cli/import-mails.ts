@@ -0,0 +1,66 @@
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { ImportMailsModule } from './import-mails.module';
+import { UsersService } from '../users/users.service';
+import { MailImporter } from '../mails/import/mail.importer';
+
+const USAGE = 'Usage: import-mails --user <email> <file.mbox|file.eml>...';
+
+/**
+ * @description Import mbox archives and .eml files into the mailbox of a
+ * user, e.g. `MAIL_REPOSITORY=file npm run import:mails -- --user
+ * sam.lee@example.com archive.mbox`. Without the `file` driver the mails are
+ * lost when the command ends.
+ */
+async function importMails(args: string[]): Promise<number> {
+  const userIndex = args.indexOf('--user');
+  const email = userIndex >= 0 ? args[userIndex + 1] : undefined;
+  const paths = args.filter(
+    (_, index) => index !== userIndex && index !== userIndex + 1,
+  );
+  if (!email || paths.length === 0) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const app = await NestFactory.createApplicationContext(ImportMailsModule, {
+    logger: ['error', 'warn'],
+  });
+  try {
+    const usersService = app.get(UsersService);
+    const account = usersService.findAccountByEmail(email);
+    if (!account) {
+      console.error(`Unknown user ${email}`);
+      return 1;
+    }
+
+    const result = await app.get(MailImporter).importFiles(
+      usersService.getUserById(account.id),
+      paths.map((path) => ({
+        filename: basename(path),
+        content: readFileSync(path),
+      })),
+    );
+
+    result.results
+      .filter((message) => !message.success)
+      .forEach((message) =>
+        console.error(`${message.source}: ${message.error}`),
+      );
+    console.log(
+      `Imported ${result.importedCount} mail(s), ${result.failedCount} failed`,
+    );
+    return result.failedCount > 0 ? 1 : 0;
+  } finally {
+    await app.close();
+  }
+}
+
+importMails(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    new Logger('ImportMails').error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,38 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ContactsController } from './contacts.controller';
+import { ContactsService } from './contacts.service';
+import { contactRepositoryProvider } from './repositories/contact-repository.provider';
+import { MailsService } from '../mails/mails.service';
+import { mailRepositoryProvider } from '../mails/repositories/mail-repository.provider';
+import { attachmentStorageProvider } from '../mails/attachments/attachment-storage.provider';
+import { MailSearchIndex } from '../mails/search/mail-search.index';
+import { MailEventBus } from '../mails/events/mail-event.bus';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+describe('ContactsController', () => {
+  let controller: ContactsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ContactsController],
+      providers: [
+        ContactsService,
+        contactRepositoryProvider,
+        MailsService,
+        MailSearchIndex,
+        MailEventBus,
+        mailRepositoryProvider,
+        attachmentStorageProvider,
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<ContactsController>(ContactsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ContactsService } from './contacts.service';
+import { CreateContactDto } from './dto/create-contact.dto';
+import { UpdateContactDto } from './dto/update-contact.dto';
+import { SuggestContactsQueryDto } from './dto/suggest-contacts-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { IUser } from '../mails/interfaces/user.interface';
+
+@Controller('contacts')
+@UseGuards(JwtAuthGuard)
+export class ContactsController {
+  constructor(private readonly contactsService: ContactsService) {}
+
+  @Get()
+  getContacts(@CurrentUser() user: IUser) {
+    return this.contactsService.getContacts(user);
+  }
+
+  @Post()
+  createContact(@CurrentUser() user: IUser, @Body() dto: CreateContactDto) {
+    return this.contactsService.createContact(user, dto);
+  }
+
+  @Get('suggest')
+  suggestContacts(
+    @CurrentUser() user: IUser,
+    @Query() query: SuggestContactsQueryDto,
+  ) {
+    return this.contactsService.suggestContacts(user, query);
+  }
+
+  @Get(':id')
+  getContact(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.contactsService.getContactById(user, id);
+  }
+
+  @Patch(':id')
+  updateContact(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateContactDto,
+  ) {
+    return this.contactsService.updateContact(user, id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  deleteContact(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    this.contactsService.deleteContact(user, id);
+  }
+}
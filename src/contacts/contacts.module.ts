@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MailsModule } from '../mails/mails.module';
+import { AuthModule } from '../auth/auth.module';
+import { ContactsController } from './contacts.controller';
+import { ContactsService } from './contacts.service';
+import { contactRepositoryProvider } from './repositories/contact-repository.provider';
+
+@Module({
+  imports: [MailsModule, AuthModule],
+  controllers: [ContactsController],
+  providers: [ContactsService, contactRepositoryProvider],
+})
+export class ContactsModule {}
@@ -0,0 +1,339 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ContactsService } from './contacts.service';
+import { contactRepositoryProvider } from './repositories/contact-repository.provider';
+import { ContactRepository } from './repositories/contact.repository';
+import { MailsService } from '../mails/mails.service';
+import { mailRepositoryProvider } from '../mails/repositories/mail-repository.provider';
+import { attachmentStorageProvider } from '../mails/attachments/attachment-storage.provider';
+import { MailSearchIndex } from '../mails/search/mail-search.index';
+import { MailEventBus } from '../mails/events/mail-event.bus';
+import { mailboxOwner } from '../mails/mailbox-owner';
+import { MailFolder } from '../mails/interfaces/mail-folder.enum';
+
+// Mock the mails data to have control over it during tests
+jest.mock('../mails/mails', () => {
+  const owner = { name: 'Sam Lee', email: 'sam.lee@example.com' };
+  const alice = { name: 'Alice Martin', email: 'alice@example.com' };
+  const bob = { name: 'Bob Stone', email: 'Bob@Example.com' };
+  const carol = { name: 'Carol Diaz', email: 'carol@example.com' };
+  const mail = (id: number, fields: object) => ({
+    id,
+    ownerId: 1,
+    subject: `Test Subject ${id}`,
+    body: `Test Body ${id}`,
+    date: `2024-01-0${id}T00:00:00.000Z`,
+    ...fields,
+  });
+  return {
+    mails: [
+      mail(1, { from: alice, to: [owner] }),
+      mail(2, { from: alice, to: [owner], cc: [bob] }),
+      mail(3, { from: owner, to: [bob], folder: 'sent' }),
+      mail(4, { from: owner, to: [bob, carol], folder: 'sent' }),
+      mail(5, {
+        from: owner,
+        to: [{ name: 'Dave', email: 'dave@example.com' }],
+        folder: 'drafts',
+      }),
+      mail(6, {
+        from: { name: 'Eve', email: 'eve@example.com' },
+        to: [owner],
+        folder: 'spam',
+      }),
+      mail(7, {
+        ownerId: 2,
+        from: { name: 'Frank', email: 'frank@example.com' },
+        to: [owner],
+      }),
+    ],
+  };
+});
+
+describe('ContactsService', () => {
+  let service: ContactsService;
+  let mailsService: MailsService;
+  let repository: ContactRepository;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ContactsService,
+        contactRepositoryProvider,
+        MailsService,
+        MailSearchIndex,
+        MailEventBus,
+        mailRepositoryProvider,
+        attachmentStorageProvider,
+      ],
+    }).compile();
+
+    service = module.get<ContactsService>(ContactsService);
+    mailsService = module.get<MailsService>(MailsService);
+    repository = module.get<ContactRepository>(ContactRepository);
+  });
+
+  const alice = { name: 'Alice Martin', email: 'alice@example.com' };
+
+  const emails = () =>
+    service.getContacts(mailboxOwner).map((contact) => contact.email);
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getContacts', () => {
+    it('should harvest the correspondents of the mailbox once', () => {
+      // CALL
+      const result = service.getContacts(mailboxOwner);
+
+      // CONTROL
+      expect(result).toEqual([
+        { id: 1, ownerId: 1, ...alice, harvested: true },
+        {
+          id: 2,
+          ownerId: 1,
+          name: 'Bob Stone',
+          email: 'bob@example.com',
+          harvested: true,
+        },
+        {
+          id: 3,
+          ownerId: 1,
+          name: 'Carol Diaz',
+          email: 'carol@example.com',
+          harvested: true,
+        },
+      ]);
+      expect(service.getContacts(mailboxOwner)).toHaveLength(3);
+    });
+
+    it('should harvest the correspondents of new mails', () => {
+      // PREPARE
+      service.getContacts(mailboxOwner);
+      mailsService.insertMail({
+        ownerId: 1,
+        from: { name: 'Dave', email: 'dave@example.com' },
+        to: [mailboxOwner, alice],
+        subject: 'New',
+        body: 'New',
+        date: '2024-02-01T00:00:00.000Z',
+      });
+
+      // CALL
+      const result = emails();
+
+      // CONTROL
+      expect(result).toEqual([
+        'alice@example.com',
+        'bob@example.com',
+        'carol@example.com',
+        'dave@example.com',
+      ]);
+    });
+
+    it('should harvest a draft sent after newer mails were harvested', () => {
+      // PREPARE
+      mailsService.insertMail({
+        ownerId: 1,
+        from: { name: 'Gina', email: 'gina@example.com' },
+        to: [mailboxOwner],
+        subject: 'Newer',
+        body: 'Newer',
+        date: '2024-02-01T00:00:00.000Z',
+      });
+      service.getContacts(mailboxOwner);
+      mailsService.patchMail(5, { folder: MailFolder.SENT });
+
+      // CALL
+      const result = emails();
+
+      // CONTROL
+      expect(result).toContain('dave@example.com');
+    });
+
+    it('should harvest a mail moved out of spam', () => {
+      // PREPARE
+      service.getContacts(mailboxOwner);
+      mailsService.moveMail(mailboxOwner, 6, { folder: MailFolder.INBOX });
+
+      // CALL
+      const result = emails();
+
+      // CONTROL
+      expect(result).toContain('eve@example.com');
+    });
+
+    it('should not return the contacts of other users', () => {
+      // CALL
+      const result = service.getContacts({ ...mailboxOwner, id: 2 });
+
+      // CONTROL
+      expect(result.map((contact) => contact.email)).toEqual([
+        'frank@example.com',
+      ]);
+      expect(() => service.getContactById(mailboxOwner, 4)).toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('createContact', () => {
+    it('should create a contact with a lower-cased email', () => {
+      // CALL
+      const result = service.createContact(mailboxOwner, {
+        name: ' Zoe ',
+        email: 'Zoe@Example.com',
+      });
+
+      // CONTROL
+      expect(result).toEqual({
+        id: 4,
+        ownerId: 1,
+        name: 'Zoe',
+        email: 'zoe@example.com',
+        harvested: false,
+      });
+    });
+
+    it('should throw ConflictException for a harvested email', () => {
+      // CALL
+      const call = () =>
+        service.createContact(mailboxOwner, {
+          name: 'Alice',
+          email: 'ALICE@example.com',
+        });
+
+      // CONTROL
+      expect(call).toThrow(ConflictException);
+      expect(call).toThrow('Contact alice@example.com already exists');
+    });
+  });
+
+  describe('updateContact', () => {
+    it('should update a harvested contact and mark it as managed', () => {
+      // PREPARE
+      service.getContacts(mailboxOwner);
+
+      // CALL
+      const result = service.updateContact(mailboxOwner, 1, {
+        location: 'Lyon',
+      });
+
+      // CONTROL
+      expect(result).toEqual({
+        id: 1,
+        ownerId: 1,
+        ...alice,
+        location: 'Lyon',
+        harvested: false,
+      });
+    });
+
+    it('should throw ConflictException for an email already used', () => {
+      // PREPARE
+      service.getContacts(mailboxOwner);
+
+      // CALL
+      const call = () =>
+        service.updateContact(mailboxOwner, 1, { email: 'carol@example.com' });
+
+      // CONTROL
+      expect(call).toThrow(ConflictException);
+    });
+
+    it('should throw BadRequestException without updatable field', () => {
+      // CALL
+      const call = () => service.updateContact(mailboxOwner, 1, {});
+
+      // CONTROL
+      expect(call).toThrow(BadRequestException);
+    });
+  });
+
+  describe('deleteContact', () => {
+    it('should not harvest a deleted contact again', () => {
+      // PREPARE
+      service.getContacts(mailboxOwner);
+
+      // CALL
+      service.deleteContact(mailboxOwner, 1);
+
+      // CONTROL
+      expect(emails()).toEqual(['bob@example.com', 'carol@example.com']);
+      expect(() => service.getContactById(mailboxOwner, 1)).toThrow(
+        'Contact with id 1 not found',
+      );
+    });
+
+    it('should not harvest a deleted contact again after a restart', () => {
+      // PREPARE
+      service.getContacts(mailboxOwner);
+      service.deleteContact(mailboxOwner, 1);
+      const restarted = new ContactsService(repository, mailsService);
+
+      // CALL
+      const result = restarted.getContacts(mailboxOwner);
+
+      // CONTROL
+      expect(result.map((contact) => contact.email)).toEqual([
+        'bob@example.com',
+        'carol@example.com',
+      ]);
+    });
+  });
+
+  describe('suggestContacts', () => {
+    it('should rank matches by number of mails exchanged', () => {
+      // CALL
+      const result = service.suggestContacts(mailboxOwner, { q: 'EXAMPLE' });
+
+      // CONTROL
+      expect(
+        result.map(({ email, correspondenceCount }) => [
+          email,
+          correspondenceCount,
+        ]),
+      ).toEqual([
+        ['bob@example.com', 3],
+        ['alice@example.com', 2],
+        ['carol@example.com', 1],
+      ]);
+    });
+
+    it('should match names and limit the suggestions', () => {
+      // CALL
+      const byName = service.suggestContacts(mailboxOwner, { q: 'diaz' });
+      const limited = service.suggestContacts(mailboxOwner, {
+        q: 'a',
+        take: '1',
+      });
+
+      // CONTROL
+      expect(byName.map((contact) => contact.email)).toEqual([
+        'carol@example.com',
+      ]);
+      expect(limited.map((contact) => contact.email)).toEqual([
+        'bob@example.com',
+      ]);
+    });
+
+    it('should reject a take that is not a positive number', () => {
+      // CALL
+      const calls = ['-5', '0', 'abc'].map(
+        (take) => () =>
+          service.suggestContacts(mailboxOwner, { q: 'example', take }),
+      );
+
+      // CONTROL
+      calls.forEach((call) => {
+        expect(call).toThrow(BadRequestException);
+        expect(call).toThrow('Invalid take');
+      });
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { MailsService } from '../mails/mails.service';
+import { IMail } from '../mails/interfaces/mail.interface';
+import { MailFolder } from '../mails/interfaces/mail-folder.enum';
+import { IUser } from '../mails/interfaces/user.interface';
+import { ContactRepository } from './repositories/contact.repository';
+import { IContact, IContactSuggestion } from './interfaces/contact.interface';
+import { CreateContactDto } from './dto/create-contact.dto';
+import { UpdateContactDto } from './dto/update-contact.dto';
+import {
+  DEFAULT_SUGGESTIONS,
+  MAX_SUGGESTIONS,
+  SuggestContactsQueryDto,
+} from './dto/suggest-contacts-query.dto';
+
+/** Folders whose mails are not correspondence with their participants */
+const IGNORED_FOLDERS = [MailFolder.DRAFTS, MailFolder.SPAM];
+
+function isCorrespondence(mail: IMail): boolean {
+  return !mail.folder || !IGNORED_FOLDERS.includes(mail.folder);
+}
+
+@Injectable()
+export class ContactsService {
+  constructor(
+    private readonly contactRepository: ContactRepository,
+    private readonly mailsService: MailsService,
+  ) {}
+
+  private readonly logger = new Logger(ContactsService.name);
+
+  /**
+   * @description Get every contact of a user sorted by name, correspondents
+   * of new mails are added first
+   * @param owner - Owner of the contacts
+   * @returns {IContact[]} Contacts
+   */
+  getContacts(owner: IUser): IContact[] {
+    this.harvestContacts(owner);
+
+    try {
+      return this.findOwnedContacts(owner).sort((a, b) =>
+        a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+      );
+    } catch (error) {
+      this.logger.error(`Error getting contacts from database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error getting contacts from database',
+      );
+    }
+  }
+
+  /**
+   * @description Get a single contact, contacts of other users are not found
+   * @param owner - Owner of the contacts
+   * @param id - Id of the contact
+   * @returns {IContact} The requested contact
+   */
+  getContactById(owner: IUser, id: number): IContact {
+    let contact: IContact | undefined;
+
+    try {
+      contact = this.contactRepository.findById(id);
+    } catch (error) {
+      this.logger.error(`Error getting contact ${id} from database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error getting contact from database',
+      );
+    }
+
+    if (!contact || contact.ownerId !== owner.id) {
+      throw new NotFoundException(`Contact with id ${id} not found`);
+    }
+
+    return contact;
+  }
+
+  /**
+   * @description Create a contact, emails are unique regardless of case among
+   * the contacts of a user
+   * @param owner - Owner of the contacts
+   * @param dto - Contact details
+   * @returns {IContact} The created contact
+   */
+  createContact(owner: IUser, dto: CreateContactDto): IContact {
+    this.harvestContacts(owner);
+    const email = dto.email.trim().toLowerCase();
+    this.assertEmailAvailable(owner, email);
+
+    try {
+      return this.contactRepository.create({
+        ownerId: owner.id,
+        name: dto.name.trim(),
+        email,
+        ...(dto.avatar && { avatar: { ...dto.avatar } }),
+        ...(dto.location && { location: dto.location.trim() }),
+        harvested: false,
+      });
+    } catch (error) {
+      this.logger.error(`Error creating contact in database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error creating contact in database',
+      );
+    }
+  }
+
+  /**
+   * @description Update a contact, an edited harvested contact is then
+   * managed by the user
+   * @param owner - Owner of the contacts
+   * @param id - Id of the contact
+   * @param dto - Fields to update
+   * @returns {IContact} The updated contact
+   */
+  updateContact(owner: IUser, id: number, dto: UpdateContactDto): IContact {
+    const changes: Partial<IContact> = {};
+    if (dto.name !== undefined) {
+      changes.name = dto.name.trim();
+    }
+    if (dto.email !== undefined) {
+      changes.email = dto.email.trim().toLowerCase();
+    }
+    if (dto.avatar !== undefined) {
+      changes.avatar = { ...dto.avatar };
+    }
+    if (dto.location !== undefined) {
+      changes.location = dto.location.trim();
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new BadRequestException('No updatable field provided');
+    }
+
+    this.getContactById(owner, id);
+    if (changes.email !== undefined) {
+      this.assertEmailAvailable(owner, changes.email, id);
+    }
+
+    let contact: IContact | undefined;
+    try {
+      contact = this.contactRepository.update(id, {
+        ...changes,
+        harvested: false,
+      });
+    } catch (error) {
+      this.logger.error(`Error updating contact ${id} in database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error updating contact in database',
+      );
+    }
+
+    if (!contact) {
+      throw new NotFoundException(`Contact with id ${id} not found`);
+    }
+
+    return contact;
+  }
+
+  /**
+   * @description Delete a contact, a harvested contact only comes back when
+   * a new mail is exchanged with it
+   * @param owner - Owner of the contacts
+   * @param id - Id of the contact
+   */
+  deleteContact(owner: IUser, id: number): void {
+    this.harvestContacts(owner);
+    this.getContactById(owner, id);
+
+    try {
+      this.contactRepository.delete(id);
+    } catch (error) {
+      this.logger.error(`Error deleting contact ${id} in database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error deleting contact in database',
+      );
+    }
+  }
+
+  /**
+   * @description Typeahead over the contacts of a user: contacts whose name
+   * or email contains the query, most corresponded with first, then by name
+   * @param owner - Owner of the contacts
+   * @param query - Searched text and number of suggestions
+   * @returns {IContactSuggestion[]} Matching contacts with their mail count
+   */
+  suggestContacts(
+    owner: IUser,
+    query: SuggestContactsQueryDto,
+  ): IContactSuggestion[] {
+    const take =
+      query.take === undefined ? DEFAULT_SUGGESTIONS : parseInt(query.take, 10);
+    if (isNaN(take) || take <= 0) {
+      throw new BadRequestException(
+        `Invalid take, take must be a positive number: ${query.take}`,
+      );
+    }
+    const q = query.q.trim().toLowerCase();
+
+    const counts = new Map<string, number>();
+    this.findCorrespondence(owner).forEach((mail) => {
+      this.correspondents(owner, mail).forEach((user) => {
+        const email = user.email.toLowerCase();
+        counts.set(email, (counts.get(email) ?? 0) + 1);
+      });
+    });
+
+    return this.getContacts(owner)
+      .filter(
+        (contact) =>
+          contact.name.toLowerCase().includes(q) || contact.email.includes(q),
+      )
+      .map((contact) => ({
+        ...contact,
+        correspondenceCount: counts.get(contact.email) ?? 0,
+      }))
+      .sort((a, b) => b.correspondenceCount - a.correspondenceCount)
+      .slice(0, Math.min(take, MAX_SUGGESTIONS));
+  }
+
+  /**
+   * @description Add the correspondents of the mails not harvested yet, so a
+   * sent draft or a mail moved out of spam is harvested too. Addresses already
+   * in the contacts are skipped.
+   * @param owner - Owner of the contacts
+   */
+  private harvestContacts(owner: IUser): void {
+    const mailbox = this.mailsService.getAllMails(owner);
+    const mailboxIds = new Set(mailbox.map((mail) => mail.id!));
+    const storedIds = this.contactRepository.getHarvestedMailIds(owner.id!);
+    // Ids of deleted mails are forgotten, they may be given to new mails
+    const harvestedIds = storedIds.filter((id) => mailboxIds.has(id));
+    const harvested = new Set(harvestedIds);
+    const mails = mailbox.filter(
+      (mail) => isCorrespondence(mail) && !harvested.has(mail.id!),
+    );
+    if (mails.length === 0 && harvestedIds.length === storedIds.length) {
+      return;
+    }
+
+    const known = new Set(
+      this.findOwnedContacts(owner).map((contact) => contact.email),
+    );
+    try {
+      mails.forEach((mail) => {
+        this.correspondents(owner, mail).forEach((user) => {
+          const email = user.email.toLowerCase();
+          if (known.has(email)) {
+            return;
+          }
+          known.add(email);
+          this.contactRepository.create({
+            ownerId: owner.id,
+            name: user.name || email.split('@')[0],
+            email,
+            ...(user.avatar && { avatar: { ...user.avatar } }),
+            ...(user.location && { location: user.location }),
+            harvested: true,
+          });
+        });
+      });
+      this.contactRepository.setHarvestedMailIds(owner.id!, [
+        ...harvestedIds,
+        ...mails.map((mail) => mail.id!),
+      ]);
+    } catch (error) {
+      this.logger.error(`Error harvesting contacts in database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error harvesting contacts in database',
+      );
+    }
+  }
+
+  private findCorrespondence(owner: IUser): IMail[] {
+    return this.mailsService.getAllMails(owner).filter(isCorrespondence);
+  }
+
+  /** Participants of a mail other than its owner */
+  private correspondents(owner: IUser, mail: IMail): IUser[] {
+    const ownEmail = owner.email.toLowerCase();
+    const participants = [
+      mail.from,
+      ...(mail.to ?? []),
+      ...(mail.cc ?? []),
+      ...(mail.bcc ?? []),
+    ];
+    const seen = new Set<string>();
+    return participants.filter((user) => {
+      const email = user.email.toLowerCase();
+      if (email === ownEmail || seen.has(email)) {
+        return false;
+      }
+      seen.add(email);
+      return true;
+    });
+  }
+
+  private findOwnedContacts(owner: IUser): IContact[] {
+    return this.contactRepository
+      .findAll()
+      .filter((contact) => contact.ownerId === owner.id);
+  }
+
+  private assertEmailAvailable(
+    owner: IUser,
+    email: string,
+    ownId?: number,
+  ): void {
+    const taken = this.findOwnedContacts(owner).some(
+      (contact) => contact.id !== ownId && contact.email === email,
+    );
+    if (taken) {
+      throw new ConflictException(`Contact ${email} already exists`);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Type } from 'class-transformer';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { UserAvatarDto } from '../../users/dto/update-user.dto';
+
+export class CreateContactDto {
+  @IsString({ message: 'name must be a string' })
+  @IsNotEmpty({ message: 'name must not be empty' })
+  @MaxLength(100, { message: 'name must be at most 100 characters' })
+  name: string;
+
+  @IsEmail({}, { message: 'email must be a valid email' })
+  email: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UserAvatarDto)
+  avatar?: UserAvatarDto;
+
+  @IsOptional()
+  @IsString({ message: 'location must be a string' })
+  @MaxLength(100, { message: 'location must be at most 100 characters' })
+  location?: string;
+}
@@ -0,0 +1,22 @@
+import {
+  IsNotEmpty,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export const DEFAULT_SUGGESTIONS = 10;
+export const MAX_SUGGESTIONS = 50;
+
+export class SuggestContactsQueryDto {
+  @IsString({ message: 'q must be a string' })
+  @IsNotEmpty({ message: 'q must not be empty' })
+  @MaxLength(100, { message: 'q must be at most 100 characters' })
+  q: string;
+
+  /** Number of suggestions, at most `MAX_SUGGESTIONS` */
+  @IsOptional()
+  @IsNumberString({}, { message: 'take must be a valid number' })
+  take?: string;
+}
@@ -0,0 +1,19 @@
+import { IUserAvatar } from '../../mails/interfaces/user.interface';
+
+export interface IContact {
+  id?: number;
+  /** Id of the user account the contact belongs to */
+  ownerId?: number;
+  name: string;
+  /** Lower-cased, unique among the contacts of a user */
+  email: string;
+  avatar?: IUserAvatar;
+  location?: string;
+  /** Whether the contact was collected from the mailbox rather than added by the user */
+  harvested?: boolean;
+}
+
+export interface IContactSuggestion extends IContact {
+  /** Number of mails exchanged with the contact */
+  correspondenceCount: number;
+}
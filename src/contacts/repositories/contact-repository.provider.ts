@@ -0,0 +1,30 @@
+import { Provider } from '@nestjs/common';
+import { ContactRepository } from './contact.repository';
+import { InMemoryContactRepository } from './in-memory-contact.repository';
+import { FileContactRepository } from './file-contact.repository';
+
+export const DEFAULT_CONTACT_REPOSITORY_FILE = 'data/contacts.json';
+
+/**
+ * @description Provide the contact repository, stored next to the mails:
+ * - MAIL_REPOSITORY: `memory` (default) or `file`
+ * - CONTACT_REPOSITORY_FILE: JSON file used by the `file` driver
+ */
+export const contactRepositoryProvider: Provider = {
+  provide: ContactRepository,
+  useFactory: (): ContactRepository => {
+    const driver = process.env.MAIL_REPOSITORY ?? 'memory';
+
+    switch (driver) {
+      case 'memory':
+        return new InMemoryContactRepository();
+      case 'file':
+        return new FileContactRepository(
+          process.env.CONTACT_REPOSITORY_FILE ??
+            DEFAULT_CONTACT_REPOSITORY_FILE,
+        );
+      default:
+        throw new Error(`Unknown mail repository driver: ${driver}`);
+    }
+  },
+};
@@ -0,0 +1,58 @@
+import { IContact } from '../interfaces/contact.interface';
+
+/**
+ * @description Storage abstraction for contacts. `ContactsService` only talks
+ * to this class, the concrete implementation is picked by
+ * `contactRepositoryProvider`.
+ */
+export abstract class ContactRepository {
+  /**
+   * @description Get every stored contact, in storage order
+   * @returns {IContact[]} Copies of the stored contacts
+   */
+  abstract findAll(): IContact[];
+
+  /**
+   * @description Get a single contact
+   * @param id - Id of the contact
+   * @returns {IContact | undefined} Copy of the contact, undefined when missing
+   */
+  abstract findById(id: number): IContact | undefined;
+
+  /**
+   * @description Store a new contact, the id is assigned by the repository
+   * @param contact - Contact to store, any given id is ignored
+   * @returns {IContact} Stored contact with its id
+   */
+  abstract create(contact: IContact): IContact;
+
+  /**
+   * @description Apply a partial update to a contact
+   * @param id - Id of the contact
+   * @param changes - Fields to overwrite
+   * @returns {IContact | undefined} Updated contact, undefined when missing
+   */
+  abstract update(id: number, changes: Partial<IContact>): IContact | undefined;
+
+  /**
+   * @description Remove a contact
+   * @param id - Id of the contact
+   * @returns {boolean} True when a contact has been removed
+   */
+  abstract delete(id: number): boolean;
+
+  /**
+   * @description Get the mails already harvested for a user, kept with the
+   * contacts so deleted harvested contacts do not come back after a restart
+   * @param ownerId - Id of the owner of the contacts
+   * @returns {number[]} Ids of the harvested mails, empty when none
+   */
+  abstract getHarvestedMailIds(ownerId: number): number[];
+
+  /**
+   * @description Replace the mails harvested for a user
+   * @param ownerId - Id of the owner of the contacts
+   * @param mailIds - Ids of the harvested mails
+   */
+  abstract setHarvestedMailIds(ownerId: number, mailIds: number[]): void;
+}
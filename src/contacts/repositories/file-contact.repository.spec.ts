@@ -0,0 +1,56 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileContactRepository } from './file-contact.repository';
+import { IContact } from '../interfaces/contact.interface';
+
+describe('FileContactRepository', () => {
+  let directory: string;
+  let filePath: string;
+  const seed: IContact[] = [
+    { id: 1, ownerId: 1, name: 'Alice', email: 'alice@example.com' },
+  ];
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'contacts-'));
+    filePath = join(directory, 'contacts.json');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist contacts and harvested mail ids across instances', () => {
+    // PREPARE
+    const repository = new FileContactRepository(filePath, seed);
+
+    // CALL
+    repository.create({ ownerId: 1, name: 'Bob', email: 'bob@example.com' });
+    repository.delete(1);
+    repository.setHarvestedMailIds(1, [3, 42]);
+    const reloaded = new FileContactRepository(filePath, []);
+
+    // CONTROL
+    expect(reloaded.findAll()).toEqual([
+      { id: 2, ownerId: 1, name: 'Bob', email: 'bob@example.com' },
+    ]);
+    expect(reloaded.getHarvestedMailIds(1)).toEqual([3, 42]);
+    expect(reloaded.getHarvestedMailIds(2)).toEqual([]);
+    expect(JSON.parse(readFileSync(filePath, 'utf8'))).toEqual({
+      contacts: reloaded.findAll(),
+      harvestedMailIds: { 1: [3, 42] },
+    });
+  });
+
+  it('should load a file holding only the contacts array', () => {
+    // PREPARE
+    writeFileSync(filePath, JSON.stringify(seed));
+
+    // CALL
+    const repository = new FileContactRepository(filePath, []);
+
+    // CONTROL
+    expect(repository.findAll()).toEqual(seed);
+    expect(repository.getHarvestedMailIds(1)).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { IContact } from '../interfaces/contact.interface';
+import { InMemoryContactRepository } from './in-memory-contact.repository';
+
+/** Content of the file, older files only hold the contacts array */
+interface IContactFile {
+  contacts: IContact[];
+  /** Ids of the harvested mails per owner id */
+  harvestedMailIds: Record<string, number[]>;
+}
+
+/**
+ * @description Contact repository persisted in a JSON file, see
+ * `FileMailRepository`. The harvested mail ids are stored with the contacts.
+ */
+export class FileContactRepository extends InMemoryContactRepository {
+  constructor(
+    private readonly filePath: string,
+    seed: IContact[] = [],
+  ) {
+    super();
+    if (existsSync(this.filePath)) {
+      const content = JSON.parse(readFileSync(this.filePath, 'utf8')) as
+        | IContactFile
+        | IContact[];
+      if (Array.isArray(content)) {
+        this.load(content);
+      } else {
+        this.load(content.contacts);
+        this.harvestedMailIds = new Map(
+          Object.entries(content.harvestedMailIds ?? {}).map(
+            ([ownerId, mailIds]) => [Number(ownerId), mailIds],
+          ),
+        );
+      }
+    } else {
+      this.load(seed);
+      this.flush();
+    }
+  }
+
+  create(contact: IContact): IContact {
+    const created = super.create(contact);
+    this.flush();
+    return created;
+  }
+
+  update(id: number, changes: Partial<IContact>): IContact | undefined {
+    const updated = super.update(id, changes);
+    if (updated) {
+      this.flush();
+    }
+    return updated;
+  }
+
+  delete(id: number): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.flush();
+    }
+    return deleted;
+  }
+
+  setHarvestedMailIds(ownerId: number, mailIds: number[]): void {
+    super.setHarvestedMailIds(ownerId, mailIds);
+    this.flush();
+  }
+
+  private flush(): void {
+    const content: IContactFile = {
+      contacts: this.contacts,
+      harvestedMailIds: Object.fromEntries(this.harvestedMailIds),
+    };
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, JSON.stringify(content, null, 2));
+  }
+}
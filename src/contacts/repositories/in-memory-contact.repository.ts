@@ -0,0 +1,72 @@
+import { IContact } from '../interfaces/contact.interface';
+import { ContactRepository } from './contact.repository';
+
+/**
+ * @description Contact repository keeping contacts in process memory.
+ * Seed contacts are copied so the seed array is never mutated.
+ */
+export class InMemoryContactRepository extends ContactRepository {
+  protected contacts: IContact[];
+  protected nextId: number;
+  /** Ids of the harvested mails, per owner id */
+  protected harvestedMailIds = new Map<number, number[]>();
+
+  constructor(seed: IContact[] = []) {
+    super();
+    this.load(seed);
+  }
+
+  findAll(): IContact[] {
+    return this.contacts.map((contact) => ({ ...contact }));
+  }
+
+  findById(id: number): IContact | undefined {
+    const contact = this.contacts.find((item) => item.id === id);
+    return contact ? { ...contact } : undefined;
+  }
+
+  create(contact: IContact): IContact {
+    const created: IContact = { ...contact, id: this.nextId++ };
+    this.contacts.push(created);
+    return { ...created };
+  }
+
+  update(id: number, changes: Partial<IContact>): IContact | undefined {
+    const index = this.contacts.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+    this.contacts[index] = { ...this.contacts[index], ...changes, id };
+    return { ...this.contacts[index] };
+  }
+
+  delete(id: number): boolean {
+    const index = this.contacts.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.contacts.splice(index, 1);
+    return true;
+  }
+
+  getHarvestedMailIds(ownerId: number): number[] {
+    return [...(this.harvestedMailIds.get(ownerId) ?? [])];
+  }
+
+  setHarvestedMailIds(ownerId: number, mailIds: number[]): void {
+    this.harvestedMailIds.set(ownerId, [...mailIds]);
+  }
+
+  /**
+   * @description Replace the stored contacts and reset the id sequence
+   * @param contacts - Contacts to store
+   */
+  protected load(contacts: IContact[]): void {
+    this.contacts = contacts.map((contact) => ({ ...contact }));
+    this.nextId =
+      this.contacts.reduce(
+        (max, contact) => Math.max(max, contact.id ?? 0),
+        0,
+      ) + 1;
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { DraftsService } from './drafts.service';
+import { GetDraftsQueryDto } from './dto/get-drafts-query.dto';
+import { SaveDraftDto } from './dto/save-draft.dto';
+import { UpdateDraftDto } from './dto/update-draft.dto';
+import { SendDraftDto } from './dto/send-draft.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { IUser } from '../mails/interfaces/user.interface';
+
+@Controller('drafts')
+@UseGuards(JwtAuthGuard)
+export class DraftsController {
+  constructor(private readonly draftsService: DraftsService) {}
+
+  @Get()
+  getDrafts(@CurrentUser() user: IUser, @Query() query: GetDraftsQueryDto) {
+    return this.draftsService.getDrafts(user, query);
+  }
+
+  @Post()
+  createDraft(@CurrentUser() user: IUser, @Body() dto: SaveDraftDto) {
+    return this.draftsService.createDraft(user, dto);
+  }
+
+  @Get(':id')
+  getDraft(@CurrentUser() user: IUser, @Param('id', ParseIntPipe) id: number) {
+    return this.draftsService.getDraftById(user, id);
+  }
+
+  @Put(':id')
+  updateDraft(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateDraftDto,
+  ) {
+    return this.draftsService.updateDraft(user, id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  deleteDraft(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    this.draftsService.deleteDraft(user, id);
+  }
+
+  @Post(':id/send')
+  @HttpCode(HttpStatus.OK)
+  sendDraft(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: SendDraftDto,
+  ) {
+    return this.draftsService.sendDraft(user, id, dto);
+  }
+}
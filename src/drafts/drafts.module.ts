@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { MailsModule } from '../mails/mails.module';
+import { AuthModule } from '../auth/auth.module';
+import { DraftsController } from './drafts.controller';
+import { DraftsService } from './drafts.service';
+
+@Module({
+  imports: [MailsModule, AuthModule],
+  controllers: [DraftsController],
+  providers: [DraftsService],
+})
+export class DraftsModule {}
@@ -0,0 +1,251 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  NotFoundException,
+} from '@nestjs/common';
+import { DraftsService } from './drafts.service';
+import { MailsService } from '../mails/mails.service';
+import { MailSearchIndex } from '../mails/search/mail-search.index';
+import { MailEventBus } from '../mails/events/mail-event.bus';
+import { mailRepositoryProvider } from '../mails/repositories/mail-repository.provider';
+import { attachmentStorageProvider } from '../mails/attachments/attachment-storage.provider';
+import { MailFolder } from '../mails/interfaces/mail-folder.enum';
+import { MailDeliveryStatus } from '../mails/interfaces/mail-delivery-status.enum';
+import { mailboxOwner } from '../mails/mailbox-owner';
+
+// Mock the mails data to have control over it during tests
+jest.mock('../mails/mails', () => ({
+  mails: [
+    {
+      id: 1,
+      ownerId: 1,
+      from: { name: 'Test User 1', email: 'test1@example.com' },
+      subject: 'Test Subject 1',
+      body: 'Test Body 1',
+      date: '2024-01-01T00:00:00.000Z',
+    },
+  ],
+}));
+
+describe('DraftsService', () => {
+  let service: DraftsService;
+  let mailsService: MailsService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DraftsService,
+        MailsService,
+        MailSearchIndex,
+        MailEventBus,
+        mailRepositoryProvider,
+        attachmentStorageProvider,
+      ],
+    }).compile();
+
+    service = module.get<DraftsService>(DraftsService);
+    mailsService = module.get<MailsService>(MailsService);
+  });
+
+  const catchHttpException = (call: () => unknown): HttpException => {
+    try {
+      call();
+    } catch (error) {
+      return error as HttpException;
+    }
+    throw new Error('Expected an HttpException');
+  };
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createDraft', () => {
+    it('should save a partial draft at version 1', () => {
+      // CALL
+      const result = service.createDraft(mailboxOwner, {
+        subject: 'Half written',
+      });
+
+      // CONTROL
+      expect(result).toMatchObject({
+        id: 2,
+        folder: MailFolder.DRAFTS,
+        subject: 'Half written',
+        body: '',
+        version: 1,
+      });
+      expect(result.to).toBeUndefined();
+      expect(
+        service.getDrafts(mailboxOwner, {}).mails.map((draft) => draft.id),
+      ).toEqual([2]);
+    });
+  });
+
+  describe('getDraftById', () => {
+    it('should throw NotFoundException for mails that are not drafts', () => {
+      // CALL
+      const sentMail = () => service.getDraftById(mailboxOwner, 1);
+      const missing = () => service.getDraftById(mailboxOwner, 42);
+
+      // CONTROL
+      expect(sentMail).toThrow(NotFoundException);
+      expect(sentMail).toThrow('Draft with id 1 not found');
+      expect(missing).toThrow('Draft with id 42 not found');
+    });
+  });
+
+  describe('updateDraft', () => {
+    describe('Success scenarios', () => {
+      it('should replace the content and bump the version', () => {
+        // PREPARE
+        const draft = service.createDraft(mailboxOwner, {
+          to: [{ email: 'test1@example.com' }],
+          cc: [{ email: 'test2@example.com' }],
+          subject: 'Draft',
+        });
+
+        // CALL
+        const result = service.updateDraft(mailboxOwner, draft.id!, {
+          version: 1,
+          to: [{ email: 'test1@example.com' }],
+          subject: 'Draft v2',
+          body: 'Body',
+        });
+
+        // CONTROL
+        expect(result).toMatchObject({ subject: 'Draft v2', version: 2 });
+        expect(result.cc).toBeUndefined();
+        expect(
+          mailsService.searchMails(mailboxOwner, { q: 'v2 in:drafts' })
+            .totalCount,
+        ).toBe(1);
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw ConflictException with the current version', () => {
+        // PREPARE
+        const draft = service.createDraft(mailboxOwner, { subject: 'Draft' });
+        service.updateDraft(mailboxOwner, draft.id!, {
+          version: 1,
+          subject: 'Other tab',
+        });
+
+        // CALL
+        const call = () =>
+          service.updateDraft(mailboxOwner, draft.id!, {
+            version: 1,
+            subject: 'Stale',
+          });
+
+        // CONTROL
+        expect(call).toThrow(ConflictException);
+        expect(catchHttpException(call).getResponse()).toMatchObject({
+          statusCode: 409,
+          version: 2,
+        });
+        expect(service.getDraftById(mailboxOwner, draft.id!).subject).toBe(
+          'Other tab',
+        );
+      });
+    });
+  });
+
+  describe('deleteDraft', () => {
+    it('should discard the draft', () => {
+      // PREPARE
+      const draft = service.createDraft(mailboxOwner, { subject: 'Draft' });
+
+      // CALL
+      service.deleteDraft(mailboxOwner, draft.id!);
+
+      // CONTROL
+      expect(() => service.getDraftById(mailboxOwner, draft.id!)).toThrow(
+        NotFoundException,
+      );
+      expect(() => service.deleteDraft(mailboxOwner, 1)).toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('sendDraft', () => {
+    describe('Success scenarios', () => {
+      it('should turn the draft into a sent mail with the same id', () => {
+        // PREPARE
+        const draft = service.createDraft(mailboxOwner, {
+          to: [{ email: 'test1@example.com' }],
+          subject: 'Ready',
+          body: 'Body',
+        });
+
+        // CALL
+        const result = service.sendDraft(mailboxOwner, draft.id!, {
+          version: 1,
+        });
+
+        // CONTROL
+        expect(result).toMatchObject({
+          id: draft.id,
+          folder: MailFolder.SENT,
+          subject: 'Ready',
+          delivery: { status: MailDeliveryStatus.QUEUED, attempts: 0 },
+        });
+        expect(result.version).toBeUndefined();
+        expect(result.messageId).toMatch(/^<.+>$/);
+        expect(service.getDrafts(mailboxOwner, {}).totalCount).toBe(0);
+        expect(() => service.getDraftById(mailboxOwner, draft.id!)).toThrow(
+          NotFoundException,
+        );
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should apply the rules of mail creation', () => {
+        // PREPARE
+        const draft = service.createDraft(mailboxOwner, {
+          body: 'No recipient yet',
+        });
+
+        // CALL
+        const call = () =>
+          service.sendDraft(mailboxOwner, draft.id!, { version: 1 });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+        expect(catchHttpException(call).getResponse()).toMatchObject({
+          message: [
+            'to must contain at least one recipient',
+            'subject must not be empty',
+          ],
+        });
+        expect(service.getDraftById(mailboxOwner, draft.id!).folder).toBe(
+          MailFolder.DRAFTS,
+        );
+      });
+
+      it('should refuse to send an outdated version', () => {
+        // PREPARE
+        const draft = service.createDraft(mailboxOwner, {
+          to: [{ email: 'test1@example.com' }],
+          subject: 'Ready',
+        });
+        service.updateDraft(mailboxOwner, draft.id!, {
+          version: 1,
+          to: [{ email: 'test1@example.com' }],
+          subject: 'Changed elsewhere',
+        });
+
+        // CALL
+        const call = () =>
+          service.sendDraft(mailboxOwner, draft.id!, { version: 1 });
+
+        // CONTROL
+        expect(call).toThrow(ConflictException);
+      });
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validateSync, ValidationError } from 'class-validator';
+import { MailsService } from '../mails/mails.service';
+import { IMail } from '../mails/interfaces/mail.interface';
+import { IUser } from '../mails/interfaces/user.interface';
+import { MailFolder } from '../mails/interfaces/mail-folder.enum';
+import { CreateMailDto } from '../mails/dto/create-mail.dto';
+import { MailSortField, SortOrder } from '../mails/dto/get-mails-query.dto';
+import { GetMailsPaginatedResponseDto } from '../mails/dto/get-mails-response.dto';
+import { folderOf } from '../mails/mail-folders';
+import { createMessageId } from '../mails/message-id';
+import { queuedDelivery } from '../mails/delivery/mail-delivery';
+import { toUsers } from '../mails/recipients';
+import { SaveDraftDto } from './dto/save-draft.dto';
+import { UpdateDraftDto } from './dto/update-draft.dto';
+import { SendDraftDto } from './dto/send-draft.dto';
+import { GetDraftsQueryDto } from './dto/get-drafts-query.dto';
+
+/**
+ * Flatten validation errors the way the global ValidationPipe does, e.g.
+ * `to.0.recipient email must be a valid email`
+ */
+function validationMessages(
+  errors: ValidationError[],
+  parentPath = '',
+): string[] {
+  return errors.flatMap((error) => [
+    ...Object.values(error.constraints ?? {}).map((message) =>
+      parentPath ? `${parentPath}.${message}` : message,
+    ),
+    ...validationMessages(
+      error.children ?? [],
+      parentPath ? `${parentPath}.${error.property}` : error.property,
+    ),
+  ]);
+}
+
+@Injectable()
+export class DraftsService {
+  constructor(private readonly mailsService: MailsService) {}
+
+  private readonly logger = new Logger(DraftsService.name);
+
+  /**
+   * @description Get the drafts, most recently saved first
+   * @param owner - Owner of the mailbox
+   * @param take - Number of drafts to get
+   * @param skip - Number of drafts to skip
+   * @returns {GetMailsPaginatedResponseDto} Paginated drafts
+   */
+  getDrafts(
+    owner: IUser,
+    query: GetDraftsQueryDto,
+  ): GetMailsPaginatedResponseDto {
+    return this.mailsService.getMailPaginated(owner, {
+      take: query.take,
+      skip: query.skip,
+      folder: MailFolder.DRAFTS,
+      sort: MailSortField.DATE,
+      order: SortOrder.DESC,
+    });
+  }
+
+  /**
+   * @description Get a single draft
+   * @param owner - Owner of the mailbox
+   * @param id - Id of the draft
+   * @returns {IMail} The requested draft
+   */
+  getDraftById(owner: IUser, id: number): IMail {
+    let draft: IMail;
+    try {
+      draft = this.mailsService.getMailById(owner, id);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw new NotFoundException(`Draft with id ${id} not found`);
+      }
+      throw error;
+    }
+
+    if (folderOf(draft) !== MailFolder.DRAFTS) {
+      throw new NotFoundException(`Draft with id ${id} not found`);
+    }
+    return draft;
+  }
+
+  /**
+   * @description Save a new draft, at version 1
+   * @param owner - Owner of the mailbox, sender of the draft
+   * @param dto - Content of the draft, every field is optional
+   * @returns {IMail} The created draft
+   */
+  createDraft(owner: IUser, dto: SaveDraftDto): IMail {
+    try {
+      return this.mailsService.insertMail({
+        ...this.toDraftContent(dto),
+        ownerId: owner.id,
+        from: owner,
+        folder: MailFolder.DRAFTS,
+        version: 1,
+      });
+    } catch (error) {
+      this.logger.error(`Error creating draft in database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error creating draft in database',
+      );
+    }
+  }
+
+  /**
+   * @description Replace the content of a draft, only when the client saw
+   * its latest version
+   * @param owner - Owner of the mailbox
+   * @param id - Id of the draft
+   * @param dto - Full content of the draft and the version it is based on
+   * @returns {IMail} The draft at its next version
+   */
+  updateDraft(owner: IUser, id: number, dto: UpdateDraftDto): IMail {
+    const draft = this.getDraftById(owner, id);
+    this.assertVersion(draft, dto.version);
+
+    let updatedDraft: IMail | undefined;
+    try {
+      updatedDraft = this.mailsService.patchMail(id, {
+        ...this.toDraftContent(dto),
+        version: draft.version! + 1,
+      });
+    } catch (error) {
+      this.logger.error(`Error updating draft ${id} in database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error updating draft in database',
+      );
+    }
+
+    if (!updatedDraft) {
+      throw new NotFoundException(`Draft with id ${id} not found`);
+    }
+    return updatedDraft;
+  }
+
+  /**
+   * @description Discard a draft
+   * @param owner - Owner of the mailbox
+   * @param id - Id of the draft
+   */
+  deleteDraft(owner: IUser, id: number): void {
+    this.getDraftById(owner, id);
+
+    try {
+      this.mailsService.removeMail(id);
+    } catch (error) {
+      this.logger.error(`Error deleting draft ${id} in database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error deleting draft in database',
+      );
+    }
+  }
+
+  /**
+   * @description Send a draft: it must pass the rules of mail creation and
+   * is turned into a sent mail in a single write, keeping its id
+   * @param owner - Owner of the mailbox
+   * @param id - Id of the draft
+   * @param dto - Version the client last read
+   * @returns {IMail} The sent mail
+   */
+  sendDraft(owner: IUser, id: number, dto: SendDraftDto): IMail {
+    const draft = this.getDraftById(owner, id);
+    this.assertVersion(draft, dto.version);
+
+    const errors = validateSync(
+      plainToInstance(CreateMailDto, {
+        to: draft.to ?? [],
+        cc: draft.cc,
+        bcc: draft.bcc,
+        replyTo: draft.replyTo,
+        subject: draft.subject,
+        body: draft.body,
+      }),
+    );
+    if (errors.length > 0) {
+      throw new BadRequestException(validationMessages(errors));
+    }
+
+    let sentMail: IMail | undefined;
+    try {
+      sentMail = this.mailsService.patchMail(id, {
+        folder: MailFolder.SENT,
+        date: new Date().toISOString(),
+        messageId: createMessageId(owner),
+        version: undefined,
+        delivery: queuedDelivery(),
+      });
+    } catch (error) {
+      this.logger.error(`Error sending draft ${id} in database: ${error}`);
+      throw new InternalServerErrorException('Error sending draft');
+    }
+
+    if (!sentMail) {
+      throw new NotFoundException(`Draft with id ${id} not found`);
+    }
+    return sentMail;
+  }
+
+  private assertVersion(draft: IMail, version: number): void {
+    if (draft.version !== version) {
+      throw new ConflictException({
+        statusCode: 409,
+        error: 'Conflict',
+        message: `Draft ${draft.id} has been modified since version ${version}`,
+        version: draft.version,
+      });
+    }
+  }
+
+  /**
+   * @description Content fields of a draft, absent recipient lists are
+   * cleared so a save replaces the whole content
+   * @param dto - Content sent by the client
+   * @returns Draft fields dated now
+   */
+  private toDraftContent(dto: SaveDraftDto): Omit<IMail, 'ownerId' | 'from'> {
+    return {
+      to: dto.to?.length ? toUsers(dto.to) : undefined,
+      cc: dto.cc?.length ? toUsers(dto.cc) : undefined,
+      bcc: dto.bcc?.length ? toUsers(dto.bcc) : undefined,
+      replyTo: dto.replyTo?.length ? toUsers(dto.replyTo) : undefined,
+      subject: dto.subject ?? '',
+      body: dto.body ?? '',
+      date: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,8 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateMailDto } from '../../mails/dto/create-mail.dto';
+
+/**
+ * Content of a draft: every field of a mail is optional but follows the
+ * rules of mail creation when given
+ */
+export class SaveDraftDto extends PartialType(CreateMailDto) {}
@@ -0,0 +1,8 @@
+import { IsInt, Min } from 'class-validator';
+
+export class SendDraftDto {
+  /** Version the client last read, sending is refused when outdated */
+  @IsInt({ message: 'version must be an integer' })
+  @Min(1, { message: 'version must be at least 1' })
+  version: number;
+}
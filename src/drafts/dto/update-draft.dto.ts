@@ -0,0 +1,9 @@
+import { IsInt, Min } from 'class-validator';
+import { SaveDraftDto } from './save-draft.dto';
+
+export class UpdateDraftDto extends SaveDraftDto {
+  /** Version the client last read, the update is refused when outdated */
+  @IsInt({ message: 'version must be an integer' })
+  @Min(1, { message: 'version must be at least 1' })
+  version: number;
+}
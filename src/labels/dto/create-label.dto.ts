@@ -0,0 +1,22 @@
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+export const MAX_LABEL_NAME_LENGTH = 50;
+export const DEFAULT_LABEL_COLOR = '#9e9e9e';
+export const LABEL_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export class CreateLabelDto {
+  /** Trimmed before storage, blank names are rejected */
+  @IsString({ message: 'name must be a string' })
+  @Matches(/\S/, { message: 'name must not be empty' })
+  @MaxLength(MAX_LABEL_NAME_LENGTH, {
+    message: `name must be at most ${MAX_LABEL_NAME_LENGTH} characters`,
+  })
+  name: string;
+
+  /** Defaults to grey */
+  @IsOptional()
+  @Matches(LABEL_COLOR_PATTERN, {
+    message: 'color must be a hex color such as #1e88e5',
+  })
+  color?: string;
+}
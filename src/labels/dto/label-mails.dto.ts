@@ -0,0 +1,9 @@
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsInt } from 'class-validator';
+
+export class LabelMailsDto {
+  @IsArray({ message: 'ids must be an array' })
+  @ArrayNotEmpty({ message: 'ids must not be empty' })
+  @ArrayMaxSize(100, { message: 'ids must contain at most 100 ids' })
+  @IsInt({ each: true, message: 'each id must be an integer' })
+  ids: number[];
+}
@@ -0,0 +1,18 @@
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+import { LABEL_COLOR_PATTERN, MAX_LABEL_NAME_LENGTH } from './create-label.dto';
+
+export class UpdateLabelDto {
+  @IsOptional()
+  @IsString({ message: 'name must be a string' })
+  @Matches(/\S/, { message: 'name must not be empty' })
+  @MaxLength(MAX_LABEL_NAME_LENGTH, {
+    message: `name must be at most ${MAX_LABEL_NAME_LENGTH} characters`,
+  })
+  name?: string;
+
+  @IsOptional()
+  @Matches(LABEL_COLOR_PATTERN, {
+    message: 'color must be a hex color such as #1e88e5',
+  })
+  color?: string;
+}
@@ -0,0 +1,8 @@
+export interface ILabel {
+  id?: number;
+  /** Id of the user account the label belongs to */
+  ownerId?: number;
+  name: string;
+  /** Hex color, e.g. `#1e88e5` */
+  color: string;
+}
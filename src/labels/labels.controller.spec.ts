@@ -0,0 +1,38 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LabelsController } from './labels.controller';
+import { LabelsService } from './labels.service';
+import { labelRepositoryProvider } from './repositories/label-repository.provider';
+import { MailsService } from '../mails/mails.service';
+import { mailRepositoryProvider } from '../mails/repositories/mail-repository.provider';
+import { attachmentStorageProvider } from '../mails/attachments/attachment-storage.provider';
+import { MailSearchIndex } from '../mails/search/mail-search.index';
+import { MailEventBus } from '../mails/events/mail-event.bus';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+describe('LabelsController', () => {
+  let controller: LabelsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [LabelsController],
+      providers: [
+        LabelsService,
+        labelRepositoryProvider,
+        MailsService,
+        MailSearchIndex,
+        MailEventBus,
+        mailRepositoryProvider,
+        attachmentStorageProvider,
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<LabelsController>(LabelsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
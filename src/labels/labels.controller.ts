@@ -0,0 +1,78 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { LabelsService } from './labels.service';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import { LabelMailsDto } from './dto/label-mails.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { IUser } from '../mails/interfaces/user.interface';
+
+@Controller('labels')
+@UseGuards(JwtAuthGuard)
+export class LabelsController {
+  constructor(private readonly labelsService: LabelsService) {}
+
+  @Get()
+  getLabels(@CurrentUser() user: IUser) {
+    return this.labelsService.getLabels(user);
+  }
+
+  @Post()
+  createLabel(@CurrentUser() user: IUser, @Body() dto: CreateLabelDto) {
+    return this.labelsService.createLabel(user, dto);
+  }
+
+  @Get(':id')
+  getLabel(@CurrentUser() user: IUser, @Param('id', ParseIntPipe) id: number) {
+    return this.labelsService.getLabelById(user, id);
+  }
+
+  @Patch(':id')
+  updateLabel(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateLabelDto,
+  ) {
+    return this.labelsService.updateLabel(user, id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  deleteLabel(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    this.labelsService.deleteLabel(user, id);
+  }
+
+  @Post(':id/mails')
+  @HttpCode(HttpStatus.OK)
+  addLabelToMails(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: LabelMailsDto,
+  ) {
+    return this.labelsService.addLabelToMails(user, id, dto);
+  }
+
+  @Delete(':id/mails')
+  removeLabelFromMails(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: LabelMailsDto,
+  ) {
+    return this.labelsService.removeLabelFromMails(user, id, dto);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MailsModule } from '../mails/mails.module';
+import { AuthModule } from '../auth/auth.module';
+import { LabelsController } from './labels.controller';
+import { LabelsService } from './labels.service';
+import { labelRepositoryProvider } from './repositories/label-repository.provider';
+
+@Module({
+  imports: [MailsModule, AuthModule],
+  controllers: [LabelsController],
+  providers: [LabelsService, labelRepositoryProvider],
+})
+export class LabelsModule {}
@@ -0,0 +1,229 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { LabelsService } from './labels.service';
+import { labelRepositoryProvider } from './repositories/label-repository.provider';
+import { MailsService } from '../mails/mails.service';
+import { mailRepositoryProvider } from '../mails/repositories/mail-repository.provider';
+import { attachmentStorageProvider } from '../mails/attachments/attachment-storage.provider';
+import { MailSearchIndex } from '../mails/search/mail-search.index';
+import { MailEventBus } from '../mails/events/mail-event.bus';
+import { mailboxOwner } from '../mails/mailbox-owner';
+
+// Mock the mails and labels data to have control over it during tests
+jest.mock('../mails/mails', () => ({
+  mails: [
+    {
+      id: 1,
+      ownerId: 1,
+      from: { name: 'Test User 1', email: 'test1@example.com' },
+      subject: 'Test Subject 1',
+      body: 'Test Body 1',
+      date: '2024-01-01T00:00:00.000Z',
+      labelIds: [1, 2],
+    },
+    {
+      id: 2,
+      ownerId: 1,
+      from: { name: 'Test User 2', email: 'test2@example.com' },
+      subject: 'Test Subject 2',
+      body: 'Test Body 2',
+      date: '2024-01-02T00:00:00.000Z',
+      labelIds: [1],
+    },
+  ],
+}));
+jest.mock('./labels', () => ({
+  labels: [
+    { id: 1, ownerId: 1, name: 'Phoenix', color: '#1e88e5' },
+    { id: 2, ownerId: 1, name: 'Budget', color: '#43a047' },
+  ],
+}));
+
+describe('LabelsService', () => {
+  let service: LabelsService;
+  let mailsService: MailsService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LabelsService,
+        labelRepositoryProvider,
+        MailsService,
+        MailSearchIndex,
+        MailEventBus,
+        mailRepositoryProvider,
+        attachmentStorageProvider,
+      ],
+    }).compile();
+
+    service = module.get<LabelsService>(LabelsService);
+    mailsService = module.get<MailsService>(MailsService);
+  });
+
+  const labelledIds = (labelId: number) =>
+    mailsService
+      .getMailPaginated(mailboxOwner, { label: String(labelId) })
+      .mails.map((mail) => mail.id);
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getLabels', () => {
+    it('should return labels sorted by name', () => {
+      // CALL
+      const result = service.getLabels(mailboxOwner);
+
+      // CONTROL
+      expect(result.map((label) => label.name)).toEqual(['Budget', 'Phoenix']);
+    });
+  });
+
+  describe('createLabel', () => {
+    describe('Success scenarios', () => {
+      it('should create a label with a trimmed name and default color', () => {
+        // CALL
+        const result = service.createLabel(mailboxOwner, { name: '  Events ' });
+
+        // CONTROL
+        expect(result).toEqual({
+          id: 3,
+          ownerId: 1,
+          name: 'Events',
+          color: '#9e9e9e',
+        });
+        expect(service.getLabelById(mailboxOwner, 3)).toEqual(result);
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw ConflictException for a name taken in another case', () => {
+        // CALL
+        const call = () =>
+          service.createLabel(mailboxOwner, { name: 'phoenix' });
+
+        // CONTROL
+        expect(call).toThrow(ConflictException);
+        expect(call).toThrow('Label "phoenix" already exists');
+      });
+    });
+  });
+
+  describe('updateLabel', () => {
+    describe('Success scenarios', () => {
+      it('should rename and recolor a label', () => {
+        // CALL
+        const result = service.updateLabel(mailboxOwner, 1, {
+          name: 'PHOENIX',
+          color: '#FF0000',
+        });
+
+        // CONTROL
+        expect(result).toEqual({
+          id: 1,
+          ownerId: 1,
+          name: 'PHOENIX',
+          color: '#ff0000',
+        });
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should reject empty updates, taken names and unknown labels', () => {
+        // CALL
+        const empty = () => service.updateLabel(mailboxOwner, 1, {});
+        const taken = () =>
+          service.updateLabel(mailboxOwner, 1, { name: 'Budget' });
+        const missing = () =>
+          service.updateLabel(mailboxOwner, 42, { name: 'Other' });
+
+        // CONTROL
+        expect(empty).toThrow(BadRequestException);
+        expect(taken).toThrow(ConflictException);
+        expect(missing).toThrow(NotFoundException);
+      });
+    });
+  });
+
+  describe('deleteLabel', () => {
+    it('should detach the label from every mail and keep the mails', () => {
+      // CALL
+      service.deleteLabel(mailboxOwner, 1);
+
+      // CONTROL
+      expect(() => service.getLabelById(mailboxOwner, 1)).toThrow(
+        NotFoundException,
+      );
+      expect(mailsService.getMailById(mailboxOwner, 1).labelIds).toEqual([2]);
+      expect(mailsService.getMailById(mailboxOwner, 2).labelIds).toEqual([]);
+      expect(mailsService.getMailStats(mailboxOwner).totalCount).toBe(2);
+    });
+
+    it('should throw NotFoundException when the label does not exist', () => {
+      // CALL
+      const call = () => service.deleteLabel(mailboxOwner, 42);
+
+      // CONTROL
+      expect(call).toThrow(NotFoundException);
+    });
+  });
+
+  describe('addLabelToMails', () => {
+    describe('Success scenarios', () => {
+      it('should attach the label once per mail', () => {
+        // CALL
+        const result = service.addLabelToMails(mailboxOwner, 2, {
+          ids: [1, 2, 2],
+        });
+
+        // CONTROL
+        expect(result.results).toEqual([
+          { id: 1, success: true },
+          { id: 2, success: true },
+        ]);
+        expect(labelledIds(2)).toEqual([1, 2]);
+        expect(mailsService.getMailById(mailboxOwner, 1).labelIds).toEqual([
+          1, 2,
+        ]);
+      });
+    });
+
+    describe('Edge cases', () => {
+      it('should report missing mails without aborting the others', () => {
+        // CALL
+        const result = service.addLabelToMails(mailboxOwner, 2, {
+          ids: [42, 2],
+        });
+
+        // CONTROL
+        expect(result.results).toEqual([
+          { id: 42, success: false, error: 'Mail with id 42 not found' },
+          { id: 2, success: true },
+        ]);
+      });
+
+      it('should throw NotFoundException when the label does not exist', () => {
+        // CALL
+        const call = () =>
+          service.addLabelToMails(mailboxOwner, 42, { ids: [1] });
+
+        // CONTROL
+        expect(call).toThrow(NotFoundException);
+      });
+    });
+  });
+
+  describe('removeLabelFromMails', () => {
+    it('should detach the label from the listed mails only', () => {
+      // CALL
+      service.removeLabelFromMails(mailboxOwner, 1, { ids: [2] });
+
+      // CONTROL
+      expect(labelledIds(1)).toEqual([1]);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { MailsService } from '../mails/mails.service';
+import { BulkMailActionResponseDto } from '../mails/dto/bulk-mail-action-response.dto';
+import { LabelRepository } from './repositories/label.repository';
+import { ILabel } from './interfaces/label.interface';
+import { IUser } from '../mails/interfaces/user.interface';
+import { CreateLabelDto, DEFAULT_LABEL_COLOR } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import { LabelMailsDto } from './dto/label-mails.dto';
+
+@Injectable()
+export class LabelsService {
+  constructor(
+    private readonly labelRepository: LabelRepository,
+    private readonly mailsService: MailsService,
+  ) {}
+
+  private readonly logger = new Logger(LabelsService.name);
+
+  /**
+   * @description Get every label of a user, sorted by name
+   * @param owner - Owner of the labels
+   * @returns {ILabel[]} Labels
+   */
+  getLabels(owner: IUser): ILabel[] {
+    try {
+      return this.findOwnedLabels(owner).sort((a, b) =>
+        a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+      );
+    } catch (error) {
+      this.logger.error(`Error getting labels from database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error getting labels from database',
+      );
+    }
+  }
+
+  /**
+   * @description Get a single label, labels of other users are not found
+   * @param owner - Owner of the labels
+   * @param id - Id of the label
+   * @returns {ILabel} The requested label
+   */
+  getLabelById(owner: IUser, id: number): ILabel {
+    let label: ILabel | undefined;
+
+    try {
+      label = this.labelRepository.findById(id);
+    } catch (error) {
+      this.logger.error(`Error getting label ${id} from database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error getting label from database',
+      );
+    }
+
+    if (!label || label.ownerId !== owner.id) {
+      throw new NotFoundException(`Label with id ${id} not found`);
+    }
+
+    return label;
+  }
+
+  /**
+   * @description Create a label, names are unique regardless of case among
+   * the labels of a user
+   * @param owner - Owner of the labels
+   * @param dto - Name and optional color of the label
+   * @returns {ILabel} The created label
+   */
+  createLabel(owner: IUser, dto: CreateLabelDto): ILabel {
+    const name = dto.name.trim();
+    this.assertNameAvailable(owner, name);
+
+    try {
+      return this.labelRepository.create({
+        ownerId: owner.id,
+        name,
+        color: (dto.color ?? DEFAULT_LABEL_COLOR).toLowerCase(),
+      });
+    } catch (error) {
+      this.logger.error(`Error creating label in database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error creating label in database',
+      );
+    }
+  }
+
+  /**
+   * @description Rename or recolor a label
+   * @param owner - Owner of the labels
+   * @param id - Id of the label
+   * @param dto - Fields to update
+   * @returns {ILabel} The updated label
+   */
+  updateLabel(owner: IUser, id: number, dto: UpdateLabelDto): ILabel {
+    const changes: Partial<ILabel> = {};
+    if (dto.name !== undefined) {
+      changes.name = dto.name.trim();
+    }
+    if (dto.color !== undefined) {
+      changes.color = dto.color.toLowerCase();
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new BadRequestException('No updatable field provided');
+    }
+
+    this.getLabelById(owner, id);
+    if (changes.name !== undefined) {
+      this.assertNameAvailable(owner, changes.name, id);
+    }
+
+    let label: ILabel | undefined;
+    try {
+      label = this.labelRepository.update(id, changes);
+    } catch (error) {
+      this.logger.error(`Error updating label ${id} in database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error updating label in database',
+      );
+    }
+
+    if (!label) {
+      throw new NotFoundException(`Label with id ${id} not found`);
+    }
+
+    return label;
+  }
+
+  /**
+   * @description Delete a label and detach it from every mail, the mails
+   * themselves are kept
+   * @param owner - Owner of the labels
+   * @param id - Id of the label
+   */
+  deleteLabel(owner: IUser, id: number): void {
+    this.getLabelById(owner, id);
+    this.mailsService.detachLabel(id);
+
+    try {
+      this.labelRepository.delete(id);
+    } catch (error) {
+      this.logger.error(`Error deleting label ${id} in database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error deleting label in database',
+      );
+    }
+  }
+
+  /**
+   * @description Attach a label to several mails
+   * @param owner - Owner of the labels
+   * @param id - Id of the label
+   * @param dto - Ids of the targeted mails
+   * @returns {BulkMailActionResponseDto} Result for each mail id
+   */
+  addLabelToMails(
+    owner: IUser,
+    id: number,
+    dto: LabelMailsDto,
+  ): BulkMailActionResponseDto {
+    this.getLabelById(owner, id);
+    return this.mailsService.setLabel(owner, id, dto.ids, true);
+  }
+
+  /**
+   * @description Detach a label from several mails
+   * @param owner - Owner of the labels
+   * @param id - Id of the label
+   * @param dto - Ids of the targeted mails
+   * @returns {BulkMailActionResponseDto} Result for each mail id
+   */
+  removeLabelFromMails(
+    owner: IUser,
+    id: number,
+    dto: LabelMailsDto,
+  ): BulkMailActionResponseDto {
+    this.getLabelById(owner, id);
+    return this.mailsService.setLabel(owner, id, dto.ids, false);
+  }
+
+  private findOwnedLabels(owner: IUser): ILabel[] {
+    return this.labelRepository
+      .findAll()
+      .filter((label) => label.ownerId === owner.id);
+  }
+
+  private assertNameAvailable(
+    owner: IUser,
+    name: string,
+    ownId?: number,
+  ): void {
+    const taken = this.findOwnedLabels(owner).some(
+      (label) =>
+        label.id !== ownId && label.name.toLowerCase() === name.toLowerCase(),
+    );
+    if (taken) {
+      throw new ConflictException(`Label "${name}" already exists`);
+    }
+  }
+}
@@ -0,0 +1,7 @@
+import { ILabel } from './interfaces/label.interface';
+
+export const labels: ILabel[] = [
+  { id: 1, ownerId: 1, name: 'Phoenix', color: '#1e88e5' },
+  { id: 2, ownerId: 1, name: 'Budget', color: '#43a047' },
+  { id: 3, ownerId: 1, name: 'Events', color: '#fb8c00' },
+];
@@ -0,0 +1,39 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileLabelRepository } from './file-label.repository';
+import { ILabel } from '../interfaces/label.interface';
+
+describe('FileLabelRepository', () => {
+  let directory: string;
+  let filePath: string;
+  const seed: ILabel[] = [{ id: 1, name: 'Phoenix', color: '#1e88e5' }];
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'labels-'));
+    filePath = join(directory, 'labels.json');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist mutations across instances', () => {
+    // PREPARE
+    const repository = new FileLabelRepository(filePath, seed);
+
+    // CALL
+    const created = repository.create({ name: 'Budget', color: '#43a047' });
+    repository.update(1, { name: 'Phoenix 2' });
+    repository.delete(created.id!);
+    const reloaded = new FileLabelRepository(filePath, []);
+
+    // CONTROL
+    expect(reloaded.findAll()).toEqual([
+      { id: 1, name: 'Phoenix 2', color: '#1e88e5' },
+    ]);
+    expect(JSON.parse(readFileSync(filePath, 'utf8'))).toEqual(
+      reloaded.findAll(),
+    );
+  });
+});
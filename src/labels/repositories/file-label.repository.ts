@@ -0,0 +1,50 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { ILabel } from '../interfaces/label.interface';
+import { InMemoryLabelRepository } from './in-memory-label.repository';
+
+/**
+ * @description Label repository persisted in a JSON file, see
+ * `FileMailRepository`
+ */
+export class FileLabelRepository extends InMemoryLabelRepository {
+  constructor(
+    private readonly filePath: string,
+    seed: ILabel[] = [],
+  ) {
+    super();
+    if (existsSync(this.filePath)) {
+      this.load(JSON.parse(readFileSync(this.filePath, 'utf8')) as ILabel[]);
+    } else {
+      this.load(seed);
+      this.flush();
+    }
+  }
+
+  create(label: ILabel): ILabel {
+    const created = super.create(label);
+    this.flush();
+    return created;
+  }
+
+  update(id: number, changes: Partial<ILabel>): ILabel | undefined {
+    const updated = super.update(id, changes);
+    if (updated) {
+      this.flush();
+    }
+    return updated;
+  }
+
+  delete(id: number): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.flush();
+    }
+    return deleted;
+  }
+
+  private flush(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, JSON.stringify(this.labels, null, 2));
+  }
+}
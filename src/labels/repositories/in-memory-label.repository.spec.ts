@@ -0,0 +1,53 @@
+import { InMemoryLabelRepository } from './in-memory-label.repository';
+import { ILabel } from '../interfaces/label.interface';
+
+describe('InMemoryLabelRepository', () => {
+  let seed: ILabel[];
+  let repository: InMemoryLabelRepository;
+
+  beforeEach(() => {
+    seed = [
+      { id: 1, name: 'Phoenix', color: '#1e88e5' },
+      { id: 4, name: 'Budget', color: '#43a047' },
+    ];
+    repository = new InMemoryLabelRepository(seed);
+  });
+
+  it('should return copies that do not alter stored labels', () => {
+    // PREPARE
+    const result = repository.findAll();
+
+    // CALL
+    result[0].name = 'Changed';
+
+    // CONTROL
+    expect(repository.findById(1)?.name).toBe('Phoenix');
+    expect(seed[0].name).toBe('Phoenix');
+  });
+
+  it('should assign ids after the highest seed id', () => {
+    // CALL
+    const created = repository.create({
+      id: 1,
+      name: 'Events',
+      color: '#fb8c00',
+    });
+
+    // CONTROL
+    expect(created.id).toBe(5);
+    expect(repository.findAll()).toHaveLength(3);
+  });
+
+  it('should update and delete labels by id', () => {
+    // CALL
+    const updated = repository.update(4, { color: '#000000' });
+    const deleted = repository.delete(1);
+
+    // CONTROL
+    expect(updated).toEqual({ id: 4, name: 'Budget', color: '#000000' });
+    expect(deleted).toBe(true);
+    expect(repository.findById(1)).toBeUndefined();
+    expect(repository.update(1, { name: 'Missing' })).toBeUndefined();
+    expect(repository.delete(1)).toBe(false);
+  });
+});
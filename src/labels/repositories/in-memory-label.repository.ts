@@ -0,0 +1,59 @@
+import { ILabel } from '../interfaces/label.interface';
+import { LabelRepository } from './label.repository';
+
+/**
+ * @description Label repository keeping labels in process memory.
+ * Seed labels are copied so the seed array is never mutated.
+ */
+export class InMemoryLabelRepository extends LabelRepository {
+  protected labels: ILabel[];
+  protected nextId: number;
+
+  constructor(seed: ILabel[] = []) {
+    super();
+    this.load(seed);
+  }
+
+  findAll(): ILabel[] {
+    return this.labels.map((label) => ({ ...label }));
+  }
+
+  findById(id: number): ILabel | undefined {
+    const label = this.labels.find((item) => item.id === id);
+    return label ? { ...label } : undefined;
+  }
+
+  create(label: ILabel): ILabel {
+    const created: ILabel = { ...label, id: this.nextId++ };
+    this.labels.push(created);
+    return { ...created };
+  }
+
+  update(id: number, changes: Partial<ILabel>): ILabel | undefined {
+    const index = this.labels.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+    this.labels[index] = { ...this.labels[index], ...changes, id };
+    return { ...this.labels[index] };
+  }
+
+  delete(id: number): boolean {
+    const index = this.labels.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.labels.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * @description Replace the stored labels and reset the id sequence
+   * @param labels - Labels to store
+   */
+  protected load(labels: ILabel[]): void {
+    this.labels = labels.map((label) => ({ ...label }));
+    this.nextId =
+      this.labels.reduce((max, label) => Math.max(max, label.id ?? 0), 0) + 1;
+  }
+}
@@ -0,0 +1,31 @@
+import { Provider } from '@nestjs/common';
+import { labels } from '../labels';
+import { LabelRepository } from './label.repository';
+import { InMemoryLabelRepository } from './in-memory-label.repository';
+import { FileLabelRepository } from './file-label.repository';
+
+export const DEFAULT_LABEL_REPOSITORY_FILE = 'data/labels.json';
+
+/**
+ * @description Provide the label repository, stored next to the mails:
+ * - MAIL_REPOSITORY: `memory` (default) or `file`
+ * - LABEL_REPOSITORY_FILE: JSON file used by the `file` driver
+ */
+export const labelRepositoryProvider: Provider = {
+  provide: LabelRepository,
+  useFactory: (): LabelRepository => {
+    const driver = process.env.MAIL_REPOSITORY ?? 'memory';
+
+    switch (driver) {
+      case 'memory':
+        return new InMemoryLabelRepository(labels);
+      case 'file':
+        return new FileLabelRepository(
+          process.env.LABEL_REPOSITORY_FILE ?? DEFAULT_LABEL_REPOSITORY_FILE,
+          labels,
+        );
+      default:
+        throw new Error(`Unknown mail repository driver: ${driver}`);
+    }
+  },
+};
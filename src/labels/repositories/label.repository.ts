@@ -0,0 +1,42 @@
+import { ILabel } from '../interfaces/label.interface';
+
+/**
+ * @description Storage abstraction for labels. `LabelsService` only talks to
+ * this class, the concrete implementation is picked by `labelRepositoryProvider`.
+ */
+export abstract class LabelRepository {
+  /**
+   * @description Get every stored label, in storage order
+   * @returns {ILabel[]} Copies of the stored labels
+   */
+  abstract findAll(): ILabel[];
+
+  /**
+   * @description Get a single label
+   * @param id - Id of the label
+   * @returns {ILabel | undefined} Copy of the label, undefined when missing
+   */
+  abstract findById(id: number): ILabel | undefined;
+
+  /**
+   * @description Store a new label, the id is assigned by the repository
+   * @param label - Label to store, any given id is ignored
+   * @returns {ILabel} Stored label with its id
+   */
+  abstract create(label: ILabel): ILabel;
+
+  /**
+   * @description Apply a partial update to a label
+   * @param id - Id of the label
+   * @param changes - Fields to overwrite
+   * @returns {ILabel | undefined} Updated label, undefined when missing
+   */
+  abstract update(id: number, changes: Partial<ILabel>): ILabel | undefined;
+
+  /**
+   * @description Remove a label
+   * @param id - Id of the label
+   * @returns {boolean} True when a label has been removed
+   */
+  abstract delete(id: number): boolean;
+}
@@ -0,0 +1,9 @@
+const MEGABYTE = 1024 * 1024;
+
+/** Largest accepted file, bigger uploads are rejected with a 413 */
+export const MAX_ATTACHMENT_SIZE = 10 * MEGABYTE;
+/** Largest accepted total of the attachments of a single mail */
+export const MAX_MAIL_ATTACHMENTS_SIZE = 25 * MEGABYTE;
+export const MAX_ATTACHMENTS_PER_MAIL = 20;
+/** Multipart field holding the uploaded files */
+export const ATTACHMENTS_FIELD = 'attachments';
@@ -0,0 +1,29 @@
+import { Provider } from '@nestjs/common';
+import { AttachmentStorage } from './attachment.storage';
+import { InMemoryAttachmentStorage } from './in-memory-attachment.storage';
+import { LocalDiskAttachmentStorage } from './local-disk-attachment.storage';
+
+export const DEFAULT_ATTACHMENT_STORAGE_DIR = 'data/attachments';
+
+/**
+ * @description Provide the attachment storage, kept next to the mails:
+ * - MAIL_REPOSITORY: `memory` (default) or `file`, the latter on local disk
+ * - ATTACHMENT_STORAGE_DIR: directory used by the `file` driver
+ */
+export const attachmentStorageProvider: Provider = {
+  provide: AttachmentStorage,
+  useFactory: (): AttachmentStorage => {
+    const driver = process.env.MAIL_REPOSITORY ?? 'memory';
+
+    switch (driver) {
+      case 'memory':
+        return new InMemoryAttachmentStorage();
+      case 'file':
+        return new LocalDiskAttachmentStorage(
+          process.env.ATTACHMENT_STORAGE_DIR ?? DEFAULT_ATTACHMENT_STORAGE_DIR,
+        );
+      default:
+        throw new Error(`Unknown mail repository driver: ${driver}`);
+    }
+  },
+};
@@ -0,0 +1,38 @@
+import { Readable } from 'stream';
+import { IByteRange } from '../interfaces/mail-attachment.interface';
+
+/**
+ * @description Storage abstraction for attachment contents, metadata lives on
+ * the mail. The concrete implementation is picked by
+ * `attachmentStorageProvider`.
+ */
+export abstract class AttachmentStorage {
+  /**
+   * @description Store a content, overwriting any content with the same key
+   * @param key - Key of the content, the attachment id
+   * @param content - Raw bytes
+   */
+  abstract write(key: string, content: Buffer): void;
+
+  /**
+   * @description Stream a stored content
+   * @param key - Key of the content
+   * @param range - Optional inclusive byte range, the whole content otherwise
+   * @returns {Readable} Stream of the requested bytes
+   */
+  abstract createReadStream(key: string, range?: IByteRange): Readable;
+
+  /**
+   * @description Duplicate a stored content under another key
+   * @param sourceKey - Key of the stored content
+   * @param targetKey - Key of the copy
+   */
+  abstract copy(sourceKey: string, targetKey: string): void;
+
+  /**
+   * @description Remove a stored content
+   * @param key - Key of the content
+   * @returns {boolean} True when a content has been removed
+   */
+  abstract delete(key: string): boolean;
+}
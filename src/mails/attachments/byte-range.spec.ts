@@ -0,0 +1,74 @@
+import { parseByteRange, RangeNotSatisfiableException } from './byte-range';
+
+describe('parseByteRange', () => {
+  it('should serve the whole content without Range header', () => {
+    // CALL
+    const range = parseByteRange(undefined, 100);
+
+    // CONTROL
+    expect(range).toBeUndefined();
+  });
+
+  it('should read a closed range', () => {
+    // CALL
+    const range = parseByteRange('bytes=10-19', 100);
+
+    // CONTROL
+    expect(range).toEqual({ start: 10, end: 19 });
+  });
+
+  it('should read an open range up to the end', () => {
+    // CALL
+    const range = parseByteRange('bytes=90-', 100);
+
+    // CONTROL
+    expect(range).toEqual({ start: 90, end: 99 });
+  });
+
+  it('should read a suffix range', () => {
+    // CALL
+    const range = parseByteRange('bytes=-10', 100);
+
+    // CONTROL
+    expect(range).toEqual({ start: 90, end: 99 });
+  });
+
+  it('should clamp ranges ending past the content', () => {
+    // CALL
+    const closed = parseByteRange('bytes=50-500', 100);
+    const suffix = parseByteRange('bytes=-500', 100);
+
+    // CONTROL
+    expect(closed).toEqual({ start: 50, end: 99 });
+    expect(suffix).toEqual({ start: 0, end: 99 });
+  });
+
+  it('should ignore malformed and multiple ranges', () => {
+    // PREPARE
+    const headers = [
+      'bytes=-',
+      'bytes=20-10',
+      'bytes=a-b',
+      'items=0-10',
+      'bytes=0-10,20-30',
+    ];
+
+    // CALL
+    const ranges = headers.map((header) => parseByteRange(header, 100));
+
+    // CONTROL
+    expect(ranges).toEqual(headers.map(() => undefined));
+  });
+
+  it('should reject ranges starting past the content', () => {
+    // CALL
+    const calls = [
+      () => parseByteRange('bytes=100-', 100),
+      () => parseByteRange('bytes=-0', 100),
+      () => parseByteRange('bytes=0-', 0),
+    ];
+
+    // CONTROL
+    calls.forEach((call) => expect(call).toThrow(RangeNotSatisfiableException));
+  });
+});
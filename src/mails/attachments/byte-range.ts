@@ -0,0 +1,57 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { IByteRange } from '../interfaces/mail-attachment.interface';
+
+const RANGE_PATTERN = /^bytes=(\d*)-(\d*)$/;
+
+/** Thrown when a well-formed range starts past the end of the content */
+export class RangeNotSatisfiableException extends HttpException {
+  constructor(readonly size: number) {
+    super(
+      {
+        statusCode: HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+        error: 'Range Not Satisfiable',
+        message: `Range not satisfiable, content is ${size} bytes`,
+      },
+      HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+    );
+  }
+}
+
+/**
+ * @description Read a `Range` header (RFC 9110) against a content size. Only
+ * single byte ranges are honoured: malformed or multiple ranges are ignored
+ * and the whole content is served, as the RFC allows.
+ * @param header - Raw `Range` header
+ * @param size - Size of the content in bytes
+ * @returns {IByteRange | undefined} Inclusive range clamped to the content,
+ * undefined when the whole content should be served
+ * @throws {RangeNotSatisfiableException} When the range is past the content
+ */
+export function parseByteRange(
+  header: string | undefined,
+  size: number,
+): IByteRange | undefined {
+  const match = header?.trim().match(RANGE_PATTERN);
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return undefined;
+  }
+
+  // Suffix range: the last N bytes
+  if (match[1] === '') {
+    const length = Number(match[2]);
+    if (length === 0 || size === 0) {
+      throw new RangeNotSatisfiableException(size);
+    }
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === '' ? Infinity : Number(match[2]);
+  if (end < start) {
+    return undefined;
+  }
+  if (start >= size) {
+    throw new RangeNotSatisfiableException(size);
+  }
+  return { start, end: Math.min(end, size - 1) };
+}
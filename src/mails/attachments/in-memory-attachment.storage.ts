@@ -0,0 +1,38 @@
+import { Readable } from 'stream';
+import { IByteRange } from '../interfaces/mail-attachment.interface';
+import { AttachmentStorage } from './attachment.storage';
+
+/**
+ * @description Attachment storage kept in memory, contents are lost on
+ * restart like the mails of the in-memory repository
+ */
+export class InMemoryAttachmentStorage extends AttachmentStorage {
+  private readonly contents = new Map<string, Buffer>();
+
+  write(key: string, content: Buffer): void {
+    this.contents.set(key, Buffer.from(content));
+  }
+
+  createReadStream(key: string, range?: IByteRange): Readable {
+    const content = this.get(key);
+    return Readable.from([
+      range ? content.subarray(range.start, range.end + 1) : content,
+    ]);
+  }
+
+  copy(sourceKey: string, targetKey: string): void {
+    this.contents.set(targetKey, this.get(sourceKey));
+  }
+
+  delete(key: string): boolean {
+    return this.contents.delete(key);
+  }
+
+  private get(key: string): Buffer {
+    const content = this.contents.get(key);
+    if (!content) {
+      throw new Error(`Attachment content ${key} not found`);
+    }
+    return content;
+  }
+}
@@ -0,0 +1,66 @@
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { LocalDiskAttachmentStorage } from './local-disk-attachment.storage';
+
+describe('LocalDiskAttachmentStorage', () => {
+  let directory: string;
+  let storage: LocalDiskAttachmentStorage;
+  const read = async (stream: Readable) =>
+    Buffer.concat((await stream.toArray()) as Buffer[]).toString();
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'attachments-'));
+    storage = new LocalDiskAttachmentStorage(join(directory, 'nested'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should write the content in a file named after its key', async () => {
+    // CALL
+    storage.write('a1', Buffer.from('hello world'));
+
+    // CONTROL
+    expect(existsSync(join(directory, 'nested', 'a1'))).toBe(true);
+    expect(await read(storage.createReadStream('a1'))).toBe('hello world');
+  });
+
+  it('should stream an inclusive byte range', async () => {
+    // PREPARE
+    storage.write('a1', Buffer.from('hello world'));
+
+    // CALL
+    const stream = storage.createReadStream('a1', { start: 0, end: 4 });
+
+    // CONTROL
+    expect(await read(stream)).toBe('hello');
+  });
+
+  it('should copy then delete contents independently', async () => {
+    // PREPARE
+    storage.write('a1', Buffer.from('hello world'));
+
+    // CALL
+    storage.copy('a1', 'a2');
+    const deleted = storage.delete('a1');
+
+    // CONTROL
+    expect(deleted).toBe(true);
+    expect(storage.delete('a1')).toBe(false);
+    expect(() => storage.createReadStream('a1')).toThrow(
+      'Attachment content a1 not found',
+    );
+    expect(await read(storage.createReadStream('a2'))).toBe('hello world');
+  });
+
+  it('should reject keys escaping the directory', () => {
+    // CALL
+    const call = () => storage.write('../mails.json', Buffer.from('{}'));
+
+    // CONTROL
+    expect(call).toThrow('Invalid attachment key: ../mails.json');
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  copyFileSync,
+  createReadStream,
+  existsSync,
+  mkdirSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { IByteRange } from '../interfaces/mail-attachment.interface';
+import { AttachmentStorage } from './attachment.storage';
+
+/** Keys are server-generated ids, anything else could escape the directory */
+const KEY_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/**
+ * @description Attachment storage on the local disk, one file per content
+ * named after its key. The directory is created on first write.
+ */
+export class LocalDiskAttachmentStorage extends AttachmentStorage {
+  constructor(private readonly directory: string) {
+    super();
+  }
+
+  write(key: string, content: Buffer): void {
+    mkdirSync(this.directory, { recursive: true });
+    writeFileSync(this.pathOf(key), content);
+  }
+
+  createReadStream(key: string, range?: IByteRange): Readable {
+    const path = this.pathOf(key);
+    if (!existsSync(path)) {
+      throw new Error(`Attachment content ${key} not found`);
+    }
+    return createReadStream(path, range);
+  }
+
+  copy(sourceKey: string, targetKey: string): void {
+    copyFileSync(this.pathOf(sourceKey), this.pathOf(targetKey));
+  }
+
+  delete(key: string): boolean {
+    const path = this.pathOf(key);
+    if (!existsSync(path)) {
+      return false;
+    }
+    rmSync(path);
+    return true;
+  }
+
+  private pathOf(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return join(this.directory, key);
+  }
+}
@@ -0,0 +1,106 @@
+import { IMail } from '../interfaces/mail.interface';
+import {
+  prefixSubject,
+  quoteForwardBody,
+  quoteReplyBody,
+  SubjectPrefix,
+  threadHeaders,
+} from './mail-composer';
+
+describe('mail-composer', () => {
+  const original: IMail = {
+    id: 1,
+    from: { name: 'Alex Smith', email: 'alex.smith@example.com' },
+    to: [{ name: 'Sam Lee', email: 'sam.lee@example.com' }],
+    subject: 'Budget review',
+    body: 'First line\n\nSecond line',
+    date: '2024-01-01T10:00:00.000Z',
+    messageId: '<2@example.com>',
+    references: ['<1@example.com>'],
+  };
+
+  describe('prefixSubject', () => {
+    it('should add the prefix once', () => {
+      // CALL
+      const results = [
+        'Budget review',
+        'RE: Budget review',
+        'Re: re:Budget review',
+        'RE[2]: Budget review',
+      ].map((subject) => prefixSubject(subject, SubjectPrefix.REPLY));
+
+      // CONTROL
+      expect(new Set(results)).toEqual(new Set(['RE: Budget review']));
+    });
+
+    it('should only collapse prefixes of the same kind', () => {
+      // CALL
+      const reply = prefixSubject('Fwd: Budget', SubjectPrefix.REPLY);
+      const forward = prefixSubject('FW: RE: Budget', SubjectPrefix.FORWARD);
+
+      // CONTROL
+      expect(reply).toBe('RE: Fwd: Budget');
+      expect(forward).toBe('FWD: RE: Budget');
+    });
+  });
+
+  describe('quoteReplyBody', () => {
+    it('should quote every line of the original body', () => {
+      // CALL
+      const result = quoteReplyBody(original, 'Sounds good');
+
+      // CONTROL
+      expect(result.startsWith('Sounds good\n\nOn ')).toBe(true);
+      expect(result).toContain(
+        'Alex Smith <alex.smith@example.com> wrote:\n> First line\n>\n> Second line',
+      );
+    });
+  });
+
+  describe('quoteForwardBody', () => {
+    it('should append the original headers and body', () => {
+      // CALL
+      const result = quoteForwardBody(original, '');
+
+      // CONTROL
+      expect(result).toContain('---------- Forwarded message ----------');
+      expect(result).toContain('Subject: Budget review');
+      expect(result).toContain('To: Sam Lee <sam.lee@example.com>');
+      expect(result).not.toContain('Cc:');
+      expect(result.endsWith('\n\nFirst line\n\nSecond line')).toBe(true);
+    });
+  });
+
+  describe('threadHeaders', () => {
+    it('should extend the references of the original mail', () => {
+      // CALL
+      const result = threadHeaders(original);
+
+      // CONTROL
+      expect(result).toEqual({
+        inReplyTo: '<2@example.com>',
+        references: ['<1@example.com>', '<2@example.com>'],
+      });
+    });
+
+    it('should fall back on inReplyTo when there are no references', () => {
+      // CALL
+      const result = threadHeaders({
+        ...original,
+        references: undefined,
+        inReplyTo: '<1@example.com>',
+      });
+
+      // CONTROL
+      expect(result.references).toEqual(['<1@example.com>', '<2@example.com>']);
+    });
+
+    it('should return no header when the original has no Message-ID', () => {
+      // CALL
+      const result = threadHeaders({ ...original, messageId: undefined });
+
+      // CONTROL
+      expect(result).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { format } from 'date-fns';
+import { IMail } from '../interfaces/mail.interface';
+import { IUser } from '../interfaces/user.interface';
+
+/** Prefixes added to the subject of replies and forwards */
+export enum SubjectPrefix {
+  REPLY = 'RE',
+  FORWARD = 'FWD',
+}
+
+/** Existing prefixes of the same kind, e.g. `Re:`, `RE[2]:`, `Fw:` */
+const EXISTING_PREFIXES: Record<SubjectPrefix, RegExp> = {
+  [SubjectPrefix.REPLY]: /^\s*(?:re(?:\[\d+\])?\s*:\s*)+/i,
+  [SubjectPrefix.FORWARD]: /^\s*(?:fwd?\s*:\s*)+/i,
+};
+
+/**
+ * @description Prefix a subject, prefixes of the same kind are collapsed
+ * so `RE: RE: Lunch` is answered with `RE: Lunch`
+ * @param subject - Subject of the original mail
+ * @param prefix - Prefix to add
+ * @returns Prefixed subject
+ */
+export function prefixSubject(subject: string, prefix: SubjectPrefix): string {
+  const stripped = subject.replace(EXISTING_PREFIXES[prefix], '');
+  return `${prefix}: ${stripped}`;
+}
+
+/**
+ * @description Format a user as a mail address, e.g. `Sam Lee <sam@x.com>`
+ * @param user - User to format
+ */
+export function formatAddress(user: IUser): string {
+  return `${user.name} <${user.email}>`;
+}
+
+/**
+ * @description Append the original mail to a reply, each line quoted with `>`
+ * @param original - Mail replied to
+ * @param body - Body written by the sender
+ * @returns Body of the reply
+ */
+export function quoteReplyBody(original: IMail, body: string): string {
+  const quoted = original.body
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+  return `${body}\n\nOn ${formatDate(original.date)}, ${formatAddress(original.from)} wrote:\n${quoted}`;
+}
+
+/**
+ * @description Append the original mail and its headers to a forward
+ * @param original - Forwarded mail
+ * @param body - Body written by the sender, may be empty
+ * @returns Body of the forward
+ */
+export function quoteForwardBody(original: IMail, body: string): string {
+  const headers = [
+    `From: ${formatAddress(original.from)}`,
+    `Date: ${formatDate(original.date)}`,
+    `Subject: ${original.subject}`,
+  ];
+  if (original.to?.length) {
+    headers.push(`To: ${original.to.map(formatAddress).join(', ')}`);
+  }
+  if (original.cc?.length) {
+    headers.push(`Cc: ${original.cc.map(formatAddress).join(', ')}`);
+  }
+
+  return [
+    body,
+    '',
+    '---------- Forwarded message ----------',
+    ...headers,
+    '',
+    original.body,
+  ].join('\n');
+}
+
+/**
+ * @description Build the threading headers of a mail answering `original`
+ * @param original - Mail replied to or forwarded
+ * @returns `inReplyTo` and `references`, empty when the original has no
+ * Message-ID
+ */
+export function threadHeaders(
+  original: IMail,
+): Pick<IMail, 'inReplyTo' | 'references'> {
+  if (!original.messageId) {
+    return {};
+  }
+
+  const references =
+    original.references ?? (original.inReplyTo ? [original.inReplyTo] : []);
+  return {
+    inReplyTo: original.messageId,
+    references: [...references, original.messageId],
+  };
+}
+
+function formatDate(date: string): string {
+  return format(new Date(date), 'EEE, d MMM yyyy HH:mm');
+}
@@ -0,0 +1,204 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MailDeliveryQueue } from './mail-delivery.queue';
+import { MailTransport, MailTransportError } from './mail.transport';
+import { MAX_DELIVERY_ATTEMPTS } from './mail-delivery';
+import { MailsService } from '../mails.service';
+import { mailRepositoryProvider } from '../repositories/mail-repository.provider';
+import { attachmentStorageProvider } from '../attachments/attachment-storage.provider';
+import { MailSearchIndex } from '../search/mail-search.index';
+import { MailEventBus } from '../events/mail-event.bus';
+import { IOutboundMessage } from '../interfaces/mail-delivery.interface';
+import { MailDeliveryStatus } from '../interfaces/mail-delivery-status.enum';
+import { mailboxOwner } from '../mailbox-owner';
+
+// Mock the mails data to have control over it during tests
+jest.mock('../mails', () => ({ mails: [] }));
+
+describe('MailDeliveryQueue', () => {
+  let queue: MailDeliveryQueue;
+  let mailsService: MailsService;
+  let send: jest.Mock;
+
+  const now = new Date('2024-03-01T00:00:00.000Z');
+  const later = (ms: number) => new Date(now.getTime() + ms);
+
+  beforeEach(async () => {
+    send = jest.fn().mockResolvedValue({ refused: [] });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailDeliveryQueue,
+        MailsService,
+        MailSearchIndex,
+        MailEventBus,
+        mailRepositoryProvider,
+        attachmentStorageProvider,
+        { provide: MailTransport, useValue: { send } },
+      ],
+    }).compile();
+
+    queue = module.get<MailDeliveryQueue>(MailDeliveryQueue);
+    mailsService = module.get<MailsService>(MailsService);
+  });
+
+  const sendMail = () =>
+    mailsService.createMail(mailboxOwner, {
+      to: [{ email: 'alice@example.com' }],
+      cc: [{ email: 'bob@example.com' }],
+      bcc: [{ email: 'hidden@example.com' }],
+      subject: 'Outbound',
+      body: 'Hello',
+    });
+  const deliveryOf = (id: number) =>
+    mailsService.getMailById(mailboxOwner, id).delivery;
+
+  describe('Success scenarios', () => {
+    it('should queue sent mails then deliver them', async () => {
+      // PREPARE
+      const mail = sendMail();
+      expect(mail.delivery).toEqual({
+        status: MailDeliveryStatus.QUEUED,
+        attempts: 0,
+      });
+
+      // CALL
+      const attempts = await queue.processQueue(now);
+
+      // CONTROL
+      expect(attempts).toBe(1);
+      expect(deliveryOf(mail.id!)).toEqual({
+        status: MailDeliveryStatus.SENT,
+        attempts: 1,
+        sentAt: now.toISOString(),
+      });
+      expect(await queue.processQueue(later(3_600_000))).toBe(0);
+    });
+
+    it('should keep bcc recipients in the envelope only', async () => {
+      // PREPARE
+      sendMail();
+
+      // CALL
+      await queue.processQueue(now);
+
+      // CONTROL
+      const [message] = send.mock.calls[0] as [IOutboundMessage];
+      expect(message.from).toBe(mailboxOwner.email);
+      expect(message.recipients).toEqual([
+        'alice@example.com',
+        'bob@example.com',
+        'hidden@example.com',
+      ]);
+      const raw = Buffer.concat(
+        (await message.raw.toArray()) as Buffer[],
+      ).toString();
+      expect(raw).toContain('Subject: Outbound');
+      expect(raw).not.toContain('hidden@example.com');
+    });
+  });
+
+  describe('Failure scenarios', () => {
+    it('should defer temporary failures with an exponential backoff', async () => {
+      // PREPARE
+      send.mockRejectedValue(new MailTransportError('451 Try later', false));
+      const mail = sendMail();
+
+      // CALL
+      await queue.processQueue(now);
+      const early = await queue.processQueue(later(59_000));
+      await queue.processQueue(later(60_000));
+
+      // CONTROL
+      expect(early).toBe(0);
+      expect(deliveryOf(mail.id!)).toEqual({
+        status: MailDeliveryStatus.DEFERRED,
+        attempts: 2,
+        nextAttemptAt: later(60_000 + 120_000).toISOString(),
+        lastError: '451 Try later',
+        pendingRecipients: [
+          'alice@example.com',
+          'bob@example.com',
+          'hidden@example.com',
+        ],
+      });
+    });
+
+    it('should bounce permanent failures at once', async () => {
+      // PREPARE
+      send.mockRejectedValue(new MailTransportError('550 No such user', true));
+      const mail = sendMail();
+
+      // CALL
+      await queue.processQueue(now);
+
+      // CONTROL
+      expect(deliveryOf(mail.id!)).toEqual({
+        status: MailDeliveryStatus.BOUNCED,
+        attempts: 1,
+        lastError: '550 No such user',
+        bouncedRecipients: [
+          'alice@example.com',
+          'bob@example.com',
+          'hidden@example.com',
+        ],
+      });
+      expect(await queue.processQueue(later(86_400_000))).toBe(0);
+    });
+
+    it('should only retry the recipients temporarily refused', async () => {
+      // PREPARE
+      send.mockResolvedValueOnce({
+        refused: [
+          { recipient: 'bob@example.com', permanent: true, reason: '550 Gone' },
+          {
+            recipient: 'hidden@example.com',
+            permanent: false,
+            reason: '452 Mailbox full',
+          },
+        ],
+      });
+      const mail = sendMail();
+
+      // CALL
+      await queue.processQueue(now);
+      const deferred = deliveryOf(mail.id!);
+      await queue.processQueue(later(60_000));
+
+      // CONTROL
+      expect(deferred).toMatchObject({
+        status: MailDeliveryStatus.DEFERRED,
+        pendingRecipients: ['hidden@example.com'],
+        bouncedRecipients: ['bob@example.com'],
+        lastError:
+          'bob@example.com: 550 Gone; hidden@example.com: 452 Mailbox full',
+      });
+      expect((send.mock.calls[1] as [IOutboundMessage])[0].recipients).toEqual([
+        'hidden@example.com',
+      ]);
+      expect(deliveryOf(mail.id!)).toEqual({
+        status: MailDeliveryStatus.BOUNCED,
+        attempts: 2,
+        bouncedRecipients: ['bob@example.com'],
+      });
+    });
+
+    it('should bounce after the last attempt', async () => {
+      // PREPARE
+      send.mockRejectedValue(new Error('Connection refused'));
+      const mail = sendMail();
+
+      // CALL
+      for (let attempt = 0; attempt < MAX_DELIVERY_ATTEMPTS; attempt++) {
+        await queue.processQueue(later(attempt * 86_400_000));
+      }
+
+      // CONTROL
+      expect(send).toHaveBeenCalledTimes(MAX_DELIVERY_ATTEMPTS);
+      expect(deliveryOf(mail.id!)).toMatchObject({
+        status: MailDeliveryStatus.BOUNCED,
+        attempts: MAX_DELIVERY_ATTEMPTS,
+        lastError: 'Connection refused',
+      });
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { MailsService } from '../mails.service';
+import { AttachmentStorage } from '../attachments/attachment.storage';
+import { buildMimeMessage } from '../export/mime-message.builder';
+import { IMail } from '../interfaces/mail.interface';
+import {
+  IMailDelivery,
+  IOutboundMessage,
+  IRefusedRecipient,
+} from '../interfaces/mail-delivery.interface';
+import { MailDeliveryStatus } from '../interfaces/mail-delivery-status.enum';
+import { MailTransport, MailTransportError } from './mail.transport';
+import { MAX_DELIVERY_ATTEMPTS, retryDelay } from './mail-delivery';
+
+export const DELIVERY_POLL_INTERVAL_MS = 5_000;
+
+/**
+ * @description Deliver the mails sent through the API to the relay. The
+ * queue is the `delivery` state of the mails, saved with them by the mail
+ * repository: due mails are polled, temporary failures retried with an
+ * exponential backoff and permanent ones bounced. Without transport the
+ * queue does not run and mails stay queued.
+ */
+@Injectable()
+export class MailDeliveryQueue implements OnModuleInit, OnModuleDestroy {
+  constructor(
+    private readonly mailsService: MailsService,
+    private readonly attachmentStorage: AttachmentStorage,
+    @Inject(MailTransport) private readonly transport: MailTransport | null,
+  ) {}
+
+  private readonly logger = new Logger(MailDeliveryQueue.name);
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<number>;
+
+  onModuleInit(): void {
+    if (!this.transport) {
+      this.logger.warn('MAIL_RELAY_URL is not set, sent mails stay queued');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.processQueue().catch((error) =>
+        this.logger.error(`Error processing delivery queue: ${error}`),
+      );
+    }, DELIVERY_POLL_INTERVAL_MS);
+    // The queue alone must not keep the process alive
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * @description Make an attempt for every due mail, one at a time. A run
+   * still in progress is joined instead of starting another one.
+   * @param now - Date of the attempts
+   * @returns {Promise<number>} Number of attempts made
+   */
+  processQueue(now = new Date()): Promise<number> {
+    this.running ??= this.deliverDueMails(now).finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  private async deliverDueMails(now: Date): Promise<number> {
+    if (!this.transport) {
+      return 0;
+    }
+
+    const mails = this.mailsService.getPendingDeliveries(now);
+    for (const mail of mails) {
+      await this.deliver(this.transport, mail, now);
+    }
+    return mails.length;
+  }
+
+  private async deliver(
+    transport: MailTransport,
+    mail: IMail,
+    now: Date,
+  ): Promise<void> {
+    const attempts = (mail.delivery?.attempts ?? 0) + 1;
+    const recipients = mail.delivery?.pendingRecipients ?? recipientsOf(mail);
+    let delivery: IMailDelivery;
+
+    try {
+      const { refused } = await transport.send(
+        await this.toOutboundMessage(mail, recipients),
+      );
+      delivery = nextDelivery(
+        mail.delivery,
+        attempts,
+        refused,
+        refused
+          .map(({ recipient, reason }) => `${recipient}: ${reason}`)
+          .join('; '),
+        now,
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const permanent = error instanceof MailTransportError && error.permanent;
+      delivery = nextDelivery(
+        mail.delivery,
+        attempts,
+        recipients.map((recipient) => ({ recipient, permanent, reason })),
+        reason,
+        now,
+      );
+    }
+
+    if (delivery.lastError) {
+      this.logger.warn(
+        `Delivery of mail ${mail.id} ${delivery.status}: ${delivery.lastError}`,
+      );
+    }
+    try {
+      this.mailsService.patchMail(mail.id!, { delivery });
+    } catch (error) {
+      this.logger.error(`Error saving delivery of mail ${mail.id}: ${error}`);
+    }
+  }
+
+  /**
+   * @description Build the message handed to the transport: bcc recipients
+   * are in the envelope only
+   * @param mail - Mail to deliver
+   * @param recipients - Envelope recipients
+   * @returns {Promise<IOutboundMessage>} Envelope and raw message
+   */
+  private async toOutboundMessage(
+    mail: IMail,
+    recipients: string[],
+  ): Promise<IOutboundMessage> {
+    return {
+      from: mail.from.email,
+      recipients,
+      raw: await buildMimeMessage({ ...mail, bcc: undefined }, (attachment) =>
+        this.attachmentStorage.createReadStream(attachment.id),
+      ),
+    };
+  }
+}
+
+function recipientsOf(mail: IMail): string[] {
+  const recipients = [
+    ...(mail.to ?? []),
+    ...(mail.cc ?? []),
+    ...(mail.bcc ?? []),
+  ].map((user) => user.email);
+  return [...new Set(recipients)];
+}
+
+/**
+ * @description Delivery after an attempt: deferred while temporarily refused
+ * recipients remain and attempts are left, then bounced when a recipient
+ * was refused for good, sent otherwise
+ * @param previous - Delivery before the attempt
+ * @param attempts - Attempts made, this one included
+ * @param refused - Recipients refused by this attempt
+ * @param lastError - Error of this attempt, empty when it fully succeeded
+ * @param now - Date of the attempt
+ * @returns {IMailDelivery} Updated delivery
+ */
+function nextDelivery(
+  previous: IMailDelivery | undefined,
+  attempts: number,
+  refused: IRefusedRecipient[],
+  lastError: string,
+  now: Date,
+): IMailDelivery {
+  const retried = attempts < MAX_DELIVERY_ATTEMPTS;
+  const pending = refused
+    .filter(({ permanent }) => !permanent && retried)
+    .map(({ recipient }) => recipient);
+  const bounced = [
+    ...(previous?.bouncedRecipients ?? []),
+    ...refused
+      .map(({ recipient }) => recipient)
+      .filter((recipient) => !pending.includes(recipient)),
+  ];
+
+  let delivery: IMailDelivery;
+  if (pending.length) {
+    delivery = {
+      status: MailDeliveryStatus.DEFERRED,
+      attempts,
+      nextAttemptAt: new Date(
+        now.getTime() + retryDelay(attempts),
+      ).toISOString(),
+      pendingRecipients: pending,
+    };
+  } else if (bounced.length) {
+    delivery = { status: MailDeliveryStatus.BOUNCED, attempts };
+  } else {
+    delivery = {
+      status: MailDeliveryStatus.SENT,
+      attempts,
+      sentAt: now.toISOString(),
+    };
+  }
+
+  if (bounced.length) {
+    delivery.bouncedRecipients = bounced;
+  }
+  if (lastError) {
+    delivery.lastError = lastError;
+  }
+  return delivery;
+}
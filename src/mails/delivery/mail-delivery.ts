@@ -0,0 +1,44 @@
+import { IMailDelivery } from '../interfaces/mail-delivery.interface';
+import { MailDeliveryStatus } from '../interfaces/mail-delivery-status.enum';
+
+/** Attempts made before a temporarily refused mail bounces */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+/** Delay before the first retry, doubled on every attempt */
+export const RETRY_BASE_DELAY_MS = 60_000;
+export const MAX_RETRY_DELAY_MS = 6 * 60 * 60_000;
+
+/**
+ * @description Delivery of a mail just sent, due immediately
+ */
+export function queuedDelivery(): IMailDelivery {
+  return { status: MailDeliveryStatus.QUEUED, attempts: 0 };
+}
+
+/**
+ * @description Delay before the next attempt, exponential up to a cap:
+ * 1 min, 2 min, 4 min… 6 h
+ * @param attempts - Number of attempts already made, at least 1
+ * @returns Delay in milliseconds
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+/**
+ * @description Whether a mail is waiting for a delivery attempt
+ * @param delivery - Delivery of the mail
+ * @param now - Current date
+ */
+export function isDeliveryDue(
+  delivery: IMailDelivery | undefined,
+  now: Date,
+): boolean {
+  return (
+    (delivery?.status === MailDeliveryStatus.QUEUED ||
+      delivery?.status === MailDeliveryStatus.DEFERRED) &&
+    new Date(delivery.nextAttemptAt ?? 0).getTime() <= now.getTime()
+  );
+}
@@ -0,0 +1,16 @@
+import { Provider } from '@nestjs/common';
+import { MailTransport } from './mail.transport';
+import { SmtpMailTransport } from './smtp-mail.transport';
+
+/**
+ * @description Provide the transport selected by the environment:
+ * - MAIL_RELAY_URL: SMTP relay, e.g. `smtp://smtp.example.com:587`. Without
+ *   it there is no transport and sent mails stay queued.
+ */
+export const mailTransportProvider: Provider = {
+  provide: MailTransport,
+  useFactory: (): MailTransport | null => {
+    const url = process.env.MAIL_RELAY_URL;
+    return url ? new SmtpMailTransport(url) : null;
+  },
+};
@@ -0,0 +1,31 @@
+import {
+  IMailTransportResult,
+  IOutboundMessage,
+} from '../interfaces/mail-delivery.interface';
+
+/**
+ * @description Transport delivering outbound messages to a relay. The
+ * concrete implementation is picked by `mailTransportProvider`, tests can
+ * provide a local stand-in.
+ */
+export abstract class MailTransport {
+  /**
+   * @description Hand a message to the relay
+   * @param message - Envelope and raw message
+   * @returns {Promise<IMailTransportResult>} Recipients refused, when the
+   * message was accepted for the others
+   * @throws MailTransportError when the relay refuses the whole message
+   */
+  abstract send(message: IOutboundMessage): Promise<IMailTransportResult>;
+}
+
+/** Refusal of a whole message, permanent ones are not retried */
+export class MailTransportError extends Error {
+  constructor(
+    message: string,
+    readonly permanent: boolean,
+  ) {
+    super(message);
+    this.name = 'MailTransportError';
+  }
+}
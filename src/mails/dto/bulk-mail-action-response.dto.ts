@@ -0,0 +1,9 @@
+export class BulkMailActionResultDto {
+  id: number;
+  success: boolean;
+  error?: string;
+}
+
+export class BulkMailActionResponseDto {
+  results: BulkMailActionResultDto[];
+}
@@ -0,0 +1,26 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsInt,
+} from 'class-validator';
+
+export enum MailBulkAction {
+  MARK_READ = 'mark-read',
+  MARK_UNREAD = 'mark-unread',
+  DELETE = 'delete',
+}
+
+export class BulkMailActionDto {
+  @IsEnum(MailBulkAction, {
+    message: `action must be one of: ${Object.values(MailBulkAction).join(', ')}`,
+  })
+  action: MailBulkAction;
+
+  @IsArray({ message: 'ids must be an array' })
+  @ArrayNotEmpty({ message: 'ids must not be empty' })
+  @ArrayMaxSize(100, { message: 'ids must contain at most 100 ids' })
+  @IsInt({ each: true, message: 'each id must be an integer' })
+  ids: number[];
+}
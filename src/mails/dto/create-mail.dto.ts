@@ -0,0 +1,75 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+
+export const MAX_RECIPIENTS = 50;
+export const MAX_SUBJECT_LENGTH = 255;
+export const MAX_BODY_LENGTH = 100_000;
+
+export class MailRecipientDto {
+  @IsEmail({}, { message: 'recipient email must be a valid email' })
+  email: string;
+
+  @IsOptional()
+  @IsString({ message: 'recipient name must be a string' })
+  @MaxLength(100, { message: 'recipient name must be at most 100 characters' })
+  name?: string;
+}
+
+export class CreateMailDto {
+  @IsArray({ message: 'to must be an array' })
+  @ArrayNotEmpty({ message: 'to must contain at least one recipient' })
+  @ArrayMaxSize(MAX_RECIPIENTS, {
+    message: `to must contain at most ${MAX_RECIPIENTS} recipients`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => MailRecipientDto)
+  to: MailRecipientDto[];
+
+  @IsOptional()
+  @IsArray({ message: 'cc must be an array' })
+  @ArrayMaxSize(MAX_RECIPIENTS, {
+    message: `cc must contain at most ${MAX_RECIPIENTS} recipients`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => MailRecipientDto)
+  cc?: MailRecipientDto[];
+
+  @IsOptional()
+  @IsArray({ message: 'bcc must be an array' })
+  @ArrayMaxSize(MAX_RECIPIENTS, {
+    message: `bcc must contain at most ${MAX_RECIPIENTS} recipients`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => MailRecipientDto)
+  bcc?: MailRecipientDto[];
+
+  @IsOptional()
+  @IsArray({ message: 'replyTo must be an array' })
+  @ArrayMaxSize(5, { message: 'replyTo must contain at most 5 addresses' })
+  @ValidateNested({ each: true })
+  @Type(() => MailRecipientDto)
+  replyTo?: MailRecipientDto[];
+
+  @IsString({ message: 'subject must be a string' })
+  @IsNotEmpty({ message: 'subject must not be empty' })
+  @MaxLength(MAX_SUBJECT_LENGTH, {
+    message: `subject must be at most ${MAX_SUBJECT_LENGTH} characters`,
+  })
+  subject: string;
+
+  @IsString({ message: 'body must be a string' })
+  @MaxLength(MAX_BODY_LENGTH, {
+    message: `body must be at most ${MAX_BODY_LENGTH} characters`,
+  })
+  body: string;
+}
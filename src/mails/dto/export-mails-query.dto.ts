@@ -0,0 +1,25 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { MailFolder } from '../interfaces/mail-folder.enum';
+
+export enum MailExportFormat {
+  /** Every message in a single mbox file */
+  MBOX = 'mbox',
+  /** One .eml file per message, with the attachments as separate files */
+  ZIP = 'zip',
+}
+
+export class ExportMailsQueryDto {
+  /** Archive format, mbox when omitted */
+  @IsOptional()
+  @IsEnum(MailExportFormat, {
+    message: `format must be one of: ${Object.values(MailExportFormat).join(', ')}`,
+  })
+  format?: MailExportFormat;
+
+  /** Folder to export, the whole mailbox when omitted */
+  @IsOptional()
+  @IsEnum(MailFolder, {
+    message: `folder must be one of: ${Object.values(MailFolder).join(', ')}`,
+  })
+  folder?: MailFolder;
+}
@@ -0,0 +1,52 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import {
+  MAX_BODY_LENGTH,
+  MAX_RECIPIENTS,
+  MailRecipientDto,
+} from './create-mail.dto';
+
+export class ForwardMailDto {
+  @IsArray({ message: 'to must be an array' })
+  @ArrayNotEmpty({ message: 'to must contain at least one recipient' })
+  @ArrayMaxSize(MAX_RECIPIENTS, {
+    message: `to must contain at most ${MAX_RECIPIENTS} recipients`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => MailRecipientDto)
+  to: MailRecipientDto[];
+
+  @IsOptional()
+  @IsArray({ message: 'cc must be an array' })
+  @ArrayMaxSize(MAX_RECIPIENTS, {
+    message: `cc must contain at most ${MAX_RECIPIENTS} recipients`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => MailRecipientDto)
+  cc?: MailRecipientDto[];
+
+  @IsOptional()
+  @IsArray({ message: 'bcc must be an array' })
+  @ArrayMaxSize(MAX_RECIPIENTS, {
+    message: `bcc must contain at most ${MAX_RECIPIENTS} recipients`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => MailRecipientDto)
+  bcc?: MailRecipientDto[];
+
+  /** Note written above the forwarded mail */
+  @IsOptional()
+  @IsString({ message: 'body must be a string' })
+  @MaxLength(MAX_BODY_LENGTH, {
+    message: `body must be at most ${MAX_BODY_LENGTH} characters`,
+  })
+  body?: string;
+}
@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class GetMailChangesQueryDto {
+  /** Token of the previous sync, only the current token is returned when omitted */
+  @IsOptional()
+  @IsString({ message: 'since must be a string' })
+  @IsNotEmpty({ message: 'since must not be empty' })
+  @MaxLength(500, { message: 'since must be at most 500 characters' })
+  since?: string;
+}
@@ -0,0 +1,91 @@
+import {
+  IsBooleanString,
+  IsIn,
+  IsISO8601,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { PaginationParamsDto } from './pagination-params.dto';
+import { MailFolder } from '../interfaces/mail-folder.enum';
+
+export enum MailSortField {
+  DATE = 'date',
+  FROM = 'from',
+  SUBJECT = 'subject',
+  UNREAD = 'unread',
+}
+
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc',
+}
+
+export class GetMailsQueryDto extends PaginationParamsDto {
+  /** Folder to list, every folder but drafts, trash and spam when omitted */
+  @IsOptional()
+  @IsIn(Object.values(MailFolder), {
+    message: `folder must be one of: ${Object.values(MailFolder).join(', ')}`,
+  })
+  folder?: string;
+
+  /** Id of a label the mails must have */
+  @IsOptional()
+  @IsNumberString({}, { message: 'label must be a valid label id' })
+  label?: string;
+
+  @IsOptional()
+  @IsBooleanString({ message: 'unread must be true or false' })
+  unread?: string;
+
+  /** Keep mails with (true) or without (false) attachments */
+  @IsOptional()
+  @IsBooleanString({ message: 'hasAttachments must be true or false' })
+  hasAttachments?: string;
+
+  /** Case-insensitive match on the sender email or name */
+  @IsOptional()
+  @IsString({ message: 'from must be a string' })
+  @MaxLength(254, { message: 'from must be at most 254 characters' })
+  from?: string;
+
+  /** Case-insensitive match on a to, cc or visible bcc recipient email or name */
+  @IsOptional()
+  @IsString({ message: 'to must be a string' })
+  @MaxLength(254, { message: 'to must be at most 254 characters' })
+  to?: string;
+
+  /** Keep mails sent at or after this ISO date */
+  @IsOptional()
+  @IsISO8601({}, { message: 'after must be an ISO 8601 date' })
+  after?: string;
+
+  /** Keep mails sent strictly before this ISO date */
+  @IsOptional()
+  @IsISO8601({}, { message: 'before must be an ISO 8601 date' })
+  before?: string;
+
+  /** Sort field, mails keep their storage order when omitted */
+  @IsOptional()
+  @IsIn(Object.values(MailSortField), {
+    message: `sort must be one of: ${Object.values(MailSortField).join(', ')}`,
+  })
+  sort?: string;
+
+  /** Defaults to desc for date and unread, asc for from and subject */
+  @IsOptional()
+  @IsIn(Object.values(SortOrder), {
+    message: `order must be one of: ${Object.values(SortOrder).join(', ')}`,
+  })
+  order?: string;
+
+  /**
+   * Opaque cursor returned as `nextCursor`, switches to keyset pagination
+   * on (date, id), or on id for the storage order: `skip` is not allowed
+   * and `sort` can only be date
+   */
+  @IsOptional()
+  @IsString({ message: 'cursor must be a string' })
+  cursor?: string;
+}
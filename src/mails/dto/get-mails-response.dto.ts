@@ -3,4 +3,7 @@ import { IMail } from '../interfaces/mail.interface';
 export class GetMailsPaginatedResponseDto {
   mails: IMail[];
   totalCount: number;
+  /** Cursor of the next page, null when the list is sorted on another field than date or is exhausted */
+  nextCursor: string | null;
+  hasMore: boolean;
 }
@@ -0,0 +1,14 @@
+import { IMail } from '../interfaces/mail.interface';
+
+export class MailChangesResponseDto {
+  /** Ids of the mails created since the token, in creation order */
+  created: number[];
+  /** Ids of the mails changed since the token, created mails excluded */
+  updated: number[];
+  /** Ids of the mails deleted since the token, mails both created and deleted are left out */
+  deleted: number[];
+  /** Current state of the created and updated mails */
+  mails: IMail[];
+  /** Token to send as `since` on the next sync */
+  token: string;
+}
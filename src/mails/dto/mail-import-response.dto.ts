@@ -0,0 +1,14 @@
+export class MailImportResultDto {
+  /** File name, followed by `#<position>` for the messages of an mbox archive */
+  source: string;
+  success: boolean;
+  /** Id of the imported mail */
+  id?: number;
+  error?: string;
+}
+
+export class MailImportResponseDto {
+  importedCount: number;
+  failedCount: number;
+  results: MailImportResultDto[];
+}
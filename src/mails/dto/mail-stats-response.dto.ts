@@ -0,0 +1,16 @@
+import { MailFolder } from '../interfaces/mail-folder.enum';
+
+export class MailCountersDto {
+  totalCount: number;
+  unreadCount: number;
+}
+
+export class MailStatsResponseDto {
+  /** Mails listed by default, drafts, trash and spam are left out */
+  totalCount: number;
+  unreadCount: number;
+  /** Counters of every folder, including drafts, trash and spam */
+  folders: Record<MailFolder, MailCountersDto>;
+  /** Counters of every label in use, keyed by label id, drafts, trash and spam are left out */
+  labels: Record<number, MailCountersDto>;
+}
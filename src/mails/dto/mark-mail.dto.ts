@@ -0,0 +1,9 @@
+import { IsBoolean, IsInt } from 'class-validator';
+
+export class MarkMailDto {
+  @IsInt({ message: 'id must be an integer' })
+  id: number;
+
+  @IsBoolean({ message: 'unread must be a boolean' })
+  unread: boolean;
+}
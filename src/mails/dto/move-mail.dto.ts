@@ -0,0 +1,9 @@
+import { IsEnum } from 'class-validator';
+import { MailFolder } from '../interfaces/mail-folder.enum';
+
+export class MoveMailDto {
+  @IsEnum(MailFolder, {
+    message: `folder must be one of: ${Object.values(MailFolder).join(', ')}`,
+  })
+  folder: MailFolder;
+}
@@ -0,0 +1,44 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import {
+  MAX_BODY_LENGTH,
+  MAX_RECIPIENTS,
+  MailRecipientDto,
+} from './create-mail.dto';
+
+/**
+ * Recipients of a reply are taken from the original mail, `cc` and `bcc`
+ * add recipients on top of them
+ */
+export class ReplyMailDto {
+  @IsOptional()
+  @IsArray({ message: 'cc must be an array' })
+  @ArrayMaxSize(MAX_RECIPIENTS, {
+    message: `cc must contain at most ${MAX_RECIPIENTS} recipients`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => MailRecipientDto)
+  cc?: MailRecipientDto[];
+
+  @IsOptional()
+  @IsArray({ message: 'bcc must be an array' })
+  @ArrayMaxSize(MAX_RECIPIENTS, {
+    message: `bcc must contain at most ${MAX_RECIPIENTS} recipients`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => MailRecipientDto)
+  bcc?: MailRecipientDto[];
+
+  @IsString({ message: 'body must be a string' })
+  @MaxLength(MAX_BODY_LENGTH, {
+    message: `body must be at most ${MAX_BODY_LENGTH} characters`,
+  })
+  body: string;
+}
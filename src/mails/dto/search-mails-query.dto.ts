@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { PaginationParamsDto } from './pagination-params.dto';
+
+export class SearchMailsQueryDto extends PaginationParamsDto {
+  @IsString({ message: 'q must be a string' })
+  @IsNotEmpty({ message: 'q must not be empty' })
+  @MaxLength(500, { message: 'q must be at most 500 characters' })
+  q: string;
+}
@@ -0,0 +1,6 @@
+import { IMailSearchHit } from '../interfaces/mail-search.interface';
+import { GetMailsPaginatedResponseDto } from './get-mails-response.dto';
+
+export class SearchMailsResponseDto extends GetMailsPaginatedResponseDto {
+  declare mails: IMailSearchHit[];
+}
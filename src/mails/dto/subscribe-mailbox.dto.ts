@@ -0,0 +1,14 @@
+import { ArrayUnique, IsArray, IsEnum, IsOptional } from 'class-validator';
+import { MailFolder } from '../interfaces/mail-folder.enum';
+
+export class SubscribeMailboxDto {
+  /** Folders to follow, the whole mailbox when omitted */
+  @IsOptional()
+  @IsArray({ message: 'folders must be an array' })
+  @ArrayUnique({ message: 'folders must not contain duplicates' })
+  @IsEnum(MailFolder, {
+    each: true,
+    message: `each folder must be one of: ${Object.values(MailFolder).join(', ')}`,
+  })
+  folders?: MailFolder[];
+}
@@ -0,0 +1,7 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class UpdateMailDto {
+  @IsOptional()
+  @IsBoolean({ message: 'unread must be a boolean' })
+  unread?: boolean;
+}
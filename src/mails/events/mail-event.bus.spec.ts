@@ -0,0 +1,94 @@
+import { MAIL_EVENT_HISTORY_SIZE, MailEventBus } from './mail-event.bus';
+import { MailStreamEvent } from '../interfaces/mail-event.interface';
+import { MailEventType } from '../interfaces/mail-event-type.enum';
+import { MailFolder } from '../interfaces/mail-folder.enum';
+
+describe('MailEventBus', () => {
+  let bus: MailEventBus;
+
+  const publish = (ownerId: number, mailId: number) =>
+    bus.publish({
+      type: MailEventType.DELETED,
+      ownerId,
+      mailId,
+      folders: [MailFolder.INBOX],
+    });
+
+  beforeEach(() => {
+    bus = new MailEventBus();
+  });
+
+  const replay = (lastEventId: string): MailStreamEvent[] => {
+    const received: MailStreamEvent[] = [];
+    bus
+      .stream(1, lastEventId)
+      .subscribe((event) => received.push(event))
+      .unsubscribe();
+    return received;
+  };
+
+  it('should only replay the events of the mailbox', () => {
+    // PREPARE
+    for (let mailId = 1; mailId <= 4; mailId++) {
+      publish(mailId % 2, mailId);
+    }
+
+    // CALL
+    const received = replay(bus.streamEventId(1));
+
+    // CONTROL
+    expect(received.map((event) => event.id)).toEqual([3]);
+    expect(received.every((event) => event.ownerId === 1)).toBe(true);
+  });
+
+  it('should send a reset when missed events are no longer retained', () => {
+    // PREPARE
+    for (let mailId = 1; mailId <= MAIL_EVENT_HISTORY_SIZE + 1; mailId++) {
+      publish(mailId % 2, mailId);
+    }
+
+    // CALL
+    const received = replay(bus.streamEventId(0));
+
+    // CONTROL
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      id: MAIL_EVENT_HISTORY_SIZE + 1,
+      type: MailEventType.RESET,
+      ownerId: 1,
+    });
+    expect(received[0]).not.toHaveProperty('mailId');
+  });
+
+  it('should send a reset for an id of another epoch or a malformed id', () => {
+    // PREPARE
+    publish(1, 1);
+
+    // CALL
+    const results = [
+      replay(`${new MailEventBus().epoch}:0`),
+      replay('0'),
+      replay(`${bus.epoch}:next`),
+      replay(bus.streamEventId(2)),
+    ];
+
+    // CONTROL
+    results.forEach((received) => {
+      expect(received.map((event) => event.type)).toEqual([
+        MailEventType.RESET,
+      ]);
+    });
+  });
+
+  it('should complete the streams on shutdown', () => {
+    // PREPARE
+    const complete = jest.fn();
+    bus.stream(1).subscribe({ complete });
+
+    // CALL
+    bus.onModuleDestroy();
+
+    // CONTROL
+    expect(complete).toHaveBeenCalled();
+  });
+});
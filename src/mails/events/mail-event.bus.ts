@@ -0,0 +1,130 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Observable, Subject, concat, defer, filter, from } from 'rxjs';
+import {
+  IMailEvent,
+  MailStreamEvent,
+} from '../interfaces/mail-event.interface';
+import { MailEventType } from '../interfaces/mail-event-type.enum';
+
+/** Number of past events kept for reconnecting clients */
+export const MAIL_EVENT_HISTORY_SIZE = 1000;
+
+/**
+ * @description In-process bus of mailbox changes. `MailsService` publishes
+ * on every mutation, the SSE endpoint and the WebSocket gateway subscribe.
+ * The delta sync relies on the change log of `MailRepository` instead.
+ * Event ids start over when the process restarts, along with a new epoch.
+ */
+@Injectable()
+export class MailEventBus implements OnModuleDestroy {
+  /** Identifies this bus instance, event ids are only comparable within it */
+  readonly epoch = randomUUID();
+
+  private readonly events = new Subject<IMailEvent>();
+  /** Latest events, oldest first */
+  private readonly history: IMailEvent[] = [];
+  private lastId = 0;
+
+  /** Id of the latest published event, 0 before the first one */
+  get lastEventId(): number {
+    return this.lastId;
+  }
+
+  /**
+   * @description Number and publish an event
+   * @param event - Event without its id and date
+   * @returns {IMailEvent} Published event
+   */
+  publish(event: Omit<IMailEvent, 'id' | 'date'>): IMailEvent {
+    const published: IMailEvent = {
+      ...event,
+      id: ++this.lastId,
+      date: new Date().toISOString(),
+    };
+
+    this.history.push(published);
+    if (this.history.length > MAIL_EVENT_HISTORY_SIZE) {
+      this.history.shift();
+    }
+    this.events.next(published);
+    return published;
+  }
+
+  /**
+   * @description Every event of a mailbox published after an event id
+   * @param ownerId - Id of the mailbox owner
+   * @param lastEventId - Id of the last event known by the client
+   * @returns {IMailEvent[] | undefined} Events oldest first, undefined when
+   * some of them are no longer retained
+   */
+  eventsSince(ownerId: number, lastEventId: number): IMailEvent[] | undefined {
+    const oldestId = this.history[0]?.id ?? this.lastId + 1;
+    if (lastEventId < oldestId - 1 || lastEventId > this.lastId) {
+      return undefined;
+    }
+    return this.history.filter(
+      (event) => event.id > lastEventId && event.ownerId === ownerId,
+    );
+  }
+
+  /**
+   * @description Id of an event on the streams, prefixed with the epoch so
+   * that ids given by a previous process are told apart
+   * @param eventId - Id of the event
+   * @returns {string} Stream event id, e.g. `<epoch>:42`
+   */
+  streamEventId(eventId: number): string {
+    return `${this.epoch}:${eventId}`;
+  }
+
+  /**
+   * @description Events of a mailbox, the retained events published after
+   * `lastEventId` are replayed first. When some of them are no longer
+   * retained, or the id comes from another epoch, a reset event is sent
+   * instead of a partial replay.
+   * @param ownerId - Id of the mailbox owner
+   * @param lastEventId - Stream id of the last event received by the client
+   * @returns {Observable<MailStreamEvent>} Events, completed on shutdown
+   */
+  stream(ownerId: number, lastEventId?: string): Observable<MailStreamEvent> {
+    const ofMailbox = (event: IMailEvent) => event.ownerId === ownerId;
+
+    // Replay and subscription happen in the same tick, no event can slip between
+    return defer(() =>
+      concat(
+        from(
+          lastEventId === undefined ? [] : this.replay(ownerId, lastEventId),
+        ),
+        this.events.pipe(filter(ofMailbox)),
+      ),
+    );
+  }
+
+  private replay(ownerId: number, lastEventId: string): MailStreamEvent[] {
+    const separator = lastEventId.lastIndexOf(':');
+    const eventId = Number(lastEventId.slice(separator + 1));
+    const events =
+      separator !== -1 &&
+      lastEventId.slice(0, separator) === this.epoch &&
+      Number.isInteger(eventId)
+        ? this.eventsSince(ownerId, eventId)
+        : undefined;
+
+    return (
+      events ?? [
+        {
+          id: this.lastId,
+          type: MailEventType.RESET,
+          ownerId,
+          date: new Date().toISOString(),
+        },
+      ]
+    );
+  }
+
+  onModuleDestroy(): void {
+    // Ends the open streams so that pending SSE responses are closed
+    this.events.complete();
+  }
+}
@@ -0,0 +1,19 @@
+import { ArgumentsHost, Catch, HttpException } from '@nestjs/common';
+import { BaseWsExceptionFilter, WsException } from '@nestjs/websockets';
+
+/**
+ * @description Send the HTTP exceptions thrown by pipes and services to the
+ * socket as they would be sent over HTTP, e.g.
+ * `{ statusCode: 404, message: 'Mail with id 1 not found', error: 'Not Found' }`
+ */
+@Catch()
+export class WsExceptionFilter extends BaseWsExceptionFilter {
+  catch(exception: unknown, host: ArgumentsHost): void {
+    super.catch(
+      exception instanceof HttpException
+        ? new WsException(exception.getResponse())
+        : exception,
+      host,
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Readable } from 'stream';
+import * as archiver from 'archiver';
+import { MailsService } from '../mails.service';
+import { folderOf } from '../mail-folders';
+import { IMail } from '../interfaces/mail.interface';
+import { IUser } from '../interfaces/user.interface';
+import { IMailAttachment } from '../interfaces/mail-attachment.interface';
+import { IMailExport } from '../interfaces/mail-export.interface';
+import {
+  ExportMailsQueryDto,
+  MailExportFormat,
+} from '../dto/export-mails-query.dto';
+import { buildMimeMessage } from './mime-message.builder';
+import { writeMboxEntry } from './mbox';
+
+/**
+ * @description Export mails as .eml files, mbox archives or zip archives.
+ * Exports are streamed: a message is generated when the previous one has been
+ * written, and attachment contents are read from the storage as they go.
+ */
+@Injectable()
+export class MailExporter {
+  constructor(private readonly mailsService: MailsService) {}
+
+  private readonly logger = new Logger(MailExporter.name);
+
+  /**
+   * @description Export a single mail as an RFC 5322 message
+   * @param owner - Owner of the mailbox
+   * @param id - Id of the mail
+   * @returns {Promise<IMailExport>} The .eml file
+   */
+  async exportMail(owner: IUser, id: number): Promise<IMailExport> {
+    const mail = this.mailsService.getMailById(owner, id);
+    return {
+      filename: `${id}.eml`,
+      contentType: 'message/rfc822',
+      stream: await this.buildMessage(owner, mail),
+    };
+  }
+
+  /**
+   * @description Export the mails of a folder, or of the whole mailbox
+   * @param owner - Owner of the mailbox
+   * @param query - Archive format and folder
+   * @returns {IMailExport} The mbox or zip archive
+   */
+  exportMails(owner: IUser, query: ExportMailsQueryDto): IMailExport {
+    const mails = this.mailsService
+      .getAllMails(owner)
+      .filter((mail) => !query.folder || folderOf(mail) === query.folder);
+    const name = query.folder ?? 'mailbox';
+
+    if (query.format === MailExportFormat.ZIP) {
+      return {
+        filename: `${name}.zip`,
+        contentType: 'application/zip',
+        stream: this.writeZip(owner, mails),
+      };
+    }
+    return {
+      filename: `${name}.mbox`,
+      contentType: 'application/mbox',
+      stream: Readable.from(this.writeMbox(owner, mails)),
+    };
+  }
+
+  private async *writeMbox(owner: IUser, mails: IMail[]) {
+    for (const mail of mails) {
+      yield* writeMboxEntry(mail, await this.buildMessage(owner, mail));
+    }
+  }
+
+  /**
+   * @description Write a zip archive holding `<folder>/<id>.eml` for every
+   * mail and its attachments under `<folder>/<id>/`. Entries are generated
+   * lazily, when the archive gets to them.
+   * @param owner - Owner of the mailbox
+   * @param mails - Mails to archive
+   * @returns {Readable} Stream of the archive
+   */
+  private writeZip(owner: IUser, mails: IMail[]): Readable {
+    const archive = archiver('zip');
+
+    mails.forEach((mail) => {
+      const path = `${folderOf(mail)}/${mail.id}`;
+      const date = new Date(mail.date);
+
+      archive.append(
+        Readable.from(this.readLazily(() => this.buildMessage(owner, mail))),
+        { name: `${path}.eml`, date },
+      );
+      const attachments = mail.attachments ?? [];
+      attachmentEntryNames(attachments).forEach((name, index) => {
+        const attachment = attachments[index];
+        archive.append(
+          Readable.from(
+            this.readLazily(() => this.openAttachment(owner, mail, attachment)),
+          ),
+          { name: `${path}/${name}`, date },
+        );
+      });
+    });
+
+    archive.finalize().catch((error) => {
+      this.logger.error(`Error writing zip export: ${error}`);
+    });
+    return archive;
+  }
+
+  private buildMessage(owner: IUser, mail: IMail): Promise<Readable> {
+    return buildMimeMessage(mail, (attachment) =>
+      this.openAttachment(owner, mail, attachment),
+    );
+  }
+
+  private openAttachment(
+    owner: IUser,
+    mail: IMail,
+    attachment: IMailAttachment,
+  ): Readable {
+    return this.mailsService.openAttachment(owner, mail.id!, attachment.id)
+      .stream;
+  }
+
+  /** Open a stream only when its content is first read */
+  private async *readLazily(open: () => Readable | Promise<Readable>) {
+    yield* await open();
+  }
+}
+
+/**
+ * @description Names of the attachment files in an archive: path separators
+ * are replaced and duplicated names numbered, e.g. `deck (2).pdf`
+ * @param attachments - Attachments of a mail
+ * @returns File names, in attachment order
+ */
+function attachmentEntryNames(attachments: IMailAttachment[]): string[] {
+  const used = new Set<string>();
+  return attachments.map(({ filename }) => {
+    const safe =
+      filename.replace(/[/\\]/g, '_').replace(/^\.+$/, '_') || 'attachment';
+    const dot = safe.lastIndexOf('.');
+    const [stem, extension] =
+      dot > 0 ? [safe.slice(0, dot), safe.slice(dot)] : [safe, ''];
+
+    let name = safe;
+    for (let count = 2; used.has(name); count++) {
+      name = `${stem} (${count})${extension}`;
+    }
+    used.add(name);
+    return name;
+  });
+}
@@ -0,0 +1,72 @@
+import { Readable } from 'stream';
+import { mboxFromLine, writeMboxEntry } from './mbox';
+import { splitMbox } from '../import/mbox';
+
+describe('mbox', () => {
+  const mail = {
+    from: { name: 'Alice Martin', email: 'alice@example.com' },
+    subject: 'Hello',
+    body: 'Hello',
+    date: '2024-03-05T08:07:06.000Z',
+  };
+
+  const write = async (...chunks: string[]) => {
+    const entry: Buffer[] = [];
+    for await (const chunk of writeMboxEntry(mail, Readable.from(chunks))) {
+      entry.push(chunk);
+    }
+    return Buffer.concat(entry).toString('latin1');
+  };
+
+  describe('mboxFromLine', () => {
+    it('should format the sender and the UTC date', () => {
+      // CALL
+      const line = mboxFromLine(mail);
+
+      // CONTROL
+      expect(line).toBe('From alice@example.com Tue Mar  5 08:07:06 2024');
+    });
+  });
+
+  describe('writeMboxEntry', () => {
+    it('should write the separator, LF line endings and a blank line', async () => {
+      // CALL
+      const entry = await write('Subject: Hello\r\n\r\nHello');
+
+      // CONTROL
+      expect(entry).toBe(
+        'From alice@example.com Tue Mar  5 08:07:06 2024\nSubject: Hello\n\nHello\n\n',
+      );
+    });
+
+    it('should escape From lines split across chunks', async () => {
+      // CALL
+      const entry = await write(
+        'Subject: Hi\r\n\r\nFr',
+        'om here\r',
+        '\n>From quoted\r\n',
+      );
+
+      // CONTROL
+      expect(entry.split('\n').slice(3)).toEqual([
+        '>From here',
+        '>>From quoted',
+        '',
+        '',
+      ]);
+    });
+
+    it('should be read back by the importer', async () => {
+      // PREPARE
+      const message = 'Subject: Hi\r\n\r\nFrom here\r\n>From quoted';
+
+      // CALL
+      const archive = (await write(message)) + (await write(message));
+
+      // CONTROL
+      expect(
+        splitMbox(Buffer.from(archive, 'latin1')).map((raw) => raw.toString()),
+      ).toEqual([message, message]);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { Readable } from 'stream';
+import { IMail } from '../interfaces/mail.interface';
+
+/** Body line to escape, it would be read as a separator otherwise (mboxrd) */
+const FROM_LINE = /^>*From /;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+];
+
+/**
+ * @description Separator line starting a message in an mbox archive, e.g.
+ * `From sam.lee@example.com Mon Jan  1 09:00:00 2024`
+ * @param mail - Mail of the message
+ * @returns Separator line, without line ending
+ */
+export function mboxFromLine(mail: IMail): string {
+  const date = new Date(mail.date);
+  const time = [date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()]
+    .map((value) => String(value).padStart(2, '0'))
+    .join(':');
+  return [
+    'From',
+    mail.from.email,
+    WEEKDAYS[date.getUTCDay()],
+    MONTHS[date.getUTCMonth()],
+    String(date.getUTCDate()).padStart(2, ' '),
+    time,
+    date.getUTCFullYear(),
+  ].join(' ');
+}
+
+/**
+ * @description Write a message as an mbox entry (RFC 4155, mboxrd): the
+ * separator line comes first, `From ` lines of the message are escaped with
+ * `>` and lines end with LF. The message is read chunk by chunk.
+ * @param mail - Mail of the message
+ * @param message - Raw RFC 5322 message
+ * @returns Chunks of the entry, followed by an empty line
+ */
+export async function* writeMboxEntry(
+  mail: IMail,
+  message: Readable,
+): AsyncGenerator<Buffer> {
+  yield Buffer.from(`${mboxFromLine(mail)}\n`, 'latin1');
+
+  // Lines can be split across chunks, the last partial one waits for the next
+  let pending = '';
+  for await (const chunk of message) {
+    const lines = (pending + Buffer.from(chunk).toString('latin1')).split(
+      /\r?\n/,
+    );
+    pending = lines.pop()!;
+    if (lines.length) {
+      yield Buffer.from(lines.map(escapeLine).join('\n') + '\n', 'latin1');
+    }
+  }
+
+  const last = pending.replace(/\r$/, '');
+  yield Buffer.from(last ? `${escapeLine(last)}\n\n` : '\n', 'latin1');
+}
+
+function escapeLine(line: string): string {
+  return FROM_LINE.test(line) ? `>${line}` : line;
+}
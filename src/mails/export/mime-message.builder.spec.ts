@@ -0,0 +1,85 @@
+import { Readable } from 'stream';
+import { buildMimeMessage } from './mime-message.builder';
+import { parseMimeMessage } from '../import/mime-message.parser';
+import { IMail } from '../interfaces/mail.interface';
+
+describe('buildMimeMessage', () => {
+  const mail: IMail = {
+    id: 1,
+    from: { name: 'Sam Lée', email: 'sam.lee@example.com' },
+    to: [{ name: 'Alice Martin', email: 'alice@example.com' }],
+    bcc: [{ name: 'Bob Stone', email: 'bob@example.com' }],
+    subject:
+      '✅ Project status update for the whole quarter, milestones included',
+    body: 'Progress:\n✅ Authentication done\n⏳ Documentation pending',
+    date: '2024-01-01T09:00:00.000Z',
+    messageId: '<status@example.com>',
+    inReplyTo: '<request@example.com>',
+    references: ['<request@example.com>'],
+    attachments: [
+      {
+        id: 'a1',
+        filename: 'notes.txt',
+        contentType: 'text/plain',
+        size: 11,
+        checksum: '',
+      },
+    ],
+  };
+  const openAttachment = () => Readable.from([Buffer.from('hello world')]);
+
+  const build = async (source: IMail) =>
+    Buffer.concat(
+      (await (
+        await buildMimeMessage(source, openAttachment)
+      ).toArray()) as Buffer[],
+    );
+
+  it('should write 7-bit headers folded under 78 characters', async () => {
+    // CALL
+    const raw = (await build(mail)).toString();
+
+    // CONTROL
+    const [headers] = raw.split('\r\n\r\n');
+    expect(headers).toMatch(/^[\x20-\x7e\r\n\t]+$/);
+    headers.split('\r\n').forEach((line) => {
+      expect(line.length).toBeLessThanOrEqual(78);
+    });
+    expect(headers).toContain('Message-ID: <status@example.com>');
+    expect(headers).toContain('Bcc: Bob Stone <bob@example.com>');
+  });
+
+  it('should be parsed back into the same mail', async () => {
+    // CALL
+    const parsed = await parseMimeMessage(await build(mail));
+
+    // CONTROL
+    expect(parsed.mail).toEqual({
+      from: mail.from,
+      to: mail.to,
+      bcc: mail.bcc,
+      subject: mail.subject,
+      body: mail.body,
+      date: mail.date,
+      messageId: mail.messageId,
+      inReplyTo: mail.inReplyTo,
+      references: mail.references,
+    });
+    expect(parsed.attachments).toEqual([
+      {
+        filename: 'notes.txt',
+        contentType: 'text/plain',
+        content: Buffer.from('hello world'),
+      },
+    ]);
+  });
+
+  it('should write a single part message without attachment', async () => {
+    // CALL
+    const raw = (await build({ ...mail, attachments: undefined })).toString();
+
+    // CONTROL
+    expect(raw).toContain('Content-Type: text/plain; charset=utf-8');
+    expect(raw).not.toContain('multipart');
+  });
+});
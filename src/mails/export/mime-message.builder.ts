@@ -0,0 +1,50 @@
+import { Readable } from 'stream';
+import { createTransport } from 'nodemailer';
+import { Address } from 'nodemailer/lib/mailer';
+import { IMail } from '../interfaces/mail.interface';
+import { IMailAttachment } from '../interfaces/mail-attachment.interface';
+import { IUser } from '../interfaces/user.interface';
+
+/** Transport handing the generated message back as a stream instead of sending it */
+const rawMessageTransport = createTransport({
+  streamTransport: true,
+  buffer: false,
+});
+
+/**
+ * @description Build the RFC 5322 message of a mail: headers are folded and
+ * non-ASCII text encoded by `nodemailer`, the body and the attachments are
+ * encoded while the message is read. Bcc is kept, it is only given to the
+ * sender of the mail.
+ * @param mail - Mail to export
+ * @param openAttachment - Opens the content of an attachment of the mail
+ * @returns {Promise<Readable>} Stream of the raw message, CRLF line endings
+ */
+export async function buildMimeMessage(
+  mail: IMail,
+  openAttachment: (attachment: IMailAttachment) => Readable,
+): Promise<Readable> {
+  const { message } = await rawMessageTransport.sendMail({
+    from: toAddress(mail.from),
+    to: mail.to?.map(toAddress),
+    cc: mail.cc?.map(toAddress),
+    bcc: mail.bcc?.map(toAddress),
+    replyTo: mail.replyTo?.map(toAddress),
+    subject: mail.subject,
+    text: mail.body,
+    date: new Date(mail.date),
+    messageId: mail.messageId,
+    inReplyTo: mail.inReplyTo,
+    references: mail.references,
+    attachments: (mail.attachments ?? []).map((attachment) => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      content: openAttachment(attachment),
+    })),
+  });
+  return message as Readable;
+}
+
+function toAddress(user: IUser): Address {
+  return { name: user.name, address: user.email };
+}
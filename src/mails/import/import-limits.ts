@@ -0,0 +1,8 @@
+/** Maximum size of an uploaded .eml file or mbox archive, in bytes */
+export const MAX_IMPORT_FILE_SIZE = 50 * 1024 * 1024;
+
+/** Maximum number of files of an import request */
+export const MAX_IMPORT_FILES = 5;
+
+/** Multipart field carrying the files to import */
+export const IMPORT_FIELD = 'files';
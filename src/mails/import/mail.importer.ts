@@ -0,0 +1,82 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { MailsService } from '../mails.service';
+import { IUser } from '../interfaces/user.interface';
+import { IImportFile } from '../interfaces/mail-import.interface';
+import {
+  MailImportResponseDto,
+  MailImportResultDto,
+} from '../dto/mail-import-response.dto';
+import { isMbox, splitMbox } from './mbox';
+import { parseMimeMessage } from './mime-message.parser';
+
+/**
+ * @description Import .eml files and mbox archives into a mailbox, used by
+ * `POST /mails/import` and the `import-mails` command. A message that cannot
+ * be parsed or stored is reported and the import goes on.
+ */
+@Injectable()
+export class MailImporter {
+  constructor(private readonly mailsService: MailsService) {}
+
+  private readonly logger = new Logger(MailImporter.name);
+
+  /**
+   * @description Import every message of the files, in order
+   * @param owner - Owner of the mailbox the mails are imported into
+   * @param files - .eml files and mbox archives
+   * @returns {Promise<MailImportResponseDto>} Result for each message
+   */
+  async importFiles(
+    owner: IUser,
+    files: IImportFile[],
+  ): Promise<MailImportResponseDto> {
+    if (files.length === 0) {
+      throw new BadRequestException('No file to import');
+    }
+
+    const results: MailImportResultDto[] = [];
+    for (const file of files) {
+      const archive = isMbox(file);
+      const messages = archive ? splitMbox(file.content) : [file.content];
+
+      for (const [index, raw] of messages.entries()) {
+        const source = archive
+          ? `${file.filename}#${index + 1}`
+          : file.filename;
+        results.push(await this.importMessage(owner, source, raw));
+      }
+    }
+
+    const importedCount = results.filter((result) => result.success).length;
+    return plainToInstance(MailImportResponseDto, {
+      importedCount,
+      failedCount: results.length - importedCount,
+      results,
+    });
+  }
+
+  private async importMessage(
+    owner: IUser,
+    source: string,
+    raw: Buffer,
+  ): Promise<MailImportResultDto> {
+    try {
+      const { mail, attachments } = await parseMimeMessage(raw);
+      const imported = this.mailsService.importMail(owner, mail, attachments);
+      return { source, success: true, id: imported.id };
+    } catch (error) {
+      const message =
+        error instanceof HttpException || error instanceof Error
+          ? error.message
+          : String(error);
+      this.logger.warn(`Error importing ${source}: ${message}`);
+      return { source, success: false, error: message };
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { isMbox, splitMbox } from './mbox';
+
+describe('mbox', () => {
+  const archive = [
+    'From alice@example.com Mon Jan  1 00:00:00 2024',
+    'From: alice@example.com',
+    'Subject: First',
+    '',
+    'Hello',
+    '>From the start',
+    '>>From a quote',
+    '',
+    'From bob@example.com Tue Jan  2 00:00:00 2024',
+    'From: bob@example.com',
+    'Subject: Second',
+    '',
+    'Bye',
+    '',
+  ].join('\n');
+
+  describe('isMbox', () => {
+    it('should recognize archives by extension', () => {
+      // CALL
+      const mbox = isMbox({ filename: 'INBOX.MBOX', content: Buffer.from('') });
+      const eml = isMbox({ filename: 'a.eml', content: Buffer.from(archive) });
+
+      // CONTROL
+      expect(mbox).toBe(true);
+      expect(eml).toBe(false);
+    });
+
+    it('should recognize archives by their first line', () => {
+      // CALL
+      const mbox = isMbox({
+        filename: 'export',
+        content: Buffer.from(archive),
+      });
+      const message = isMbox({
+        filename: 'export',
+        content: Buffer.from('From: alice@example.com\r\n\r\nHello'),
+      });
+
+      // CONTROL
+      expect(mbox).toBe(true);
+      expect(message).toBe(false);
+    });
+  });
+
+  describe('splitMbox', () => {
+    it('should split the messages and unescape From lines', () => {
+      // CALL
+      const messages = splitMbox(Buffer.from(archive));
+
+      // CONTROL
+      expect(messages.map((message) => message.toString())).toEqual([
+        'From: alice@example.com\r\nSubject: First\r\n\r\nHello\r\nFrom the start\r\n>From a quote',
+        'From: bob@example.com\r\nSubject: Second\r\n\r\nBye',
+      ]);
+    });
+
+    it('should keep the bytes of 8-bit messages', () => {
+      // PREPARE
+      const body = Buffer.from('Caf\xe9', 'latin1');
+      const content = Buffer.concat([
+        Buffer.from('From x Mon Jan  1 00:00:00 2024\nSubject: 8bit\n\n'),
+        body,
+      ]);
+
+      // CALL
+      const [message] = splitMbox(content);
+
+      // CONTROL
+      expect(message.subarray(-body.length)).toEqual(body);
+    });
+
+    it('should ignore content before the first separator and empty messages', () => {
+      // CALL
+      const messages = splitMbox(
+        Buffer.from('garbage\nFrom a\n\nFrom b\nSubject: Kept\n'),
+      );
+
+      // CONTROL
+      expect(messages.map((message) => message.toString())).toEqual([
+        'Subject: Kept',
+      ]);
+    });
+  });
+});
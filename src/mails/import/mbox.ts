@@ -0,0 +1,50 @@
+import { IImportFile } from '../interfaces/mail-import.interface';
+
+/** Separator line starting each message of an mbox archive */
+const FROM_LINE = /^From /;
+/** Body line escaped by the mbox writer, e.g. `>From here` */
+const ESCAPED_FROM_LINE = /^>+From /;
+
+/**
+ * @description Whether a file is an mbox archive rather than a single
+ * message: by extension, then by its first line
+ * @param file - File to import
+ */
+export function isMbox(file: IImportFile): boolean {
+  if (/\.(mbox|mbx)$/i.test(file.filename)) {
+    return true;
+  }
+  if (/\.eml$/i.test(file.filename)) {
+    return false;
+  }
+  return FROM_LINE.test(file.content.subarray(0, 5).toString('latin1'));
+}
+
+/**
+ * @description Split an mbox archive (RFC 4155) into its messages: the
+ * `From ` separator lines are dropped and escaped `>From ` lines restored
+ * (mboxrd). Bytes are kept as is, the charsets are decoded by the parser.
+ * @param content - Content of the archive
+ * @returns {Buffer[]} Raw RFC 5322 messages, in archive order
+ */
+export function splitMbox(content: Buffer): Buffer[] {
+  const messages: string[][] = [];
+  let current: string[] | undefined;
+
+  content
+    .toString('latin1')
+    .split(/\r?\n/)
+    .forEach((line) => {
+      if (FROM_LINE.test(line)) {
+        current = [];
+        messages.push(current);
+      } else if (current) {
+        current.push(ESCAPED_FROM_LINE.test(line) ? line.slice(1) : line);
+      }
+    });
+
+  return messages
+    .map((lines) => lines.join('\r\n').trim())
+    .filter((message) => message.length > 0)
+    .map((message) => Buffer.from(message, 'latin1'));
+}
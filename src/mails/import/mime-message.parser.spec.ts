@@ -0,0 +1,139 @@
+import { parseMimeMessage } from './mime-message.parser';
+
+describe('parseMimeMessage', () => {
+  const message = (...lines: string[]) => Buffer.from(lines.join('\r\n'));
+
+  it('should read the headers of a plain text message', async () => {
+    // CALL
+    const { mail, attachments } = await parseMimeMessage(
+      message(
+        'From: "Alice Martin" <Alice@Example.com>',
+        'To: Sam Lee <sam.lee@example.com>, bob@example.com',
+        'Cc: Team: carol@example.com, dave@example.com;',
+        'Subject: Quarterly report',
+        'Date: Mon, 01 Jan 2024 10:00:00 +0100',
+        'Message-ID: <report@example.com>',
+        'In-Reply-To: <request@example.com>',
+        'References: <thread@example.com> <request@example.com>',
+        '',
+        'Here it is.',
+        '',
+      ),
+    );
+
+    // CONTROL
+    expect(mail).toEqual({
+      from: { name: 'Alice Martin', email: 'alice@example.com' },
+      to: [
+        { name: 'Sam Lee', email: 'sam.lee@example.com' },
+        { name: 'bob@example.com', email: 'bob@example.com' },
+      ],
+      cc: [
+        { name: 'carol@example.com', email: 'carol@example.com' },
+        { name: 'dave@example.com', email: 'dave@example.com' },
+      ],
+      subject: 'Quarterly report',
+      body: 'Here it is.',
+      date: '2024-01-01T09:00:00.000Z',
+      messageId: '<report@example.com>',
+      inReplyTo: '<request@example.com>',
+      references: ['<thread@example.com>', '<request@example.com>'],
+    });
+    expect(attachments).toEqual([]);
+  });
+
+  it('should decode encoded words, charsets and transfer encodings', async () => {
+    // CALL
+    const { mail } = await parseMimeMessage(
+      message(
+        'From: =?UTF-8?B?w4lsb2RpZQ==?= <elodie@example.com>',
+        'Subject: =?ISO-8859-1?Q?R=E9union_d=E9plac=E9e?=',
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=iso-8859-1',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Rendez-vous au caf=E9 =E0 midi.',
+      ),
+    );
+
+    // CONTROL
+    expect(mail.from).toEqual({ name: 'Élodie', email: 'elodie@example.com' });
+    expect(mail.subject).toBe('Réunion déplacée');
+    expect(mail.body).toBe('Rendez-vous au café à midi.');
+  });
+
+  it('should extract the text part and the attachments of a multipart message', async () => {
+    // CALL
+    const { mail, attachments } = await parseMimeMessage(
+      message(
+        'From: alice@example.com',
+        'Subject: Deck',
+        'MIME-Version: 1.0',
+        'Content-Type: multipart/mixed; boundary="outer"',
+        '',
+        '--outer',
+        'Content-Type: multipart/alternative; boundary="inner"',
+        '',
+        '--inner',
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        'See the deck.',
+        '--inner',
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        '<p>See the <b>deck</b>.</p>',
+        '--inner--',
+        '--outer',
+        'Content-Type: text/plain; name="deck.txt"',
+        'Content-Disposition: attachment; filename="deck.txt"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        'aGVsbG8gd29ybGQ=',
+        '--outer',
+        'Content-Type: application/octet-stream',
+        'Content-Disposition: attachment',
+        'Content-Transfer-Encoding: base64',
+        '',
+        'AAEC',
+        '--outer--',
+      ),
+    );
+
+    // CONTROL
+    expect(mail.body).toBe('See the deck.');
+    expect(attachments).toEqual([
+      {
+        filename: 'deck.txt',
+        contentType: 'text/plain',
+        content: Buffer.from('hello world'),
+      },
+      {
+        filename: 'attachment-2',
+        contentType: 'application/octet-stream',
+        content: Buffer.from([0, 1, 2]),
+      },
+    ]);
+  });
+
+  it('should default the missing subject and date', async () => {
+    // PREPARE
+    const before = Date.now();
+
+    // CALL
+    const { mail } = await parseMimeMessage(
+      message('From: alice@example.com', 'Date: not a date', '', 'Hi'),
+    );
+
+    // CONTROL
+    expect(mail.subject).toBe('');
+    expect(new Date(mail.date).getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it('should reject a message without sender', async () => {
+    // CALL
+    const call = parseMimeMessage(message('Subject: Anonymous', '', 'Hi'));
+
+    // CONTROL
+    await expect(call).rejects.toThrow('Missing From header');
+  });
+});
@@ -0,0 +1,85 @@
+import { AddressObject, EmailAddress, simpleParser } from 'mailparser';
+import { IUser } from '../interfaces/user.interface';
+import { IMail } from '../interfaces/mail.interface';
+import { IParsedMessage } from '../interfaces/mail-import.interface';
+import { uniqueUsers } from '../recipients';
+
+/**
+ * @description Parse an RFC 5322 message: MIME parts, transfer encodings,
+ * charsets and encoded-word headers are decoded by `mailparser`. The text
+ * part becomes the body, derived from the HTML part when missing.
+ * @param raw - Raw message
+ * @returns {Promise<IParsedMessage>} Mail and attachment contents
+ * @throws Error when the message has no sender
+ */
+export async function parseMimeMessage(raw: Buffer): Promise<IParsedMessage> {
+  const parsed = await simpleParser(raw, { skipTextToHtml: true });
+
+  const [from] = toUsers(parsed.from);
+  if (!from) {
+    throw new Error('Missing From header');
+  }
+
+  const mail: IMail = {
+    from,
+    subject: parsed.subject ?? '',
+    body: (parsed.text ?? '').trim(),
+    date: (isValidDate(parsed.date) ? parsed.date : new Date()).toISOString(),
+  };
+  const recipients = {
+    to: toUsers(parsed.to),
+    cc: toUsers(parsed.cc),
+    bcc: toUsers(parsed.bcc),
+    replyTo: toUsers(parsed.replyTo),
+  };
+  Object.entries(recipients).forEach(([field, users]) => {
+    if (users.length) {
+      mail[field as keyof typeof recipients] = users;
+    }
+  });
+  if (parsed.messageId) {
+    mail.messageId = parsed.messageId;
+  }
+  if (parsed.inReplyTo) {
+    mail.inReplyTo = parsed.inReplyTo;
+  }
+  if (parsed.references) {
+    mail.references = [parsed.references].flat();
+  }
+
+  return {
+    mail,
+    attachments: parsed.attachments.map((attachment, index) => ({
+      filename: attachment.filename ?? `attachment-${index + 1}`,
+      contentType: attachment.contentType,
+      content: attachment.content,
+    })),
+  };
+}
+
+/**
+ * @description Flatten address headers, groups included, the name defaults
+ * to the email
+ * @param addresses - Parsed address header, repeated headers give an array
+ * @returns {IUser[]} Users with a lowercased email
+ */
+function toUsers(addresses?: AddressObject | AddressObject[]): IUser[] {
+  const flatten = (address: EmailAddress): EmailAddress[] =>
+    address.group ? address.group.flatMap(flatten) : [address];
+
+  return uniqueUsers(
+    [addresses ?? []]
+      .flat()
+      .flatMap((header) => header.value)
+      .flatMap(flatten)
+      .filter((address) => address.address)
+      .map((address) => ({
+        name: address.name || address.address!,
+        email: address.address!,
+      })),
+  );
+}
+
+function isValidDate(date?: Date): date is Date {
+  return date !== undefined && !isNaN(date.getTime());
+}
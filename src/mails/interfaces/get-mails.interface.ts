@@ -3,4 +3,6 @@ import { IMail } from './mail.interface';
 export interface IGetMailsPaginated {
   mails: IMail[];
   totalCount: number;
+  nextCursor: string | null;
+  hasMore: boolean;
 }
@@ -0,0 +1,33 @@
+import { Readable } from 'stream';
+
+export interface IMailAttachment {
+  /** Server-side id, also the key of the content in the attachment storage */
+  id: string;
+  filename: string;
+  /** MIME type given on upload, e.g. `application/pdf` */
+  contentType: string;
+  /** Size in bytes */
+  size: number;
+  /** Hex-encoded SHA-256 of the content */
+  checksum: string;
+}
+
+/** Content of an attachment to store, from an upload or an imported message */
+export interface IAttachmentContent {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/** Inclusive byte range of a `Range: bytes=start-end` request */
+export interface IByteRange {
+  start: number;
+  end: number;
+}
+
+export interface IAttachmentDownload {
+  attachment: IMailAttachment;
+  /** Requested range, undefined when the whole content is sent */
+  range?: IByteRange;
+  stream: Readable;
+}
@@ -0,0 +1,6 @@
+export interface IMailChangeToken {
+  /** Id of the change log, tokens of a previous log are expired */
+  epoch: string;
+  /** Id of the last change known by the client */
+  changeId: number;
+}
@@ -0,0 +1,11 @@
+/** Latest change of a mail in the change log of its mailbox */
+export interface IMailChange {
+  mailId: number;
+  ownerId: number;
+  /** Change id of the creation, 0 for mails stored before the change log */
+  createdChangeId: number;
+  /** Change id of the latest change */
+  changeId: number;
+  /** Set once the mail has been deleted */
+  deleted?: boolean;
+}
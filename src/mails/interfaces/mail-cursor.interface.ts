@@ -0,0 +1,8 @@
+import { SortOrder } from '../dto/get-mails-query.dto';
+
+export interface IMailCursor {
+  /** Date of the last mail, undefined when the storage order is kept */
+  date?: string;
+  id: number;
+  order: SortOrder;
+}
@@ -0,0 +1,10 @@
+export enum MailDeliveryStatus {
+  /** Waiting for its first delivery attempt */
+  QUEUED = 'queued',
+  /** Accepted by the relay */
+  SENT = 'sent',
+  /** Temporarily refused, retried later */
+  DEFERRED = 'deferred',
+  /** Permanently refused, or still refused after the last attempt */
+  BOUNCED = 'bounced',
+}
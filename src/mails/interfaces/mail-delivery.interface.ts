@@ -0,0 +1,43 @@
+import { Readable } from 'stream';
+import { MailDeliveryStatus } from './mail-delivery-status.enum';
+
+/** Delivery of a sent mail to the relay */
+export interface IMailDelivery {
+  status: MailDeliveryStatus;
+  /** Number of delivery attempts made */
+  attempts: number;
+  /** When a queued or deferred mail is due, immediately when missing */
+  nextAttemptAt?: string;
+  /** When the relay accepted the mail */
+  sentAt?: string;
+  /** Error of the last failed attempt */
+  lastError?: string;
+  /** Recipients temporarily refused, the only ones of the next attempt */
+  pendingRecipients?: string[];
+  /** Recipients that will not receive the mail */
+  bouncedRecipients?: string[];
+}
+
+/** Message handed to a transport */
+export interface IOutboundMessage {
+  /** Envelope sender */
+  from: string;
+  /** Envelope recipients, bcc included */
+  recipients: string[];
+  /** RFC 5322 message, without Bcc header */
+  raw: Readable;
+}
+
+/** Recipient refused by the relay */
+export interface IRefusedRecipient {
+  recipient: string;
+  /** Whether retrying cannot succeed, e.g. an SMTP 5xx reply */
+  permanent: boolean;
+  reason: string;
+}
+
+/** Outcome of a message accepted by the relay for some recipients */
+export interface IMailTransportResult {
+  /** Recipients refused, the others accepted the message */
+  refused: IRefusedRecipient[];
+}
@@ -0,0 +1,7 @@
+export enum MailEventType {
+  CREATED = 'mail.created',
+  UPDATED = 'mail.updated',
+  DELETED = 'mail.deleted',
+  /** The missed events are no longer retained, the client must resync */
+  RESET = 'mailbox.reset',
+}
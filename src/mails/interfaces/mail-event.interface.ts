@@ -0,0 +1,30 @@
+import { IMail } from './mail.interface';
+import { MailEventType } from './mail-event-type.enum';
+import { MailFolder } from './mail-folder.enum';
+
+export interface IMailEvent {
+  /** Sequence number shared by every mailbox, sent as the SSE event id */
+  id: number;
+  type: Exclude<MailEventType, MailEventType.RESET>;
+  /** Id of the user account whose mailbox changed */
+  ownerId: number;
+  mailId: number;
+  /** Folders the mail was in before and after the change */
+  folders: MailFolder[];
+  /** The mail after the change, absent from deleted events */
+  mail?: IMail;
+  /** Fields overwritten by an update */
+  changes?: Partial<IMail>;
+  date: string;
+}
+
+/** First event of a stream resumed after events that are no longer retained */
+export interface IMailResetEvent {
+  /** Id of the latest event, the stream goes on after it */
+  id: number;
+  type: MailEventType.RESET;
+  ownerId: number;
+  date: string;
+}
+
+export type MailStreamEvent = IMailEvent | IMailResetEvent;
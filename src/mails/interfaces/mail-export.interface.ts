@@ -0,0 +1,9 @@
+import { Readable } from 'stream';
+
+/** Export streamed to the client as a file download */
+export interface IMailExport {
+  filename: string;
+  /** MIME type of the file, e.g. `application/mbox` */
+  contentType: string;
+  stream: Readable;
+}
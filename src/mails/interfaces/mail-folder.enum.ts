@@ -0,0 +1,8 @@
+export enum MailFolder {
+  INBOX = 'inbox',
+  SENT = 'sent',
+  DRAFTS = 'drafts',
+  ARCHIVE = 'archive',
+  TRASH = 'trash',
+  SPAM = 'spam',
+}
@@ -0,0 +1,14 @@
+import { IMail } from './mail.interface';
+import { IAttachmentContent } from './mail-attachment.interface';
+
+/** File given to the importer, a single message or an mbox archive */
+export interface IImportFile {
+  filename: string;
+  content: Buffer;
+}
+
+/** RFC 5322 message converted to a mail, before it is stored */
+export interface IParsedMessage {
+  mail: IMail;
+  attachments: IAttachmentContent[];
+}
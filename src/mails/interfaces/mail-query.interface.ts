@@ -0,0 +1,22 @@
+import { IMail } from './mail.interface';
+
+export type MailQueryClauseKind = 'term' | 'phrase' | 'operator';
+
+export interface IMailQueryClause {
+  kind: MailQueryClauseKind;
+  negated: boolean;
+  /** Operator name, only set for operator clauses */
+  operator?: string;
+  value: string;
+  /** Raw token as typed by the user */
+  token: string;
+  /** Offset of the token in the query */
+  position: number;
+}
+
+export interface ICompiledMailQuery {
+  clauses: IMailQueryClause[];
+  /** Normalized words of the positive terms and phrases, for ranking */
+  terms: string[];
+  predicate: (mail: IMail) => boolean;
+}
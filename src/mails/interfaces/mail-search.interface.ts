@@ -0,0 +1,17 @@
+import { IMail } from './mail.interface';
+
+export interface IMailSearchMatch {
+  id: number;
+  score: number;
+  terms: string[];
+}
+
+export interface IMailHighlights {
+  subject: string;
+  body: string;
+}
+
+export interface IMailSearchHit extends IMail {
+  score: number;
+  highlights: IMailHighlights;
+}
@@ -1,10 +1,39 @@
+import { MailFolder } from './mail-folder.enum';
+import { IMailAttachment } from './mail-attachment.interface';
 import { IUser } from './user.interface';
+import { IMailDelivery } from './mail-delivery.interface';
 
 export interface IMail {
   id?: number;
+  /** Id of the user account whose mailbox holds the mail */
+  ownerId?: number;
   unread?: boolean;
   from: IUser;
+  to?: IUser[];
+  cc?: IUser[];
+  /** Only returned to the sender of the mail */
+  bcc?: IUser[];
+  /** Addresses replies should go to instead of `from` */
+  replyTo?: IUser[];
   subject: string;
   body: string;
+  /** Metadata of the attached files, contents live in the attachment storage */
+  attachments?: IMailAttachment[];
   date: string;
+  /** Mails without folder are received mails, in the inbox */
+  folder?: MailFolder;
+  /** When the mail was moved to the trash, it is purged after the retention window */
+  trashedAt?: string;
+  /** Ids of the user-defined labels of the mail */
+  labelIds?: number[];
+  /** Revision of a draft, incremented on every save */
+  version?: number;
+  /** RFC 5322 Message-ID, e.g. `<abc@example.com>` */
+  messageId?: string;
+  /** Message-ID of the mail this one replies to */
+  inReplyTo?: string;
+  /** Message-IDs of the conversation, oldest first */
+  references?: string[];
+  /** Delivery to the relay of a mail sent through the API */
+  delivery?: IMailDelivery;
 }
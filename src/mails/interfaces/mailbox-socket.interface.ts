@@ -0,0 +1,30 @@
+import { IMail } from './mail.interface';
+import { IMailEvent } from './mail-event.interface';
+import { MailEventType } from './mail-event-type.enum';
+import { MailFolder } from './mail-folder.enum';
+import { IUser } from './user.interface';
+
+/** Messages sent by the clients of the `/mails` namespace, with their ack */
+export interface IMailboxClientEvents {
+  subscribe: (
+    payload: { folders?: MailFolder[] },
+    ack: (result: { folders: MailFolder[] }) => void,
+  ) => void;
+  'mail.mark': (
+    payload: { id: number; unread: boolean },
+    ack: (mail: IMail) => void,
+  ) => void;
+}
+
+/** Events pushed to the clients of the `/mails` namespace */
+export interface IMailboxServerEvents {
+  [MailEventType.CREATED]: (event: IMailEvent) => void;
+  [MailEventType.UPDATED]: (event: IMailEvent) => void;
+  [MailEventType.DELETED]: (event: IMailEvent) => void;
+  /** Sent by the exception filter when a message is rejected */
+  exception: (error: { status: 'error'; message: unknown }) => void;
+}
+
+export interface IMailboxSocketData {
+  user: IUser;
+}
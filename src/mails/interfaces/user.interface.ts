@@ -1,8 +1,17 @@
+import { UserStatus } from './user-status.enum';
+
+export interface IUserAvatar {
+  /** URL of the picture */
+  src: string;
+  /** Alternative text, defaults to the name of the user on clients */
+  alt?: string;
+}
+
 export interface IUser {
   id?: number;
   name: string;
   email: string;
-  avatar?: any;
-  status?: any;
+  avatar?: IUserAvatar;
+  status?: UserStatus;
   location?: string;
 }
@@ -0,0 +1,34 @@
+import { IMailChangeToken } from './interfaces/mail-change-token.interface';
+
+/**
+ * @description Encode a position in the change log
+ * @param token - Change log id and last change id
+ * @returns {string} Opaque base64url token
+ */
+export function encodeMailChangeToken(token: IMailChangeToken): string {
+  return Buffer.from(JSON.stringify(token)).toString('base64url');
+}
+
+/**
+ * @description Decode a token built by `encodeMailChangeToken`
+ * @param value - Opaque token received from the client
+ * @returns {IMailChangeToken} Decoded token
+ * @throws Error when the token is malformed
+ */
+export function decodeMailChangeToken(value: string): IMailChangeToken {
+  const token = JSON.parse(
+    Buffer.from(value, 'base64url').toString('utf8'),
+  ) as Partial<IMailChangeToken>;
+
+  if (
+    typeof token !== 'object' ||
+    token === null ||
+    typeof token.epoch !== 'string' ||
+    !Number.isInteger(token.changeId) ||
+    token.changeId! < 0
+  ) {
+    throw new Error(`Malformed change token: ${value}`);
+  }
+
+  return token as IMailChangeToken;
+}
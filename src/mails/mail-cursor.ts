@@ -0,0 +1,59 @@
+import { SortOrder } from './dto/get-mails-query.dto';
+import { IMail } from './interfaces/mail.interface';
+import { IMailCursor } from './interfaces/mail-cursor.interface';
+
+/**
+ * @description Encode the position of a mail in a (date, id) ordered list,
+ * or in the storage order (ascending id) when no order is given
+ * @param mail - Last mail of the current page
+ * @param order - Order of the date sorted list
+ * @returns {string} Opaque base64url cursor
+ */
+export function encodeMailCursor(mail: IMail, order?: SortOrder): string {
+  const cursor: IMailCursor = order
+    ? { date: mail.date, id: mail.id ?? 0, order }
+    : { id: mail.id ?? 0, order: SortOrder.ASC };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * @description Decode a cursor built by `encodeMailCursor`
+ * @param value - Opaque cursor received from the client
+ * @returns {IMailCursor} Decoded cursor
+ * @throws Error when the cursor is malformed
+ */
+export function decodeMailCursor(value: string): IMailCursor {
+  const cursor = JSON.parse(
+    Buffer.from(value, 'base64url').toString('utf8'),
+  ) as Partial<IMailCursor>;
+
+  if (
+    typeof cursor !== 'object' ||
+    cursor === null ||
+    (cursor.date !== undefined &&
+      (typeof cursor.date !== 'string' ||
+        isNaN(new Date(cursor.date).getTime()))) ||
+    !Number.isInteger(cursor.id) ||
+    !Object.values(SortOrder).includes(cursor.order as SortOrder)
+  ) {
+    throw new Error(`Malformed cursor: ${value}`);
+  }
+
+  return cursor as IMailCursor;
+}
+
+/**
+ * @description Tell whether a mail comes after the cursor position
+ * @param mail - Mail to check
+ * @param cursor - Decoded cursor
+ * @returns {boolean} True when the mail belongs to the following pages
+ */
+export function isAfterMailCursor(mail: IMail, cursor: IMailCursor): boolean {
+  const direction = cursor.order === SortOrder.ASC ? 1 : -1;
+  const dateDelta =
+    cursor.date === undefined
+      ? 0
+      : new Date(mail.date).getTime() - new Date(cursor.date).getTime();
+  const delta = dateDelta || (mail.id ?? 0) - cursor.id;
+  return direction * delta > 0;
+}
@@ -0,0 +1,27 @@
+import { IMail } from './interfaces/mail.interface';
+import { MailFolder } from './interfaces/mail-folder.enum';
+
+/** Folders left out of the mail list and search unless explicitly asked for */
+export const HIDDEN_FOLDERS: readonly MailFolder[] = [
+  MailFolder.DRAFTS,
+  MailFolder.TRASH,
+  MailFolder.SPAM,
+];
+
+/**
+ * @description Folder of a mail, mails stored without folder are received
+ * mails in the inbox
+ * @param mail - Mail to locate
+ * @returns {MailFolder} Folder of the mail
+ */
+export function folderOf(mail: IMail): MailFolder {
+  return mail.folder ?? MailFolder.INBOX;
+}
+
+/**
+ * @description Whether a mail is listed when no folder is asked for
+ * @param mail - Mail to check
+ */
+export function isListedByDefault(mail: IMail): boolean {
+  return !HIDDEN_FOLDERS.includes(folderOf(mail));
+}
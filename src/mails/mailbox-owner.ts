@@ -0,0 +1,13 @@
+import { IUser } from './interfaces/user.interface';
+
+/**
+ * Owner of the seed mailbox, the account with id 1
+ */
+export const mailboxOwner: IUser = {
+  id: 1,
+  name: 'Sam Lee',
+  email: 'sam.lee@example.com',
+  avatar: {
+    src: 'https://i.pravatar.cc/128?u=0',
+  },
+};
@@ -1,20 +1,118 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { StreamableFile } from '@nestjs/common';
+import { Response } from 'express';
 import { MailsController } from './mails.controller';
 import { MailsService } from './mails.service';
+import { mailRepositoryProvider } from './repositories/mail-repository.provider';
+import { attachmentStorageProvider } from './attachments/attachment-storage.provider';
+import { MailSearchIndex } from './search/mail-search.index';
+import { MailEventBus } from './events/mail-event.bus';
+import { MailImporter } from './import/mail.importer';
+import { MailExporter } from './export/mail.exporter';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { mailboxOwner } from './mailbox-owner';
 
 describe('MailsController', () => {
   let controller: MailsController;
+  let service: MailsService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [MailsController],
-      providers: [MailsService],
-    }).compile();
+      providers: [
+        MailsService,
+        MailSearchIndex,
+        MailEventBus,
+        MailImporter,
+        MailExporter,
+        mailRepositoryProvider,
+        attachmentStorageProvider,
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
 
     controller = module.get<MailsController>(MailsController);
+    service = module.get<MailsService>(MailsService);
   });
 
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  describe('downloadAttachment', () => {
+    const fakeResponse = (headersSent: boolean) => {
+      const res = {
+        headersSent,
+        destroyed: false,
+        statusCode: 200,
+        attachment: jest.fn(),
+        type: jest.fn(),
+        set: jest.fn(),
+        status: jest.fn(),
+        removeHeader: jest.fn(),
+        destroy: jest.fn(),
+        json: jest.fn(),
+        send: jest.fn(),
+        end: jest.fn(),
+      };
+      res.status.mockReturnValue(res);
+      return res;
+    };
+    const download = (res: ReturnType<typeof fakeResponse>) => {
+      const mail = service.createMail(
+        mailboxOwner,
+        { to: [{ email: 'test1@example.com' }], subject: 'Deck', body: '' },
+        [
+          {
+            originalname: 'deck.txt',
+            mimetype: 'text/plain',
+            size: 11,
+            buffer: Buffer.from('hello world'),
+          } as Express.Multer.File,
+        ],
+      );
+      return controller.downloadAttachment(
+        mailboxOwner,
+        mail.id!,
+        mail.attachments![0].id,
+        undefined,
+        res as unknown as Response,
+      );
+    };
+
+    it('should answer 500 when the storage fails before the headers are sent', () => {
+      // PREPARE
+      const res = fakeResponse(false);
+      const file = download(res);
+
+      // CALL
+      file.errorHandler(new Error('EIO'), res);
+
+      // CONTROL
+      expect(file).toBeInstanceOf(StreamableFile);
+      expect(res.removeHeader).toHaveBeenCalledWith('Content-Disposition');
+      expect(res.status).toHaveBeenLastCalledWith(500);
+      expect(res.json).toHaveBeenCalledWith({
+        statusCode: 500,
+        message: 'Error reading attachment from storage',
+        error: 'Internal Server Error',
+      });
+      expect(res.destroy).not.toHaveBeenCalled();
+    });
+
+    it('should cut the connection when the storage fails mid-stream', () => {
+      // PREPARE
+      const res = fakeResponse(true);
+      const file = download(res);
+
+      // CALL
+      file.errorHandler(new Error('EIO'), res);
+
+      // CONTROL
+      expect(res.destroy).toHaveBeenCalled();
+      expect(res.json).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,13 +1,290 @@
-import { Controller, Get, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  InternalServerErrorException,
+  Logger,
+  MessageEvent,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  Res,
+  Sse,
+  StreamableFile,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { Observable, map } from 'rxjs';
 import { MailsService } from './mails.service';
-import { PaginationParamsDto } from './dto/pagination-params.dto';
+import { MailImporter } from './import/mail.importer';
+import { MailExporter } from './export/mail.exporter';
+import { GetMailsQueryDto } from './dto/get-mails-query.dto';
+import { SearchMailsQueryDto } from './dto/search-mails-query.dto';
+import { CreateMailDto } from './dto/create-mail.dto';
+import { UpdateMailDto } from './dto/update-mail.dto';
+import { BulkMailActionDto } from './dto/bulk-mail-action.dto';
+import { ReplyMailDto } from './dto/reply-mail.dto';
+import { ForwardMailDto } from './dto/forward-mail.dto';
+import { MoveMailDto } from './dto/move-mail.dto';
+import { GetMailChangesQueryDto } from './dto/get-mail-changes-query.dto';
+import { ExportMailsQueryDto } from './dto/export-mails-query.dto';
+import { IUser } from './interfaces/user.interface';
+import { IMailExport } from './interfaces/mail-export.interface';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AllowQueryToken } from '../auth/decorators/allow-query-token.decorator';
+import {
+  ATTACHMENTS_FIELD,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_MAIL,
+} from './attachments/attachment-limits';
+import {
+  IMPORT_FIELD,
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_FILES,
+} from './import/import-limits';
 
 @Controller('mails')
+@UseGuards(JwtAuthGuard)
 export class MailsController {
-  constructor(private readonly mailsService: MailsService) {}
+  constructor(
+    private readonly mailsService: MailsService,
+    private readonly mailImporter: MailImporter,
+    private readonly mailExporter: MailExporter,
+  ) {}
+
+  private readonly logger = new Logger(MailsController.name);
 
   @Get()
-  getMails(@Query() query: PaginationParamsDto) {
-    return this.mailsService.getMailPaginated(query);
+  getMails(@CurrentUser() user: IUser, @Query() query: GetMailsQueryDto) {
+    return this.mailsService.getMailPaginated(user, query);
+  }
+
+  @Post()
+  @UseInterceptors(
+    FilesInterceptor(ATTACHMENTS_FIELD, MAX_ATTACHMENTS_PER_MAIL, {
+      limits: { fileSize: MAX_ATTACHMENT_SIZE },
+    }),
+  )
+  createMail(
+    @CurrentUser() user: IUser,
+    @Body() dto: CreateMailDto,
+    @UploadedFiles() files: Express.Multer.File[] = [],
+  ) {
+    return this.mailsService.createMail(user, dto, files);
+  }
+
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FilesInterceptor(IMPORT_FIELD, MAX_IMPORT_FILES, {
+      limits: { fileSize: MAX_IMPORT_FILE_SIZE },
+    }),
+  )
+  importMails(
+    @CurrentUser() user: IUser,
+    @UploadedFiles() files: Express.Multer.File[] = [],
+  ) {
+    return this.mailImporter.importFiles(
+      user,
+      files.map((file) => ({
+        filename: file.originalname,
+        content: file.buffer,
+      })),
+    );
+  }
+
+  @Get('search')
+  searchMails(@CurrentUser() user: IUser, @Query() query: SearchMailsQueryDto) {
+    return this.mailsService.searchMails(user, query);
+  }
+
+  @Get('stats')
+  getMailStats(@CurrentUser() user: IUser) {
+    return this.mailsService.getMailStats(user);
+  }
+
+  @Get('changes')
+  getMailChanges(
+    @CurrentUser() user: IUser,
+    @Query() query: GetMailChangesQueryDto,
+  ) {
+    return this.mailsService.getMailChanges(user, query);
+  }
+
+  @Get('export')
+  exportMails(@CurrentUser() user: IUser, @Query() query: ExportMailsQueryDto) {
+    return toStreamableFile(this.mailExporter.exportMails(user, query));
+  }
+
+  @Sse('events')
+  @AllowQueryToken()
+  streamMailEvents(
+    @CurrentUser() user: IUser,
+    @Headers('last-event-id') lastEventId: string | undefined,
+  ): Observable<MessageEvent> {
+    return this.mailsService.streamMailEvents(user, lastEventId).pipe(
+      map((event) => ({
+        id: this.mailsService.getMailEventStreamId(event.id),
+        type: event.type,
+        data: event,
+      })),
+    );
+  }
+
+  @Post('actions')
+  @HttpCode(HttpStatus.OK)
+  applyBulkAction(@CurrentUser() user: IUser, @Body() dto: BulkMailActionDto) {
+    return this.mailsService.applyBulkAction(user, dto);
+  }
+
+  @Get(':id')
+  getMail(@CurrentUser() user: IUser, @Param('id', ParseIntPipe) id: number) {
+    return this.mailsService.getMailById(user, id);
+  }
+
+  @Get(':id/raw')
+  async exportMail(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return toStreamableFile(await this.mailExporter.exportMail(user, id));
+  }
+
+  @Get(':id/attachments/:attachmentId')
+  downloadAttachment(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('attachmentId') attachmentId: string,
+    @Headers('range') range: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const {
+      attachment,
+      range: servedRange,
+      stream,
+    } = this.mailsService.openAttachment(user, id, attachmentId, range);
+
+    res.attachment(attachment.filename);
+    res.type(attachment.contentType);
+    res.set('Accept-Ranges', 'bytes');
+    if (servedRange) {
+      res.status(HttpStatus.PARTIAL_CONTENT);
+      res.set(
+        'Content-Range',
+        `bytes ${servedRange.start}-${servedRange.end}/${attachment.size}`,
+      );
+      res.set('Content-Length', `${servedRange.end - servedRange.start + 1}`);
+    } else {
+      res.set('Content-Length', `${attachment.size}`);
+    }
+
+    return new StreamableFile(stream).setErrorHandler((error) => {
+      this.logger.error(`Error reading attachment ${attachment.id}: ${error}`);
+      replyStreamError(res);
+    });
+  }
+
+  @Post(':id/reply')
+  replyToMail(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: ReplyMailDto,
+  ) {
+    return this.mailsService.replyToMail(user, id, dto);
+  }
+
+  @Post(':id/reply-all')
+  replyAllToMail(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: ReplyMailDto,
+  ) {
+    return this.mailsService.replyToMail(user, id, dto, true);
+  }
+
+  @Post(':id/forward')
+  forwardMail(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: ForwardMailDto,
+  ) {
+    return this.mailsService.forwardMail(user, id, dto);
+  }
+
+  @Post(':id/move')
+  @HttpCode(HttpStatus.OK)
+  moveMail(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: MoveMailDto,
+  ) {
+    return this.mailsService.moveMail(user, id, dto);
   }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  deleteMail(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    this.mailsService.deleteMail(user, id);
+  }
+
+  @Patch(':id')
+  updateMail(
+    @CurrentUser() user: IUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateMailDto,
+  ) {
+    return this.mailsService.updateMail(user, id, dto);
+  }
+}
+
+/**
+ * @description Send an export as a file download
+ * @param file - Exported file
+ * @returns {StreamableFile} Response streaming the file
+ */
+function toStreamableFile(file: IMailExport): StreamableFile {
+  return new StreamableFile(file.stream, {
+    type: file.contentType,
+    disposition: `attachment; filename="${file.filename}"`,
+  });
+}
+
+/**
+ * @description Answer a storage failure while streaming a file: a JSON error
+ * while nothing has been sent, otherwise the connection is cut so the client
+ * sees a truncated body instead of a complete one
+ * @param res - Response of the download
+ */
+function replyStreamError(res: Response): void {
+  if (res.destroyed) {
+    return;
+  }
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+
+  [
+    'Accept-Ranges',
+    'Content-Disposition',
+    'Content-Range',
+    'Content-Type',
+  ].forEach((header) => res.removeHeader(header));
+  const exception = new InternalServerErrorException(
+    'Error reading attachment from storage',
+  );
+  res.status(exception.getStatus()).json(exception.getResponse());
 }
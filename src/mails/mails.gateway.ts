@@ -0,0 +1,226 @@
+import {
+  OnModuleDestroy,
+  UseFilters,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  OnGatewayInit,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { DefaultEventsMap, Namespace, Socket } from 'socket.io';
+import { Subscription } from 'rxjs';
+import { MailsService } from './mails.service';
+import { AuthService } from '../auth/auth.service';
+import { IMail } from './interfaces/mail.interface';
+import { IMailEvent } from './interfaces/mail-event.interface';
+import { MailEventType } from './interfaces/mail-event-type.enum';
+import { IUser } from './interfaces/user.interface';
+import { MailFolder } from './interfaces/mail-folder.enum';
+import {
+  IMailboxClientEvents,
+  IMailboxServerEvents,
+  IMailboxSocketData,
+} from './interfaces/mailbox-socket.interface';
+import { SubscribeMailboxDto } from './dto/subscribe-mailbox.dto';
+import { MarkMailDto } from './dto/mark-mail.dto';
+import { WsExceptionFilter } from './events/ws-exception.filter';
+
+type MailboxNamespace = Namespace<
+  IMailboxClientEvents,
+  IMailboxServerEvents,
+  DefaultEventsMap,
+  IMailboxSocketData
+>;
+
+type MailboxSocket = Socket<
+  IMailboxClientEvents,
+  IMailboxServerEvents,
+  DefaultEventsMap,
+  IMailboxSocketData
+>;
+
+/** Room of the sockets following a whole mailbox */
+function mailboxRoom(ownerId: number): string {
+  return `mailbox:${ownerId}`;
+}
+
+/** Room of the sockets following a folder of a mailbox */
+function folderRoom(ownerId: number, folder: MailFolder): string {
+  return `mailbox:${ownerId}:${folder}`;
+}
+
+/**
+ * @description Live mailbox sync over socket.io, on the `/mails` namespace.
+ * Sockets authenticate with an access token given as `auth.token` or as a
+ * bearer `Authorization` header, then follow their whole mailbox until they
+ * send `subscribe` with a list of folders. Changes are pushed as
+ * `mail.created`, `mail.updated` and `mail.deleted` events, `mail.mark`
+ * sets the read state of a mail and acknowledges with the updated mail.
+ */
+@WebSocketGateway({ namespace: 'mails' })
+@UseFilters(new WsExceptionFilter())
+@UsePipes(new ValidationPipe({ transform: true }))
+export class MailsGateway
+  implements
+    OnGatewayInit,
+    OnGatewayConnection,
+    OnGatewayDisconnect,
+    OnModuleDestroy
+{
+  constructor(
+    private readonly authService: AuthService,
+    private readonly mailsService: MailsService,
+  ) {}
+
+  @WebSocketServer()
+  private readonly server: MailboxNamespace;
+
+  /** Event subscription and connected socket count, per mailbox owner id */
+  private readonly mailboxes = new Map<
+    number,
+    { subscription: Subscription; sockets: number }
+  >();
+
+  afterInit(server: MailboxNamespace): void {
+    // Refused handshakes reach the client as a `connect_error`
+    server.use((socket: MailboxSocket, next) => {
+      try {
+        socket.data.user = this.authService.authenticate(
+          this.extractToken(socket),
+        );
+        next();
+      } catch (error) {
+        next(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  handleConnection(socket: MailboxSocket): void {
+    const { user } = socket.data;
+    void socket.join(mailboxRoom(user.id!));
+    this.watchMailbox(user);
+  }
+
+  handleDisconnect(socket: MailboxSocket): void {
+    const { user } = socket.data;
+    if (user) {
+      this.unwatchMailbox(user.id!);
+    }
+  }
+
+  onModuleDestroy(): void {
+    this.mailboxes.forEach(({ subscription }) => subscription.unsubscribe());
+    this.mailboxes.clear();
+  }
+
+  /**
+   * @description Follow some folders of the mailbox, or the whole mailbox
+   * @param socket - Client socket
+   * @param dto - Folders to follow, replacing the previous subscription
+   * @returns Followed folders, empty for the whole mailbox
+   */
+  @SubscribeMessage('subscribe')
+  subscribe(
+    @ConnectedSocket() socket: MailboxSocket,
+    @MessageBody() dto: SubscribeMailboxDto,
+  ): { folders: MailFolder[] } {
+    const ownerId = socket.data.user.id!;
+    const folders = dto.folders ?? [];
+
+    socket.rooms.forEach((room) => {
+      if (room !== socket.id) {
+        void socket.leave(room);
+      }
+    });
+    if (folders.length === 0) {
+      void socket.join(mailboxRoom(ownerId));
+    } else {
+      void socket.join(folders.map((folder) => folderRoom(ownerId, folder)));
+    }
+
+    return { folders };
+  }
+
+  /**
+   * @description Mark a mail as read or unread
+   * @param socket - Client socket
+   * @param dto - Id of the mail and read state
+   * @returns {IMail} The updated mail
+   */
+  @SubscribeMessage('mail.mark')
+  markMail(
+    @ConnectedSocket() socket: MailboxSocket,
+    @MessageBody() dto: MarkMailDto,
+  ): IMail {
+    return this.mailsService.updateMail(socket.data.user, dto.id, {
+      unread: dto.unread,
+    });
+  }
+
+  private extractToken(socket: MailboxSocket): string {
+    const auth = socket.handshake.auth as { token?: unknown };
+    if (typeof auth.token === 'string') {
+      return auth.token;
+    }
+
+    const [scheme, token] = (
+      socket.handshake.headers.authorization ?? ''
+    ).split(' ');
+    if (scheme !== 'Bearer' || !token) {
+      throw new Error('Missing bearer token');
+    }
+    return token;
+  }
+
+  /**
+   * @description Relay the events of a mailbox to its rooms, one event bus
+   * subscription is shared by every socket of the mailbox
+   * @param owner - Owner of the mailbox
+   */
+  private watchMailbox(owner: IUser): void {
+    const mailbox = this.mailboxes.get(owner.id!);
+    if (mailbox) {
+      mailbox.sockets++;
+      return;
+    }
+
+    const subscription = this.mailsService
+      .streamMailEvents(owner)
+      .subscribe((event) => {
+        // Only a stream resumed from a past event can start with a reset
+        if (event.type !== MailEventType.RESET) {
+          this.broadcast(event);
+        }
+      });
+    this.mailboxes.set(owner.id!, { subscription, sockets: 1 });
+  }
+
+  private unwatchMailbox(ownerId: number): void {
+    const mailbox = this.mailboxes.get(ownerId);
+    if (mailbox && --mailbox.sockets === 0) {
+      mailbox.subscription.unsubscribe();
+      this.mailboxes.delete(ownerId);
+    }
+  }
+
+  /**
+   * @description Send an event to the sockets following the mailbox or one
+   * of the folders the mail was in, a socket in several rooms gets it once
+   * @param event - Mailbox event
+   */
+  private broadcast(event: IMailEvent): void {
+    this.server
+      .to([
+        mailboxRoom(event.ownerId),
+        ...event.folders.map((folder) => folderRoom(event.ownerId, folder)),
+      ])
+      .emit(event.type, event);
+  }
+}
@@ -1,10 +1,34 @@
 import { Module } from '@nestjs/common';
 import { MailsService } from './mails.service';
 import { MailsController } from './mails.controller';
+import { MailsGateway } from './mails.gateway';
+import { MailSearchIndex } from './search/mail-search.index';
+import { MailEventBus } from './events/mail-event.bus';
+import { mailRepositoryProvider } from './repositories/mail-repository.provider';
+import { attachmentStorageProvider } from './attachments/attachment-storage.provider';
+import { MailTrashPurger } from './trash/mail-trash.purger';
+import { MailImporter } from './import/mail.importer';
+import { MailExporter } from './export/mail.exporter';
+import { MailDeliveryQueue } from './delivery/mail-delivery.queue';
+import { mailTransportProvider } from './delivery/mail-transport.provider';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
+  imports: [AuthModule],
   controllers: [MailsController],
-  providers: [MailsService],
-  exports: [MailsService],
+  providers: [
+    MailsService,
+    MailsGateway,
+    MailSearchIndex,
+    MailEventBus,
+    MailTrashPurger,
+    MailImporter,
+    MailExporter,
+    MailDeliveryQueue,
+    mailRepositoryProvider,
+    attachmentStorageProvider,
+    mailTransportProvider,
+  ],
+  exports: [MailsService, MailImporter],
 })
 export class MailsModule {}
@@ -1,11 +1,33 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { Readable } from 'stream';
+import { Subscription } from 'rxjs';
 import {
   BadRequestException,
+  GoneException,
   InternalServerErrorException,
+  NotFoundException,
+  PayloadTooLargeException,
 } from '@nestjs/common';
 import { MailsService } from './mails.service';
+import { mailRepositoryProvider } from './repositories/mail-repository.provider';
+import { attachmentStorageProvider } from './attachments/attachment-storage.provider';
+import { MAX_MAIL_ATTACHMENTS_SIZE } from './attachments/attachment-limits';
+import { RangeNotSatisfiableException } from './attachments/byte-range';
+import { MailSearchIndex } from './search/mail-search.index';
+import { MAIL_EVENT_HISTORY_SIZE, MailEventBus } from './events/mail-event.bus';
+import { MailRepository } from './repositories/mail.repository';
 import { PaginationParamsDto } from './dto/pagination-params.dto';
+import { GetMailsQueryDto } from './dto/get-mails-query.dto';
 import { GetMailsPaginatedResponseDto } from './dto/get-mails-response.dto';
+import { MailBulkAction } from './dto/bulk-mail-action.dto';
+import { BulkMailActionResponseDto } from './dto/bulk-mail-action-response.dto';
+import { MailStatsResponseDto } from './dto/mail-stats-response.dto';
+import { SearchMailsResponseDto } from './dto/search-mails-response.dto';
+import { MailFolder } from './interfaces/mail-folder.enum';
+import { MailEventType } from './interfaces/mail-event-type.enum';
+import { MailDeliveryStatus } from './interfaces/mail-delivery-status.enum';
+import { IMailEvent, MailStreamEvent } from './interfaces/mail-event.interface';
+import { mailboxOwner } from './mailbox-owner';
 import { mails } from './mails';
 
 // Mock the mails data to have control over it during tests
@@ -13,17 +35,22 @@ jest.mock('./mails', () => ({
   mails: [
     {
       id: 1,
+      ownerId: 1,
       from: {
         name: 'Test User 1',
         email: 'test1@example.com',
         avatar: { src: 'https://example.com/avatar1.jpg' },
       },
+      to: [{ name: 'Sam Lee', email: 'sam.lee@example.com' }],
+      cc: [{ name: 'Morgan White', email: 'morgan.white@example.com' }],
       subject: 'Test Subject 1',
       body: 'Test Body 1',
       date: '2024-01-01T00:00:00.000Z',
+      messageId: '<test-1@example.com>',
     },
     {
       id: 2,
+      ownerId: 1,
       from: {
         name: 'Test User 2',
         email: 'test2@example.com',
@@ -36,10 +63,13 @@ jest.mock('./mails', () => ({
     },
     {
       id: 3,
+      ownerId: 1,
       from: {
         name: 'Test User 3',
         email: 'test3@example.com',
       },
+      to: [{ name: 'Mailing List', email: 'list@example.com' }],
+      bcc: [{ name: 'Sam Lee', email: 'sam.lee@example.com' }],
       subject: 'Test Subject 3',
       body: 'Test Body 3',
       date: '2024-01-03T00:00:00.000Z',
@@ -49,13 +79,21 @@ jest.mock('./mails', () => ({
 
 describe('MailsService', () => {
   let service: MailsService;
+  let repository: MailRepository;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [MailsService],
+      providers: [
+        MailsService,
+        MailSearchIndex,
+        MailEventBus,
+        mailRepositoryProvider,
+        attachmentStorageProvider,
+      ],
     }).compile();
 
     service = module.get<MailsService>(MailsService);
+    repository = module.get<MailRepository>(MailRepository);
   });
 
   it('should be defined', () => {
@@ -74,7 +112,7 @@ describe('MailsService', () => {
         const expectedMailsCount = 3; // All mails since we have only 3 in mock
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -95,7 +133,7 @@ describe('MailsService', () => {
         const expectedMailsCount = 2;
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -115,7 +153,7 @@ describe('MailsService', () => {
         const expectedMailsCount = 1;
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -135,7 +173,7 @@ describe('MailsService', () => {
         const expectedMailsCount = 0;
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -154,7 +192,7 @@ describe('MailsService', () => {
         const expectedMailsCount = 1;
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -173,7 +211,7 @@ describe('MailsService', () => {
         const expectedMailsCount = 0;
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -193,7 +231,7 @@ describe('MailsService', () => {
         const expectedTotalCount = 3;
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -211,7 +249,7 @@ describe('MailsService', () => {
         const expectedTotalCount = 3;
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -229,7 +267,7 @@ describe('MailsService', () => {
         const expectedTotalCount = 3;
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -249,7 +287,7 @@ describe('MailsService', () => {
         const expectedTotalCount = 3;
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -267,7 +305,7 @@ describe('MailsService', () => {
         const expectedTotalCount = 3;
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -287,7 +325,7 @@ describe('MailsService', () => {
         const expectedMailsCount = 3; // All available mails
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -305,7 +343,7 @@ describe('MailsService', () => {
         const expectedMailsCount = 0;
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -324,7 +362,7 @@ describe('MailsService', () => {
         const expectedMailsCount = 2; // parseInt('2.5') = 2
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result).toBeInstanceOf(GetMailsPaginatedResponseDto);
@@ -344,7 +382,7 @@ describe('MailsService', () => {
         };
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result.mails[0]).toHaveProperty('id');
@@ -364,7 +402,7 @@ describe('MailsService', () => {
         };
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         const unreadMail = result.mails.find((mail) => mail.id === 2);
@@ -382,7 +420,7 @@ describe('MailsService', () => {
         };
 
         // CALL
-        const result = service.getMailPaginated(query);
+        const result = service.getMailPaginated(mailboxOwner, query);
 
         // CONTROL
         expect(result.mails[0].id).toBe(1);
@@ -391,4 +429,2041 @@ describe('MailsService', () => {
       });
     });
   });
+
+  describe('getMailPaginated with filters', () => {
+    describe('Success scenarios', () => {
+      it('should keep only unread mails when unread=true', () => {
+        // PREPARE
+        const query: GetMailsQueryDto = { unread: 'true' };
+
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, query);
+
+        // CONTROL
+        expect(result.totalCount).toBe(1);
+        expect(result.mails.map((mail) => mail.id)).toEqual([2]);
+      });
+
+      it('should keep only read mails when unread=false', () => {
+        // PREPARE
+        const query: GetMailsQueryDto = { unread: 'false' };
+
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, query);
+
+        // CONTROL
+        expect(result.totalCount).toBe(2);
+        expect(result.mails.map((mail) => mail.id)).toEqual([1, 3]);
+      });
+
+      it('should keep mails with or without attachments', () => {
+        // PREPARE
+        repository.update(2, {
+          attachments: [
+            {
+              id: 'a1',
+              filename: 'deck.txt',
+              contentType: 'text/plain',
+              size: 11,
+              checksum: 'b94d27b9',
+            },
+          ],
+        });
+
+        // CALL
+        const withAttachments = service.getMailPaginated(mailboxOwner, {
+          hasAttachments: 'true',
+        });
+        const withoutAttachments = service.getMailPaginated(mailboxOwner, {
+          hasAttachments: 'false',
+        });
+
+        // CONTROL
+        expect(withAttachments.totalCount).toBe(1);
+        expect(withAttachments.mails.map((mail) => mail.id)).toEqual([2]);
+        expect(withoutAttachments.totalCount).toBe(2);
+        expect(withoutAttachments.mails.map((mail) => mail.id)).toEqual([1, 3]);
+      });
+
+      it('should match the sender email or name case-insensitively', () => {
+        // CALL
+        const byEmail = service.getMailPaginated(mailboxOwner, {
+          from: 'TEST3@example',
+        });
+        const byName = service.getMailPaginated(mailboxOwner, {
+          from: 'user 1',
+        });
+
+        // CONTROL
+        expect(byEmail.mails.map((mail) => mail.id)).toEqual([3]);
+        expect(byName.mails.map((mail) => mail.id)).toEqual([1]);
+      });
+
+      it('should keep mails between after (inclusive) and before (exclusive)', () => {
+        // PREPARE
+        const query: GetMailsQueryDto = {
+          after: '2024-01-02T00:00:00.000Z',
+          before: '2024-01-03T00:00:00.000Z',
+        };
+
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, query);
+
+        // CONTROL
+        expect(result.mails.map((mail) => mail.id)).toEqual([2]);
+      });
+
+      it('should combine filters and count the filtered set', () => {
+        // PREPARE
+        const query: GetMailsQueryDto = {
+          unread: 'false',
+          after: '2024-01-02',
+          take: '10',
+        };
+
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, query);
+
+        // CONTROL
+        expect(result.totalCount).toBe(1);
+        expect(result.mails[0].id).toBe(3);
+      });
+
+      it('should paginate inside the filtered set', () => {
+        // PREPARE
+        const query: GetMailsQueryDto = {
+          unread: 'false',
+          take: '1',
+          skip: '1',
+        };
+
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, query);
+
+        // CONTROL
+        expect(result.totalCount).toBe(2);
+        expect(result.mails.map((mail) => mail.id)).toEqual([3]);
+      });
+    });
+
+    describe('Recipients', () => {
+      it('should match to and cc recipients by email or name', () => {
+        // CALL
+        const byEmail = service.getMailPaginated(mailboxOwner, {
+          to: 'SAM.LEE@',
+        });
+        const byCc = service.getMailPaginated(mailboxOwner, {
+          to: 'morgan white',
+        });
+
+        // CONTROL
+        expect(byEmail.mails.map((mail) => mail.id)).toEqual([1]);
+        expect(byCc.mails.map((mail) => mail.id)).toEqual([1]);
+      });
+
+      it('should not match hidden bcc recipients', () => {
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, {
+          to: 'sam.lee',
+        });
+
+        // CONTROL
+        // Mail 3 bcc's the owner but was sent by someone else
+        expect(result.totalCount).toBe(1);
+      });
+
+      it('should hide bcc from mails the owner did not send', () => {
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, {});
+
+        // CONTROL
+        const receivedMail = result.mails.find((mail) => mail.id === 3);
+        expect(receivedMail).not.toHaveProperty('bcc');
+        expect(service.getMailById(mailboxOwner, 3)).not.toHaveProperty('bcc');
+        expect(receivedMail).toHaveProperty('to');
+      });
+    });
+
+    describe('Folders', () => {
+      it('should leave trash and spam out unless asked for', () => {
+        // PREPARE
+        repository.update(1, { folder: MailFolder.TRASH });
+        repository.update(2, { folder: MailFolder.SPAM });
+
+        // CALL
+        const all = service.getMailPaginated(mailboxOwner, {});
+        const spam = service.getMailPaginated(mailboxOwner, {
+          folder: MailFolder.SPAM,
+        });
+
+        // CONTROL
+        expect(all.mails.map((mail) => mail.id)).toEqual([3]);
+        expect(spam.mails.map((mail) => mail.id)).toEqual([2]);
+      });
+
+      it('should leave drafts out unless asked for', () => {
+        // PREPARE
+        repository.update(3, { folder: MailFolder.DRAFTS });
+
+        // CALL
+        const all = service.getMailPaginated(mailboxOwner, {});
+        const drafts = service.getMailPaginated(mailboxOwner, {
+          folder: MailFolder.DRAFTS,
+        });
+        const stats = service.getMailStats(mailboxOwner);
+
+        // CONTROL
+        expect(all.mails.map((mail) => mail.id)).toEqual([1, 2]);
+        expect(drafts.mails.map((mail) => mail.id)).toEqual([3]);
+        expect(stats.totalCount).toBe(2);
+        expect(stats.folders[MailFolder.DRAFTS]).toEqual({
+          totalCount: 1,
+          unreadCount: 0,
+        });
+      });
+
+      it('should throw BadRequestException for an unknown folder', () => {
+        // CALL
+        const call = () =>
+          service.getMailPaginated(mailboxOwner, { folder: 'starred' });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw BadRequestException for an invalid unread value', () => {
+        // CALL
+        const call = () =>
+          service.getMailPaginated(mailboxOwner, { unread: 'yes' });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+        expect(call).toThrow('Invalid filters');
+      });
+
+      it('should throw BadRequestException for an invalid hasAttachments value', () => {
+        // CALL
+        const call = () =>
+          service.getMailPaginated(mailboxOwner, { hasAttachments: 'yes' });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+        expect(call).toThrow('Invalid filters');
+      });
+
+      it('should throw BadRequestException for an invalid date', () => {
+        // CALL
+        const call = () =>
+          service.getMailPaginated(mailboxOwner, { after: 'not-a-date' });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+      });
+
+      it('should throw BadRequestException when after is not before before', () => {
+        // PREPARE
+        const query: GetMailsQueryDto = {
+          after: '2024-01-03',
+          before: '2024-01-01',
+        };
+
+        // CALL
+        const call = () => service.getMailPaginated(mailboxOwner, query);
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+      });
+    });
+
+    describe('Edge cases', () => {
+      it('should return an empty page with totalCount 0 when nothing matches', () => {
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, {
+          from: 'nobody',
+        });
+
+        // CONTROL
+        expect(result.mails).toEqual([]);
+        expect(result.totalCount).toBe(0);
+      });
+    });
+  });
+
+  describe('getMailPaginated with sort', () => {
+    describe('Success scenarios', () => {
+      it('should sort by date descending by default', () => {
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, { sort: 'date' });
+
+        // CONTROL
+        expect(result.mails.map((mail) => mail.id)).toEqual([3, 2, 1]);
+      });
+
+      it('should sort by date ascending when order=asc', () => {
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, {
+          sort: 'date',
+          order: 'asc',
+        });
+
+        // CONTROL
+        expect(result.mails.map((mail) => mail.id)).toEqual([1, 2, 3]);
+      });
+
+      it('should sort by sender name and subject ascending by default', () => {
+        // CALL
+        const byFrom = service.getMailPaginated(mailboxOwner, { sort: 'from' });
+        const bySubject = service.getMailPaginated(mailboxOwner, {
+          sort: 'subject',
+          order: 'desc',
+        });
+
+        // CONTROL
+        expect(byFrom.mails.map((mail) => mail.id)).toEqual([1, 2, 3]);
+        expect(bySubject.mails.map((mail) => mail.id)).toEqual([3, 2, 1]);
+      });
+
+      it('should sort by date descending when only order is given', () => {
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, {
+          order: 'desc',
+        });
+
+        // CONTROL
+        expect(result.mails.map((mail) => mail.id)).toEqual([3, 2, 1]);
+      });
+
+      it('should sort before paginating', () => {
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, {
+          sort: 'date',
+          take: '1',
+          skip: '0',
+        });
+
+        // CONTROL
+        expect(result.mails.map((mail) => mail.id)).toEqual([3]);
+        expect(result.totalCount).toBe(3);
+      });
+    });
+
+    describe('Edge cases', () => {
+      it('should break ties on id following the order', () => {
+        // PREPARE
+        // Mails 1 and 3 are both read, mail 2 is unread
+        const expectedDescIds = [2, 3, 1];
+        const expectedAscIds = [1, 3, 2];
+
+        // CALL
+        const desc = service.getMailPaginated(mailboxOwner, { sort: 'unread' });
+        const asc = service.getMailPaginated(mailboxOwner, {
+          sort: 'unread',
+          order: 'asc',
+        });
+
+        // CONTROL
+        expect(desc.mails.map((mail) => mail.id)).toEqual(expectedDescIds);
+        expect(asc.mails.map((mail) => mail.id)).toEqual(expectedAscIds);
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw BadRequestException for an unknown sort field', () => {
+        // CALL
+        const call = () =>
+          service.getMailPaginated(mailboxOwner, { sort: 'body' });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+        expect(call).toThrow('Invalid sort, order');
+      });
+
+      it('should throw BadRequestException for an unknown order', () => {
+        // CALL
+        const call = () =>
+          service.getMailPaginated(mailboxOwner, {
+            sort: 'date',
+            order: 'sideways',
+          });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+      });
+    });
+  });
+
+  describe('getMailPaginated with cursor', () => {
+    describe('Success scenarios', () => {
+      it('should return hasMore and a nextCursor when sorted by date', () => {
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, {
+          sort: 'date',
+          take: '2',
+        });
+
+        // CONTROL
+        expect(result.mails.map((mail) => mail.id)).toEqual([3, 2]);
+        expect(result.hasMore).toBe(true);
+        expect(typeof result.nextCursor).toBe('string');
+      });
+
+      it('should resume after the cursor until the list is exhausted', () => {
+        // PREPARE
+        const firstPage = service.getMailPaginated(mailboxOwner, {
+          sort: 'date',
+          take: '2',
+        });
+
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, {
+          cursor: firstPage.nextCursor!,
+          take: '2',
+        });
+
+        // CONTROL
+        expect(result.mails.map((mail) => mail.id)).toEqual([1]);
+        expect(result.hasMore).toBe(false);
+        expect(result.nextCursor).toBeNull();
+        expect(result.totalCount).toBe(3);
+      });
+
+      it('should keep the cursor order when paginating ascending', () => {
+        // PREPARE
+        const firstPage = service.getMailPaginated(mailboxOwner, {
+          sort: 'date',
+          order: 'asc',
+          take: '1',
+        });
+
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, {
+          cursor: firstPage.nextCursor!,
+          take: '1',
+        });
+
+        // CONTROL
+        expect(firstPage.mails[0].id).toBe(1);
+        expect(result.mails.map((mail) => mail.id)).toEqual([2]);
+        expect(result.hasMore).toBe(true);
+      });
+    });
+
+    describe('Edge cases', () => {
+      it('should not skip nor duplicate mails when a newer mail arrives between pages', () => {
+        // PREPARE
+        const firstPage = service.getMailPaginated(mailboxOwner, {
+          sort: 'date',
+          take: '2',
+        });
+        repository.create({
+          ownerId: 1,
+          from: { name: 'Test User 4', email: 'test4@example.com' },
+          subject: 'Test Subject 4',
+          body: 'Test Body 4',
+          date: '2024-01-04T00:00:00.000Z',
+        });
+
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, {
+          cursor: firstPage.nextCursor!,
+          take: '2',
+        });
+
+        // CONTROL
+        expect(result.mails.map((mail) => mail.id)).toEqual([1]);
+        expect(result.totalCount).toBe(4);
+      });
+
+      it('should resume the default listing in storage order', () => {
+        // PREPARE
+        const firstPage = service.getMailPaginated(mailboxOwner, { take: '1' });
+        repository.delete(1);
+
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, {
+          cursor: firstPage.nextCursor!,
+          take: '1',
+        });
+
+        // CONTROL
+        expect(firstPage.mails.map((mail) => mail.id)).toEqual([1]);
+        expect(typeof firstPage.nextCursor).toBe('string');
+        expect(result.mails.map((mail) => mail.id)).toEqual([2]);
+        expect(result.hasMore).toBe(true);
+      });
+
+      it('should not return a nextCursor when the list is sorted on another field', () => {
+        // CALL
+        const result = service.getMailPaginated(mailboxOwner, {
+          sort: 'subject',
+          take: '1',
+        });
+
+        // CONTROL
+        expect(result.hasMore).toBe(true);
+        expect(result.nextCursor).toBeNull();
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw BadRequestException for a malformed cursor', () => {
+        // CALL
+        const call = () =>
+          service.getMailPaginated(mailboxOwner, { cursor: 'not-a-cursor' });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+        expect(call).toThrow('Invalid cursor');
+      });
+
+      it('should throw BadRequestException when cursor is combined with skip or another sort', () => {
+        // PREPARE
+        const { nextCursor } = service.getMailPaginated(mailboxOwner, {
+          sort: 'date',
+          take: '1',
+        });
+
+        // CALL
+        const withSkip = () =>
+          service.getMailPaginated(mailboxOwner, {
+            cursor: nextCursor!,
+            skip: '1',
+          });
+        const withSort = () =>
+          service.getMailPaginated(mailboxOwner, {
+            cursor: nextCursor!,
+            sort: 'subject',
+          });
+        const withOrder = () =>
+          service.getMailPaginated(mailboxOwner, {
+            cursor: nextCursor!,
+            order: 'asc',
+          });
+
+        // CONTROL
+        expect(withSkip).toThrow(BadRequestException);
+        expect(withSort).toThrow(BadRequestException);
+        expect(withOrder).toThrow(BadRequestException);
+      });
+
+      it('should throw BadRequestException when a storage order cursor is sorted', () => {
+        // PREPARE
+        const { nextCursor } = service.getMailPaginated(mailboxOwner, {
+          take: '1',
+        });
+
+        // CALL
+        const call = () =>
+          service.getMailPaginated(mailboxOwner, {
+            cursor: nextCursor!,
+            sort: 'date',
+          });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+      });
+    });
+  });
+
+  describe('searchMails', () => {
+    describe('Success scenarios', () => {
+      it('should return ranked hits in the paginated envelope', () => {
+        // CALL
+        const result = service.searchMails(mailboxOwner, { q: 'subject 2' });
+
+        // CONTROL
+        expect(result).toBeInstanceOf(SearchMailsResponseDto);
+        expect(result.totalCount).toBe(1);
+        expect(result.hasMore).toBe(false);
+        expect(result.nextCursor).toBeNull();
+        expect(result.mails[0].id).toBe(2);
+        expect(result.mails[0].score).toBeGreaterThan(0);
+        expect(result.mails[0].highlights.subject).toBe(
+          'Test <mark>Subject</mark> <mark>2</mark>',
+        );
+      });
+
+      it('should paginate hits with take and skip', () => {
+        // CALL
+        const result = service.searchMails(mailboxOwner, {
+          q: 'test',
+          take: '2',
+          skip: '1',
+        });
+
+        // CONTROL
+        expect(result.totalCount).toBe(3);
+        expect(result.mails).toHaveLength(2);
+        expect(result.hasMore).toBe(false);
+      });
+    });
+
+    describe('Edge cases', () => {
+      it('should stop returning deleted mails', () => {
+        // PREPARE
+        service.applyBulkAction(mailboxOwner, {
+          action: MailBulkAction.DELETE,
+          ids: [2],
+        });
+
+        // CALL
+        const result = service.searchMails(mailboxOwner, { q: 'subject 2' });
+
+        // CONTROL
+        expect(result.totalCount).toBe(0);
+        expect(result.mails).toEqual([]);
+      });
+    });
+
+    describe('Query operators', () => {
+      it('should filter hits with operators', () => {
+        // CALL
+        const result = service.searchMails(mailboxOwner, {
+          q: 'test is:unread',
+        });
+
+        // CONTROL
+        expect(result.mails.map((mail) => mail.id)).toEqual([2]);
+      });
+
+      it('should search recipients without leaking bcc', () => {
+        // CALL
+        const byCc = service.searchMails(mailboxOwner, {
+          q: 'to:morgan.white@example.com',
+        });
+        const byBcc = service.searchMails(mailboxOwner, { q: 'bcc:sam.lee' });
+        const freeText = service.searchMails(mailboxOwner, {
+          q: 'mailing list',
+        });
+
+        // CONTROL
+        expect(byCc.mails.map((mail) => mail.id)).toEqual([1]);
+        expect(byBcc.totalCount).toBe(0);
+        expect(freeText.mails.map((mail) => mail.id)).toEqual([3]);
+        expect(freeText.mails[0]).not.toHaveProperty('bcc');
+      });
+
+      it('should only search trash and spam with a positive in: operator', () => {
+        // PREPARE
+        service.moveMail(mailboxOwner, 2, { folder: MailFolder.TRASH });
+
+        // CALL
+        const inTrash = service.searchMails(mailboxOwner, { q: 'in:trash' });
+        const notInSpam = service.searchMails(mailboxOwner, { q: '-in:spam' });
+
+        // CONTROL
+        expect(inTrash.mails.map((mail) => mail.id)).toEqual([2]);
+        expect(notInSpam.mails.map((mail) => mail.id)).toEqual([3, 1]);
+      });
+
+      it('should sort operator-only queries by date descending', () => {
+        // CALL
+        const result = service.searchMails(mailboxOwner, {
+          q: 'from:example.com',
+        });
+
+        // CONTROL
+        expect(result.mails.map((mail) => mail.id)).toEqual([3, 2, 1]);
+        expect(result.mails[0].score).toBe(0);
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw BadRequestException for an empty query', () => {
+        // CALL
+        const call = () => service.searchMails(mailboxOwner, { q: '   ' });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+      });
+
+      it('should throw BadRequestException pointing at the bad token', () => {
+        // PREPARE
+        let error: BadRequestException | undefined;
+
+        // CALL
+        try {
+          service.searchMails(mailboxOwner, { q: 'test is:big' });
+        } catch (caught) {
+          error = caught as BadRequestException;
+        }
+
+        // CONTROL
+        expect(error).toBeInstanceOf(BadRequestException);
+        expect(error!.getResponse()).toMatchObject({
+          token: 'is:big',
+          position: 5,
+        });
+      });
+    });
+  });
+
+  describe('getMailStats', () => {
+    describe('Success scenarios', () => {
+      it('should count total and unread mails', () => {
+        // PREPARE
+        const expectedTotalCount = 3;
+        const expectedUnreadCount = 1; // Only mail 2 is unread in mock
+
+        // CALL
+        const result = service.getMailStats(mailboxOwner);
+
+        // CONTROL
+        expect(result).toBeInstanceOf(MailStatsResponseDto);
+        expect(result.totalCount).toBe(expectedTotalCount);
+        expect(result.unreadCount).toBe(expectedUnreadCount);
+      });
+
+      it('should reflect read flag updates', () => {
+        // PREPARE
+        service.updateMail(mailboxOwner, 1, { unread: true });
+        service.updateMail(mailboxOwner, 3, { unread: true });
+
+        // CALL
+        const result = service.getMailStats(mailboxOwner);
+
+        // CONTROL
+        expect(result.unreadCount).toBe(3);
+      });
+
+      it('should count the mails of every folder', () => {
+        // PREPARE
+        service.moveMail(mailboxOwner, 2, { folder: MailFolder.TRASH });
+        service.moveMail(mailboxOwner, 3, { folder: MailFolder.ARCHIVE });
+
+        // CALL
+        const result = service.getMailStats(mailboxOwner);
+
+        // CONTROL
+        expect(result).toMatchObject({ totalCount: 2, unreadCount: 0 });
+        expect(result.folders).toEqual({
+          [MailFolder.INBOX]: { totalCount: 1, unreadCount: 0 },
+          [MailFolder.SENT]: { totalCount: 0, unreadCount: 0 },
+          [MailFolder.DRAFTS]: { totalCount: 0, unreadCount: 0 },
+          [MailFolder.ARCHIVE]: { totalCount: 1, unreadCount: 0 },
+          [MailFolder.TRASH]: { totalCount: 1, unreadCount: 1 },
+          [MailFolder.SPAM]: { totalCount: 0, unreadCount: 0 },
+        });
+      });
+
+      it('should count the mails of every label in use', () => {
+        // PREPARE
+        service.patchMail(1, { labelIds: [4] });
+        service.patchMail(2, { labelIds: [4, 9] });
+        service.patchMail(3, { labelIds: [9] });
+        service.moveMail(mailboxOwner, 3, { folder: MailFolder.SPAM });
+
+        // CALL
+        const result = service.getMailStats(mailboxOwner);
+
+        // CONTROL
+        expect(result.labels).toEqual({
+          4: { totalCount: 2, unreadCount: 1 },
+          9: { totalCount: 1, unreadCount: 1 },
+        });
+      });
+    });
+
+    describe('Data integrity', () => {
+      it('should match the paginated totalCount', () => {
+        // CALL
+        const result = service.getMailStats(mailboxOwner);
+
+        // CONTROL
+        expect(result.totalCount).toBe(
+          service.getMailPaginated(mailboxOwner, {}).totalCount,
+        );
+      });
+
+      it('should match the paginated totalCount of each folder and label', () => {
+        // PREPARE
+        service.patchMail(2, { labelIds: [4] });
+        service.moveMail(mailboxOwner, 1, { folder: MailFolder.ARCHIVE });
+
+        // CALL
+        const result = service.getMailStats(mailboxOwner);
+
+        // CONTROL
+        Object.values(MailFolder).forEach((folder) => {
+          expect(result.folders[folder].totalCount).toBe(
+            service.getMailPaginated(mailboxOwner, { folder }).totalCount,
+          );
+        });
+        expect(result.labels[4].totalCount).toBe(
+          service.getMailPaginated(mailboxOwner, { label: '4' }).totalCount,
+        );
+      });
+    });
+  });
+
+  describe('getMailById', () => {
+    describe('Success scenarios', () => {
+      it('should return the mail matching the id', () => {
+        // PREPARE
+        const id = 2;
+
+        // CALL
+        const result = service.getMailById(mailboxOwner, id);
+
+        // CONTROL
+        expect(result.id).toBe(id);
+        expect(result.subject).toBe('Test Subject 2');
+        expect(result).toHaveProperty('unread', true);
+        expect(result.from).toHaveProperty('email', 'test2@example.com');
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw NotFoundException when the mail does not exist', () => {
+        // PREPARE
+        const id = 42;
+
+        // CALL
+        const call = () => service.getMailById(mailboxOwner, id);
+
+        // CONTROL
+        expect(call).toThrow(NotFoundException);
+        expect(call).toThrow('Mail with id 42 not found');
+      });
+    });
+  });
+
+  describe('Mailbox scoping', () => {
+    const otherUser = { id: 2, name: 'Other User', email: 'other@example.com' };
+
+    it('should not expose the mails of another mailbox', () => {
+      // CALL
+      const list = service.getMailPaginated(otherUser, {});
+      const search = service.searchMails(otherUser, { q: 'Test' });
+      const stats = service.getMailStats(otherUser);
+      const get = () => service.getMailById(otherUser, 1);
+
+      // CONTROL
+      expect(list.totalCount).toBe(0);
+      expect(search.totalCount).toBe(0);
+      expect(stats).toMatchObject({ totalCount: 0, unreadCount: 0 });
+      expect(stats.labels).toEqual({});
+      expect(get).toThrow('Mail with id 1 not found');
+    });
+
+    it('should not change the mails of another mailbox', () => {
+      // CALL
+      const update = () => service.updateMail(otherUser, 2, { unread: false });
+      const result = service.applyBulkAction(otherUser, {
+        action: MailBulkAction.DELETE,
+        ids: [1],
+      });
+
+      // CONTROL
+      expect(update).toThrow(NotFoundException);
+      expect(result.results).toEqual([
+        { id: 1, success: false, error: 'Mail with id 1 not found' },
+      ]);
+      expect(repository.findById(1)).not.toHaveProperty('folder');
+      expect(repository.findById(2)).toHaveProperty('unread', true);
+    });
+
+    it('should store created mails in the mailbox of their sender', () => {
+      // CALL
+      const mail = service.createMail(otherUser, {
+        to: [{ email: 'test1@example.com' }],
+        subject: 'Hello',
+        body: 'Hi',
+      });
+
+      // CONTROL
+      expect(mail).toMatchObject({ ownerId: 2, from: otherUser });
+      expect(mail.messageId).toMatch(/@example\.com>$/);
+      expect(service.getMailPaginated(otherUser, {}).totalCount).toBe(1);
+      expect(service.getMailPaginated(mailboxOwner, {}).totalCount).toBe(3);
+    });
+  });
+
+  describe('streamMailEvents', () => {
+    let events: IMailEvent[];
+    let subscription: Subscription;
+
+    beforeEach(() => {
+      events = [];
+      subscription = service
+        .streamMailEvents(mailboxOwner)
+        .subscribe((event) => events.push(event as IMailEvent));
+    });
+
+    afterEach(() => {
+      subscription.unsubscribe();
+    });
+
+    it('should publish the changes of the mailbox with their folders', () => {
+      // CALL
+      service.moveMail(mailboxOwner, 1, { folder: MailFolder.TRASH });
+      service.removeMail(1);
+      const created = service.createMail(mailboxOwner, {
+        to: [{ email: 'test1@example.com' }],
+        subject: 'Hello',
+        body: 'Hi',
+      });
+
+      // CONTROL
+      expect(
+        events.map(({ id, type, mailId, folders }) => ({
+          id,
+          type,
+          mailId,
+          folders,
+        })),
+      ).toEqual([
+        {
+          id: 1,
+          type: MailEventType.UPDATED,
+          mailId: 1,
+          folders: [MailFolder.INBOX, MailFolder.TRASH],
+        },
+        {
+          id: 2,
+          type: MailEventType.DELETED,
+          mailId: 1,
+          folders: [MailFolder.TRASH],
+        },
+        {
+          id: 3,
+          type: MailEventType.CREATED,
+          mailId: created.id,
+          folders: [MailFolder.SENT],
+        },
+      ]);
+      expect(events[0].changes).toMatchObject({ folder: MailFolder.TRASH });
+      expect(events[1]).not.toHaveProperty('mail');
+      expect(events[2].mail).toEqual(created);
+    });
+
+    it('should hide bcc and the changes of other mailboxes', () => {
+      // PREPARE
+      const otherUser = {
+        id: 2,
+        name: 'Other User',
+        email: 'other@example.com',
+      };
+      service.createMail(otherUser, {
+        to: [{ email: 'test1@example.com' }],
+        subject: 'Hello',
+        body: 'Hi',
+      });
+
+      // CALL
+      service.updateMail(mailboxOwner, 3, { unread: false });
+
+      // CONTROL
+      expect(events).toHaveLength(1);
+      expect(events[0].mailId).toBe(3);
+      expect(events[0].mail).not.toHaveProperty('bcc');
+    });
+
+    it('should hide bcc from the changes of a received mail', () => {
+      // CALL
+      service.patchMail(3, {
+        bcc: [{ name: 'Hidden', email: 'hidden@example.com' }],
+        unread: false,
+      });
+
+      // CONTROL
+      expect(events).toHaveLength(1);
+      expect(events[0].changes).toEqual({ unread: false });
+      expect(events[0].mail).not.toHaveProperty('bcc');
+    });
+
+    it('should replay the events after the last event id', () => {
+      // PREPARE
+      service.updateMail(mailboxOwner, 1, { unread: false });
+      service.updateMail(mailboxOwner, 2, { unread: false });
+      const replayed: IMailEvent[] = [];
+
+      // CALL
+      service
+        .streamMailEvents(mailboxOwner, service.getMailEventStreamId(1))
+        .subscribe((event) => replayed.push(event as IMailEvent))
+        .unsubscribe();
+
+      // CONTROL
+      expect(replayed.map((event) => event.mailId)).toEqual([2]);
+    });
+
+    it('should send a reset instead of replaying the events of another epoch', () => {
+      // PREPARE
+      service.updateMail(mailboxOwner, 1, { unread: false });
+      const replayed: MailStreamEvent[] = [];
+
+      // CALL
+      service
+        .streamMailEvents(mailboxOwner, 'previous-epoch:0')
+        .subscribe((event) => replayed.push(event))
+        .unsubscribe();
+
+      // CONTROL
+      expect(replayed).toHaveLength(1);
+      expect(replayed[0]).toMatchObject({
+        id: 1,
+        type: MailEventType.RESET,
+        ownerId: mailboxOwner.id,
+      });
+    });
+  });
+
+  describe('getMailChanges', () => {
+    const sync = (since?: string) =>
+      service.getMailChanges(mailboxOwner, { since });
+
+    it('should only return the current token without since', () => {
+      // CALL
+      const result = sync();
+
+      // CONTROL
+      expect(result).toMatchObject({
+        created: [],
+        updated: [],
+        deleted: [],
+        mails: [],
+      });
+      expect(result.token).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('should list each changed mail once with its latest change', () => {
+      // PREPARE
+      const { token } = sync();
+      service.updateMail(mailboxOwner, 1, { unread: false });
+      service.updateMail(mailboxOwner, 1, { unread: true });
+      service.removeMail(2);
+      const created = service.createMail(mailboxOwner, {
+        to: [{ email: 'test1@example.com' }],
+        subject: 'Hello',
+        body: 'Hi',
+      });
+      service.updateMail(mailboxOwner, created.id!, { unread: true });
+      const discarded = service.createMail(mailboxOwner, {
+        to: [{ email: 'test1@example.com' }],
+        subject: 'Discarded',
+        body: 'Hi',
+      });
+      service.removeMail(discarded.id!);
+
+      // CALL
+      const result = sync(token);
+
+      // CONTROL
+      expect(result.created).toEqual([created.id]);
+      expect(result.updated).toEqual([1]);
+      expect(result.deleted).toEqual([2]);
+      expect(result.mails.map((mail) => mail.id)).toEqual([created.id, 1]);
+      expect(result.mails[1]).toHaveProperty('unread', true);
+      expect(sync(result.token)).toMatchObject({
+        created: [],
+        updated: [],
+        deleted: [],
+      });
+    });
+
+    it('should leave out the changes of other mailboxes', () => {
+      // PREPARE
+      const otherUser = {
+        id: 2,
+        name: 'Other User',
+        email: 'other@example.com',
+      };
+      const { token } = sync();
+      service.createMail(otherUser, {
+        to: [{ email: 'test1@example.com' }],
+        subject: 'Hello',
+        body: 'Hi',
+      });
+
+      // CALL
+      const result = sync(token);
+
+      // CONTROL
+      expect(result.created).toEqual([]);
+      // Each mailbox numbers its own changes
+      expect(result.token).toBe(token);
+    });
+
+    it('should keep the changes past the event history', () => {
+      // PREPARE
+      const { token } = sync();
+      service.removeMail(2);
+      for (let i = 0; i <= MAIL_EVENT_HISTORY_SIZE; i++) {
+        service.updateMail(mailboxOwner, 1, { unread: i % 2 === 0 });
+      }
+
+      // CALL
+      const result = sync(token);
+
+      // CONTROL
+      expect(result.updated).toEqual([1]);
+      expect(result.deleted).toEqual([2]);
+    });
+
+    it('should throw GoneException for a token of another change log', () => {
+      // PREPARE
+      const token = Buffer.from(
+        JSON.stringify({ epoch: 'previous', changeId: 0 }),
+      ).toString('base64url');
+
+      // CALL
+      const call = () => sync(token);
+
+      // CONTROL
+      expect(call).toThrow(GoneException);
+      expect(call).toThrow('Change token expired, resync required');
+    });
+
+    it('should throw GoneException for a change id not reached yet', () => {
+      // PREPARE
+      const token = Buffer.from(
+        JSON.stringify({
+          epoch: repository.getChangeLogId(),
+          changeId: repository.getLastChangeId(mailboxOwner.id!) + 1,
+        }),
+      ).toString('base64url');
+
+      // CALL
+      const call = () => sync(token);
+
+      // CONTROL
+      expect(call).toThrow(GoneException);
+    });
+
+    it('should throw BadRequestException for a malformed token', () => {
+      // CALL
+      const call = () => sync('not-a-token');
+
+      // CONTROL
+      expect(call).toThrow(BadRequestException);
+      expect(call).toThrow('Invalid change token');
+    });
+  });
+
+  describe('createMail', () => {
+    describe('Success scenarios', () => {
+      it('should store the mail in the Sent folder with a server-side id and date', () => {
+        // PREPARE
+        const dto = {
+          to: [{ email: 'Test1@Example.com', name: 'Test User 1' }],
+          subject: 'New Subject',
+          body: 'New Body',
+        };
+
+        // CALL
+        const result = service.createMail(mailboxOwner, dto);
+
+        // CONTROL
+        expect(result.id).toBe(4);
+        expect(result.folder).toBe(MailFolder.SENT);
+        expect(result.from).toEqual(mailboxOwner);
+        expect(result.to).toEqual([
+          { name: 'Test User 1', email: 'test1@example.com' },
+        ]);
+        expect(new Date(result.date).toISOString()).toBe(result.date);
+        expect(result).not.toHaveProperty('unread');
+        expect(service.getMailById(mailboxOwner, 4)).toEqual(result);
+      });
+
+      it('should queue the mail for delivery', () => {
+        // CALL
+        const result = service.createMail(mailboxOwner, {
+          to: [{ email: 'test1@example.com' }],
+          subject: 'Queued',
+          body: 'Body',
+        });
+
+        // CONTROL
+        expect(result.delivery).toEqual({
+          status: MailDeliveryStatus.QUEUED,
+          attempts: 0,
+        });
+        expect(service.getPendingDeliveries(new Date())).toEqual([result]);
+      });
+
+      it('should store cc, bcc and replyTo and show bcc to the sender', () => {
+        // PREPARE
+        const dto = {
+          to: [{ email: 'test1@example.com' }],
+          cc: [{ email: 'test2@example.com' }],
+          bcc: [{ email: 'hidden@example.com', name: 'Hidden' }],
+          replyTo: [{ email: 'replies@example.com' }],
+          subject: 'Subject',
+          body: 'Body',
+        };
+
+        // CALL
+        const result = service.createMail(mailboxOwner, dto);
+
+        // CONTROL
+        expect(result.cc).toEqual([
+          { name: 'test2@example.com', email: 'test2@example.com' },
+        ]);
+        expect(result.replyTo![0].email).toBe('replies@example.com');
+        expect(service.getMailById(mailboxOwner, result.id!).bcc).toEqual([
+          { name: 'Hidden', email: 'hidden@example.com' },
+        ]);
+        expect(
+          service.getMailPaginated(mailboxOwner, { to: 'hidden@example.com' })
+            .totalCount,
+        ).toBe(1);
+      });
+
+      it('should not add empty recipient lists', () => {
+        // CALL
+        const result = service.createMail(mailboxOwner, {
+          to: [{ email: 'test1@example.com' }],
+          cc: [],
+          subject: 'Subject',
+          body: 'Body',
+        });
+
+        // CONTROL
+        expect(result).not.toHaveProperty('cc');
+        expect(result).not.toHaveProperty('bcc');
+        expect(result).not.toHaveProperty('replyTo');
+      });
+
+      it('should default the recipient name to its email', () => {
+        // CALL
+        const result = service.createMail(mailboxOwner, {
+          to: [{ email: 'someone@example.com' }],
+          subject: 'Subject',
+          body: '',
+        });
+
+        // CONTROL
+        expect(result.to![0].name).toBe('someone@example.com');
+      });
+
+      it('should make the created mail searchable', () => {
+        // PREPARE
+        service.createMail(mailboxOwner, {
+          to: [{ email: 'someone@example.com' }],
+          subject: 'Quarterly roadmap',
+          body: 'Draft attached',
+        });
+
+        // CALL
+        const result = service.searchMails(mailboxOwner, { q: 'roadmap' });
+
+        // CONTROL
+        expect(result.mails.map((mail) => mail.id)).toEqual([4]);
+      });
+    });
+  });
+
+  describe('replyToMail', () => {
+    describe('Success scenarios', () => {
+      it('should reply to the sender with a quoted body', () => {
+        // CALL
+        const result = service.replyToMail(mailboxOwner, 1, {
+          body: 'Thanks!',
+        });
+
+        // CONTROL
+        expect(result).toMatchObject({
+          from: mailboxOwner,
+          to: [{ name: 'Test User 1', email: 'test1@example.com' }],
+          subject: 'RE: Test Subject 1',
+          folder: MailFolder.SENT,
+          inReplyTo: '<test-1@example.com>',
+          references: ['<test-1@example.com>'],
+        });
+        expect(result).not.toHaveProperty('cc');
+        expect(result.messageId).toMatch(/^<.+@example\.com>$/);
+        expect(result.body).toMatch(
+          /^Thanks!\n\nOn .+, Test User 1 <test1@example.com> wrote:\n> Test Body 1$/,
+        );
+      });
+
+      it('should keep the other recipients on reply-all, without the owner', () => {
+        // CALL
+        const result = service.replyToMail(
+          mailboxOwner,
+          1,
+          { body: 'Thanks!', cc: [{ email: 'test3@example.com' }] },
+          true,
+        );
+
+        // CONTROL
+        expect(result.to).toEqual([
+          { name: 'Test User 1', email: 'test1@example.com' },
+        ]);
+        expect(result.cc).toEqual([
+          { name: 'Morgan White', email: 'morgan.white@example.com' },
+          { name: 'test3@example.com', email: 'test3@example.com' },
+        ]);
+      });
+
+      it('should reply to the replyTo addresses when given', () => {
+        // PREPARE
+        const original = repository.create({
+          ownerId: 1,
+          from: { name: 'Newsletter', email: 'no-reply@example.com' },
+          replyTo: [{ name: 'Support', email: 'support@example.com' }],
+          subject: 'News',
+          body: 'News body',
+          date: '2024-01-04T00:00:00.000Z',
+        });
+
+        // CALL
+        const result = service.replyToMail(mailboxOwner, original.id!, {
+          body: 'Hi',
+        });
+
+        // CONTROL
+        expect(result.to).toEqual([
+          { name: 'Support', email: 'support@example.com' },
+        ]);
+        expect(result).not.toHaveProperty('inReplyTo');
+      });
+
+      it('should reply to the recipients of a sent mail', () => {
+        // PREPARE
+        const sent = service.createMail(mailboxOwner, {
+          to: [{ email: 'test2@example.com' }],
+          subject: 'Question',
+          body: 'Question body',
+        });
+
+        // CALL
+        const reply = service.replyToMail(mailboxOwner, sent.id!, {
+          body: 'Follow-up',
+        });
+        const second = service.replyToMail(mailboxOwner, reply.id!, {
+          body: 'Again',
+        });
+
+        // CONTROL
+        expect(reply.to).toEqual([
+          { name: 'test2@example.com', email: 'test2@example.com' },
+        ]);
+        expect(second.subject).toBe('RE: Question');
+        expect(second.references).toEqual([sent.messageId, reply.messageId]);
+      });
+    });
+
+    describe('Edge cases', () => {
+      it('should keep the prefixed subject within the maximum length', () => {
+        // PREPARE
+        const sent = service.createMail(mailboxOwner, {
+          to: [{ email: 'test2@example.com' }],
+          subject: 'a'.repeat(255),
+          body: 'Body',
+        });
+
+        // CALL
+        const result = service.replyToMail(mailboxOwner, sent.id!, {
+          body: 'Reply',
+        });
+
+        // CONTROL
+        expect(result.subject).toHaveLength(255);
+        expect(result.subject.startsWith('RE: aaa')).toBe(true);
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw NotFoundException when the mail does not exist', () => {
+        // CALL
+        const call = () =>
+          service.replyToMail(mailboxOwner, 42, { body: 'Hi' });
+
+        // CONTROL
+        expect(call).toThrow(NotFoundException);
+      });
+    });
+  });
+
+  describe('forwardMail', () => {
+    describe('Success scenarios', () => {
+      it('should forward the original mail with its headers', () => {
+        // CALL
+        const result = service.forwardMail(mailboxOwner, 1, {
+          to: [{ email: 'test3@example.com' }],
+          body: 'FYI',
+        });
+
+        // CONTROL
+        expect(result).toMatchObject({
+          from: mailboxOwner,
+          to: [{ name: 'test3@example.com', email: 'test3@example.com' }],
+          subject: 'FWD: Test Subject 1',
+          folder: MailFolder.SENT,
+          inReplyTo: '<test-1@example.com>',
+        });
+        expect(result.body).toContain(
+          'FYI\n\n---------- Forwarded message ----------\nFrom: Test User 1 <test1@example.com>',
+        );
+        expect(result.body).toContain(
+          'Cc: Morgan White <morgan.white@example.com>\n\nTest Body 1',
+        );
+      });
+
+      it('should not stack forward prefixes', () => {
+        // PREPARE
+        const forward = service.forwardMail(mailboxOwner, 2, {
+          to: [{ email: 'test3@example.com' }],
+        });
+
+        // CALL
+        const result = service.forwardMail(mailboxOwner, forward.id!, {
+          to: [{ email: 'test1@example.com' }],
+        });
+
+        // CONTROL
+        expect(forward.subject).toBe('FWD: Test Subject 2');
+        expect(result.subject).toBe('FWD: Test Subject 2');
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw NotFoundException when the mail does not exist', () => {
+        // CALL
+        const call = () =>
+          service.forwardMail(mailboxOwner, 42, {
+            to: [{ email: 'test3@example.com' }],
+          });
+
+        // CONTROL
+        expect(call).toThrow(NotFoundException);
+      });
+    });
+  });
+
+  describe('attachments', () => {
+    const upload = (originalname: string, content: string) =>
+      ({
+        originalname,
+        mimetype: 'text/plain',
+        size: Buffer.byteLength(content),
+        buffer: Buffer.from(content),
+      }) as Express.Multer.File;
+    const dto = {
+      to: [{ email: 'test1@example.com' }],
+      subject: 'Deck',
+      body: "I've attached the preliminary deck",
+    };
+    const read = async (stream: Readable) =>
+      Buffer.concat((await stream.toArray()) as Buffer[]).toString();
+
+    describe('Success scenarios', () => {
+      it('should store the uploaded files with their metadata', async () => {
+        // CALL
+        const result = service.createMail(mailboxOwner, dto, [
+          upload('deck.txt', 'hello world'),
+        ]);
+
+        // CONTROL
+        expect(result.attachments).toHaveLength(1);
+        expect(result.attachments![0].id).toMatch(/^[0-9a-f-]{36}$/);
+        expect(result.attachments).toMatchObject([
+          {
+            filename: 'deck.txt',
+            contentType: 'text/plain',
+            size: 11,
+            checksum:
+              'b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9',
+          },
+        ]);
+        const download = service.openAttachment(
+          mailboxOwner,
+          result.id!,
+          result.attachments![0].id,
+        );
+        expect(download.range).toBeUndefined();
+        expect(await read(download.stream)).toBe('hello world');
+      });
+
+      it('should serve a byte range', async () => {
+        // PREPARE
+        const mail = service.createMail(mailboxOwner, dto, [
+          upload('deck.txt', 'hello world'),
+        ]);
+
+        // CALL
+        const download = service.openAttachment(
+          mailboxOwner,
+          mail.id!,
+          mail.attachments![0].id,
+          'bytes=6-',
+        );
+
+        // CONTROL
+        expect(download.range).toEqual({ start: 6, end: 10 });
+        expect(await read(download.stream)).toBe('world');
+      });
+
+      it('should copy the attachments of a forwarded mail', async () => {
+        // PREPARE
+        const mail = service.createMail(mailboxOwner, dto, [
+          upload('deck.txt', 'hello world'),
+        ]);
+
+        // CALL
+        const forward = service.forwardMail(mailboxOwner, mail.id!, {
+          to: [{ email: 'test3@example.com' }],
+        });
+        service.removeMail(mail.id!);
+
+        // CONTROL
+        expect(forward.attachments).toHaveLength(1);
+        expect(forward.attachments![0].id).not.toBe(mail.attachments![0].id);
+        const download = service.openAttachment(
+          mailboxOwner,
+          forward.id!,
+          forward.attachments![0].id,
+        );
+        expect(await read(download.stream)).toBe('hello world');
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw PayloadTooLargeException above the per-mail limit', () => {
+        // PREPARE
+        const file = upload('deck.txt', 'x');
+        file.size = MAX_MAIL_ATTACHMENTS_SIZE;
+
+        // CALL
+        const call = () => service.createMail(mailboxOwner, dto, [file, file]);
+
+        // CONTROL
+        expect(call).toThrow(PayloadTooLargeException);
+        expect(repository.count()).toBe(3);
+      });
+
+      it('should throw NotFoundException for an unknown attachment', () => {
+        // CALL
+        const call = () => service.getAttachment(mailboxOwner, 1, 'unknown');
+
+        // CONTROL
+        expect(call).toThrow(NotFoundException);
+        expect(call).toThrow('Attachment with id unknown not found');
+      });
+
+      it('should throw RangeNotSatisfiableException past the content', () => {
+        // PREPARE
+        const mail = service.createMail(mailboxOwner, dto, [
+          upload('deck.txt', 'hello world'),
+        ]);
+
+        // CALL
+        const call = () =>
+          service.openAttachment(
+            mailboxOwner,
+            mail.id!,
+            mail.attachments![0].id,
+            'bytes=50-',
+          );
+
+        // CONTROL
+        expect(call).toThrow(RangeNotSatisfiableException);
+      });
+    });
+  });
+
+  describe('importMail', () => {
+    const parsed = (fields: object = {}) => ({
+      id: 42,
+      ownerId: 2,
+      from: { name: 'Alice Martin', email: 'alice@example.com' },
+      to: [{ name: 'Sam Lee', email: 'sam.lee@example.com' }],
+      subject: 'Imported',
+      body: 'Imported body',
+      date: '2023-06-01T00:00:00.000Z',
+      folder: MailFolder.TRASH,
+      ...fields,
+    });
+
+    describe('Success scenarios', () => {
+      it('should store a received mail in the inbox of the owner', () => {
+        // CALL
+        const result = service.importMail(mailboxOwner, parsed());
+
+        // CONTROL
+        expect(result).toEqual({
+          ...parsed(),
+          id: 4,
+          ownerId: 1,
+          folder: undefined,
+        });
+        expect(service.getMailById(mailboxOwner, 4).subject).toBe('Imported');
+      });
+
+      it('should store a mail sent by the owner in the Sent folder', () => {
+        // CALL
+        const result = service.importMail(
+          mailboxOwner,
+          parsed({ from: { name: 'Sam', email: 'SAM.LEE@example.com' } }),
+        );
+
+        // CONTROL
+        expect(result.folder).toBe(MailFolder.SENT);
+      });
+
+      it('should deliver a received mail unread into the inbox', () => {
+        // CALL
+        const result = service.deliverMail(
+          mailboxOwner,
+          parsed({ from: mailboxOwner }),
+        );
+
+        // CONTROL
+        expect(result).toMatchObject({ id: 4, ownerId: 1, unread: true });
+        expect(result.folder).toBeUndefined();
+        expect(service.getMailById(mailboxOwner, 4).unread).toBe(true);
+      });
+
+      it('should store the attachments of the mail', async () => {
+        // CALL
+        const result = service.importMail(mailboxOwner, parsed(), [
+          {
+            filename: 'deck.txt',
+            contentType: 'text/plain',
+            content: Buffer.from('hello world'),
+          },
+        ]);
+
+        // CONTROL
+        expect(result.attachments).toMatchObject([
+          { filename: 'deck.txt', contentType: 'text/plain', size: 11 },
+        ]);
+        const download = service.openAttachment(
+          mailboxOwner,
+          result.id!,
+          result.attachments![0].id,
+        );
+        expect(
+          Buffer.concat((await download.stream.toArray()) as Buffer[]),
+        ).toEqual(Buffer.from('hello world'));
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw PayloadTooLargeException for oversized attachments', () => {
+        // PREPARE
+        const content = Buffer.alloc(MAX_MAIL_ATTACHMENTS_SIZE / 2 + 1);
+        const attachment = {
+          filename: 'big.bin',
+          contentType: 'application/octet-stream',
+          content,
+        };
+
+        // CALL
+        const call = () =>
+          service.importMail(mailboxOwner, parsed(), [attachment, attachment]);
+
+        // CONTROL
+        expect(call).toThrow(PayloadTooLargeException);
+        expect(repository.count()).toBe(3);
+      });
+    });
+  });
+
+  describe('moveMail', () => {
+    describe('Success scenarios', () => {
+      it('should move a mail to another folder', () => {
+        // CALL
+        const result = service.moveMail(mailboxOwner, 1, {
+          folder: MailFolder.ARCHIVE,
+        });
+
+        // CONTROL
+        expect(result).toHaveProperty('folder', MailFolder.ARCHIVE);
+        expect(
+          service
+            .getMailPaginated(mailboxOwner, { folder: MailFolder.ARCHIVE })
+            .mails.map((mail) => mail.id),
+        ).toEqual([1]);
+        expect(
+          service
+            .getMailPaginated(mailboxOwner, { folder: MailFolder.INBOX })
+            .mails.map((mail) => mail.id),
+        ).toEqual([2, 3]);
+      });
+
+      it('should date the move to trash and clear it on restore', () => {
+        // CALL
+        const trashed = service.moveMail(mailboxOwner, 2, {
+          folder: MailFolder.TRASH,
+        });
+        const restored = service.moveMail(mailboxOwner, 2, {
+          folder: MailFolder.INBOX,
+        });
+
+        // CONTROL
+        expect(trashed.trashedAt).toEqual(expect.any(String));
+        expect(restored.trashedAt).toBeUndefined();
+        expect(restored.folder).toBe(MailFolder.INBOX);
+      });
+
+      it('should move a sent mail back to sent', () => {
+        // PREPARE
+        const sent = service.createMail(mailboxOwner, {
+          to: [{ email: 'test1@example.com' }],
+          subject: 'Subject',
+          body: 'Body',
+        });
+        service.moveMail(mailboxOwner, sent.id!, { folder: MailFolder.TRASH });
+
+        // CALL
+        const result = service.moveMail(mailboxOwner, sent.id!, {
+          folder: MailFolder.SENT,
+        });
+
+        // CONTROL
+        expect(result.folder).toBe(MailFolder.SENT);
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should refuse to move mails into drafts', () => {
+        // CALL
+        const call = () =>
+          service.moveMail(mailboxOwner, 1, { folder: MailFolder.DRAFTS });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+        expect(call).toThrow('Drafts cannot be moved');
+      });
+
+      it('should refuse to move received mails into sent', () => {
+        // CALL
+        const call = () =>
+          service.moveMail(mailboxOwner, 1, { folder: MailFolder.SENT });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+      });
+
+      it('should throw NotFoundException when the mail does not exist', () => {
+        // CALL
+        const call = () =>
+          service.moveMail(mailboxOwner, 42, { folder: MailFolder.SPAM });
+
+        // CONTROL
+        expect(call).toThrow(NotFoundException);
+      });
+    });
+  });
+
+  describe('deleteMail', () => {
+    describe('Success scenarios', () => {
+      it('should move the mail to the trash, then delete it permanently', () => {
+        // CALL
+        service.deleteMail(mailboxOwner, 1);
+        const trashed = service.getMailById(mailboxOwner, 1);
+        service.deleteMail(mailboxOwner, 1);
+
+        // CONTROL
+        expect(trashed.folder).toBe(MailFolder.TRASH);
+        expect(trashed.trashedAt).toEqual(expect.any(String));
+        expect(() => service.getMailById(mailboxOwner, 1)).toThrow(
+          NotFoundException,
+        );
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should refuse to trash drafts', () => {
+        // PREPARE
+        repository.update(1, { folder: MailFolder.DRAFTS });
+
+        // CALL
+        const call = () => service.deleteMail(mailboxOwner, 1);
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+        expect(call).toThrow('Drafts cannot be moved to the trash');
+        expect(service.getMailById(mailboxOwner, 1).folder).toBe(
+          MailFolder.DRAFTS,
+        );
+      });
+
+      it('should throw NotFoundException when the mail does not exist', () => {
+        // CALL
+        const call = () => service.deleteMail(mailboxOwner, 42);
+
+        // CONTROL
+        expect(call).toThrow(NotFoundException);
+      });
+    });
+  });
+
+  describe('purgeTrash', () => {
+    it('should only purge the mails trashed before the cutoff', () => {
+      // PREPARE
+      repository.update(1, {
+        folder: MailFolder.TRASH,
+        trashedAt: '2024-01-01T00:00:00.000Z',
+      });
+      repository.update(2, {
+        folder: MailFolder.TRASH,
+        trashedAt: '2024-03-01T00:00:00.000Z',
+      });
+
+      // CALL
+      const result = service.purgeTrash(new Date('2024-02-01T00:00:00.000Z'));
+
+      // CONTROL
+      expect(result).toBe(1);
+      expect(() => service.getMailById(mailboxOwner, 1)).toThrow(
+        NotFoundException,
+      );
+      expect(service.getMailById(mailboxOwner, 2)).toHaveProperty(
+        'folder',
+        MailFolder.TRASH,
+      );
+      expect(
+        service.searchMails(mailboxOwner, { q: 'in:trash' }).totalCount,
+      ).toBe(1);
+    });
+
+    it('should age mails trashed without date on their own date', () => {
+      // PREPARE
+      repository.update(3, { folder: MailFolder.TRASH });
+
+      // CALL
+      const result = service.purgeTrash(new Date('2024-02-01T00:00:00.000Z'));
+
+      // CONTROL
+      expect(result).toBe(1);
+      expect(repository.findById(3)).toBeUndefined();
+    });
+  });
+
+  describe('updateMail', () => {
+    describe('Success scenarios', () => {
+      it('should mark an unread mail as read', () => {
+        // PREPARE
+        const id = 2;
+
+        // CALL
+        const result = service.updateMail(mailboxOwner, id, { unread: false });
+
+        // CONTROL
+        expect(result).toHaveProperty('unread', false);
+        expect(service.getMailById(mailboxOwner, id)).toHaveProperty(
+          'unread',
+          false,
+        );
+      });
+
+      it('should mark a read mail as unread', () => {
+        // PREPARE
+        const id = 1;
+
+        // CALL
+        const result = service.updateMail(mailboxOwner, id, { unread: true });
+
+        // CONTROL
+        expect(result).toHaveProperty('unread', true);
+        expect(result.subject).toBe('Test Subject 1');
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw BadRequestException when no flag is provided', () => {
+        // CALL
+        const call = () => service.updateMail(mailboxOwner, 1, {});
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+        expect(call).toThrow('No updatable field provided');
+      });
+
+      it('should throw BadRequestException for a draft', () => {
+        // PREPARE
+        repository.update(1, { folder: MailFolder.DRAFTS, version: 1 });
+
+        // CALL
+        const call = () =>
+          service.updateMail(mailboxOwner, 1, { unread: true });
+
+        // CONTROL
+        expect(call).toThrow(BadRequestException);
+        expect(call).toThrow('Drafts are updated through the drafts API');
+        expect(repository.findById(1)).not.toHaveProperty('unread', true);
+      });
+
+      it('should throw NotFoundException when the mail does not exist', () => {
+        // CALL
+        const call = () =>
+          service.updateMail(mailboxOwner, 42, { unread: false });
+
+        // CONTROL
+        expect(call).toThrow(NotFoundException);
+      });
+    });
+  });
+
+  describe('applyBulkAction', () => {
+    describe('Success scenarios', () => {
+      it('should mark every listed mail as read', () => {
+        // PREPARE
+        const ids = [1, 2];
+
+        // CALL
+        const result = service.applyBulkAction(mailboxOwner, {
+          action: MailBulkAction.MARK_READ,
+          ids,
+        });
+
+        // CONTROL
+        expect(result).toBeInstanceOf(BulkMailActionResponseDto);
+        expect(result.results).toEqual([
+          { id: 1, success: true },
+          { id: 2, success: true },
+        ]);
+        expect(service.getMailById(mailboxOwner, 2)).toHaveProperty(
+          'unread',
+          false,
+        );
+      });
+
+      it('should mark every listed mail as unread', () => {
+        // CALL
+        service.applyBulkAction(mailboxOwner, {
+          action: MailBulkAction.MARK_UNREAD,
+          ids: [3],
+        });
+
+        // CONTROL
+        expect(service.getMailById(mailboxOwner, 3)).toHaveProperty(
+          'unread',
+          true,
+        );
+      });
+
+      it('should delete every listed mail', () => {
+        // CALL
+        const result = service.applyBulkAction(mailboxOwner, {
+          action: MailBulkAction.DELETE,
+          ids: [1, 3],
+        });
+
+        // CONTROL
+        expect(result.results.every((item) => item.success)).toBe(true);
+        expect(service.getMailPaginated(mailboxOwner, {}).totalCount).toBe(1);
+      });
+
+      it('should move deleted mails to the trash first', () => {
+        // CALL
+        service.applyBulkAction(mailboxOwner, {
+          action: MailBulkAction.DELETE,
+          ids: [1],
+        });
+
+        // CONTROL
+        const trash = service.getMailPaginated(mailboxOwner, {
+          folder: MailFolder.TRASH,
+        });
+        expect(trash.mails.map((mail) => mail.id)).toEqual([1]);
+        expect(trash.mails[0].trashedAt).toEqual(expect.any(String));
+        expect(service.getMailStats(mailboxOwner).totalCount).toBe(2);
+      });
+
+      it('should permanently delete mails already in the trash', () => {
+        // PREPARE
+        service.applyBulkAction(mailboxOwner, {
+          action: MailBulkAction.DELETE,
+          ids: [1],
+        });
+
+        // CALL
+        const result = service.applyBulkAction(mailboxOwner, {
+          action: MailBulkAction.DELETE,
+          ids: [1],
+        });
+
+        // CONTROL
+        expect(result.results).toEqual([{ id: 1, success: true }]);
+        expect(() => service.getMailById(mailboxOwner, 1)).toThrow(
+          NotFoundException,
+        );
+        expect(
+          service.searchMails(mailboxOwner, { q: 'in:trash' }).totalCount,
+        ).toBe(0);
+      });
+    });
+
+    describe('Edge cases', () => {
+      it('should report missing mails without aborting the others', () => {
+        // CALL
+        const result = service.applyBulkAction(mailboxOwner, {
+          action: MailBulkAction.MARK_READ,
+          ids: [42, 2],
+        });
+
+        // CONTROL
+        expect(result.results).toEqual([
+          { id: 42, success: false, error: 'Mail with id 42 not found' },
+          { id: 2, success: true },
+        ]);
+        expect(service.getMailById(mailboxOwner, 2)).toHaveProperty(
+          'unread',
+          false,
+        );
+      });
+
+      it('should report drafts as not deleted', () => {
+        // PREPARE
+        repository.update(1, { folder: MailFolder.DRAFTS });
+
+        // CALL
+        const result = service.applyBulkAction(mailboxOwner, {
+          action: MailBulkAction.DELETE,
+          ids: [1, 2],
+        });
+
+        // CONTROL
+        expect(result.results).toEqual([
+          {
+            id: 1,
+            success: false,
+            error: 'Drafts cannot be moved to the trash',
+          },
+          { id: 2, success: true },
+        ]);
+        expect(service.getMailById(mailboxOwner, 1).folder).toBe(
+          MailFolder.DRAFTS,
+        );
+      });
+
+      it('should report drafts as not marked', () => {
+        // PREPARE
+        repository.update(1, { folder: MailFolder.DRAFTS, version: 1 });
+
+        // CALL
+        const result = service.applyBulkAction(mailboxOwner, {
+          action: MailBulkAction.MARK_UNREAD,
+          ids: [1],
+        });
+
+        // CONTROL
+        expect(result.results).toEqual([
+          {
+            id: 1,
+            success: false,
+            error: 'Drafts are updated through the drafts API',
+          },
+        ]);
+      });
+
+      it('should apply the action once per duplicated id', () => {
+        // CALL
+        const result = service.applyBulkAction(mailboxOwner, {
+          action: MailBulkAction.DELETE,
+          ids: [1, 1],
+        });
+
+        // CONTROL
+        expect(result.results).toEqual([{ id: 1, success: true }]);
+      });
+    });
+  });
 });
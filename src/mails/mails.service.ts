@@ -1,69 +1,347 @@
 import {
   BadRequestException,
+  GoneException,
   Injectable,
   InternalServerErrorException,
   Logger,
+  NotFoundException,
+  PayloadTooLargeException,
 } from '@nestjs/common';
-import { mails } from './mails';
+import { createHash, randomUUID } from 'crypto';
+import { Observable, map } from 'rxjs';
 import { IGetMailsPaginated } from './interfaces/get-mails.interface';
 import { IMail } from './interfaces/mail.interface';
+import {
+  IAttachmentContent,
+  IAttachmentDownload,
+  IMailAttachment,
+} from './interfaces/mail-attachment.interface';
 import { GetMailsPaginatedResponseDto } from './dto/get-mails-response.dto';
 import { plainToInstance } from 'class-transformer';
-import { PaginationParamsDto } from './dto/pagination-params.dto';
+import {
+  GetMailsQueryDto,
+  MailSortField,
+  SortOrder,
+} from './dto/get-mails-query.dto';
+import { SearchMailsQueryDto } from './dto/search-mails-query.dto';
+import { SearchMailsResponseDto } from './dto/search-mails-response.dto';
+import { CreateMailDto, MAX_SUBJECT_LENGTH } from './dto/create-mail.dto';
+import { UpdateMailDto } from './dto/update-mail.dto';
+import { ReplyMailDto } from './dto/reply-mail.dto';
+import { ForwardMailDto } from './dto/forward-mail.dto';
+import { MoveMailDto } from './dto/move-mail.dto';
+import { BulkMailActionDto, MailBulkAction } from './dto/bulk-mail-action.dto';
+import {
+  BulkMailActionResponseDto,
+  BulkMailActionResultDto,
+} from './dto/bulk-mail-action-response.dto';
+import {
+  MailCountersDto,
+  MailStatsResponseDto,
+} from './dto/mail-stats-response.dto';
+import { parseTakeSkip } from './pagination';
+import { MailRepository } from './repositories/mail.repository';
+import { AttachmentStorage } from './attachments/attachment.storage';
+import {
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_MAIL,
+  MAX_MAIL_ATTACHMENTS_SIZE,
+} from './attachments/attachment-limits';
+import { parseByteRange } from './attachments/byte-range';
+import { isDeliveryDue, queuedDelivery } from './delivery/mail-delivery';
+import { IMailCursor } from './interfaces/mail-cursor.interface';
+import {
+  decodeMailCursor,
+  encodeMailCursor,
+  isAfterMailCursor,
+} from './mail-cursor';
+import { MailSearchIndex } from './search/mail-search.index';
+import { MailEventBus } from './events/mail-event.bus';
+import { IMailEvent, MailStreamEvent } from './interfaces/mail-event.interface';
+import { MailEventType } from './interfaces/mail-event-type.enum';
+import { IMailChangeToken } from './interfaces/mail-change-token.interface';
+import { IMailChange } from './interfaces/mail-change.interface';
+import {
+  decodeMailChangeToken,
+  encodeMailChangeToken,
+} from './mail-change-token';
+import { GetMailChangesQueryDto } from './dto/get-mail-changes-query.dto';
+import { MailChangesResponseDto } from './dto/mail-changes-response.dto';
+import { IUser } from './interfaces/user.interface';
+import { MailFolder } from './interfaces/mail-folder.enum';
+import { folderOf, isListedByDefault } from './mail-folders';
+import { sameUser, toUsers, uniqueUsers } from './recipients';
+import { createMessageId } from './message-id';
+import {
+  prefixSubject,
+  quoteForwardBody,
+  quoteReplyBody,
+  SubjectPrefix,
+  threadHeaders,
+} from './compose/mail-composer';
+import { buildHighlights } from './search/mail-search.highlighter';
+import { IMailSearchHit } from './interfaces/mail-search.interface';
+import { ICompiledMailQuery } from './interfaces/mail-query.interface';
+import {
+  compileMailQuery,
+  MailQuerySyntaxError,
+} from './query/mail-query.parser';
+
+const DEFAULT_SORT_ORDERS: Record<MailSortField, SortOrder> = {
+  [MailSortField.DATE]: SortOrder.DESC,
+  [MailSortField.FROM]: SortOrder.ASC,
+  [MailSortField.SUBJECT]: SortOrder.ASC,
+  [MailSortField.UNREAD]: SortOrder.DESC,
+};
+
+const SORT_COMPARATORS: Record<MailSortField, (a: IMail, b: IMail) => number> =
+  {
+    [MailSortField.DATE]: (a, b) =>
+      new Date(a.date).getTime() - new Date(b.date).getTime(),
+    [MailSortField.FROM]: (a, b) =>
+      a.from.name.localeCompare(b.from.name, undefined, {
+        sensitivity: 'base',
+      }),
+    [MailSortField.SUBJECT]: (a, b) =>
+      a.subject.localeCompare(b.subject, undefined, { sensitivity: 'base' }),
+    [MailSortField.UNREAD]: (a, b) => Number(!!a.unread) - Number(!!b.unread),
+  };
+
+/** Drafts are deleted through the drafts API, never trashed */
+const DRAFTS_NOT_TRASHED = 'Drafts cannot be moved to the trash';
+/** Drafts only change through the drafts API, which keeps their version */
+const DRAFTS_NOT_UPDATED = 'Drafts are updated through the drafts API';
 
 @Injectable()
 export class MailsService {
-  constructor() {}
+  constructor(
+    private readonly mailRepository: MailRepository,
+    private readonly mailSearchIndex: MailSearchIndex,
+    private readonly attachmentStorage: AttachmentStorage,
+    private readonly mailEventBus: MailEventBus,
+  ) {}
 
   private readonly logger = new Logger(MailsService.name);
 
   /**
-   * @description Get mails from database paginated
-   * @param take - Number of mails to get
-   * @param skip - Number of mails to skip
-   * @returns {GetMailsPaginatedResponseDto} Paginated response with mails and total count
+   * @description Store a new mail. Every mutation goes through `insertMail`,
+   * `patchMail` and `removeMail` so the search index stays in sync and the
+   * change is published on the event bus; errors are left to the caller.
+   * @param mail - Mail to store, any given id is ignored
+   * @returns {IMail} Stored mail with its id
    */
-  getMailPaginated(query: PaginationParamsDto): GetMailsPaginatedResponseDto {
-    let requestedMails: IMail[] = [];
-    let totalCount: number = 0;
-    let take = 10;
-    let skip = 0;
+  insertMail(mail: IMail): IMail {
+    const createdMail = this.mailRepository.create(mail);
+    this.mailSearchIndex.add(createdMail);
+    this.mailEventBus.publish({
+      type: MailEventType.CREATED,
+      ownerId: createdMail.ownerId!,
+      mailId: createdMail.id!,
+      folders: [folderOf(createdMail)],
+      mail: createdMail,
+    });
+    return createdMail;
+  }
+
+  /**
+   * @description Apply a partial update to a stored mail
+   * @param id - Id of the mail
+   * @param changes - Fields to overwrite
+   * @returns {IMail | undefined} Updated mail, undefined when missing
+   */
+  patchMail(id: number, changes: Partial<IMail>): IMail | undefined {
+    const previousMail = this.mailRepository.findById(id);
+    const updatedMail = this.mailRepository.update(id, changes);
+    if (updatedMail) {
+      this.mailSearchIndex.add(updatedMail);
+      this.mailEventBus.publish({
+        type: MailEventType.UPDATED,
+        ownerId: updatedMail.ownerId!,
+        mailId: id,
+        folders: [...new Set([folderOf(previousMail!), folderOf(updatedMail)])],
+        mail: updatedMail,
+        changes,
+      });
+    }
+    return updatedMail;
+  }
+
+  /**
+   * @description Permanently delete a stored mail and its attachments
+   * @param id - Id of the mail
+   * @returns {boolean} True when a mail has been removed
+   */
+  removeMail(id: number): boolean {
+    const mail = this.mailRepository.findById(id);
+    const deleted = this.mailRepository.delete(id);
+    if (deleted) {
+      this.mailSearchIndex.remove(id);
+      this.discardAttachments(mail?.attachments ?? []);
+      this.mailEventBus.publish({
+        type: MailEventType.DELETED,
+        ownerId: mail!.ownerId!,
+        mailId: id,
+        folders: [folderOf(mail!)],
+      });
+    }
+    return deleted;
+  }
+
+  /**
+   * @description Follow the changes of a mailbox, mails are shaped as in
+   * the other readers
+   * @param owner - Owner of the mailbox
+   * @param lastEventId - Stream id of the last event received, the retained
+   * events after it are replayed first, or a reset event when they are gone
+   * @returns {Observable<MailStreamEvent>} Events of the mailbox
+   */
+  streamMailEvents(
+    owner: IUser,
+    lastEventId?: string,
+  ): Observable<MailStreamEvent> {
+    return this.mailEventBus
+      .stream(owner.id!, lastEventId)
+      .pipe(
+        map((event) =>
+          event.type === MailEventType.RESET
+            ? event
+            : this.toMailEventView(owner, event),
+        ),
+      );
+  }
+
+  /**
+   * @description Id of an event on the streams, sent back as Last-Event-ID
+   * @param eventId - Id of the event
+   * @returns {string} Stream event id
+   */
+  getMailEventStreamId(eventId: number): string {
+    return this.mailEventBus.streamEventId(eventId);
+  }
 
-    // Handle take, skip to number
+  /**
+   * @description Delta sync: the mails created, updated and deleted in a
+   * mailbox since a token, each mail listed once with its latest change.
+   * The change log is kept by the repository, tokens survive restarts when
+   * the storage does.
+   * @param owner - Owner of the mailbox
+   * @param query - Token of the previous sync, omitted on a full sync
+   * @returns {MailChangesResponseDto} Changed mail ids, their current state
+   * and the token of the next sync
+   */
+  getMailChanges(
+    owner: IUser,
+    query: GetMailChangesQueryDto,
+  ): MailChangesResponseDto {
+    const since = this.parseChangeToken(query.since);
+
+    let token: string;
+    let changes: IMailChange[] | undefined;
     try {
-      if (query.take !== undefined) {
-        take = parseInt(query.take, 10);
-        if (isNaN(take)) {
-          throw new Error(`Invalid take parameter: ${query.take}`);
-        }
-        if (take <= 0) {
-          throw new Error(
-            `Take must be a positive number (minimum 1): ${take}`,
-          );
-        }
-      }
+      const epoch = this.mailRepository.getChangeLogId();
+      const lastChangeId = this.mailRepository.getLastChangeId(owner.id!);
+      token = encodeMailChangeToken({ epoch, changeId: lastChangeId });
+      changes =
+        since && since.epoch === epoch && since.changeId <= lastChangeId
+          ? this.mailRepository.findChangesSince(owner.id!, since.changeId)
+          : undefined;
+    } catch (error) {
+      this.logger.error(`Error getting mail changes from database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error getting mail changes from database',
+      );
+    }
 
-      if (query.skip !== undefined) {
-        skip = parseInt(query.skip, 10);
-        if (isNaN(skip)) {
-          throw new Error(`Invalid skip parameter: ${query.skip}`);
-        }
-        if (skip < 0) {
-          throw new Error(`Skip must be a positive number or zero: ${skip}`);
-        }
-      }
+    if (!since) {
+      return plainToInstance(MailChangesResponseDto, {
+        created: [],
+        updated: [],
+        deleted: [],
+        mails: [],
+        token,
+      });
+    }
+    if (!changes) {
+      throw new GoneException('Change token expired, resync required');
+    }
+
+    // A mail created and deleted since the token is left out
+    const isNew = (change: IMailChange) =>
+      change.createdChangeId > since.changeId;
+    const idsOf = (predicate: (change: IMailChange) => boolean) =>
+      changes.filter(predicate).map((change) => change.mailId);
+    const created = idsOf((change) => !change.deleted && isNew(change));
+    const updated = idsOf((change) => !change.deleted && !isNew(change));
+
+    let mails: IMail[];
+    try {
+      mails = [...created, ...updated]
+        .map((id) => this.findOwnedMail(owner, id))
+        .filter((mail): mail is IMail => mail !== undefined)
+        .map((mail) => this.toMailView(owner, mail));
     } catch (error) {
-      this.logger.error(`Error parsing take, skip: ${error}`);
-      throw new BadRequestException('Invalid take, skip');
+      this.logger.error(`Error getting mails from database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error getting mails from database',
+      );
     }
 
+    return plainToInstance(MailChangesResponseDto, {
+      created,
+      updated,
+      deleted: idsOf((change) => !!change.deleted && !isNew(change)),
+      mails,
+      token,
+    });
+  }
+
+  /**
+   * @description Get mails from database filtered and paginated
+   * @param owner - Owner of the mailbox
+   * @param take - Number of mails to get
+   * @param skip - Number of mails to skip
+   * @param folder - Optional folder, drafts, trash and spam are left out by default
+   * @param label, unread, hasAttachments, from, to, after, before - Optional filters
+   * @param sort, order - Optional sort, ties are broken on id
+   * @param cursor - Optional keyset cursor on (date, id), or on id for the storage order, replaces skip
+   * @returns {GetMailsPaginatedResponseDto} Paginated response with mails, total count of the filtered set and next page cursor
+   */
+  getMailPaginated(
+    owner: IUser,
+    query: GetMailsQueryDto,
+  ): GetMailsPaginatedResponseDto {
+    let requestedMails: IMail[] = [];
+    let totalCount: number = 0;
+    const { take, skip } = parseTakeSkip(query);
+
+    const cursor = this.parseCursor(query);
+    const filter = this.buildFilter(query);
+    const sortOptions = !cursor
+      ? this.parseSort(query)
+      : cursor.date !== undefined
+        ? { sort: MailSortField.DATE, order: cursor.order }
+        : undefined;
+    let hasMore = false;
+
     // Get requested mails from database
     try {
-      // Use mock instead of database
-      requestedMails = mails.slice(skip, skip + take);
+      const filteredMails = this.findMailbox(owner)
+        .map((mail) => this.toMailView(owner, mail))
+        .filter(filter);
+      if (sortOptions) {
+        filteredMails.sort(
+          this.buildComparator(sortOptions.sort, sortOptions.order),
+        );
+      }
+
+      const remainingMails = cursor
+        ? filteredMails.filter((mail) => isAfterMailCursor(mail, cursor))
+        : filteredMails.slice(skip);
+      requestedMails = remainingMails.slice(0, take);
+      hasMore = remainingMails.length > requestedMails.length;
 
-      // Count total number of mails
-      totalCount = mails.length;
+      // Count total number of filtered mails
+      totalCount = filteredMails.length;
     } catch (error) {
       this.logger.error(`Error getting mails from database: ${error}`);
       throw new InternalServerErrorException(
@@ -71,11 +349,26 @@ export class MailsService {
       );
     }
 
+    // Only a (date, id) or storage (id) ordered list can be resumed with a cursor
+    const lastMail = requestedMails[requestedMails.length - 1];
+    let nextCursor: string | null = null;
+    if (hasMore && lastMail && !sortOptions) {
+      nextCursor = encodeMailCursor(lastMail);
+    } else if (
+      hasMore &&
+      lastMail &&
+      sortOptions?.sort === MailSortField.DATE
+    ) {
+      nextCursor = encodeMailCursor(lastMail, sortOptions.order);
+    }
+
     // Build and return response
     try {
       const responseDto = plainToInstance(GetMailsPaginatedResponseDto, {
         mails: requestedMails,
         totalCount,
+        nextCursor,
+        hasMore,
       });
       return responseDto;
     } catch (error) {
@@ -83,4 +376,1167 @@ export class MailsService {
       throw new InternalServerErrorException('Error building response');
     }
   }
+
+  /**
+   * @description Search mails with free text and operators, e.g.
+   * `from:jordan is:unread after:2024-01-01 "sprint 3"`. Free text is ranked
+   * by relevance, operator-only queries are sorted by date descending.
+   * Drafts, trash and spam are only searched with a positive `in:`.
+   * @param owner - Owner of the mailbox
+   * @param q - Search query, see `parseMailQuery` for the syntax
+   * @param take - Number of mails to get
+   * @param skip - Number of mails to skip
+   * @returns {SearchMailsResponseDto} Paginated hits with their score and highlights
+   */
+  searchMails(
+    owner: IUser,
+    query: SearchMailsQueryDto,
+  ): SearchMailsResponseDto {
+    const { take, skip } = parseTakeSkip(query);
+    const compiledQuery = this.compileSearchQuery(query.q);
+
+    let hits: IMailSearchHit[] = [];
+    try {
+      const candidates: Array<{ mail: IMail; score: number }> =
+        compiledQuery.terms.length > 0
+          ? this.mailSearchIndex
+              .search(compiledQuery.terms.join(' '))
+              .flatMap((match) => {
+                const mail = this.mailRepository.findById(match.id);
+                return mail && mail.ownerId === owner.id
+                  ? [{ mail: this.toMailView(owner, mail), score: match.score }]
+                  : [];
+              })
+          : this.findMailbox(owner)
+              .sort(this.buildComparator(MailSortField.DATE, SortOrder.DESC))
+              .map((mail) => ({
+                mail: this.toMailView(owner, mail),
+                score: 0,
+              }));
+
+      // Drafts, trash and spam are only searched with a positive in: operator
+      const inFolder = compiledQuery.clauses.some(
+        (clause) => clause.operator === 'in' && !clause.negated,
+      );
+      hits = candidates
+        .filter(({ mail }) => inFolder || isListedByDefault(mail))
+        .filter(({ mail }) => compiledQuery.predicate(mail))
+        .map(({ mail, score }) => ({
+          ...mail,
+          score,
+          highlights: buildHighlights(mail, compiledQuery.terms),
+        }));
+    } catch (error) {
+      this.logger.error(`Error searching mails: ${error}`);
+      throw new InternalServerErrorException('Error searching mails');
+    }
+
+    const requestedHits = hits.slice(skip, skip + take);
+    return plainToInstance(SearchMailsResponseDto, {
+      mails: requestedHits,
+      totalCount: hits.length,
+      nextCursor: null,
+      hasMore: skip + requestedHits.length < hits.length,
+    });
+  }
+
+  /**
+   * @description Count mails in database. Uses the same source as
+   * `getMailPaginated` so every counter matches the totalCount of the
+   * matching list: the totals and the labels leave drafts, trash and spam out, each
+   * folder counts its own mails.
+   * @param owner - Owner of the mailbox
+   * @returns {MailStatsResponseDto} Total, unread, per-folder and per-label counters
+   */
+  getMailStats(owner: IUser): MailStatsResponseDto {
+    let allMails: IMail[] = [];
+
+    try {
+      allMails = this.findMailbox(owner);
+    } catch (error) {
+      this.logger.error(`Error getting mails from database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error getting mails from database',
+      );
+    }
+
+    const listedMails = allMails.filter(isListedByDefault);
+    const countersOf = (selected: IMail[]): MailCountersDto => ({
+      totalCount: selected.length,
+      unreadCount: selected.filter((mail) => mail.unread === true).length,
+    });
+
+    const folders = Object.fromEntries(
+      Object.values(MailFolder).map((folder) => [
+        folder,
+        countersOf(allMails.filter((mail) => folderOf(mail) === folder)),
+      ]),
+    ) as Record<MailFolder, MailCountersDto>;
+
+    const labelIds = [
+      ...new Set(listedMails.flatMap((mail) => mail.labelIds ?? [])),
+    ].sort((a, b) => a - b);
+    const labels = Object.fromEntries(
+      labelIds.map((labelId) => [
+        labelId,
+        countersOf(
+          listedMails.filter((mail) => mail.labelIds?.includes(labelId)),
+        ),
+      ]),
+    );
+
+    return plainToInstance(MailStatsResponseDto, {
+      ...countersOf(listedMails),
+      folders,
+      labels,
+    });
+  }
+
+  /**
+   * @description Get every mail of the mailbox, as the owner may see them
+   * @param owner - Owner of the mailbox
+   * @returns {IMail[]} Mails in storage order
+   */
+  getAllMails(owner: IUser): IMail[] {
+    try {
+      return this.findMailbox(owner).map((mail) =>
+        this.toMailView(owner, mail),
+      );
+    } catch (error) {
+      this.logger.error(`Error getting mails from database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error getting mails from database',
+      );
+    }
+  }
+
+  /**
+   * @description Get a single mail from database, mails of other mailboxes
+   * are not found
+   * @param owner - Owner of the mailbox
+   * @param id - Id of the mail
+   * @returns {IMail} The requested mail
+   */
+  getMailById(owner: IUser, id: number): IMail {
+    let mail: IMail | undefined;
+
+    try {
+      mail = this.findOwnedMail(owner, id);
+    } catch (error) {
+      this.logger.error(`Error getting mail ${id} from database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error getting mail from database',
+      );
+    }
+
+    if (!mail) {
+      throw new NotFoundException(`Mail with id ${id} not found`);
+    }
+
+    return this.toMailView(owner, mail);
+  }
+
+  /**
+   * @description Get the metadata of an attachment
+   * @param owner - Owner of the mailbox
+   * @param mailId - Id of the mail
+   * @param attachmentId - Id of the attachment
+   * @returns {IMailAttachment} The requested attachment
+   */
+  getAttachment(
+    owner: IUser,
+    mailId: number,
+    attachmentId: string,
+  ): IMailAttachment {
+    const attachment = this.getMailById(owner, mailId).attachments?.find(
+      (candidate) => candidate.id === attachmentId,
+    );
+    if (!attachment) {
+      throw new NotFoundException(
+        `Attachment with id ${attachmentId} not found`,
+      );
+    }
+    return attachment;
+  }
+
+  /**
+   * @description Open the content of an attachment for download
+   * @param owner - Owner of the mailbox
+   * @param mailId - Id of the mail
+   * @param attachmentId - Id of the attachment
+   * @param rangeHeader - Optional `Range` header, a single byte range is served
+   * @returns {IAttachmentDownload} Attachment, served range and content stream
+   */
+  openAttachment(
+    owner: IUser,
+    mailId: number,
+    attachmentId: string,
+    rangeHeader?: string,
+  ): IAttachmentDownload {
+    const attachment = this.getAttachment(owner, mailId, attachmentId);
+    const range = parseByteRange(rangeHeader, attachment.size);
+
+    try {
+      return {
+        attachment,
+        range,
+        stream: this.attachmentStorage.createReadStream(attachment.id, range),
+      };
+    } catch (error) {
+      this.logger.error(`Error reading attachment ${attachment.id}: ${error}`);
+      throw new InternalServerErrorException(
+        'Error reading attachment from storage',
+      );
+    }
+  }
+
+  /**
+   * @description Create a mail sent by the mailbox owner, stored in the
+   * Sent folder with a server-side id, date and Message-ID
+   * @param owner - Owner of the mailbox, sender of the mail
+   * @param dto - Recipients, subject and body of the mail
+   * @param files - Uploaded attachments
+   * @returns {IMail} The created mail
+   */
+  createMail(
+    owner: IUser,
+    dto: CreateMailDto,
+    files: Express.Multer.File[] = [],
+  ): IMail {
+    const mail: IMail = {
+      ownerId: owner.id,
+      from: owner,
+      to: toUsers(dto.to),
+      subject: dto.subject,
+      body: dto.body,
+      date: new Date().toISOString(),
+      folder: MailFolder.SENT,
+      messageId: createMessageId(owner),
+    };
+    if (dto.cc?.length) {
+      mail.cc = toUsers(dto.cc);
+    }
+    if (dto.bcc?.length) {
+      mail.bcc = toUsers(dto.bcc);
+    }
+    if (dto.replyTo?.length) {
+      mail.replyTo = toUsers(dto.replyTo);
+    }
+
+    this.checkAttachmentSizes(files.map((file) => file.size));
+    const attachments = this.storeAttachments(
+      files.map((file) => ({
+        filename: file.originalname,
+        contentType: file.mimetype,
+        content: file.buffer,
+      })),
+    );
+    if (attachments.length) {
+      mail.attachments = attachments;
+    }
+
+    return this.storeSentMail(mail);
+  }
+
+  /**
+   * @description Store a mail parsed from an archive, in the Sent folder
+   * when the owner sent it and in the inbox otherwise
+   * @param owner - Owner of the mailbox the mail is imported into
+   * @param mail - Parsed mail, any id, owner and folder are ignored
+   * @param attachments - Contents of the attachments of the mail
+   * @returns {IMail} The imported mail
+   */
+  importMail(
+    owner: IUser,
+    mail: IMail,
+    attachments: IAttachmentContent[] = [],
+  ): IMail {
+    return this.storeParsedMail(
+      owner,
+      {
+        ...mail,
+        folder: sameUser(mail.from, owner) ? MailFolder.SENT : undefined,
+      },
+      attachments,
+    );
+  }
+
+  /**
+   * @description Deliver a received message into the inbox of a recipient,
+   * as an unread mail
+   * @param owner - Recipient, owner of the mailbox
+   * @param mail - Parsed mail, any id, owner and folder are ignored
+   * @param attachments - Contents of the attachments of the mail
+   * @returns {IMail} The delivered mail
+   */
+  deliverMail(
+    owner: IUser,
+    mail: IMail,
+    attachments: IAttachmentContent[] = [],
+  ): IMail {
+    return this.storeParsedMail(
+      owner,
+      { ...mail, folder: undefined, unread: true },
+      attachments,
+    );
+  }
+
+  /**
+   * @description Reply to a mail: recipients are prefilled from the original
+   * mail, the subject is prefixed with `RE:` and the original body quoted
+   * @param owner - Owner of the mailbox, sender of the reply
+   * @param id - Id of the mail replied to
+   * @param dto - Body of the reply and additional recipients
+   * @param replyAll - Whether the other recipients of the original mail are kept
+   * @returns {IMail} The created reply
+   */
+  replyToMail(
+    owner: IUser,
+    id: number,
+    dto: ReplyMailDto,
+    replyAll = false,
+  ): IMail {
+    const original = this.getMailById(owner, id);
+    const recipients = this.replyRecipients(owner, original, replyAll);
+    const to = recipients.to;
+    const cc = uniqueUsers([...recipients.cc, ...toUsers(dto.cc ?? [])]).filter(
+      (user) => !to.some((recipient) => sameUser(recipient, user)),
+    );
+
+    const mail: IMail = {
+      ownerId: owner.id,
+      from: owner,
+      to,
+      subject: prefixSubject(original.subject, SubjectPrefix.REPLY).slice(
+        0,
+        MAX_SUBJECT_LENGTH,
+      ),
+      body: quoteReplyBody(original, dto.body),
+      date: new Date().toISOString(),
+      folder: MailFolder.SENT,
+      messageId: createMessageId(owner),
+      ...threadHeaders(original),
+    };
+    if (cc.length) {
+      mail.cc = cc;
+    }
+    if (dto.bcc?.length) {
+      mail.bcc = toUsers(dto.bcc);
+    }
+
+    return this.storeSentMail(mail);
+  }
+
+  /**
+   * @description Forward a mail to new recipients, the original mail is
+   * appended with its headers and its attachments are copied
+   * @param owner - Owner of the mailbox, sender of the forward
+   * @param id - Id of the forwarded mail
+   * @param dto - Recipients and optional note of the forward
+   * @returns {IMail} The created forward
+   */
+  forwardMail(owner: IUser, id: number, dto: ForwardMailDto): IMail {
+    const original = this.getMailById(owner, id);
+
+    const mail: IMail = {
+      ownerId: owner.id,
+      from: owner,
+      to: toUsers(dto.to),
+      subject: prefixSubject(original.subject, SubjectPrefix.FORWARD).slice(
+        0,
+        MAX_SUBJECT_LENGTH,
+      ),
+      body: quoteForwardBody(original, dto.body ?? ''),
+      date: new Date().toISOString(),
+      folder: MailFolder.SENT,
+      messageId: createMessageId(owner),
+      ...threadHeaders(original),
+    };
+    if (dto.cc?.length) {
+      mail.cc = toUsers(dto.cc);
+    }
+    if (dto.bcc?.length) {
+      mail.bcc = toUsers(dto.bcc);
+    }
+    if (original.attachments?.length) {
+      mail.attachments = this.copyAttachments(original.attachments);
+    }
+
+    return this.storeSentMail(mail);
+  }
+
+  /**
+   * @description Update the flags of a mail, drafts are left to the drafts API
+   * @param owner - Owner of the mailbox
+   * @param id - Id of the mail
+   * @param dto - Flags to update, only known flags are applied
+   * @returns {IMail} The updated mail
+   */
+  updateMail(owner: IUser, id: number, dto: UpdateMailDto): IMail {
+    const changes: Partial<IMail> = {};
+    if (dto.unread !== undefined) {
+      changes.unread = dto.unread;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new BadRequestException('No updatable field provided');
+    }
+
+    if (folderOf(this.getMailById(owner, id)) === MailFolder.DRAFTS) {
+      throw new BadRequestException(DRAFTS_NOT_UPDATED);
+    }
+    let mail: IMail | undefined;
+    try {
+      mail = this.patchMail(id, changes);
+    } catch (error) {
+      this.logger.error(`Error updating mail ${id} in database: ${error}`);
+      throw new InternalServerErrorException('Error updating mail in database');
+    }
+
+    if (!mail) {
+      throw new NotFoundException(`Mail with id ${id} not found`);
+    }
+
+    return this.toMailView(owner, mail);
+  }
+
+  /**
+   * @description Move a mail to another folder. Drafts are managed by the
+   * drafts API and only mails of the mailbox owner belong in Sent.
+   * @param owner - Owner of the mailbox
+   * @param id - Id of the mail
+   * @param dto - Destination folder
+   * @returns {IMail} The moved mail
+   */
+  moveMail(owner: IUser, id: number, dto: MoveMailDto): IMail {
+    const mail = this.getMailById(owner, id);
+    const from = folderOf(mail);
+
+    if (dto.folder === MailFolder.DRAFTS || from === MailFolder.DRAFTS) {
+      throw new BadRequestException('Drafts cannot be moved');
+    }
+    if (dto.folder === MailFolder.SENT && !sameUser(mail.from, owner)) {
+      throw new BadRequestException(
+        'Only mails sent by the mailbox owner can be moved to sent',
+      );
+    }
+    if (dto.folder === from) {
+      return mail;
+    }
+
+    let movedMail: IMail | undefined;
+    try {
+      movedMail = this.patchMail(id, this.folderChanges(dto.folder));
+    } catch (error) {
+      this.logger.error(`Error moving mail ${id} in database: ${error}`);
+      throw new InternalServerErrorException('Error updating mail in database');
+    }
+
+    if (!movedMail) {
+      throw new NotFoundException(`Mail with id ${id} not found`);
+    }
+
+    return this.toMailView(owner, movedMail);
+  }
+
+  /**
+   * @description Move a mail to the trash, or delete it permanently when it
+   * already is in the trash. Drafts are managed by the drafts API.
+   * @param owner - Owner of the mailbox
+   * @param id - Id of the mail
+   */
+  deleteMail(owner: IUser, id: number): void {
+    const mail = this.getMailById(owner, id);
+    if (folderOf(mail) === MailFolder.DRAFTS) {
+      throw new BadRequestException(DRAFTS_NOT_TRASHED);
+    }
+
+    let deleted: boolean;
+    try {
+      deleted = this.trashOrRemoveMail(id);
+    } catch (error) {
+      this.logger.error(`Error deleting mail ${id} in database: ${error}`);
+      throw new InternalServerErrorException('Error deleting mail in database');
+    }
+
+    if (!deleted) {
+      throw new NotFoundException(`Mail with id ${id} not found`);
+    }
+  }
+
+  /**
+   * @description Permanently delete the mails that stayed in the trash since
+   * before the cutoff, mails trashed without date are aged on their own date
+   * @param cutoff - Oldest trashing date kept
+   * @returns Number of purged mails
+   */
+  purgeTrash(cutoff: Date): number {
+    let purgedCount = 0;
+
+    try {
+      this.mailRepository
+        .findAll()
+        .filter(
+          (mail) =>
+            folderOf(mail) === MailFolder.TRASH &&
+            new Date(mail.trashedAt ?? mail.date).getTime() < cutoff.getTime(),
+        )
+        .forEach((mail) => {
+          if (this.removeMail(mail.id!)) {
+            purgedCount++;
+          }
+        });
+    } catch (error) {
+      this.logger.error(`Error purging trash in database: ${error}`);
+      throw new InternalServerErrorException('Error purging trash in database');
+    }
+
+    return purgedCount;
+  }
+
+  /**
+   * @description Get the mails of every mailbox waiting for a delivery
+   * attempt, used by the delivery queue
+   * @param now - Current date, deferred mails are due once it is reached
+   * @returns {IMail[]} Due mails, in storage order
+   */
+  getPendingDeliveries(now: Date): IMail[] {
+    try {
+      return this.mailRepository
+        .findAll()
+        .filter((mail) => isDeliveryDue(mail.delivery, now));
+    } catch (error) {
+      this.logger.error(`Error getting pending deliveries: ${error}`);
+      throw new InternalServerErrorException(
+        'Error getting mails from database',
+      );
+    }
+  }
+
+  /**
+   * @description Apply the same action to several mails, drafts are reported
+   * as not applied
+   * @param owner - Owner of the mailbox
+   * @param dto - Action to apply and ids of the targeted mails
+   * @returns {BulkMailActionResponseDto} Result of the action for each id
+   */
+  applyBulkAction(
+    owner: IUser,
+    dto: BulkMailActionDto,
+  ): BulkMailActionResponseDto {
+    const results = [...new Set(dto.ids)].map((id) =>
+      this.applyAction(owner, dto.action, id),
+    );
+
+    return plainToInstance(BulkMailActionResponseDto, { results });
+  }
+
+  /**
+   * @description Attach or detach a label on several mails, attaching twice
+   * keeps a single reference, drafts are reported as not applied
+   * @param owner - Owner of the mailbox
+   * @param labelId - Id of the label, checked by the caller
+   * @param ids - Ids of the targeted mails
+   * @param attached - Whether the label is attached or detached
+   * @returns {BulkMailActionResponseDto} Result of the change for each id
+   */
+  setLabel(
+    owner: IUser,
+    labelId: number,
+    ids: number[],
+    attached: boolean,
+  ): BulkMailActionResponseDto {
+    const results = [...new Set(ids)].map((id): BulkMailActionResultDto => {
+      try {
+        const mail = this.findOwnedMail(owner, id);
+        if (!mail) {
+          return { id, success: false, error: `Mail with id ${id} not found` };
+        }
+        if (folderOf(mail) === MailFolder.DRAFTS) {
+          return { id, success: false, error: DRAFTS_NOT_UPDATED };
+        }
+
+        const labelIds = (mail.labelIds ?? []).filter(
+          (mailLabelId) => mailLabelId !== labelId,
+        );
+        if (attached) {
+          labelIds.push(labelId);
+        }
+        this.patchMail(id, { labelIds });
+        return { id, success: true };
+      } catch (error) {
+        this.logger.error(
+          `Error setting label ${labelId} on mail ${id}: ${error}`,
+        );
+        return { id, success: false, error: 'Error updating mail in database' };
+      }
+    });
+
+    return plainToInstance(BulkMailActionResponseDto, { results });
+  }
+
+  /**
+   * @description Detach a label from every mail, the mails are kept
+   * @param labelId - Id of the label
+   * @returns Number of mails the label was detached from
+   */
+  detachLabel(labelId: number): number {
+    try {
+      const labelledMails = this.mailRepository
+        .findAll()
+        .filter((mail) => mail.labelIds?.includes(labelId));
+      labelledMails.forEach((mail) => {
+        this.patchMail(mail.id!, {
+          labelIds: mail.labelIds!.filter(
+            (mailLabelId) => mailLabelId !== labelId,
+          ),
+        });
+      });
+      return labelledMails.length;
+    } catch (error) {
+      this.logger.error(`Error detaching label ${labelId}: ${error}`);
+      throw new InternalServerErrorException('Error updating mail in database');
+    }
+  }
+
+  private applyAction(
+    owner: IUser,
+    action: MailBulkAction,
+    id: number,
+  ): BulkMailActionResultDto {
+    try {
+      const mail = this.findOwnedMail(owner, id);
+      if (!mail) {
+        return { id, success: false, error: `Mail with id ${id} not found` };
+      }
+      if (folderOf(mail) === MailFolder.DRAFTS) {
+        return {
+          id,
+          success: false,
+          error:
+            action === MailBulkAction.DELETE
+              ? DRAFTS_NOT_TRASHED
+              : DRAFTS_NOT_UPDATED,
+        };
+      }
+
+      let applied: boolean;
+      switch (action) {
+        case MailBulkAction.MARK_READ:
+          applied = !!this.patchMail(id, { unread: false });
+          break;
+        case MailBulkAction.MARK_UNREAD:
+          applied = !!this.patchMail(id, { unread: true });
+          break;
+        case MailBulkAction.DELETE:
+          applied = this.trashOrRemoveMail(id);
+          break;
+        default:
+          return {
+            id,
+            success: false,
+            error: `Unknown action: ${String(action)}`,
+          };
+      }
+
+      return applied
+        ? { id, success: true }
+        : { id, success: false, error: `Mail with id ${id} not found` };
+    } catch (error) {
+      this.logger.error(`Error applying ${action} to mail ${id}: ${error}`);
+      return { id, success: false, error: 'Error updating mail in database' };
+    }
+  }
+
+  /**
+   * @description Move a mail to the trash, or delete it permanently when it
+   * already is in the trash
+   * @param id - Id of the mail
+   * @returns Whether the mail was found
+   */
+  private trashOrRemoveMail(id: number): boolean {
+    const mail = this.mailRepository.findById(id);
+    if (!mail) {
+      return false;
+    }
+
+    if (folderOf(mail) !== MailFolder.TRASH) {
+      return !!this.patchMail(id, this.folderChanges(MailFolder.TRASH));
+    }
+
+    return this.removeMail(id);
+  }
+
+  /** Changes moving a mail to a folder, the trashing date only lives in the trash */
+  private folderChanges(folder: MailFolder): Partial<IMail> {
+    return {
+      folder,
+      trashedAt:
+        folder === MailFolder.TRASH ? new Date().toISOString() : undefined,
+    };
+  }
+
+  /**
+   * @description Store a mail parsed from a raw message in a mailbox
+   * @param owner - Owner of the mailbox
+   * @param mail - Parsed mail, any id and owner are replaced
+   * @param attachments - Contents of the attachments of the mail
+   * @returns {IMail} The stored mail
+   */
+  private storeParsedMail(
+    owner: IUser,
+    mail: IMail,
+    attachments: IAttachmentContent[],
+  ): IMail {
+    const parsedMail: IMail = { ...mail, ownerId: owner.id };
+    delete parsedMail.id;
+    if (parsedMail.folder === undefined) {
+      delete parsedMail.folder;
+    }
+
+    this.checkAttachmentSizes(attachments.map(({ content }) => content.length));
+    const storedAttachments = this.storeAttachments(attachments);
+    if (storedAttachments.length) {
+      parsedMail.attachments = storedAttachments;
+    } else {
+      delete parsedMail.attachments;
+    }
+
+    return this.storeNewMail(parsedMail);
+  }
+
+  /**
+   * @description Store a mail sent through the API, queued for delivery
+   * @param mail - Mail to store
+   * @returns {IMail} The stored mail
+   */
+  private storeSentMail(mail: IMail): IMail {
+    return this.storeNewMail({ ...mail, delivery: queuedDelivery() });
+  }
+
+  private storeNewMail(mail: IMail): IMail {
+    try {
+      return this.insertMail(mail);
+    } catch (error) {
+      this.logger.error(`Error creating mail in database: ${error}`);
+      this.discardAttachments(mail.attachments ?? []);
+      throw new InternalServerErrorException('Error creating mail in database');
+    }
+  }
+
+  /**
+   * @description Check the attachments of a mail against the upload limits
+   * @param sizes - Size of each attachment, in bytes
+   * @throws PayloadTooLargeException when a limit is exceeded
+   */
+  private checkAttachmentSizes(sizes: number[]): void {
+    if (sizes.length > MAX_ATTACHMENTS_PER_MAIL) {
+      throw new PayloadTooLargeException(
+        `A mail must have at most ${MAX_ATTACHMENTS_PER_MAIL} attachments`,
+      );
+    }
+    if (sizes.some((size) => size > MAX_ATTACHMENT_SIZE)) {
+      throw new PayloadTooLargeException(
+        `Each attachment must be at most ${MAX_ATTACHMENT_SIZE} bytes`,
+      );
+    }
+    const totalSize = sizes.reduce((total, size) => total + size, 0);
+    if (totalSize > MAX_MAIL_ATTACHMENTS_SIZE) {
+      throw new PayloadTooLargeException(
+        `Attachments must total at most ${MAX_MAIL_ATTACHMENTS_SIZE} bytes`,
+      );
+    }
+  }
+
+  /**
+   * @description Store attachment contents, each under a new id with its
+   * checksum. Nothing is kept when one of them cannot be stored.
+   * @param contents - Contents of the attachments, already within the limits
+   * @returns {IMailAttachment[]} Metadata of the stored attachments
+   */
+  private storeAttachments(contents: IAttachmentContent[]): IMailAttachment[] {
+    const attachments: IMailAttachment[] = [];
+    try {
+      contents.forEach(({ filename, contentType, content }) => {
+        const attachment: IMailAttachment = {
+          id: randomUUID(),
+          filename,
+          contentType: contentType || 'application/octet-stream',
+          size: content.length,
+          checksum: createHash('sha256').update(content).digest('hex'),
+        };
+        this.attachmentStorage.write(attachment.id, content);
+        attachments.push(attachment);
+      });
+    } catch (error) {
+      this.logger.error(`Error storing attachments: ${error}`);
+      this.discardAttachments(attachments);
+      throw new InternalServerErrorException('Error storing attachments');
+    }
+    return attachments;
+  }
+
+  /**
+   * @description Copy attachments under new ids, so each mail owns its
+   * contents and deleting one mail leaves the other intact
+   * @param attachments - Attachments to copy
+   * @returns {IMailAttachment[]} Metadata of the copies
+   */
+  private copyAttachments(attachments: IMailAttachment[]): IMailAttachment[] {
+    const copies: IMailAttachment[] = [];
+    try {
+      attachments.forEach((attachment) => {
+        const copy = { ...attachment, id: randomUUID() };
+        this.attachmentStorage.copy(attachment.id, copy.id);
+        copies.push(copy);
+      });
+    } catch (error) {
+      this.logger.error(`Error copying attachments: ${error}`);
+      this.discardAttachments(copies);
+      throw new InternalServerErrorException('Error storing attachments');
+    }
+    return copies;
+  }
+
+  /** Remove attachment contents, failures only leave orphan files behind */
+  private discardAttachments(attachments: IMailAttachment[]): void {
+    attachments.forEach((attachment) => {
+      try {
+        this.attachmentStorage.delete(attachment.id);
+      } catch (error) {
+        this.logger.error(
+          `Error deleting attachment ${attachment.id}: ${error}`,
+        );
+      }
+    });
+  }
+
+  /**
+   * @description Recipients of a reply. A reply goes to the `replyTo` of the
+   * original mail, or its sender; replying to a sent mail goes back to its
+   * recipients. Reply-all also keeps the other `to` and `cc`, without the
+   * mailbox owner.
+   * @param owner - Owner of the mailbox, sender of the reply
+   * @param original - Mail replied to
+   * @param replyAll - Whether the other recipients are kept
+   * @returns Prefilled `to` and `cc`
+   */
+  private replyRecipients(
+    owner: IUser,
+    original: IMail,
+    replyAll: boolean,
+  ): { to: IUser[]; cc: IUser[] } {
+    const sentByOwner = sameUser(original.from, owner);
+    const primary = sentByOwner
+      ? (original.to ?? [])
+      : original.replyTo?.length
+        ? original.replyTo
+        : [original.from];
+    if (!replyAll) {
+      return { to: uniqueUsers(primary), cc: [] };
+    }
+
+    const notOwner = (user: IUser) => !sameUser(user, owner);
+    const to = uniqueUsers([
+      ...primary,
+      ...(sentByOwner ? [] : (original.to ?? [])),
+    ]).filter(notOwner);
+    const cc = uniqueUsers(original.cc ?? [])
+      .filter(notOwner)
+      .filter((user) => !to.some((recipient) => sameUser(recipient, user)));
+
+    // Replying to all of a note to self still needs a recipient
+    return { to: to.length ? to : uniqueUsers(primary), cc };
+  }
+
+  /**
+   * @description Get the stored mails of a mailbox
+   * @param owner - Owner of the mailbox
+   * @returns {IMail[]} Mails in storage order
+   */
+  private findMailbox(owner: IUser): IMail[] {
+    return this.mailRepository
+      .findAll()
+      .filter((mail) => mail.ownerId === owner.id);
+  }
+
+  /**
+   * @description Get a stored mail of a mailbox
+   * @param owner - Owner of the mailbox
+   * @param id - Id of the mail
+   * @returns {IMail | undefined} The mail, undefined when missing or owned by
+   * another mailbox
+   */
+  private findOwnedMail(owner: IUser, id: number): IMail | undefined {
+    const mail = this.mailRepository.findById(id);
+    return mail?.ownerId === owner.id ? mail : undefined;
+  }
+
+  /**
+   * @description Shape a stored mail for the mailbox owner: the bcc list is
+   * only visible to the sender
+   * @param owner - Owner of the mailbox
+   * @param mail - Stored mail
+   * @returns {IMail} Mail as the mailbox owner may see it
+   */
+  private toMailView(owner: IUser, mail: IMail): IMail {
+    if (mail.bcc === undefined || sameUser(mail.from, owner)) {
+      return mail;
+    }
+    const view = { ...mail };
+    delete view.bcc;
+    return view;
+  }
+
+  /**
+   * @description Shape an event for the mailbox owner: the mail and the
+   * changed fields follow the rule of `toMailView`
+   * @param owner - Owner of the mailbox
+   * @param event - Published event
+   * @returns {IMailEvent} Event as the mailbox owner may see it
+   */
+  private toMailEventView(owner: IUser, event: IMailEvent): IMailEvent {
+    if (!event.mail) {
+      return event;
+    }
+    const view: IMailEvent = {
+      ...event,
+      mail: this.toMailView(owner, event.mail),
+    };
+    if (event.changes?.bcc !== undefined && view.mail!.bcc === undefined) {
+      view.changes = { ...event.changes };
+      delete view.changes.bcc;
+    }
+    return view;
+  }
+
+  /**
+   * @description Compile a search query, syntax errors become a 400 pointing
+   * at the bad token
+   * @param q - Raw search query
+   * @returns {ICompiledMailQuery} Compiled query
+   */
+  private compileSearchQuery(q: string): ICompiledMailQuery {
+    let compiledQuery: ICompiledMailQuery;
+    try {
+      compiledQuery = compileMailQuery(typeof q === 'string' ? q : '');
+    } catch (error) {
+      if (error instanceof MailQuerySyntaxError) {
+        throw new BadRequestException({
+          statusCode: 400,
+          error: 'Bad Request',
+          message: error.message,
+          token: error.token,
+          position: error.position,
+        });
+      }
+      this.logger.error(`Error parsing search query: ${error}`);
+      throw new InternalServerErrorException('Error parsing search query');
+    }
+
+    if (compiledQuery.clauses.length === 0) {
+      throw new BadRequestException('Invalid search query');
+    }
+    return compiledQuery;
+  }
+
+  /**
+   * @description Build the predicate matching the filters of a list query
+   * @param query - Query holding the optional filters
+   * @returns Predicate keeping the mails matching every filter
+   */
+  private buildFilter(query: GetMailsQueryDto): (mail: IMail) => boolean {
+    const predicates: Array<(mail: IMail) => boolean> = [];
+
+    try {
+      if (query.folder !== undefined) {
+        const folder = query.folder as MailFolder;
+        if (!Object.values(MailFolder).includes(folder)) {
+          throw new Error(`Invalid folder parameter: ${query.folder}`);
+        }
+        predicates.push((mail) => folderOf(mail) === folder);
+      } else {
+        predicates.push(isListedByDefault);
+      }
+
+      if (query.label !== undefined) {
+        const labelId = parseInt(query.label, 10);
+        if (isNaN(labelId)) {
+          throw new Error(`Invalid label parameter: ${query.label}`);
+        }
+        predicates.push((mail) => !!mail.labelIds?.includes(labelId));
+      }
+
+      if (query.unread !== undefined) {
+        if (query.unread !== 'true' && query.unread !== 'false') {
+          throw new Error(`Invalid unread parameter: ${query.unread}`);
+        }
+        const unread = query.unread === 'true';
+        predicates.push((mail) => (mail.unread === true) === unread);
+      }
+
+      if (query.hasAttachments !== undefined) {
+        if (
+          query.hasAttachments !== 'true' &&
+          query.hasAttachments !== 'false'
+        ) {
+          throw new Error(
+            `Invalid hasAttachments parameter: ${query.hasAttachments}`,
+          );
+        }
+        const hasAttachments = query.hasAttachments === 'true';
+        predicates.push(
+          (mail) => (mail.attachments?.length ?? 0) > 0 === hasAttachments,
+        );
+      }
+
+      if (query.from !== undefined) {
+        const from = query.from.trim().toLowerCase();
+        predicates.push(
+          (mail) =>
+            mail.from.email.toLowerCase().includes(from) ||
+            mail.from.name.toLowerCase().includes(from),
+        );
+      }
+
+      if (query.to !== undefined) {
+        const to = query.to.trim().toLowerCase();
+        predicates.push((mail) =>
+          [...(mail.to ?? []), ...(mail.cc ?? []), ...(mail.bcc ?? [])].some(
+            (recipient) =>
+              recipient.email.toLowerCase().includes(to) ||
+              recipient.name.toLowerCase().includes(to),
+          ),
+        );
+      }
+
+      const after = this.parseDateFilter('after', query.after);
+      const before = this.parseDateFilter('before', query.before);
+      if (after !== undefined && before !== undefined && after >= before) {
+        throw new Error('after must be earlier than before');
+      }
+      if (after !== undefined) {
+        predicates.push((mail) => new Date(mail.date).getTime() >= after);
+      }
+      if (before !== undefined) {
+        predicates.push((mail) => new Date(mail.date).getTime() < before);
+      }
+    } catch (error) {
+      this.logger.error(`Error parsing filters: ${error}`);
+      throw new BadRequestException('Invalid filters');
+    }
+
+    return (mail) => predicates.every((predicate) => predicate(mail));
+  }
+
+  /**
+   * @description Read the sort of a list query
+   * @param query - Query holding the optional sort and order
+   * @returns Sort field and order, undefined when the storage order is kept
+   */
+  private parseSort(
+    query: GetMailsQueryDto,
+  ): { sort: MailSortField; order: SortOrder } | undefined {
+    if (query.sort === undefined && query.order === undefined) {
+      return undefined;
+    }
+
+    try {
+      const sort = (query.sort ?? MailSortField.DATE) as MailSortField;
+      if (!Object.values(MailSortField).includes(sort)) {
+        throw new Error(`Invalid sort parameter: ${query.sort}`);
+      }
+
+      const order = (query.order ?? DEFAULT_SORT_ORDERS[sort]) as SortOrder;
+      if (!Object.values(SortOrder).includes(order)) {
+        throw new Error(`Invalid order parameter: ${query.order}`);
+      }
+
+      return { sort, order };
+    } catch (error) {
+      this.logger.error(`Error parsing sort, order: ${error}`);
+      throw new BadRequestException('Invalid sort, order');
+    }
+  }
+
+  /**
+   * @description Build the comparator for a sort field, ties are broken on id
+   * @param sort - Sort field
+   * @param order - Sort order, also applied to the id tie-breaker
+   * @returns Comparator usable with Array.prototype.sort
+   */
+  private buildComparator(
+    sort: MailSortField,
+    order: SortOrder,
+  ): (a: IMail, b: IMail) => number {
+    const compareField = SORT_COMPARATORS[sort];
+    const direction = order === SortOrder.ASC ? 1 : -1;
+    return (a, b) =>
+      direction * (compareField(a, b) || (a.id ?? 0) - (b.id ?? 0));
+  }
+
+  /**
+   * @description Read the keyset cursor of a list query
+   * @param query - Query holding the optional cursor
+   * @returns Decoded cursor, undefined in take/skip mode
+   */
+  private parseCursor(query: GetMailsQueryDto): IMailCursor | undefined {
+    if (query.cursor === undefined) {
+      return undefined;
+    }
+
+    try {
+      if (query.skip !== undefined) {
+        throw new Error('skip cannot be combined with cursor');
+      }
+      if (
+        query.sort !== undefined &&
+        (query.sort as MailSortField) !== MailSortField.DATE
+      ) {
+        throw new Error(`cursor requires sort=date, got: ${query.sort}`);
+      }
+
+      const cursor = decodeMailCursor(query.cursor);
+      if (
+        cursor.date === undefined &&
+        (query.sort !== undefined || query.order !== undefined)
+      ) {
+        throw new Error('a storage order cursor cannot be sorted');
+      }
+      if (
+        query.order !== undefined &&
+        (query.order as SortOrder) !== cursor.order
+      ) {
+        throw new Error(`order ${query.order} does not match the cursor`);
+      }
+      return cursor;
+    } catch (error) {
+      this.logger.error(`Error parsing cursor: ${error}`);
+      throw new BadRequestException('Invalid cursor');
+    }
+  }
+
+  private parseChangeToken(value?: string): IMailChangeToken | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    try {
+      return decodeMailChangeToken(value);
+    } catch (error) {
+      this.logger.error(`Error parsing change token: ${error}`);
+      throw new BadRequestException('Invalid change token');
+    }
+  }
+
+  private parseDateFilter(name: string, value?: string): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const time = new Date(value).getTime();
+    if (isNaN(time)) {
+      throw new Error(`Invalid ${name} parameter: ${value}`);
+    }
+    return time;
+  }
 }
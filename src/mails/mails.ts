@@ -1,9 +1,12 @@
 import { sub } from 'date-fns';
 import { IMail } from './interfaces/mail.interface';
+import { mailboxOwner } from './mailbox-owner';
+import { MailFolder } from './interfaces/mail-folder.enum';
 
 export const mails: IMail[] = [
   {
     id: 1,
+    ownerId: 1,
     from: {
       name: 'Alex Smith',
       email: 'alex.smith@example.com',
@@ -11,6 +14,11 @@ export const mails: IMail[] = [
         src: 'https://i.pravatar.cc/128?u=1',
       },
     },
+    to: [
+      mailboxOwner,
+      { name: 'Jordan Brown', email: 'jordan.brown@example.com' },
+    ],
+    cc: [{ name: 'Taylor Green', email: 'taylor.green@example.com' }],
     subject: 'Meeting Schedule: Q1 Marketing Strategy Review',
     body: `Dear Team,
 
@@ -29,9 +37,12 @@ Alex Smith
 Senior Marketing Director
 Tel: (555) 123-4567`,
     date: new Date().toISOString(),
+    messageId: '<seed-1@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 2,
+    ownerId: 1,
     unread: true,
     from: {
       name: 'Jordan Brown',
@@ -40,6 +51,8 @@ Tel: (555) 123-4567`,
         src: 'https://i.pravatar.cc/128?u=2',
       },
     },
+    to: [mailboxOwner, { name: 'Alex Smith', email: 'alex.smith@example.com' }],
+    cc: [{ name: 'Morgan White', email: 'morgan.white@example.com' }],
     subject: 'RE: Project Phoenix - Sprint 3 Update',
     body: `Hi team,
 
@@ -64,9 +77,15 @@ Jordan Brown
 Lead Developer | Tech Solutions
 Mobile: +1 (555) 234-5678`,
     date: sub(new Date(), { minutes: 7 }).toISOString(),
+    messageId: '<seed-2@example.com>',
+    folder: MailFolder.INBOX,
+    labelIds: [1],
+    inReplyTo: '<phoenix-sprint-3@example.com>',
+    references: ['<phoenix-sprint-3@example.com>'],
   },
   {
     id: 3,
+    ownerId: 1,
     unread: true,
     from: {
       name: 'Taylor Green',
@@ -75,6 +94,7 @@ Mobile: +1 (555) 234-5678`,
         src: 'https://i.pravatar.cc/128?u=3',
       },
     },
+    to: [mailboxOwner],
     subject: 'Lunch Plans',
     body: `Hi there!
 
@@ -87,9 +107,12 @@ Let me know what you think!
 Best,
 Taylor`,
     date: sub(new Date(), { hours: 3 }).toISOString(),
+    messageId: '<seed-3@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 4,
+    ownerId: 1,
     from: {
       name: 'Morgan White',
       email: 'morgan.white@example.com',
@@ -97,6 +120,8 @@ Taylor`,
         src: 'https://i.pravatar.cc/128?u=4',
       },
     },
+    to: [mailboxOwner],
+    cc: [{ name: 'Jamie Johnson', email: 'jamie.johnson@example.com' }],
     subject: 'New Proposal: Project Horizon',
     body: `Hi team,
 
@@ -118,13 +143,17 @@ Morgan White
 Senior Project Manager
 Tel: (555) 234-5678`,
     date: sub(new Date(), { days: 1 }).toISOString(),
+    messageId: '<seed-4@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 5,
+    ownerId: 1,
     from: {
       name: 'Casey Gray',
       email: 'casey.gray@example.com',
     },
+    to: [mailboxOwner],
     subject: 'Updated: San Francisco Conference Trip Itinerary',
     body: `Dear [Name],
 
@@ -154,13 +183,18 @@ Casey Gray
 Travel Coordinator
 Office: (555) 345-6789`,
     date: sub(new Date(), { days: 1 }).toISOString(),
+    messageId: '<seed-5@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 6,
+    ownerId: 1,
     from: {
       name: 'Jamie Johnson',
       email: 'jamie.johnson@example.com',
     },
+    to: [{ name: 'Leadership Team', email: 'leadership@example.com' }],
+    cc: [mailboxOwner, { name: 'Alex Smith', email: 'alex.smith@example.com' }],
     subject: 'Q1 2024 Financial Performance Review',
     body: `Dear Leadership Team,
 
@@ -183,9 +217,13 @@ Jamie Johnson
 Chief Financial Officer
 Ext: 4567`,
     date: sub(new Date(), { days: 2 }).toISOString(),
+    messageId: '<seed-6@example.com>',
+    folder: MailFolder.INBOX,
+    labelIds: [2],
   },
   {
     id: 7,
+    ownerId: 1,
     from: {
       name: 'Riley Davis',
       email: 'riley.davis@example.com',
@@ -193,6 +231,13 @@ Ext: 4567`,
         src: 'https://i.pravatar.cc/128?u=7',
       },
     },
+    to: [
+      { name: 'Development Team', email: 'dev-team@example.com' },
+      mailboxOwner,
+    ],
+    replyTo: [
+      { name: 'DevOps Training', email: 'devops-training@example.com' },
+    ],
     subject: '[Mandatory] New DevOps Tools Training Session',
     body: `Hello Development Team,
 
@@ -222,9 +267,12 @@ DevOps Lead
 Technical Operations
 M: (555) 777-8888`,
     date: sub(new Date(), { days: 2 }).toISOString(),
+    messageId: '<seed-7@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 8,
+    ownerId: 1,
     unread: true,
     from: {
       name: 'Kelly Wilson',
@@ -233,6 +281,7 @@ M: (555) 777-8888`,
         src: 'https://i.pravatar.cc/128?u=8',
       },
     },
+    to: [mailboxOwner],
     subject: '🎉 Happy Birthday!',
     body: `Dear [Name],
 
@@ -253,13 +302,18 @@ HR Director
 Human Resources Department
 Tel: (555) 999-0000`,
     date: sub(new Date(), { days: 2 }).toISOString(),
+    messageId: '<seed-8@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 9,
+    ownerId: 1,
     from: {
       name: 'Drew Moore',
       email: 'drew.moore@example.com',
     },
+    to: [mailboxOwner],
+    cc: [{ name: 'Alex Smith', email: 'alex.smith@example.com' }],
     subject: 'Website Redesign Feedback Request - Phase 2',
     body: `Hi there,
 
@@ -289,13 +343,18 @@ Drew Moore
 UX Design Lead
 Product Design Team`,
     date: sub(new Date(), { days: 5 }).toISOString(),
+    messageId: '<seed-9@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 10,
+    ownerId: 1,
     from: {
       name: 'Jordan Taylor',
       email: 'jordan.taylor@example.com',
     },
+    to: [mailboxOwner],
+    replyTo: [{ name: 'Wellness Program', email: 'wellness@example.com' }],
     subject: 'Corporate Wellness Program - Membership Renewal',
     body: `Dear Valued Member,
 
@@ -323,14 +382,19 @@ Corporate Wellness Coordinator
 Downtown Fitness Center
 Tel: (555) 123-7890`,
     date: sub(new Date(), { days: 5 }).toISOString(),
+    messageId: '<seed-10@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 11,
+    ownerId: 1,
     unread: true,
     from: {
       name: 'Morgan Anderson',
       email: 'morgan.anderson@example.com',
     },
+    to: [mailboxOwner],
+    replyTo: [{ name: 'Benefits Team', email: 'benefits@example.com' }],
     subject: 'Important: Updates to Your Corporate Insurance Policy',
     body: `Dear [Employee Name],
 
@@ -362,13 +426,18 @@ Morgan Anderson
 Benefits Coordinator
 HR Department`,
     date: sub(new Date(), { days: 12 }).toISOString(),
+    messageId: '<seed-11@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 12,
+    ownerId: 1,
     from: {
       name: 'Casey Thomas',
       email: 'casey.thomas@example.com',
     },
+    to: [{ name: 'Book Club', email: 'book-club@example.com' }],
+    bcc: [mailboxOwner],
     subject: '📚 March Book Club Meeting: "The Great Gatsby"',
     body: `Hello Book Lovers!
 
@@ -398,13 +467,17 @@ Casey Thomas
 Book Club Coordinator
 Internal Culture Committee`,
     date: sub(new Date(), { months: 1 }).toISOString(),
+    messageId: '<seed-12@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 13,
+    ownerId: 1,
     from: {
       name: 'Jamie Jackson',
       email: 'jamie.jackson@example.com',
     },
+    to: [mailboxOwner],
     subject: '🍳 Company Cookbook Project - Recipe Submission Reminder',
     body: `Dear Colleagues,
 
@@ -434,13 +507,18 @@ Jamie Jackson
 Community Engagement Committee
 Ext. 5432`,
     date: sub(new Date(), { months: 1 }).toISOString(),
+    messageId: '<seed-13@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 14,
+    ownerId: 1,
     from: {
       name: 'Riley White',
       email: 'riley.white@example.com',
     },
+    to: [mailboxOwner],
+    replyTo: [{ name: 'Wellness Program', email: 'wellness@example.com' }],
     subject: '🧘‍♀️ Updated Corporate Wellness Schedule - Spring 2024',
     body: `Dear Wellness Program Participants,
 
@@ -470,13 +548,18 @@ Riley White
 Corporate Wellness Instructor
 Wellness & Benefits Team`,
     date: sub(new Date(), { months: 1 }).toISOString(),
+    messageId: '<seed-14@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 15,
+    ownerId: 1,
     from: {
       name: 'Kelly Harris',
       email: 'kelly.harris@example.com',
     },
+    to: [{ name: 'Book Lovers', email: 'book-lovers@example.com' }],
+    bcc: [mailboxOwner],
     subject: '📚 Book Launch Event: "Digital Transformation in the Modern Age"',
     body: `Dear [Name],
 
@@ -507,13 +590,23 @@ Kelly Harris
 Digital Strategy Consultant
 Author, "Digital Transformation in the Modern Age"`,
     date: sub(new Date(), { months: 1 }).toISOString(),
+    messageId: '<seed-15@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 16,
+    ownerId: 1,
     from: {
       name: 'Drew Martin',
       email: 'drew.martin@example.com',
     },
+    to: [mailboxOwner],
+    replyTo: [
+      {
+        name: 'TechCon Registration',
+        email: 'registration@techcon.example.com',
+      },
+    ],
     subject: '🚀 TechCon 2024: Early Bird Registration Now Open',
     body: `Dear Tech Enthusiasts,
 
@@ -546,13 +639,17 @@ Drew Martin
 Conference Director
 TechCon 2024`,
     date: sub(new Date(), { months: 1, days: 4 }).toISOString(),
+    messageId: '<seed-16@example.com>',
+    folder: MailFolder.SPAM,
   },
   {
     id: 17,
+    ownerId: 1,
     from: {
       name: 'Alex Thompson',
       email: 'alex.thompson@example.com',
     },
+    to: [mailboxOwner],
     subject: '🎨 Modern Perspectives: Contemporary Art Exhibition',
     body: `Hi there,
 
@@ -582,13 +679,24 @@ Curator
 Metropolitan Art Gallery
 Tel: (555) 234-5678`,
     date: sub(new Date(), { months: 1, days: 15 }).toISOString(),
+    messageId: '<seed-17@example.com>',
+    folder: MailFolder.INBOX,
+    labelIds: [3],
   },
   {
     id: 18,
+    ownerId: 1,
     from: {
       name: 'Jordan Garcia',
       email: 'jordan.garcia@example.com',
     },
+    to: [mailboxOwner],
+    replyTo: [
+      {
+        name: 'Connect & Innovate',
+        email: 'events@connect-innovate.example.com',
+      },
+    ],
     subject: '🤝 Industry Networking Event: "Connect & Innovate 2024"',
     body: `Dear Professional Network,
 
@@ -620,13 +728,19 @@ Jordan Garcia
 Event Coordinator
 Professional Networking Association`,
     date: sub(new Date(), { months: 1, days: 18 }).toISOString(),
+    messageId: '<seed-18@example.com>',
+    folder: MailFolder.INBOX,
+    labelIds: [3],
   },
   {
     id: 19,
+    ownerId: 1,
     from: {
       name: 'Taylor Rodriguez',
       email: 'taylor.rodriguez@example.com',
     },
+    to: [mailboxOwner],
+    cc: [{ name: 'Taylor Green', email: 'taylor.green@example.com' }],
     subject: '🌟 Community Service Day - Volunteer Opportunities',
     body: `Dear Colleagues,
 
@@ -666,13 +780,20 @@ Taylor Rodriguez
 Community Outreach Coordinator
 Corporate Social Responsibility Team`,
     date: sub(new Date(), { months: 1, days: 25 }).toISOString(),
+    messageId: '<seed-19@example.com>',
+    folder: MailFolder.INBOX,
   },
   {
     id: 20,
+    ownerId: 1,
     from: {
       name: 'Morgan Lopez',
       email: 'morgan.lopez@example.com',
     },
+    to: [mailboxOwner],
+    replyTo: [
+      { name: 'Downtown Auto Care', email: 'service@downtownauto.example.com' },
+    ],
     subject: '🚗 Vehicle Maintenance Reminder: 30,000 Mile Service',
     body: `Dear Valued Customer,
 
@@ -705,5 +826,7 @@ Service Coordinator
 Downtown Auto Care
 Emergency: (555) 987-6544`,
     date: sub(new Date(), { months: 2 }).toISOString(),
+    messageId: '<seed-20@example.com>',
+    folder: MailFolder.ARCHIVE,
   },
 ];
@@ -0,0 +1,13 @@
+import { randomUUID } from 'crypto';
+import { IUser } from './interfaces/user.interface';
+
+/**
+ * @description Generate a globally unique RFC 5322 Message-ID on the domain
+ * of the sender
+ * @param sender - Sender of the mail
+ * @returns Message-ID, e.g. `<0b9c…@example.com>`
+ */
+export function createMessageId(sender: IUser): string {
+  const domain = sender.email.split('@')[1];
+  return `<${randomUUID()}@${domain}>`;
+}
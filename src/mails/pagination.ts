@@ -0,0 +1,45 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { PaginationParamsDto } from './dto/pagination-params.dto';
+
+const logger = new Logger('Pagination');
+
+/**
+ * @description Parse the take, skip pagination parameters
+ * @param query - Query holding the optional take and skip
+ * @returns Number of items to get and to skip, 10 and 0 by default
+ */
+export function parseTakeSkip(query: PaginationParamsDto): {
+  take: number;
+  skip: number;
+} {
+  let take = 10;
+  let skip = 0;
+
+  // Handle take, skip to number
+  try {
+    if (query.take !== undefined) {
+      take = parseInt(query.take, 10);
+      if (isNaN(take)) {
+        throw new Error(`Invalid take parameter: ${query.take}`);
+      }
+      if (take <= 0) {
+        throw new Error(`Take must be a positive number (minimum 1): ${take}`);
+      }
+    }
+
+    if (query.skip !== undefined) {
+      skip = parseInt(query.skip, 10);
+      if (isNaN(skip)) {
+        throw new Error(`Invalid skip parameter: ${query.skip}`);
+      }
+      if (skip < 0) {
+        throw new Error(`Skip must be a positive number or zero: ${skip}`);
+      }
+    }
+  } catch (error) {
+    logger.error(`Error parsing take, skip: ${error}`);
+    throw new BadRequestException('Invalid take, skip');
+  }
+
+  return { take, skip };
+}
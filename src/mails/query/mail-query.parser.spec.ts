@@ -0,0 +1,352 @@
+import {
+  compileMailQuery,
+  MailQuerySyntaxError,
+  parseMailQuery,
+} from './mail-query.parser';
+import { IMail } from '../interfaces/mail.interface';
+import { MailFolder } from '../interfaces/mail-folder.enum';
+
+describe('MailQueryParser', () => {
+  const mails: IMail[] = [
+    {
+      id: 1,
+      from: { name: 'Jordan Brown', email: 'jordan.brown@example.com' },
+      to: [{ name: 'Sam Lee', email: 'sam.lee@example.com' }],
+      cc: [{ name: 'Morgan White', email: 'morgan.white@example.com' }],
+      subject: 'RE: Project Phoenix - Sprint 3 Update',
+      body: 'Quick update on Sprint 3 deliverables.',
+      date: '2024-02-01T10:00:00.000Z',
+      unread: true,
+    },
+    {
+      id: 2,
+      from: { name: 'Jordan Brown', email: 'jordan.brown@example.com' },
+      subject: 'Sprint planning',
+      body: 'Sprint 4 starts next week, 3 new stories.',
+      date: '2023-12-15T10:00:00.000Z',
+    },
+    {
+      id: 3,
+      from: { name: 'Alex Smith', email: 'alex.smith@example.com' },
+      bcc: [{ name: 'Sam Lee', email: 'sam.lee@example.com' }],
+      subject: 'Budget review',
+      body: 'Please review the Q1 budget.',
+      date: '2024-03-01T10:00:00.000Z',
+      unread: true,
+      folder: MailFolder.ARCHIVE,
+    },
+  ];
+
+  const catchSyntaxError = (call: () => unknown): MailQuerySyntaxError => {
+    try {
+      call();
+    } catch (error) {
+      return error as MailQuerySyntaxError;
+    }
+    throw new Error('Expected a MailQuerySyntaxError');
+  };
+
+  const matchingIds = (query: string): number[] => {
+    const { predicate } = compileMailQuery(query);
+    return mails.filter(predicate).map((mail) => mail.id!);
+  };
+
+  describe('parseMailQuery', () => {
+    describe('Success scenarios', () => {
+      it('should split terms, phrases and operators with their positions', () => {
+        // PREPARE
+        const query = 'from:jordan "sprint 3" budget';
+
+        // CALL
+        const result = parseMailQuery(query);
+
+        // CONTROL
+        expect(result).toEqual([
+          {
+            kind: 'operator',
+            negated: false,
+            operator: 'from',
+            value: 'jordan',
+            token: 'from:jordan',
+            position: 0,
+          },
+          {
+            kind: 'phrase',
+            negated: false,
+            value: 'sprint 3',
+            token: '"sprint 3"',
+            position: 12,
+          },
+          {
+            kind: 'term',
+            negated: false,
+            value: 'budget',
+            token: 'budget',
+            position: 23,
+          },
+        ]);
+      });
+
+      it('should read quoted operator values and negations', () => {
+        // CALL
+        const result = parseMailQuery('-subject:"sprint planning" -is:read');
+
+        // CONTROL
+        expect(result[0]).toMatchObject({
+          negated: true,
+          operator: 'subject',
+          value: 'sprint planning',
+          token: '-subject:"sprint planning"',
+        });
+        expect(result[1]).toMatchObject({
+          negated: true,
+          operator: 'is',
+          value: 'read',
+        });
+      });
+
+      it('should treat non alphabetic prefixes as plain text', () => {
+        // CALL
+        const result = parseMailQuery('10:30');
+
+        // CONTROL
+        expect(result).toEqual([
+          expect.objectContaining({ kind: 'term', value: '10:30' }),
+        ]);
+      });
+
+      it('should treat unknown operator names as plain text', () => {
+        // CALL
+        const result = parseMailQuery('budget foo:bar -http://example.com');
+
+        // CONTROL
+        expect(result).toEqual([
+          expect.objectContaining({ kind: 'term', value: 'budget' }),
+          expect.objectContaining({
+            kind: 'term',
+            value: 'foo:bar',
+            token: 'foo:bar',
+            position: 7,
+          }),
+          expect.objectContaining({
+            kind: 'term',
+            negated: true,
+            value: 'http://example.com',
+            token: '-http://example.com',
+          }),
+        ]);
+      });
+
+      it('should drop terms and phrases without any word', () => {
+        // CALL
+        const result = parseMailQuery('budget !!! -... "?!"');
+
+        // CONTROL
+        expect(result).toEqual([
+          expect.objectContaining({ kind: 'term', value: 'budget' }),
+        ]);
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should not read names inherited from the object prototype as operators', () => {
+        // CALL
+        const results = ['constructor:x', 'toString:x', 'hasOwnProperty:x'].map(
+          (query) => compileMailQuery(query),
+        );
+
+        // CONTROL
+        results.forEach((result) => {
+          expect(result.clauses).toEqual([
+            expect.objectContaining({ kind: 'term' }),
+          ]);
+          expect(() => result.predicate(mails[0])).not.toThrow();
+        });
+      });
+
+      it('should not read __proto__: as an operator', () => {
+        // CALL
+        const result = compileMailQuery('__proto__:x');
+
+        // CONTROL
+        expect(result.clauses).toEqual([
+          expect.objectContaining({ kind: 'term', value: '__proto__:x' }),
+        ]);
+        expect(() => result.predicate(mails[0])).not.toThrow();
+      });
+
+      it('should point at an unterminated quote', () => {
+        // CALL
+        const call = () => parseMailQuery('from:alex "sprint 3');
+
+        // CONTROL
+        expect(call).toThrow('Unterminated quote');
+        expect(catchSyntaxError(call)).toMatchObject({
+          token: '"sprint 3',
+          position: 10,
+        });
+      });
+
+      it('should reject an operator without value', () => {
+        // CALL
+        const call = () => parseMailQuery('from: jordan');
+
+        // CONTROL
+        expect(call).toThrow('Missing value for from:');
+      });
+    });
+  });
+
+  describe('compileMailQuery', () => {
+    describe('Success scenarios', () => {
+      it('should combine every clause with AND', () => {
+        // CALL
+        const result = matchingIds(
+          'from:jordan is:unread after:2024-01-01 "sprint 3"',
+        );
+
+        // CONTROL
+        expect(result).toEqual([1]);
+      });
+
+      it('should match phrases as consecutive words only', () => {
+        // CALL
+        const result = matchingIds('"sprint 3"');
+
+        // CONTROL
+        // Mail 2 contains "sprint" and "3" but not next to each other
+        expect(result).toEqual([1]);
+      });
+
+      it('should match free text terms as prefixes in any field', () => {
+        // CALL
+        const bySender = matchingIds('smith');
+        const byPrefix = matchingIds('deliver');
+
+        // CONTROL
+        expect(bySender).toEqual([3]);
+        expect(byPrefix).toEqual([1]);
+      });
+
+      it('should filter on read state, subject and date range', () => {
+        // CALL
+        const read = matchingIds('is:read');
+        const subject = matchingIds('subject:phoenix');
+        const range = matchingIds('after:2024/01/01 before:2024-03-01');
+
+        // CONTROL
+        expect(read).toEqual([2]);
+        expect(subject).toEqual([1]);
+        expect(range).toEqual([1]);
+      });
+
+      it('should filter on folders, mails without folder being in the inbox', () => {
+        // CALL
+        const inbox = matchingIds('in:inbox');
+        const archive = matchingIds('in:Archive');
+        const anywhere = matchingIds('in:anywhere');
+
+        // CONTROL
+        expect(inbox).toEqual([1, 2]);
+        expect(archive).toEqual([3]);
+        expect(anywhere).toEqual([1, 2, 3]);
+      });
+
+      it('should filter on recipients', () => {
+        // CALL
+        const to = matchingIds('to:sam.lee');
+        const cc = matchingIds('cc:morgan');
+        const bcc = matchingIds('bcc:"sam lee"');
+        const freeText = matchingIds('morgan');
+
+        // CONTROL
+        // to: matches to, cc and bcc
+        expect(to).toEqual([1, 3]);
+        expect(cc).toEqual([1]);
+        expect(bcc).toEqual([3]);
+        expect(freeText).toEqual([1]);
+      });
+
+      it('should exclude negated clauses', () => {
+        // CALL
+        const result = matchingIds('sprint -from:jordan.brown@example.com');
+        const notUnread = matchingIds('-is:unread');
+
+        // CONTROL
+        expect(result).toEqual([]);
+        expect(notUnread).toEqual([2]);
+      });
+
+      it('should not match every mail with a punctuation only term', () => {
+        // CALL
+        const result = matchingIds('budget ???');
+
+        // CONTROL
+        expect(result).toEqual([3]);
+      });
+
+      it('should match URLs as text', () => {
+        // CALL
+        const result = matchingIds('http://example.com');
+
+        // CONTROL
+        expect(result).toEqual([]);
+      });
+
+      it('should expose the positive words for ranking', () => {
+        // CALL
+        const result = compileMailQuery(
+          'from:jordan Sprint "sprint 3" -budget',
+        );
+
+        // CONTROL
+        expect(result.terms).toEqual(['sprint', '3']);
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should point at an invalid date', () => {
+        // CALL
+        const call = () => compileMailQuery('sprint after:yesterday');
+
+        // CONTROL
+        expect(call).toThrow(MailQuerySyntaxError);
+        expect(catchSyntaxError(call)).toMatchObject({
+          token: 'after:yesterday',
+          position: 7,
+        });
+      });
+
+      it('should point at an unknown folder', () => {
+        // CALL
+        const call = () => compileMailQuery('budget in:starred');
+
+        // CONTROL
+        expect(call).toThrow('Unknown folder "starred" for in:');
+        expect(catchSyntaxError(call)).toMatchObject({
+          token: 'in:starred',
+          position: 7,
+        });
+      });
+
+      it('should point at an unknown is: value', () => {
+        // CALL
+        const call = () => compileMailQuery('is:starred');
+
+        // CONTROL
+        expect(call).toThrow('Unknown value "starred" for is:');
+      });
+    });
+
+    describe('Edge cases', () => {
+      it('should match every mail for an empty query', () => {
+        // CALL
+        const result = compileMailQuery('   ');
+
+        // CONTROL
+        expect(result.clauses).toEqual([]);
+        expect(mails.filter(result.predicate)).toHaveLength(3);
+      });
+    });
+  });
+});
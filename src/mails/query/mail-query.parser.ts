@@ -0,0 +1,307 @@
+import {
+  ICompiledMailQuery,
+  IMailQueryClause,
+  MailQueryClauseKind,
+} from '../interfaces/mail-query.interface';
+import { IMail } from '../interfaces/mail.interface';
+import { IUser } from '../interfaces/user.interface';
+import { MailFolder } from '../interfaces/mail-folder.enum';
+import { folderOf } from '../mail-folders';
+import {
+  matchTerm,
+  normalizeToken,
+  tokenize,
+} from '../search/mail-search.tokenizer';
+
+type MailPredicate = (mail: IMail) => boolean;
+
+/**
+ * @description Error raised for an invalid query, pointing at the bad token
+ */
+export class MailQuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly token: string,
+    readonly position: number,
+  ) {
+    super(message);
+    this.name = MailQuerySyntaxError.name;
+  }
+}
+
+const DATE_PATTERN = /^\d{4}[-/]\d{2}[-/]\d{2}$/;
+
+function parseDate(clause: IMailQueryClause): number {
+  const value = DATE_PATTERN.test(clause.value)
+    ? `${clause.value.replace(/\//g, '-')}T00:00:00.000Z`
+    : clause.value;
+  const time = new Date(value).getTime();
+  if (isNaN(time)) {
+    throw new MailQuerySyntaxError(
+      `Invalid date "${clause.value}" for ${clause.operator}: (expected YYYY-MM-DD)`,
+      clause.token,
+      clause.position,
+    );
+  }
+  return time;
+}
+
+function includesText(haystack: string, needle: string): boolean {
+  return normalizeToken(haystack).includes(normalizeToken(needle));
+}
+
+function includesUser(users: IUser[] | undefined, value: string): boolean {
+  return (users ?? []).some(
+    (user) => includesText(user.email, value) || includesText(user.name, value),
+  );
+}
+
+/**
+ * Compilers of each supported operator, `from:jordan` becomes
+ * `OPERATORS.from(clause)` applied to every mail. `to:` matches any recipient,
+ * `in:anywhere` matches every folder.
+ */
+const OPERATORS: Record<string, (clause: IMailQueryClause) => MailPredicate> = {
+  from: ({ value }) => {
+    return (mail) => includesUser([mail.from], value);
+  },
+  to: ({ value }) => {
+    return (mail) =>
+      includesUser(mail.to, value) ||
+      includesUser(mail.cc, value) ||
+      includesUser(mail.bcc, value);
+  },
+  cc: ({ value }) => {
+    return (mail) => includesUser(mail.cc, value);
+  },
+  bcc: ({ value }) => {
+    return (mail) => includesUser(mail.bcc, value);
+  },
+  subject: ({ value }) => {
+    return (mail) => includesText(mail.subject, value);
+  },
+  is: (clause) => {
+    switch (clause.value.toLowerCase()) {
+      case 'unread':
+        return (mail) => mail.unread === true;
+      case 'read':
+        return (mail) => mail.unread !== true;
+      default:
+        throw new MailQuerySyntaxError(
+          `Unknown value "${clause.value}" for is: (expected unread or read)`,
+          clause.token,
+          clause.position,
+        );
+    }
+  },
+  in: (clause) => {
+    const value = clause.value.toLowerCase();
+    if (value === 'anywhere') {
+      return () => true;
+    }
+    if (!Object.values(MailFolder).includes(value as MailFolder)) {
+      throw new MailQuerySyntaxError(
+        `Unknown folder "${clause.value}" for in: (expected one of ${[
+          ...Object.values(MailFolder),
+          'anywhere',
+        ].join(', ')})`,
+        clause.token,
+        clause.position,
+      );
+    }
+    return (mail) => folderOf(mail) === (value as MailFolder);
+  },
+  after: (clause) => {
+    const time = parseDate(clause);
+    return (mail) => new Date(mail.date).getTime() >= time;
+  },
+  before: (clause) => {
+    const time = parseDate(clause);
+    return (mail) => new Date(mail.date).getTime() < time;
+  },
+};
+
+/** Fields searched by free text terms and phrases */
+function searchableFields(mail: IMail): string[] {
+  return [
+    mail.subject,
+    mail.body,
+    mail.from.name,
+    mail.from.email,
+    ...[...(mail.to ?? []), ...(mail.cc ?? [])].flatMap((user) => [
+      user.name,
+      user.email,
+    ]),
+  ];
+}
+
+function compileTerm({ value }: IMailQueryClause): MailPredicate {
+  const terms = tokenize(value);
+  return (mail) =>
+    terms.every((term) =>
+      searchableFields(mail).some((field) =>
+        tokenize(field).some((token) => matchTerm(token, term) > 0),
+      ),
+    );
+}
+
+function compilePhrase({ value }: IMailQueryClause): MailPredicate {
+  const phrase = tokenize(value);
+  return (mail) =>
+    searchableFields(mail).some((field) => {
+      const tokens = tokenize(field);
+      for (let start = 0; start + phrase.length <= tokens.length; start++) {
+        if (phrase.every((term, i) => tokens[start + i] === term)) {
+          return true;
+        }
+      }
+      return false;
+    });
+}
+
+/**
+ * @description Split a query into clauses. Supported syntax:
+ * - `word` free text, matched as a prefix
+ * - `"some words"` exact phrase
+ * - `operator:value` or `operator:"some value"`, any other `name:` is text
+ * - `-` before any clause to negate it
+ * Terms and phrases without any word are dropped.
+ * @param input - Raw query
+ * @returns {IMailQueryClause[]} Clauses in order of appearance
+ * @throws MailQuerySyntaxError on unterminated quotes or missing values
+ */
+export function parseMailQuery(input: string): IMailQueryClause[] {
+  const clauses: IMailQueryClause[] = [];
+  let index = 0;
+
+  const readQuoted = (start: number): string => {
+    const end = input.indexOf('"', index + 1);
+    if (end === -1) {
+      throw new MailQuerySyntaxError(
+        'Unterminated quote',
+        input.slice(start),
+        start,
+      );
+    }
+    const value = input.slice(index + 1, end);
+    index = end + 1;
+    return value;
+  };
+
+  const readWord = (): string => {
+    const start = index;
+    while (index < input.length && !/\s/.test(input[index])) {
+      index++;
+    }
+    return input.slice(start, index);
+  };
+
+  // Words without letters nor digits, like `!!!`, would match every mail
+  const pushText = (
+    kind: Exclude<MailQueryClauseKind, 'operator'>,
+    negated: boolean,
+    value: string,
+    position: number,
+  ): void => {
+    if (tokenize(value).length === 0) {
+      return;
+    }
+    clauses.push({
+      kind,
+      negated,
+      value,
+      token: input.slice(position, index),
+      position,
+    });
+  };
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const position = index;
+    const negated =
+      input[index] === '-' &&
+      index + 1 < input.length &&
+      !/\s/.test(input[index + 1]);
+    if (negated) {
+      index++;
+    }
+
+    if (input[index] === '"') {
+      const value = readQuoted(position);
+      pushText('phrase', negated, value, position);
+      continue;
+    }
+
+    // Only known operator names are operators, `http://example.com` is text
+    const operatorMatch = /^([a-z]+):/i.exec(input.slice(index));
+    const operator = operatorMatch?.[1].toLowerCase();
+    if (!operatorMatch || !operator || !Object.hasOwn(OPERATORS, operator)) {
+      const value = readWord();
+      pushText('term', negated, value, position);
+      continue;
+    }
+
+    index += operatorMatch[0].length;
+    const value = input[index] === '"' ? readQuoted(position) : readWord();
+    const token = input.slice(position, index);
+
+    if (value.trim() === '') {
+      throw new MailQuerySyntaxError(
+        `Missing value for ${operator}:`,
+        token,
+        position,
+      );
+    }
+
+    clauses.push({
+      kind: 'operator',
+      negated,
+      operator,
+      value,
+      token,
+      position,
+    });
+  }
+
+  return clauses;
+}
+
+/**
+ * @description Compile a query into a predicate over mails. Every clause
+ * must match (implicit AND), negated clauses must not match.
+ * @param input - Raw query, e.g. `from:jordan is:unread after:2024-01-01 "sprint 3"`
+ * @returns {ICompiledMailQuery} Clauses, ranking terms and predicate
+ * @throws MailQuerySyntaxError when the query is invalid
+ */
+export function compileMailQuery(input: string): ICompiledMailQuery {
+  const clauses = parseMailQuery(input);
+
+  const predicates = clauses.map((clause) => {
+    let predicate: MailPredicate;
+    switch (clause.kind) {
+      case 'phrase':
+        predicate = compilePhrase(clause);
+        break;
+      case 'operator':
+        predicate = OPERATORS[clause.operator!](clause);
+        break;
+      default:
+        predicate = compileTerm(clause);
+    }
+    return clause.negated ? (mail: IMail) => !predicate(mail) : predicate;
+  });
+
+  const terms = clauses
+    .filter((clause) => clause.kind !== 'operator' && !clause.negated)
+    .flatMap((clause) => tokenize(clause.value));
+
+  return {
+    clauses,
+    terms: [...new Set(terms)],
+    predicate: (mail) => predicates.every((predicate) => predicate(mail)),
+  };
+}
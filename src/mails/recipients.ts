@@ -0,0 +1,38 @@
+import { IUser } from './interfaces/user.interface';
+import { MailRecipientDto } from './dto/create-mail.dto';
+
+/**
+ * @description Whether two users share an address, emails are compared
+ * case insensitively
+ */
+export function sameUser(a: IUser, b: IUser): boolean {
+  return a.email.toLowerCase() === b.email.toLowerCase();
+}
+
+/**
+ * @description Drop the duplicated addresses of a recipient list, keeping
+ * only the name and email of each user
+ * @param users - Recipients, possibly duplicated
+ * @returns Recipients in order of first appearance
+ */
+export function uniqueUsers(users: IUser[]): IUser[] {
+  return users
+    .filter(
+      (user, index) =>
+        users.findIndex((other) => sameUser(other, user)) === index,
+    )
+    .map((user) => ({ name: user.name, email: user.email.toLowerCase() }));
+}
+
+/**
+ * @description Convert validated recipients to users, the name defaults to
+ * the email
+ * @param recipients - Recipients of a request
+ * @returns {IUser[]} Users with a lowercased email
+ */
+export function toUsers(recipients: MailRecipientDto[]): IUser[] {
+  return recipients.map((recipient) => ({
+    name: recipient.name?.trim() || recipient.email,
+    email: recipient.email.toLowerCase(),
+  }));
+}
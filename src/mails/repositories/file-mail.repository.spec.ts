@@ -0,0 +1,97 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileMailRepository } from './file-mail.repository';
+import { IMail } from '../interfaces/mail.interface';
+
+describe('FileMailRepository', () => {
+  let directory: string;
+  let filePath: string;
+  const seed: IMail[] = [
+    {
+      id: 1,
+      from: { name: 'Test User 1', email: 'test1@example.com' },
+      subject: 'Test Subject 1',
+      body: 'Test Body 1',
+      date: '2024-01-01T00:00:00.000Z',
+    },
+  ];
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'mails-'));
+    filePath = join(directory, 'nested', 'mails.json');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should create the file from the seed when it does not exist', () => {
+    // CALL
+    const repository = new FileMailRepository(filePath, seed);
+
+    // CONTROL
+    expect(existsSync(filePath)).toBe(true);
+    expect(repository.count()).toBe(1);
+    expect(JSON.parse(readFileSync(filePath, 'utf8'))).toEqual(seed);
+  });
+
+  it('should persist mutations across instances', () => {
+    // PREPARE
+    const repository = new FileMailRepository(filePath, seed);
+
+    // CALL
+    const created = repository.create({ ...seed[0], subject: 'Persisted' });
+    repository.update(1, { unread: true });
+    const reloaded = new FileMailRepository(filePath, []);
+
+    // CONTROL
+    expect(reloaded.count()).toBe(2);
+    expect(reloaded.findById(created.id!)?.subject).toBe('Persisted');
+    expect(reloaded.findById(1)).toHaveProperty('unread', true);
+  });
+
+  it('should persist the change log across instances', () => {
+    // PREPARE
+    const repository = new FileMailRepository(filePath, [
+      { ...seed[0], ownerId: 1 },
+    ]);
+    const created = repository.create({ ...seed[0], ownerId: 1 });
+    repository.update(1, { unread: true });
+    repository.delete(created.id!);
+
+    // CALL
+    const reloaded = new FileMailRepository(filePath, []);
+    reloaded.update(1, { unread: false });
+
+    // CONTROL
+    expect(reloaded.getChangeLogId()).toBe(repository.getChangeLogId());
+    expect(reloaded.getLastChangeId(1)).toBe(4);
+    expect(reloaded.findChangesSince(1, 0)).toEqual([
+      {
+        mailId: created.id,
+        ownerId: 1,
+        createdChangeId: 1,
+        changeId: 3,
+        deleted: true,
+      },
+      { mailId: 1, ownerId: 1, createdChangeId: 0, changeId: 4 },
+    ]);
+    expect(existsSync(join(directory, 'nested', 'mails.changes.json'))).toBe(
+      true,
+    );
+  });
+
+  it('should continue the id sequence after a reload', () => {
+    // PREPARE
+    new FileMailRepository(filePath, seed).create(seed[0]);
+    const repository = new FileMailRepository(filePath, []);
+
+    // CALL
+    const created = repository.create(seed[0]);
+
+    // CONTROL
+    expect(created.id).toBe(3);
+    expect(repository.count()).toBe(3);
+  });
+});
@@ -0,0 +1,93 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, parse } from 'path';
+import { IMail } from '../interfaces/mail.interface';
+import { IMailChange } from '../interfaces/mail-change.interface';
+import { InMemoryMailRepository } from './in-memory-mail.repository';
+
+/** Content of the change log file */
+interface IMailChangeLogFile {
+  id: string;
+  /** Latest change id per owner id */
+  lastChangeIds: Record<string, number>;
+  changes: IMailChange[];
+}
+
+/**
+ * @description Mail repository persisted in a JSON file.
+ * Mails are served from memory and the whole file is rewritten after each
+ * mutation. When the file does not exist yet it is created from the seed.
+ * The change log is kept next to it, `mails.json` has `mails.changes.json`.
+ */
+export class FileMailRepository extends InMemoryMailRepository {
+  private readonly changeLogPath: string;
+
+  constructor(
+    private readonly filePath: string,
+    seed: IMail[] = [],
+  ) {
+    super();
+    const { dir, name } = parse(this.filePath);
+    this.changeLogPath = join(dir, `${name}.changes.json`);
+
+    if (existsSync(this.filePath)) {
+      this.load(JSON.parse(readFileSync(this.filePath, 'utf8')) as IMail[]);
+      this.loadChangeLog();
+    } else {
+      this.load(seed);
+      this.flush();
+    }
+  }
+
+  create(mail: IMail): IMail {
+    const created = super.create(mail);
+    this.flush();
+    return created;
+  }
+
+  update(id: number, changes: Partial<IMail>): IMail | undefined {
+    const updated = super.update(id, changes);
+    if (updated) {
+      this.flush();
+    }
+    return updated;
+  }
+
+  delete(id: number): boolean {
+    const deleted = super.delete(id);
+    if (deleted) {
+      this.flush();
+    }
+    return deleted;
+  }
+
+  /** A missing change log starts a new one, older tokens are then expired */
+  private loadChangeLog(): void {
+    if (!existsSync(this.changeLogPath)) {
+      return;
+    }
+    const content = JSON.parse(
+      readFileSync(this.changeLogPath, 'utf8'),
+    ) as IMailChangeLogFile;
+    this.changeLogId = content.id;
+    this.lastChangeIds = new Map(
+      Object.entries(content.lastChangeIds).map(([ownerId, changeId]) => [
+        Number(ownerId),
+        changeId,
+      ]),
+    );
+    this.changes = new Map(
+      content.changes.map((change) => [change.mailId, change]),
+    );
+  }
+
+  private flush(): void {
+    const changeLog: IMailChangeLogFile = {
+      id: this.changeLogId,
+      lastChangeIds: Object.fromEntries(this.lastChangeIds),
+      changes: [...this.changes.values()],
+    };
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, JSON.stringify(this.mails, null, 2));
+    writeFileSync(this.changeLogPath, JSON.stringify(changeLog, null, 2));
+  }
+}
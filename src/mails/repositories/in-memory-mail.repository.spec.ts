@@ -0,0 +1,165 @@
+import { InMemoryMailRepository } from './in-memory-mail.repository';
+import { IMail } from '../interfaces/mail.interface';
+
+describe('InMemoryMailRepository', () => {
+  let seed: IMail[];
+  let repository: InMemoryMailRepository;
+
+  beforeEach(() => {
+    seed = [
+      {
+        id: 1,
+        from: { name: 'Test User 1', email: 'test1@example.com' },
+        subject: 'Test Subject 1',
+        body: 'Test Body 1',
+        date: '2024-01-01T00:00:00.000Z',
+      },
+      {
+        id: 2,
+        unread: true,
+        from: { name: 'Test User 2', email: 'test2@example.com' },
+        subject: 'Test Subject 2',
+        body: 'Test Body 2',
+        date: '2024-01-02T00:00:00.000Z',
+      },
+    ];
+    repository = new InMemoryMailRepository(seed);
+  });
+
+  describe('findAll', () => {
+    it('should return seed mails in storage order', () => {
+      // CALL
+      const result = repository.findAll();
+
+      // CONTROL
+      expect(result).toHaveLength(2);
+      expect(result[0].id).toBe(1);
+      expect(result[1].id).toBe(2);
+    });
+
+    it('should return copies that do not alter stored mails', () => {
+      // PREPARE
+      const result = repository.findAll();
+
+      // CALL
+      result[0].subject = 'Changed';
+
+      // CONTROL
+      expect(repository.findById(1)?.subject).toBe('Test Subject 1');
+      expect(seed[0].subject).toBe('Test Subject 1');
+    });
+  });
+
+  describe('findById', () => {
+    it('should return the mail matching the id', () => {
+      // CALL
+      const result = repository.findById(2);
+
+      // CONTROL
+      expect(result).toHaveProperty('subject', 'Test Subject 2');
+    });
+
+    it('should return undefined when the mail does not exist', () => {
+      // CALL
+      const result = repository.findById(42);
+
+      // CONTROL
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe('create', () => {
+    it('should assign the next id and ignore the given one', () => {
+      // PREPARE
+      const mail: IMail = { ...seed[0], id: 1 };
+
+      // CALL
+      const result = repository.create(mail);
+
+      // CONTROL
+      expect(result.id).toBe(3);
+      expect(repository.count()).toBe(3);
+    });
+  });
+
+  describe('update', () => {
+    it('should merge changes without touching the seed', () => {
+      // CALL
+      const result = repository.update(2, { unread: false });
+
+      // CONTROL
+      expect(result).toHaveProperty('unread', false);
+      expect(repository.findById(2)).toHaveProperty('unread', false);
+      expect(seed[1].unread).toBe(true);
+    });
+
+    it('should return undefined when the mail does not exist', () => {
+      // CALL
+      const result = repository.update(42, { unread: false });
+
+      // CONTROL
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe('delete', () => {
+    it('should remove the mail', () => {
+      // CALL
+      const result = repository.delete(1);
+
+      // CONTROL
+      expect(result).toBe(true);
+      expect(repository.findById(1)).toBeUndefined();
+      expect(repository.count()).toBe(1);
+    });
+
+    it('should return false when the mail does not exist', () => {
+      // CALL
+      const result = repository.delete(42);
+
+      // CONTROL
+      expect(result).toBe(false);
+      expect(repository.count()).toBe(2);
+    });
+  });
+
+  describe('change log', () => {
+    it('should number the changes of each mailbox and keep the latest one per mail', () => {
+      // PREPARE
+      const created = repository.create({ ...seed[0], ownerId: 1 });
+      repository.create({ ...seed[0], ownerId: 2 });
+
+      // CALL
+      repository.update(created.id!, { unread: true });
+      repository.update(1, { ownerId: 1 });
+
+      // CONTROL
+      expect(repository.getLastChangeId(1)).toBe(3);
+      expect(repository.getLastChangeId(2)).toBe(1);
+      expect(repository.findChangesSince(1, 1)).toEqual([
+        { mailId: created.id, ownerId: 1, createdChangeId: 1, changeId: 2 },
+        { mailId: 1, ownerId: 1, createdChangeId: 0, changeId: 3 },
+      ]);
+      expect(repository.findChangesSince(1, 3)).toEqual([]);
+    });
+
+    it('should keep deleted mails in the change log', () => {
+      // PREPARE
+      const created = repository.create({ ...seed[0], ownerId: 1 });
+
+      // CALL
+      repository.delete(created.id!);
+
+      // CONTROL
+      expect(repository.findChangesSince(1, 0)).toEqual([
+        {
+          mailId: created.id,
+          ownerId: 1,
+          createdChangeId: 1,
+          changeId: 2,
+          deleted: true,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { randomUUID } from 'crypto';
+import { IMail } from '../interfaces/mail.interface';
+import { IMailChange } from '../interfaces/mail-change.interface';
+import { MailRepository } from './mail.repository';
+
+/**
+ * @description Mail repository keeping mails in process memory.
+ * Seed mails are copied so the seed array is never mutated.
+ */
+export class InMemoryMailRepository extends MailRepository {
+  protected mails: IMail[];
+  protected nextId: number;
+  protected changeLogId: string = randomUUID();
+  /** Latest change id, per owner id */
+  protected lastChangeIds = new Map<number, number>();
+  /** Latest change of each mail, per mail id */
+  protected changes = new Map<number, IMailChange>();
+
+  constructor(seed: IMail[] = []) {
+    super();
+    this.load(seed);
+  }
+
+  findAll(): IMail[] {
+    return this.mails.map((mail) => structuredClone(mail));
+  }
+
+  findById(id: number): IMail | undefined {
+    const mail = this.mails.find((item) => item.id === id);
+    return mail ? structuredClone(mail) : undefined;
+  }
+
+  count(): number {
+    return this.mails.length;
+  }
+
+  create(mail: IMail): IMail {
+    const created: IMail = { ...structuredClone(mail), id: this.nextId++ };
+    this.mails.push(created);
+    this.recordChange(created, 'created');
+    return structuredClone(created);
+  }
+
+  update(id: number, changes: Partial<IMail>): IMail | undefined {
+    const index = this.mails.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+    this.mails[index] = {
+      ...this.mails[index],
+      ...structuredClone(changes),
+      id,
+    };
+    this.recordChange(this.mails[index], 'updated');
+    return structuredClone(this.mails[index]);
+  }
+
+  delete(id: number): boolean {
+    const index = this.mails.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return false;
+    }
+    const [deleted] = this.mails.splice(index, 1);
+    this.recordChange(deleted, 'deleted');
+    return true;
+  }
+
+  getChangeLogId(): string {
+    return this.changeLogId;
+  }
+
+  getLastChangeId(ownerId: number): number {
+    return this.lastChangeIds.get(ownerId) ?? 0;
+  }
+
+  findChangesSince(ownerId: number, changeId: number): IMailChange[] {
+    return [...this.changes.values()]
+      .filter(
+        (change) => change.ownerId === ownerId && change.changeId > changeId,
+      )
+      .sort((a, b) => a.changeId - b.changeId)
+      .map((change) => ({ ...change }));
+  }
+
+  /**
+   * @description Replace the stored mails and reset the id sequence
+   * @param mails - Mails to store
+   */
+  protected load(mails: IMail[]): void {
+    this.mails = mails.map((mail) => structuredClone(mail));
+    this.nextId =
+      this.mails.reduce((max, mail) => Math.max(max, mail.id ?? 0), 0) + 1;
+  }
+
+  /**
+   * @description Number the change on the sequence of the mailbox, only the
+   * latest change of each mail is kept
+   * @param mail - Changed mail
+   * @param kind - Kind of change
+   */
+  private recordChange(
+    mail: IMail,
+    kind: 'created' | 'updated' | 'deleted',
+  ): void {
+    if (mail.ownerId === undefined) {
+      return;
+    }
+
+    const changeId = this.getLastChangeId(mail.ownerId) + 1;
+    this.lastChangeIds.set(mail.ownerId, changeId);
+    this.changes.set(mail.id!, {
+      mailId: mail.id!,
+      ownerId: mail.ownerId,
+      createdChangeId:
+        kind === 'created'
+          ? changeId
+          : (this.changes.get(mail.id!)?.createdChangeId ?? 0),
+      changeId,
+      ...(kind === 'deleted' && { deleted: true }),
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { Provider } from '@nestjs/common';
+import { mails } from '../mails';
+import { MailRepository } from './mail.repository';
+import { InMemoryMailRepository } from './in-memory-mail.repository';
+import { FileMailRepository } from './file-mail.repository';
+
+export const DEFAULT_MAIL_REPOSITORY_FILE = 'data/mails.json';
+
+/**
+ * @description Provide the mail repository selected by the environment:
+ * - MAIL_REPOSITORY: `memory` (default) or `file`
+ * - MAIL_REPOSITORY_FILE: JSON file used by the `file` driver
+ */
+export const mailRepositoryProvider: Provider = {
+  provide: MailRepository,
+  useFactory: (): MailRepository => {
+    const driver = process.env.MAIL_REPOSITORY ?? 'memory';
+
+    switch (driver) {
+      case 'memory':
+        return new InMemoryMailRepository(mails);
+      case 'file':
+        return new FileMailRepository(
+          process.env.MAIL_REPOSITORY_FILE ?? DEFAULT_MAIL_REPOSITORY_FILE,
+          mails,
+        );
+      default:
+        throw new Error(`Unknown mail repository driver: ${driver}`);
+    }
+  },
+};
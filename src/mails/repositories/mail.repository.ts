@@ -0,0 +1,73 @@
+import { IMail } from '../interfaces/mail.interface';
+import { IMailChange } from '../interfaces/mail-change.interface';
+
+/**
+ * @description Storage abstraction for mails. `MailsService` only talks to
+ * this class, the concrete implementation is picked by `mailRepositoryProvider`.
+ * Every mutation is recorded in the change log of the mailbox, numbered by a
+ * sequence of its own.
+ */
+export abstract class MailRepository {
+  /**
+   * @description Get every stored mail, in storage order
+   * @returns {IMail[]} Copies of the stored mails
+   */
+  abstract findAll(): IMail[];
+
+  /**
+   * @description Get a single mail
+   * @param id - Id of the mail
+   * @returns {IMail | undefined} Copy of the mail, undefined when missing
+   */
+  abstract findById(id: number): IMail | undefined;
+
+  /**
+   * @description Count stored mails
+   * @returns {number} Number of stored mails
+   */
+  abstract count(): number;
+
+  /**
+   * @description Store a new mail, the id is assigned by the repository
+   * @param mail - Mail to store, any given id is ignored
+   * @returns {IMail} Stored mail with its id
+   */
+  abstract create(mail: IMail): IMail;
+
+  /**
+   * @description Apply a partial update to a mail
+   * @param id - Id of the mail
+   * @param changes - Fields to overwrite
+   * @returns {IMail | undefined} Updated mail, undefined when missing
+   */
+  abstract update(id: number, changes: Partial<IMail>): IMail | undefined;
+
+  /**
+   * @description Remove a mail
+   * @param id - Id of the mail
+   * @returns {boolean} True when a mail has been removed
+   */
+  abstract delete(id: number): boolean;
+
+  /**
+   * @description Identify the change log, a new one is started when the
+   * stored mails are reset
+   * @returns {string} Id of the change log
+   */
+  abstract getChangeLogId(): string;
+
+  /**
+   * @description Get the id of the latest change of a mailbox
+   * @param ownerId - Id of the mailbox owner
+   * @returns {number} Latest change id, 0 before the first change
+   */
+  abstract getLastChangeId(ownerId: number): number;
+
+  /**
+   * @description Get the mails of a mailbox changed after a change id
+   * @param ownerId - Id of the mailbox owner
+   * @param changeId - Id of the last change known
+   * @returns {IMailChange[]} Latest change of each mail, oldest first
+   */
+  abstract findChangesSince(ownerId: number, changeId: number): IMailChange[];
+}
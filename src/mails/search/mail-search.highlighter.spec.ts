@@ -0,0 +1,48 @@
+import { buildHighlights } from './mail-search.highlighter';
+import { IMail } from '../interfaces/mail.interface';
+
+describe('buildHighlights', () => {
+  const mail: IMail = {
+    id: 1,
+    from: { name: 'Test User 1', email: 'test1@example.com' },
+    subject: 'Budget <review>',
+    body: 'Hello team,\n\nThe budget is ready.',
+    date: '2024-01-01T00:00:00.000Z',
+  };
+
+  it('should wrap matching words in mark tags and escape HTML', () => {
+    // CALL
+    const result = buildHighlights(mail, ['budget', 'review']);
+
+    // CONTROL
+    expect(result.subject).toBe(
+      '<mark>Budget</mark> &lt;<mark>review</mark>&gt;',
+    );
+    expect(result.body).toBe('Hello team, The <mark>budget</mark> is ready.');
+  });
+
+  it('should highlight prefix matches', () => {
+    // CALL
+    const result = buildHighlights(mail, ['bud']);
+
+    // CONTROL
+    expect(result.subject).toContain('<mark>Budget</mark>');
+  });
+
+  it('should center long bodies on the first match with ellipses', () => {
+    // PREPARE
+    const longMail: IMail = {
+      ...mail,
+      body: `${'lorem ipsum '.repeat(30)}needle ${'dolor sit '.repeat(40)}`,
+    };
+
+    // CALL
+    const result = buildHighlights(longMail, ['needle']);
+
+    // CONTROL
+    expect(result.body.startsWith('…')).toBe(true);
+    expect(result.body.endsWith('…')).toBe(true);
+    expect(result.body).toContain('<mark>needle</mark>');
+    expect(result.body.length).toBeLessThan(260);
+  });
+});
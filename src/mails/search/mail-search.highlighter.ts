@@ -0,0 +1,73 @@
+import { IMailHighlights } from '../interfaces/mail-search.interface';
+import { IMail } from '../interfaces/mail.interface';
+import { matchTerm, tokenizeWithRanges } from './mail-search.tokenizer';
+
+const SNIPPET_LENGTH = 200;
+const SNIPPET_CONTEXT = 60;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * @description Wrap the words matching the terms in <mark> tags.
+ * The rest of the text is HTML-escaped and whitespace is collapsed.
+ */
+function highlightRange(
+  text: string,
+  terms: string[],
+  start: number,
+  end: number,
+): string {
+  let cursor = start;
+  let output = '';
+
+  tokenizeWithRanges(text.slice(start, end)).forEach((range) => {
+    if (!terms.some((term) => matchTerm(range.token, term) > 0)) {
+      return;
+    }
+    output += escapeHtml(text.slice(cursor, start + range.start));
+    output += `<mark>${escapeHtml(text.slice(start + range.start, start + range.end))}</mark>`;
+    cursor = start + range.end;
+  });
+  output += escapeHtml(text.slice(cursor, end));
+
+  return output.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * @description Build the highlighted subject and body snippet of a search hit
+ * @param mail - Matching mail
+ * @param terms - Normalized searched terms
+ * @returns {IMailHighlights} Highlighted subject and body snippet
+ */
+export function buildHighlights(mail: IMail, terms: string[]): IMailHighlights {
+  const firstMatch = tokenizeWithRanges(mail.body).find((range) =>
+    terms.some((term) => matchTerm(range.token, term) > 0),
+  );
+
+  let start = 0;
+  if (firstMatch && firstMatch.start > SNIPPET_CONTEXT) {
+    // Start the snippet on a word boundary shortly before the first match
+    const boundary = mail.body.lastIndexOf(
+      ' ',
+      firstMatch.start - SNIPPET_CONTEXT,
+    );
+    start = boundary === -1 ? 0 : boundary + 1;
+  }
+  const end = Math.min(mail.body.length, start + SNIPPET_LENGTH);
+
+  const snippet = highlightRange(mail.body, terms, start, end);
+  return {
+    subject: highlightRange(mail.subject, terms, 0, mail.subject.length),
+    body: `${start > 0 ? '…' : ''}${snippet}${end < mail.body.length ? '…' : ''}`,
+  };
+}
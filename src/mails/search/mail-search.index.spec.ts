@@ -0,0 +1,113 @@
+import { MailSearchIndex } from './mail-search.index';
+import { InMemoryMailRepository } from '../repositories/in-memory-mail.repository';
+import { IMail } from '../interfaces/mail.interface';
+
+describe('MailSearchIndex', () => {
+  let index: MailSearchIndex;
+  const seed: IMail[] = [
+    {
+      id: 1,
+      from: { name: 'Alex Smith', email: 'alex.smith@example.com' },
+      subject: 'Budget review',
+      body: 'Please review the marketing budget before the meeting.',
+      date: '2024-01-01T00:00:00.000Z',
+    },
+    {
+      id: 2,
+      from: { name: 'Jordan Brown', email: 'jordan.brown@example.com' },
+      subject: 'Sprint update',
+      body: 'The sprint is on track, the budget is not impacted.',
+      date: '2024-01-02T00:00:00.000Z',
+    },
+    {
+      id: 3,
+      from: { name: 'Taylor Green', email: 'taylor.green@example.com' },
+      subject: 'Lunch plans',
+      body: 'Café downtown on Friday?',
+      date: '2024-01-03T00:00:00.000Z',
+    },
+  ];
+
+  beforeEach(() => {
+    index = new MailSearchIndex(new InMemoryMailRepository(seed));
+  });
+
+  describe('search', () => {
+    describe('Success scenarios', () => {
+      it('should rank subject matches above body matches', () => {
+        // CALL
+        const result = index.search('budget');
+
+        // CONTROL
+        expect(result.map((match) => match.id)).toEqual([1, 2]);
+        expect(result[0].score).toBeGreaterThan(result[1].score);
+        expect(result[0].terms).toEqual(['budget']);
+      });
+
+      it('should require every term to match', () => {
+        // CALL
+        const result = index.search('budget sprint');
+
+        // CONTROL
+        expect(result.map((match) => match.id)).toEqual([2]);
+      });
+
+      it('should match sender name and email', () => {
+        // CALL
+        const byName = index.search('Taylor');
+        const byEmail = index.search('jordan.brown@example.com');
+
+        // CONTROL
+        expect(byName.map((match) => match.id)).toEqual([3]);
+        expect(byEmail.map((match) => match.id)).toEqual([2]);
+      });
+
+      it('should ignore case, diacritics and match prefixes', () => {
+        // CALL
+        const accent = index.search('CAFE');
+        const prefix = index.search('marke');
+
+        // CONTROL
+        expect(accent.map((match) => match.id)).toEqual([3]);
+        expect(prefix.map((match) => match.id)).toEqual([1]);
+      });
+    });
+
+    describe('Edge cases', () => {
+      it('should return nothing for a query without words', () => {
+        // CALL
+        const result = index.search('  ?! ');
+
+        // CONTROL
+        expect(result).toEqual([]);
+      });
+
+      it('should not match a single letter as a prefix', () => {
+        // CALL
+        const result = index.search('b');
+
+        // CONTROL
+        expect(result).toEqual([]);
+      });
+    });
+  });
+
+  describe('add and remove', () => {
+    it('should replace the previous version of a mail', () => {
+      // CALL
+      index.add({ ...seed[2], subject: 'Dinner plans', body: 'Pizza?' });
+
+      // CONTROL
+      expect(index.search('lunch')).toEqual([]);
+      expect(index.search('pizza').map((match) => match.id)).toEqual([3]);
+    });
+
+    it('should stop returning a removed mail', () => {
+      // CALL
+      index.remove(1);
+
+      // CONTROL
+      expect(index.search('budget').map((match) => match.id)).toEqual([2]);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { Injectable } from '@nestjs/common';
+import { IMail } from '../interfaces/mail.interface';
+import { IMailSearchMatch } from '../interfaces/mail-search.interface';
+import { MailRepository } from '../repositories/mail.repository';
+import { matchTerm, tokenize } from './mail-search.tokenizer';
+
+/** Names and emails of the to and cc recipients, bcc is never indexed */
+function recipients(mail: IMail): string {
+  return [...(mail.to ?? []), ...(mail.cc ?? [])]
+    .map((recipient) => `${recipient.name} ${recipient.email}`)
+    .join(' ');
+}
+
+/**
+ * Weight of each indexed field, a word found in the subject counts
+ * three times as much as the same word in the body
+ */
+const FIELD_WEIGHTS: Array<[(mail: IMail) => string, number]> = [
+  [(mail) => mail.subject, 3],
+  [(mail) => mail.from.name, 2],
+  [(mail) => mail.from.email, 2],
+  [(mail) => mail.body, 1],
+  [recipients, 1],
+];
+
+/**
+ * @description In-process inverted index over subject, body, sender and
+ * visible recipients.
+ * Built from the repository at startup, `MailsService` keeps it up to date
+ * on every mutation.
+ */
+@Injectable()
+export class MailSearchIndex {
+  /** term -> mail id -> weighted term frequency */
+  private readonly postings = new Map<string, Map<number, number>>();
+  /** mail id -> indexed terms, used to unindex a mail */
+  private readonly documents = new Map<number, Set<string>>();
+
+  constructor(mailRepository: MailRepository) {
+    mailRepository.findAll().forEach((mail) => this.add(mail));
+  }
+
+  /**
+   * @description Index a mail, replacing its previous version if any
+   * @param mail - Mail to index
+   */
+  add(mail: IMail): void {
+    if (mail.id === undefined) {
+      return;
+    }
+    this.remove(mail.id);
+
+    const frequencies = new Map<string, number>();
+    FIELD_WEIGHTS.forEach(([field, weight]) => {
+      tokenize(field(mail)).forEach((term) => {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+      });
+    });
+
+    frequencies.forEach((frequency, term) => {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(mail.id!, frequency);
+    });
+    this.documents.set(mail.id, new Set(frequencies.keys()));
+  }
+
+  /**
+   * @description Remove a mail from the index
+   * @param id - Id of the mail
+   */
+  remove(id: number): void {
+    const terms = this.documents.get(id);
+    if (!terms) {
+      return;
+    }
+
+    terms.forEach((term) => {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+    this.documents.delete(id);
+  }
+
+  /**
+   * @description Find the mails containing every term of a query, ranked by
+   * TF-IDF. Terms also match indexed words as a prefix, with a lower score.
+   * @param query - Free text query
+   * @returns {IMailSearchMatch[]} Matches sorted by descending score
+   */
+  search(query: string): IMailSearchMatch[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) {
+      return [];
+    }
+
+    let scores: Map<number, number> | undefined;
+    for (const term of terms) {
+      const termScores = this.scoreTerm(term);
+      if (!scores) {
+        scores = termScores;
+        continue;
+      }
+      // Keep only the mails matching every term
+      for (const [id, score] of scores) {
+        const termScore = termScores.get(id);
+        if (termScore === undefined) {
+          scores.delete(id);
+        } else {
+          scores.set(id, score + termScore);
+        }
+      }
+    }
+
+    return [...(scores ?? [])]
+      .map(([id, score]) => ({ id, score, terms }))
+      .sort((a, b) => b.score - a.score || a.id - b.id);
+  }
+
+  private scoreTerm(term: string): Map<number, number> {
+    const scores = new Map<number, number>();
+    const documentCount = this.documents.size;
+
+    this.postings.forEach((posting, token) => {
+      const factor = matchTerm(token, term);
+      if (factor === 0) {
+        return;
+      }
+      const idf = Math.log(1 + documentCount / posting.size);
+      posting.forEach((frequency, id) => {
+        scores.set(id, (scores.get(id) ?? 0) + factor * frequency * idf);
+      });
+    });
+
+    return scores;
+  }
+}
@@ -0,0 +1,52 @@
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export interface ITokenRange {
+  token: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * @description Lowercase a word and strip its diacritics
+ * @param word - Raw word
+ * @returns {string} Normalized word
+ */
+export function normalizeToken(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * @description Split a text into normalized words with their position
+ * @param text - Text to split
+ * @returns {ITokenRange[]} Words in order of appearance
+ */
+export function tokenizeWithRanges(text: string): ITokenRange[] {
+  return [...text.matchAll(WORD_PATTERN)].map((match) => ({
+    token: normalizeToken(match[0]),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/**
+ * @description Split a text into normalized words
+ * @param text - Text to split
+ * @returns {string[]} Words in order of appearance
+ */
+export function tokenize(text: string): string[] {
+  return tokenizeWithRanges(text).map((range) => range.token);
+}
+
+/**
+ * @description Tell whether an indexed word matches a searched term.
+ * Terms of two characters or more also match as a prefix.
+ * @param token - Indexed word
+ * @param term - Searched term
+ * @returns {number} 1 for an exact match, 0.5 for a prefix match, 0 otherwise
+ */
+export function matchTerm(token: string, term: string): number {
+  if (token === term) {
+    return 1;
+  }
+  return term.length >= 2 && token.startsWith(term) ? 0.5 : 0;
+}
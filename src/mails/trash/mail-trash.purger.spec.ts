@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MailTrashPurger } from './mail-trash.purger';
+import { MailsService } from '../mails.service';
+
+describe('MailTrashPurger', () => {
+  let purger: MailTrashPurger;
+  let purgeTrash: jest.Mock;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2024-03-31T00:00:00.000Z') });
+    purgeTrash = jest.fn().mockReturnValue(0);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailTrashPurger,
+        { provide: MailsService, useValue: { purgeTrash } },
+      ],
+    }).compile();
+
+    purger = module.get<MailTrashPurger>(MailTrashPurger);
+  });
+
+  afterEach(() => {
+    purger.onModuleDestroy();
+    jest.useRealTimers();
+    delete process.env.MAIL_TRASH_RETENTION_DAYS;
+    delete process.env.MAIL_TRASH_PURGE_INTERVAL_MINUTES;
+  });
+
+  describe('Success scenarios', () => {
+    it('should purge on startup with the default retention', () => {
+      // CALL
+      purger.onModuleInit();
+
+      // CONTROL
+      expect(purgeTrash).toHaveBeenCalledTimes(1);
+      expect(purgeTrash).toHaveBeenCalledWith(
+        new Date('2024-03-01T00:00:00.000Z'),
+      );
+    });
+
+    it('should purge on the configured interval until destroyed', () => {
+      // PREPARE
+      process.env.MAIL_TRASH_RETENTION_DAYS = '7';
+      process.env.MAIL_TRASH_PURGE_INTERVAL_MINUTES = '5';
+      purger.onModuleInit();
+
+      // CALL
+      jest.advanceTimersByTime(10 * 60_000);
+      purger.onModuleDestroy();
+      jest.advanceTimersByTime(10 * 60_000);
+
+      // CONTROL
+      expect(purgeTrash).toHaveBeenCalledTimes(3);
+      expect(purgeTrash).toHaveBeenLastCalledWith(
+        new Date('2024-03-24T00:10:00.000Z'),
+      );
+    });
+  });
+
+  describe('Invalid input scenarios', () => {
+    it('should reject an invalid retention', () => {
+      // PREPARE
+      process.env.MAIL_TRASH_RETENTION_DAYS = 'forever';
+
+      // CALL
+      const call = () => purger.onModuleInit();
+
+      // CONTROL
+      expect(call).toThrow('Invalid MAIL_TRASH_RETENTION_DAYS: forever');
+    });
+  });
+
+  describe('Edge cases', () => {
+    it('should keep running when a purge fails', () => {
+      // PREPARE
+      purgeTrash.mockImplementationOnce(() => {
+        throw new Error('disk full');
+      });
+
+      // CALL
+      const call = () => purger.onModuleInit();
+
+      // CONTROL
+      expect(call).not.toThrow();
+      jest.advanceTimersByTime(60 * 60_000);
+      expect(purgeTrash).toHaveBeenCalledTimes(2);
+    });
+  });
+});
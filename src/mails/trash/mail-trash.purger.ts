@@ -0,0 +1,80 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { sub } from 'date-fns';
+import { MailsService } from '../mails.service';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const DEFAULT_TRASH_PURGE_INTERVAL_MINUTES = 60;
+
+/**
+ * @description Purge the trash on startup then periodically, configured by
+ * the environment:
+ * - MAIL_TRASH_RETENTION_DAYS: days a mail stays in the trash (default 30)
+ * - MAIL_TRASH_PURGE_INTERVAL_MINUTES: delay between two purges (default 60)
+ */
+@Injectable()
+export class MailTrashPurger implements OnModuleInit, OnModuleDestroy {
+  constructor(private readonly mailsService: MailsService) {}
+
+  private readonly logger = new Logger(MailTrashPurger.name);
+  private timer?: NodeJS.Timeout;
+
+  onModuleInit(): void {
+    const retentionDays = readPositiveNumber(
+      'MAIL_TRASH_RETENTION_DAYS',
+      DEFAULT_TRASH_RETENTION_DAYS,
+    );
+    const intervalMinutes = readPositiveNumber(
+      'MAIL_TRASH_PURGE_INTERVAL_MINUTES',
+      DEFAULT_TRASH_PURGE_INTERVAL_MINUTES,
+    );
+
+    this.purge(retentionDays);
+    this.timer = setInterval(
+      () => this.purge(retentionDays),
+      intervalMinutes * 60_000,
+    );
+    // The purge alone must not keep the process alive
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * @description Purge the mails trashed more than `retentionDays` ago,
+   * errors are logged so the next run can retry
+   * @param retentionDays - Days a mail stays in the trash
+   */
+  purge(retentionDays: number): void {
+    try {
+      const purgedCount = this.mailsService.purgeTrash(
+        sub(new Date(), { days: retentionDays }),
+      );
+      if (purgedCount > 0) {
+        this.logger.log(`Purged ${purgedCount} mail(s) from the trash`);
+      }
+    } catch (error) {
+      this.logger.error(`Error purging trash: ${error}`);
+    }
+  }
+}
+
+function readPositiveNumber(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid ${name}: ${raw}`);
+  }
+  return value;
+}
@@ -0,0 +1,8 @@
+export interface ISmtpConfig {
+  /** Interface the server listens on */
+  host: string;
+  /** Port the server listens on, 0 for a random free port */
+  port: number;
+  /** Maximum size of a message, in bytes */
+  maxMessageSize: number;
+}
@@ -0,0 +1,59 @@
+import { DEFAULT_SMTP_MAX_MESSAGE_SIZE, readSmtpConfig } from './smtp-config';
+
+describe('readSmtpConfig', () => {
+  afterEach(() => {
+    delete process.env.SMTP_PORT;
+    delete process.env.SMTP_HOST;
+    delete process.env.SMTP_MAX_MESSAGE_SIZE;
+  });
+
+  it('should disable the server without SMTP_PORT', () => {
+    // CALL
+    const config = readSmtpConfig();
+
+    // CONTROL
+    expect(config).toBeUndefined();
+  });
+
+  it('should default the host and the message size', () => {
+    // PREPARE
+    process.env.SMTP_PORT = '2525';
+
+    // CALL
+    const config = readSmtpConfig();
+
+    // CONTROL
+    expect(config).toEqual({
+      host: '127.0.0.1',
+      port: 2525,
+      maxMessageSize: DEFAULT_SMTP_MAX_MESSAGE_SIZE,
+    });
+  });
+
+  it('should read the host and the message size', () => {
+    // PREPARE
+    process.env.SMTP_PORT = '0';
+    process.env.SMTP_HOST = '0.0.0.0';
+    process.env.SMTP_MAX_MESSAGE_SIZE = '1024';
+
+    // CALL
+    const config = readSmtpConfig();
+
+    // CONTROL
+    expect(config).toEqual({ host: '0.0.0.0', port: 0, maxMessageSize: 1024 });
+  });
+
+  it('should throw for an invalid port or size', () => {
+    // PREPARE
+    process.env.SMTP_PORT = '70000';
+
+    // CALL
+    const call = () => readSmtpConfig();
+
+    // CONTROL
+    expect(call).toThrow('Invalid SMTP_PORT: 70000');
+    process.env.SMTP_PORT = '25';
+    process.env.SMTP_MAX_MESSAGE_SIZE = '0';
+    expect(call).toThrow('Invalid SMTP_MAX_MESSAGE_SIZE: 0');
+  });
+});
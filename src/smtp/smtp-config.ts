@@ -0,0 +1,46 @@
+import { ISmtpConfig } from './interfaces/smtp-config.interface';
+
+export const DEFAULT_SMTP_HOST = '127.0.0.1';
+export const DEFAULT_SMTP_MAX_MESSAGE_SIZE = 30 * 1024 * 1024;
+
+/**
+ * @description Read the configuration of the SMTP ingestion server from the
+ * environment, the server is only started when SMTP_PORT is set:
+ * - SMTP_PORT: port to listen on, 0 for a random free port
+ * - SMTP_HOST: interface to listen on (default 127.0.0.1)
+ * - SMTP_MAX_MESSAGE_SIZE: maximum size of a message in bytes (default 30 MiB)
+ * @returns {ISmtpConfig | undefined} Configuration, undefined when disabled
+ * @throws Error when a variable is invalid
+ */
+export function readSmtpConfig(): ISmtpConfig | undefined {
+  const port = process.env.SMTP_PORT;
+  if (port === undefined || port === '') {
+    return undefined;
+  }
+
+  return {
+    host: process.env.SMTP_HOST || DEFAULT_SMTP_HOST,
+    port: readInteger('SMTP_PORT', port, 0, 65535),
+    maxMessageSize: process.env.SMTP_MAX_MESSAGE_SIZE
+      ? readInteger(
+          'SMTP_MAX_MESSAGE_SIZE',
+          process.env.SMTP_MAX_MESSAGE_SIZE,
+          1,
+          Number.MAX_SAFE_INTEGER,
+        )
+      : DEFAULT_SMTP_MAX_MESSAGE_SIZE,
+  };
+}
+
+function readInteger(
+  name: string,
+  raw: string,
+  min: number,
+  max: number,
+): number {
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Invalid ${name}: ${raw}`);
+  }
+  return value;
+}
@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { createTransport, Transporter } from 'nodemailer';
+import { SmtpIngestionServer } from './smtp-ingestion.server';
+import { MailsService } from '../mails/mails.service';
+import { UsersService } from '../users/users.service';
+
+describe('SmtpIngestionServer', () => {
+  let server: SmtpIngestionServer;
+  let smtp: Transporter;
+  let deliverMail: jest.Mock;
+  let removeMail: jest.Mock;
+  let findAccountByEmail: jest.Mock;
+
+  const accounts: Record<string, number> = {
+    'sam.lee@example.com': 1,
+    'alex.smith@example.com': 2,
+  };
+  const message = {
+    from: 'jordan.brown@example.com',
+    to: ['sam.lee@example.com', 'alex.smith@example.com'],
+    subject: 'Hello',
+    text: 'Hi',
+  };
+
+  beforeEach(async () => {
+    process.env.SMTP_PORT = '0';
+    deliverMail = jest
+      .fn()
+      .mockImplementation((owner: { id: number }) => ({ id: owner.id * 10 }));
+    removeMail = jest.fn().mockReturnValue(true);
+    findAccountByEmail = jest
+      .fn()
+      .mockImplementation((email: string) =>
+        accounts[email] ? { id: accounts[email] } : undefined,
+      );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SmtpIngestionServer,
+        { provide: MailsService, useValue: { deliverMail, removeMail } },
+        {
+          provide: UsersService,
+          useValue: {
+            findAccountByEmail,
+            getUserById: (id: number) => ({ id, name: '', email: '' }),
+          },
+        },
+      ],
+    }).compile();
+
+    server = module.get<SmtpIngestionServer>(SmtpIngestionServer);
+    await server.onModuleInit();
+    smtp = createTransport({
+      host: '127.0.0.1',
+      port: server.port,
+      ignoreTLS: true,
+    });
+  });
+
+  afterEach(async () => {
+    smtp.close();
+    await server.onModuleDestroy();
+    delete process.env.SMTP_PORT;
+  });
+
+  it('should deliver to every recipient', async () => {
+    // CALL
+    const call = smtp.sendMail(message);
+
+    // CONTROL
+    await expect(call).resolves.toMatchObject({ accepted: message.to });
+    expect(deliverMail).toHaveBeenCalledTimes(2);
+    expect(removeMail).not.toHaveBeenCalled();
+  });
+
+  it('should remove the delivered copies when a later delivery fails', async () => {
+    // PREPARE
+    deliverMail
+      .mockImplementationOnce(() => ({ id: 10 }))
+      .mockImplementationOnce(() => {
+        throw new Error('Disk full');
+      });
+
+    // CALL
+    const call = smtp.sendMail(message);
+
+    // CONTROL
+    await expect(call).rejects.toMatchObject({ responseCode: 450 });
+    expect(removeMail).toHaveBeenCalledWith(10);
+  });
+
+  it('should deliver nothing when a recipient has no mailbox anymore', async () => {
+    // PREPARE
+    findAccountByEmail
+      .mockImplementationOnce(() => ({ id: 1 }))
+      .mockImplementationOnce(() => ({ id: 2 }))
+      .mockImplementationOnce(() => ({ id: 1 }))
+      .mockImplementationOnce(() => undefined);
+
+    // CALL
+    const call = smtp.sendMail(message);
+
+    // CONTROL
+    await expect(call).rejects.toMatchObject({ responseCode: 550 });
+    expect(deliverMail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { AddressInfo } from 'net';
+import {
+  SMTPServer,
+  SMTPServerAddress,
+  SMTPServerDataStream,
+  SMTPServerSession,
+} from 'smtp-server';
+import { MailsService } from '../mails/mails.service';
+import { UsersService } from '../users/users.service';
+import { parseMimeMessage } from '../mails/import/mime-message.parser';
+import { IUser } from '../mails/interfaces/user.interface';
+import { readSmtpConfig } from './smtp-config';
+
+/** SMTP error carrying the reply code sent to the client */
+type SmtpError = Error & { responseCode?: number };
+
+/**
+ * @description Receive mail over SMTP (EHLO, MAIL FROM, RCPT TO, DATA) and
+ * deliver it into the inbox of each recipient having an account. Meant for
+ * local testing: there is neither authentication nor TLS, the server only
+ * starts when SMTP_PORT is set (see `readSmtpConfig`).
+ */
+@Injectable()
+export class SmtpIngestionServer implements OnModuleInit, OnModuleDestroy {
+  constructor(
+    private readonly mailsService: MailsService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  private readonly logger = new Logger(SmtpIngestionServer.name);
+  private server?: SMTPServer;
+
+  async onModuleInit(): Promise<void> {
+    const config = readSmtpConfig();
+    if (!config) {
+      return;
+    }
+
+    const server = new SMTPServer({
+      size: config.maxMessageSize,
+      authOptional: true,
+      disabledCommands: ['AUTH', 'STARTTLS'],
+      logger: false,
+      onRcptTo: (address, session, callback) =>
+        callback(this.checkRecipient(address)),
+      onData: (stream, session, callback) => {
+        this.receive(stream, session).then(
+          (message) => callback(null, message),
+          (error: SmtpError) => callback(error),
+        );
+      },
+    });
+    server.on('error', (error) =>
+      this.logger.error(`SMTP server error: ${error}`),
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      server.server.once('error', reject);
+      server.listen(config.port, config.host, () => {
+        server.server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    this.logger.log(`Listening for SMTP on ${config.host}:${this.port}`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(resolve));
+    }
+  }
+
+  /** Port the server listens on, undefined when it is not started */
+  get port(): number | undefined {
+    return (this.server?.server.address() as AddressInfo | null)?.port;
+  }
+
+  /**
+   * @description Accept a recipient only when it has a mailbox
+   * @param address - Address of the RCPT TO command
+   * @returns {SmtpError | undefined} Error rejecting the recipient
+   */
+  private checkRecipient(address: SMTPServerAddress): SmtpError | undefined {
+    if (this.usersService.findAccountByEmail(address.address)) {
+      return undefined;
+    }
+    return smtpError(550, `No mailbox for ${address.address}`);
+  }
+
+  /**
+   * @description Read a message and deliver it to the accepted recipients.
+   * Every recipient is resolved to a mailbox before the first delivery, and
+   * the copies already delivered are removed when a later one fails, so a
+   * client retrying after the error reply does not duplicate mails.
+   * @param stream - Content of the DATA command
+   * @param session - Session holding the envelope
+   * @returns {Promise<string>} Reply message of the accepted message
+   */
+  private async receive(
+    stream: SMTPServerDataStream,
+    session: SMTPServerSession,
+  ): Promise<string> {
+    // An oversized message is drained without being kept in memory
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      if (!stream.sizeExceeded) {
+        chunks.push(chunk as Buffer);
+      }
+    }
+    if (stream.sizeExceeded) {
+      throw smtpError(552, 'Message exceeds the maximum size');
+    }
+
+    const owners = this.resolveRecipients(session);
+    const { mail, attachments } = await parseMimeMessage(
+      Buffer.concat(chunks),
+    ).catch((error: Error) => {
+      throw smtpError(550, `Invalid message: ${error.message}`);
+    });
+
+    const ids: number[] = [];
+    try {
+      owners.forEach((owner) => {
+        ids.push(this.mailsService.deliverMail(owner, mail, attachments).id!);
+      });
+    } catch (error) {
+      ids.forEach((id) => this.mailsService.removeMail(id));
+      throw error instanceof PayloadTooLargeException
+        ? smtpError(552, error.message)
+        : error;
+    }
+
+    this.logger.log(`Delivered mail(s) ${ids.join(', ')} received over SMTP`);
+    return `Delivered to ${ids.length} mailbox(es)`;
+  }
+
+  /**
+   * @description Owners of the mailboxes of the envelope recipients, each
+   * mailbox once however many of its addresses were given
+   * @param session - Session holding the envelope
+   * @returns {IUser[]} Owners of the mailboxes to deliver to
+   */
+  private resolveRecipients(session: SMTPServerSession): IUser[] {
+    const accountIds = new Set<number>();
+    session.envelope.rcptTo.forEach(({ address }) => {
+      const account = this.usersService.findAccountByEmail(address);
+      if (!account) {
+        throw smtpError(550, `No mailbox for ${address}`);
+      }
+      accountIds.add(account.id);
+    });
+    return [...accountIds].map((id) => this.usersService.getUserById(id));
+  }
+}
+
+function smtpError(responseCode: number, message: string): SmtpError {
+  return Object.assign(new Error(message), { responseCode });
+}
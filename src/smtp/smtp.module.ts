@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { MailsModule } from '../mails/mails.module';
+import { UsersModule } from '../users/users.module';
+import { SmtpIngestionServer } from './smtp-ingestion.server';
+
+@Module({
+  imports: [MailsModule, UsersModule],
+  providers: [SmtpIngestionServer],
+})
+export class SmtpModule {}
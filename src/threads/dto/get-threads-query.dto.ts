@@ -0,0 +1,3 @@
+import { PaginationParamsDto } from '../../mails/dto/pagination-params.dto';
+
+export class GetThreadsQueryDto extends PaginationParamsDto {}
@@ -0,0 +1,7 @@
+import { IThread } from '../interfaces/thread.interface';
+
+export class GetThreadsResponseDto {
+  threads: IThread[];
+  totalCount: number;
+  hasMore: boolean;
+}
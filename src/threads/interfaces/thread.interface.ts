@@ -0,0 +1,14 @@
+import { IUser } from '../../mails/interfaces/user.interface';
+
+export interface IThread {
+  /** Id of the first mail of the conversation */
+  id: number;
+  subject: string;
+  /** Senders and visible recipients, in order of first appearance */
+  participants: IUser[];
+  messageCount: number;
+  unreadCount: number;
+  latestDate: string;
+  /** Mails of the conversation, replies after their parent */
+  mailIds: number[];
+}
@@ -0,0 +1,189 @@
+import { IMail } from '../../mails/interfaces/mail.interface';
+import { isReplySubject, normalizeSubject, threadMails } from './mail-threader';
+
+describe('mail-threader', () => {
+  let nextId = 1;
+  const mail = (overrides: Partial<IMail>): IMail => ({
+    id: nextId++,
+    from: { name: 'Alex Smith', email: 'alex.smith@example.com' },
+    subject: 'Budget review',
+    body: 'Body',
+    date: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  });
+  const ids = (threads: IMail[][]) =>
+    threads.map((thread) => thread.map((threadMail) => threadMail.id));
+
+  beforeEach(() => {
+    nextId = 1;
+  });
+
+  describe('normalizeSubject', () => {
+    it('should strip stacked reply and forward prefixes', () => {
+      // CALL
+      const result = [
+        'RE: Budget review',
+        'Re: Fwd: RE:  Budget   review',
+        'AW[2]: budget review',
+        'Budget review',
+      ].map(normalizeSubject);
+
+      // CONTROL
+      expect(new Set(result)).toEqual(new Set(['budget review']));
+      expect(isReplySubject('Fw: Budget review')).toBe(true);
+      expect(isReplySubject('Budget review')).toBe(false);
+    });
+
+    it('should keep prefixes that are not replies', () => {
+      // CALL
+      const result = normalizeSubject('[Mandatory] Training: DevOps tools');
+
+      // CONTROL
+      expect(result).toBe('[mandatory] training: devops tools');
+    });
+  });
+
+  describe('threadMails', () => {
+    describe('Success scenarios', () => {
+      it('should link replies through inReplyTo and references', () => {
+        // PREPARE
+        const root = mail({ messageId: '<1@x>' });
+        const reply = mail({
+          messageId: '<2@x>',
+          inReplyTo: '<1@x>',
+          subject: 'Other subject',
+          date: '2024-01-02T00:00:00.000Z',
+        });
+        const nested = mail({
+          messageId: '<3@x>',
+          references: ['<1@x>', '<2@x>'],
+          subject: 'Another subject',
+          date: '2024-01-03T00:00:00.000Z',
+        });
+        const unrelated = mail({ messageId: '<4@x>', subject: 'Lunch' });
+
+        // CALL
+        const result = threadMails([nested, unrelated, reply, root]);
+
+        // CONTROL
+        expect(ids(result)).toEqual([[1, 2, 3], [4]]);
+      });
+
+      it('should order siblings by date after their parent', () => {
+        // PREPARE
+        const root = mail({ messageId: '<1@x>' });
+        const late = mail({
+          inReplyTo: '<1@x>',
+          date: '2024-01-05T00:00:00.000Z',
+        });
+        const early = mail({
+          inReplyTo: '<1@x>',
+          date: '2024-01-02T00:00:00.000Z',
+        });
+
+        // CALL
+        const result = threadMails([late, root, early]);
+
+        // CONTROL
+        expect(ids(result)).toEqual([[1, 3, 2]]);
+      });
+
+      it('should group replies to a missing message', () => {
+        // PREPARE
+        const first = mail({ inReplyTo: '<missing@x>', subject: 'RE: A' });
+        const second = mail({
+          references: ['<missing@x>'],
+          subject: 'RE: B',
+          date: '2024-01-02T00:00:00.000Z',
+        });
+
+        // CALL
+        const result = threadMails([second, first]);
+
+        // CONTROL
+        expect(ids(result)).toEqual([[1, 2]]);
+      });
+
+      it('should fall back to the normalized subject', () => {
+        // PREPARE
+        const original = mail({ subject: 'Budget review' });
+        const reply = mail({
+          subject: 'RE: budget review',
+          date: '2024-01-02T00:00:00.000Z',
+        });
+        const forward = mail({
+          subject: 'Fwd: Budget review',
+          date: '2024-01-03T00:00:00.000Z',
+        });
+
+        // CALL
+        const result = threadMails([forward, reply, original]);
+
+        // CONTROL
+        expect(ids(result)).toEqual([[1, 2, 3]]);
+      });
+
+      it('should group same-subject mails that are not replies as siblings', () => {
+        // PREPARE
+        const first = mail({ subject: 'Weekly report' });
+        const second = mail({
+          subject: 'Weekly report',
+          date: '2024-01-08T00:00:00.000Z',
+        });
+
+        // CALL
+        const result = threadMails([second, first]);
+
+        // CONTROL
+        expect(ids(result)).toEqual([[1, 2]]);
+      });
+    });
+
+    describe('Edge cases', () => {
+      it('should not loop on circular references', () => {
+        // PREPARE
+        const first = mail({ messageId: '<1@x>', inReplyTo: '<2@x>' });
+        const second = mail({ messageId: '<2@x>', inReplyTo: '<1@x>' });
+
+        // CALL
+        const result = threadMails([first, second]);
+
+        // CONTROL
+        // The second mail to arrive keeps its parent, the loop is cut there
+        expect(ids(result)).toEqual([[2, 1]]);
+      });
+
+      it('should keep mails sharing a Message-ID', () => {
+        // PREPARE
+        const first = mail({ messageId: '<1@x>', subject: 'A' });
+        const duplicate = mail({ messageId: '<1@x>', subject: 'B' });
+
+        // CALL
+        const result = threadMails([first, duplicate]);
+
+        // CONTROL
+        expect(ids(result).flat().sort()).toEqual([1, 2]);
+      });
+
+      it('should not group mails with an empty subject', () => {
+        // PREPARE
+        const first = mail({ subject: '' });
+        const second = mail({ subject: 'Re:' });
+
+        // CALL
+        const result = threadMails([first, second]);
+
+        // CONTROL
+        expect(result).toHaveLength(2);
+      });
+
+      it('should return no thread for no mail', () => {
+        // CALL
+        const result = threadMails([]);
+
+        // CONTROL
+        expect(result).toEqual([]);
+      });
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { IMail } from '../../mails/interfaces/mail.interface';
+
+/** Reply and forward prefixes stripped from subjects, e.g. `Re:`, `FW:`, `Re[2]:` */
+const SUBJECT_PREFIX = /^\s*(?:(?:re|fwd?|aw|sv)(?:\[\d+\])?\s*:\s*)+/i;
+
+/**
+ * Node of the threading tree, a container without mail stands for a
+ * message only known through the references of its replies
+ */
+interface IThreadContainer {
+  mail?: IMail;
+  parent?: IThreadContainer;
+  children: IThreadContainer[];
+}
+
+/**
+ * @description Normalize a subject for grouping: reply prefixes are stripped,
+ * case and whitespace are ignored
+ * @param subject - Raw subject
+ * @returns Normalized subject, empty when only prefixes were given
+ */
+export function normalizeSubject(subject: string): string {
+  return subject
+    .replace(SUBJECT_PREFIX, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * @description Whether the subject has a reply or forward prefix
+ * @param subject - Raw subject
+ */
+export function isReplySubject(subject: string): boolean {
+  return SUBJECT_PREFIX.test(subject);
+}
+
+/**
+ * @description Group mails into conversations with the JWZ algorithm
+ * (https://www.jwz.org/doc/threading.html): mails are linked through their
+ * `messageId`, `inReplyTo` and `references`, then the remaining roots sharing
+ * a normalized subject are merged. Mails without `messageId` can only be
+ * grouped by subject.
+ * @param mails - Mails to thread
+ * @returns Conversations, each holding its mails in tree order, replies
+ * after their parent and siblings by date
+ */
+export function threadMails(mails: IMail[]): IMail[][] {
+  const containers = new Map<string, IThreadContainer>();
+  const getContainer = (messageId: string): IThreadContainer => {
+    let container = containers.get(messageId);
+    if (!container) {
+      container = { children: [] };
+      containers.set(messageId, container);
+    }
+    return container;
+  };
+
+  const orphans: IThreadContainer[] = [];
+  mails.forEach((mail) => {
+    let container = mail.messageId ? getContainer(mail.messageId) : undefined;
+    // A duplicated or missing Message-ID gets its own container
+    if (!container || container.mail) {
+      container = { children: [] };
+      orphans.push(container);
+    }
+    container.mail = mail;
+
+    // Link the references together, keeping the first known parent
+    const references = [...(mail.references ?? [])];
+    if (
+      mail.inReplyTo &&
+      references[references.length - 1] !== mail.inReplyTo
+    ) {
+      references.push(mail.inReplyTo);
+    }
+    let parent: IThreadContainer | undefined;
+    references.forEach((reference) => {
+      const referenced = getContainer(reference);
+      if (parent && !referenced.parent && !isDescendant(referenced, parent)) {
+        link(parent, referenced);
+      }
+      parent = referenced;
+    });
+
+    // The last reference is the actual parent of the mail
+    if (parent !== container) {
+      unlink(container);
+      if (parent && !isDescendant(container, parent)) {
+        link(parent, container);
+      }
+    }
+  });
+
+  const roots = pruneEmptyContainers(
+    [...containers.values(), ...orphans].filter(
+      (container) => !container.parent,
+    ),
+  );
+
+  return groupBySubject(roots).map((root) => flatten(root));
+}
+
+function link(parent: IThreadContainer, child: IThreadContainer): void {
+  child.parent = parent;
+  parent.children.push(child);
+}
+
+function unlink(child: IThreadContainer): void {
+  if (child.parent) {
+    child.parent.children = child.parent.children.filter(
+      (sibling) => sibling !== child,
+    );
+    child.parent = undefined;
+  }
+}
+
+/** Whether `node` is `ancestor` or one of its descendants */
+function isDescendant(
+  ancestor: IThreadContainer,
+  node: IThreadContainer,
+): boolean {
+  for (let current: IThreadContainer | undefined = node; current; ) {
+    if (current === ancestor) {
+      return true;
+    }
+    current = current.parent;
+  }
+  return false;
+}
+
+/**
+ * @description Drop the containers without mail: their children move up a
+ * level, a root is only replaced when it has a single child
+ * @param containers - Sibling containers
+ * @param isRoot - Whether the containers are thread roots
+ * @returns Containers to keep at that level
+ */
+function pruneEmptyContainers(
+  containers: IThreadContainer[],
+  isRoot = true,
+): IThreadContainer[] {
+  return containers.flatMap((container) => {
+    container.children = pruneEmptyContainers(container.children, false);
+    container.children.forEach((child) => (child.parent = container));
+
+    if (container.mail) {
+      return [container];
+    }
+    if (container.children.length === 0) {
+      return [];
+    }
+    if (!isRoot || container.children.length === 1) {
+      container.children.forEach((child) => (child.parent = undefined));
+      return container.children;
+    }
+    return [container];
+  });
+}
+
+/**
+ * @description Merge the roots sharing a normalized subject, a reply is
+ * attached under the original message when there is one
+ * @param roots - Thread roots
+ * @returns Merged thread roots
+ */
+function groupBySubject(roots: IThreadContainer[]): IThreadContainer[] {
+  const bySubject = new Map<string, IThreadContainer>();
+  const grouped: IThreadContainer[] = [];
+
+  roots.forEach((root) => {
+    const subject = normalizeSubject(rootSubject(root));
+    const existing = subject ? bySubject.get(subject) : undefined;
+    if (!existing) {
+      if (subject) {
+        bySubject.set(subject, root);
+      }
+      grouped.push(root);
+      return;
+    }
+
+    const merged = mergeRoots(existing, root);
+    if (merged !== existing) {
+      grouped[grouped.indexOf(existing)] = merged;
+      bySubject.set(subject, merged);
+    }
+  });
+
+  return grouped;
+}
+
+function mergeRoots(
+  existing: IThreadContainer,
+  root: IThreadContainer,
+): IThreadContainer {
+  if (!existing.mail) {
+    if (root.mail) {
+      link(existing, root);
+    } else {
+      root.children.forEach((child) => link(existing, child));
+    }
+    return existing;
+  }
+  if (!root.mail) {
+    link(root, existing);
+    return root;
+  }
+
+  const existingIsReply = isReplySubject(existing.mail.subject);
+  const rootIsReply = isReplySubject(root.mail.subject);
+  if (rootIsReply && !existingIsReply) {
+    link(existing, root);
+    return existing;
+  }
+  if (existingIsReply && !rootIsReply) {
+    link(root, existing);
+    return root;
+  }
+
+  // Neither is known to answer the other: siblings under an empty root
+  const dummy: IThreadContainer = { children: [] };
+  link(dummy, existing);
+  link(dummy, root);
+  return dummy;
+}
+
+function rootSubject(root: IThreadContainer): string {
+  return root.mail?.subject ?? root.children[0]?.mail?.subject ?? '';
+}
+
+function flatten(root: IThreadContainer): IMail[] {
+  const children = [...root.children].sort(
+    (a, b) => earliestDate(a) - earliestDate(b),
+  );
+  return [
+    ...(root.mail ? [root.mail] : []),
+    ...children.flatMap((child) => flatten(child)),
+  ];
+}
+
+function earliestDate(container: IThreadContainer): number {
+  return container.mail
+    ? new Date(container.mail.date).getTime()
+    : Math.min(...container.children.map((child) => earliestDate(child)));
+}
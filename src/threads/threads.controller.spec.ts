@@ -0,0 +1,36 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ThreadsController } from './threads.controller';
+import { ThreadsService } from './threads.service';
+import { MailsService } from '../mails/mails.service';
+import { mailRepositoryProvider } from '../mails/repositories/mail-repository.provider';
+import { attachmentStorageProvider } from '../mails/attachments/attachment-storage.provider';
+import { MailSearchIndex } from '../mails/search/mail-search.index';
+import { MailEventBus } from '../mails/events/mail-event.bus';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+describe('ThreadsController', () => {
+  let controller: ThreadsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ThreadsController],
+      providers: [
+        ThreadsService,
+        MailsService,
+        MailSearchIndex,
+        MailEventBus,
+        mailRepositoryProvider,
+        attachmentStorageProvider,
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<ThreadsController>(ThreadsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
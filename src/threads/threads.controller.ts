@@ -0,0 +1,17 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ThreadsService } from './threads.service';
+import { GetThreadsQueryDto } from './dto/get-threads-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { IUser } from '../mails/interfaces/user.interface';
+
+@Controller('threads')
+@UseGuards(JwtAuthGuard)
+export class ThreadsController {
+  constructor(private readonly threadsService: ThreadsService) {}
+
+  @Get()
+  getThreads(@CurrentUser() user: IUser, @Query() query: GetThreadsQueryDto) {
+    return this.threadsService.getThreadsPaginated(user, query);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { MailsModule } from '../mails/mails.module';
+import { AuthModule } from '../auth/auth.module';
+import { ThreadsController } from './threads.controller';
+import { ThreadsService } from './threads.service';
+
+@Module({
+  imports: [MailsModule, AuthModule],
+  controllers: [ThreadsController],
+  providers: [ThreadsService],
+})
+export class ThreadsModule {}
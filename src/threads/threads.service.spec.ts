@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ThreadsService } from './threads.service';
+import { MailsService } from '../mails/mails.service';
+import { MailSearchIndex } from '../mails/search/mail-search.index';
+import { MailEventBus } from '../mails/events/mail-event.bus';
+import { mailRepositoryProvider } from '../mails/repositories/mail-repository.provider';
+import { attachmentStorageProvider } from '../mails/attachments/attachment-storage.provider';
+import { GetThreadsResponseDto } from './dto/get-threads-response.dto';
+import { mailboxOwner } from '../mails/mailbox-owner';
+
+// Mock the mails data to have control over it during tests
+jest.mock('../mails/mails', () => ({
+  mails: [
+    {
+      id: 1,
+      ownerId: 1,
+      from: { name: 'Alex Smith', email: 'alex.smith@example.com' },
+      to: [{ name: 'Sam Lee', email: 'sam.lee@example.com' }],
+      subject: 'Budget review',
+      body: 'Body 1',
+      date: '2024-01-01T00:00:00.000Z',
+      messageId: '<1@example.com>',
+    },
+    {
+      id: 2,
+      ownerId: 1,
+      unread: true,
+      from: { name: 'Jordan Brown', email: 'jordan.brown@example.com' },
+      to: [{ name: 'Alex Smith', email: 'alex.smith@example.com' }],
+      cc: [{ name: 'Sam Lee', email: 'sam.lee@example.com' }],
+      bcc: [{ name: 'Hidden', email: 'hidden@example.com' }],
+      subject: 'RE: Budget review',
+      body: 'Body 2',
+      date: '2024-01-04T00:00:00.000Z',
+      messageId: '<2@example.com>',
+      inReplyTo: '<1@example.com>',
+    },
+    {
+      id: 3,
+      ownerId: 1,
+      from: { name: 'Taylor Green', email: 'taylor.green@example.com' },
+      subject: 'Lunch plans',
+      body: 'Body 3',
+      date: '2024-01-03T00:00:00.000Z',
+    },
+  ],
+}));
+
+describe('ThreadsService', () => {
+  let service: ThreadsService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ThreadsService,
+        MailsService,
+        MailSearchIndex,
+        MailEventBus,
+        mailRepositoryProvider,
+        attachmentStorageProvider,
+      ],
+    }).compile();
+
+    service = module.get<ThreadsService>(ThreadsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getThreadsPaginated', () => {
+    describe('Success scenarios', () => {
+      it('should return conversations sorted by latest date', () => {
+        // CALL
+        const result = service.getThreadsPaginated(mailboxOwner, {});
+
+        // CONTROL
+        expect(result).toBeInstanceOf(GetThreadsResponseDto);
+        expect(result.totalCount).toBe(2);
+        expect(result.hasMore).toBe(false);
+        expect(result.threads.map((thread) => thread.id)).toEqual([1, 3]);
+      });
+
+      it('should summarize a conversation', () => {
+        // CALL
+        const [thread] = service.getThreadsPaginated(mailboxOwner, {}).threads;
+
+        // CONTROL
+        expect(thread).toEqual({
+          id: 1,
+          subject: 'Budget review',
+          participants: [
+            { name: 'Alex Smith', email: 'alex.smith@example.com' },
+            { name: 'Sam Lee', email: 'sam.lee@example.com' },
+            { name: 'Jordan Brown', email: 'jordan.brown@example.com' },
+          ],
+          messageCount: 2,
+          unreadCount: 1,
+          latestDate: '2024-01-04T00:00:00.000Z',
+          mailIds: [1, 2],
+        });
+      });
+
+      it('should paginate threads with take and skip', () => {
+        // CALL
+        const first = service.getThreadsPaginated(mailboxOwner, { take: '1' });
+        const second = service.getThreadsPaginated(mailboxOwner, {
+          take: '1',
+          skip: '1',
+        });
+
+        // CONTROL
+        expect(first.threads.map((thread) => thread.id)).toEqual([1]);
+        expect(first.hasMore).toBe(true);
+        expect(second.threads.map((thread) => thread.id)).toEqual([3]);
+        expect(second.hasMore).toBe(false);
+        expect(second.totalCount).toBe(2);
+      });
+    });
+
+    describe('Invalid input scenarios', () => {
+      it('should throw BadRequestException for invalid take or skip', () => {
+        // CALL
+        const withTake = () =>
+          service.getThreadsPaginated(mailboxOwner, { take: '0' });
+        const withSkip = () =>
+          service.getThreadsPaginated(mailboxOwner, { skip: '-1' });
+
+        // CONTROL
+        expect(withTake).toThrow(BadRequestException);
+        expect(withSkip).toThrow(BadRequestException);
+      });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { MailsService } from '../mails/mails.service';
+import { IMail } from '../mails/interfaces/mail.interface';
+import { IUser } from '../mails/interfaces/user.interface';
+import { parseTakeSkip } from '../mails/pagination';
+import { isListedByDefault } from '../mails/mail-folders';
+import { GetThreadsQueryDto } from './dto/get-threads-query.dto';
+import { GetThreadsResponseDto } from './dto/get-threads-response.dto';
+import { IThread } from './interfaces/thread.interface';
+import { threadMails } from './threading/mail-threader';
+
+@Injectable()
+export class ThreadsService {
+  constructor(private readonly mailsService: MailsService) {}
+
+  /**
+   * @description Get the conversations of the mailbox, most recent first.
+   * Drafts, trash and spam are left out like in the mail list.
+   * @param owner - Owner of the mailbox
+   * @param take - Number of threads to get
+   * @param skip - Number of threads to skip
+   * @returns {GetThreadsResponseDto} Paginated threads and total count
+   */
+  getThreadsPaginated(
+    owner: IUser,
+    query: GetThreadsQueryDto,
+  ): GetThreadsResponseDto {
+    const { take, skip } = parseTakeSkip(query);
+
+    const threads = threadMails(
+      this.mailsService.getAllMails(owner).filter(isListedByDefault),
+    )
+      .map((mails) => this.toThread(mails))
+      .sort(
+        (a, b) =>
+          new Date(b.latestDate).getTime() - new Date(a.latestDate).getTime() ||
+          b.id - a.id,
+      );
+
+    const requestedThreads = threads.slice(skip, skip + take);
+    return plainToInstance(GetThreadsResponseDto, {
+      threads: requestedThreads,
+      totalCount: threads.length,
+      hasMore: skip + requestedThreads.length < threads.length,
+    });
+  }
+
+  private toThread(mails: IMail[]): IThread {
+    const participants = new Map<string, IUser>();
+    mails.forEach((mail) => {
+      [
+        mail.from,
+        ...(mail.to ?? []),
+        ...(mail.cc ?? []),
+        ...(mail.bcc ?? []),
+      ].forEach((user) => {
+        const email = user.email.toLowerCase();
+        if (!participants.has(email)) {
+          participants.set(email, user);
+        }
+      });
+    });
+
+    const latestDate = mails
+      .map((mail) => mail.date)
+      .reduce((latest, date) =>
+        new Date(date).getTime() > new Date(latest).getTime() ? date : latest,
+      );
+
+    return {
+      id: mails[0].id!,
+      subject: mails[0].subject,
+      participants: [...participants.values()],
+      messageCount: mails.length,
+      unreadCount: mails.filter((mail) => mail.unread === true).length,
+      latestDate,
+      mailIds: mails.map((mail) => mail.id!),
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { UserStatus } from '../../mails/interfaces/user-status.enum';
+
+export class UserAvatarDto {
+  @IsUrl({}, { message: 'avatar src must be a valid URL' })
+  src: string;
+
+  @IsOptional()
+  @IsString({ message: 'avatar alt must be a string' })
+  @MaxLength(100, { message: 'avatar alt must be at most 100 characters' })
+  alt?: string;
+}
+
+export class UpdateUserDto {
+  @IsOptional()
+  @IsString({ message: 'name must be a string' })
+  @IsNotEmpty({ message: 'name must not be empty' })
+  @MaxLength(100, { message: 'name must be at most 100 characters' })
+  name?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => UserAvatarDto)
+  avatar?: UserAvatarDto;
+
+  @IsOptional()
+  @IsEnum(UserStatus, {
+    message: `status must be one of: ${Object.values(UserStatus).join(', ')}`,
+  })
+  status?: UserStatus;
+
+  @IsOptional()
+  @IsString({ message: 'location must be a string' })
+  @MaxLength(100, { message: 'location must be at most 100 characters' })
+  location?: string;
+}
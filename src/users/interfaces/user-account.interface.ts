@@ -0,0 +1,8 @@
+import { IUser } from '../../mails/interfaces/user.interface';
+
+/** Account able to log in, its mailbox holds the mails with its id as `ownerId` */
+export interface IUserAccount extends IUser {
+  id: number;
+  /** scrypt hash, see `hashPassword` */
+  passwordHash: string;
+}
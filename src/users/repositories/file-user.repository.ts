@@ -0,0 +1,39 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { IUserAccount } from '../interfaces/user-account.interface';
+import { InMemoryUserRepository } from './in-memory-user.repository';
+
+/**
+ * @description User repository persisted in a JSON file, see
+ * `FileMailRepository`. Accounts are created by editing the file, profiles
+ * are updated through the API.
+ */
+export class FileUserRepository extends InMemoryUserRepository {
+  constructor(
+    private readonly filePath: string,
+    seed: IUserAccount[] = [],
+  ) {
+    super();
+    if (existsSync(this.filePath)) {
+      this.load(
+        JSON.parse(readFileSync(this.filePath, 'utf8')) as IUserAccount[],
+      );
+    } else {
+      this.load(seed);
+      this.flush();
+    }
+  }
+
+  update(id: number, changes: Partial<IUserAccount>): IUserAccount | undefined {
+    const updated = super.update(id, changes);
+    if (updated) {
+      this.flush();
+    }
+    return updated;
+  }
+
+  private flush(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, JSON.stringify(this.users, null, 2));
+  }
+}
@@ -0,0 +1,48 @@
+import { IUserAccount } from '../interfaces/user-account.interface';
+import { UserRepository } from './user.repository';
+
+/**
+ * @description User repository keeping accounts in process memory.
+ * Seed accounts are copied so the seed array is never mutated.
+ */
+export class InMemoryUserRepository extends UserRepository {
+  protected users: IUserAccount[];
+
+  constructor(seed: IUserAccount[] = []) {
+    super();
+    this.load(seed);
+  }
+
+  findAll(): IUserAccount[] {
+    return this.users.map((user) => ({ ...user }));
+  }
+
+  findById(id: number): IUserAccount | undefined {
+    const user = this.users.find((item) => item.id === id);
+    return user ? { ...user } : undefined;
+  }
+
+  findByEmail(email: string): IUserAccount | undefined {
+    const user = this.users.find(
+      (item) => item.email.toLowerCase() === email.toLowerCase(),
+    );
+    return user ? { ...user } : undefined;
+  }
+
+  update(id: number, changes: Partial<IUserAccount>): IUserAccount | undefined {
+    const index = this.users.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+    this.users[index] = { ...this.users[index], ...changes, id };
+    return { ...this.users[index] };
+  }
+
+  /**
+   * @description Replace the stored accounts
+   * @param users - Accounts to store
+   */
+  protected load(users: IUserAccount[]): void {
+    this.users = users.map((user) => ({ ...user }));
+  }
+}
@@ -0,0 +1,31 @@
+import { Provider } from '@nestjs/common';
+import { users } from '../users';
+import { UserRepository } from './user.repository';
+import { InMemoryUserRepository } from './in-memory-user.repository';
+import { FileUserRepository } from './file-user.repository';
+
+export const DEFAULT_USER_REPOSITORY_FILE = 'data/users.json';
+
+/**
+ * @description Provide the user repository, stored next to the mails:
+ * - MAIL_REPOSITORY: `memory` (default) or `file`
+ * - USER_REPOSITORY_FILE: JSON file used by the `file` driver
+ */
+export const userRepositoryProvider: Provider = {
+  provide: UserRepository,
+  useFactory: (): UserRepository => {
+    const driver = process.env.MAIL_REPOSITORY ?? 'memory';
+
+    switch (driver) {
+      case 'memory':
+        return new InMemoryUserRepository(users);
+      case 'file':
+        return new FileUserRepository(
+          process.env.USER_REPOSITORY_FILE ?? DEFAULT_USER_REPOSITORY_FILE,
+          users,
+        );
+      default:
+        throw new Error(`Unknown mail repository driver: ${driver}`);
+    }
+  },
+};
@@ -0,0 +1,39 @@
+import { IUserAccount } from '../interfaces/user-account.interface';
+
+/**
+ * @description Storage abstraction for user accounts. `UsersService` only
+ * talks to this class, the concrete implementation is picked by
+ * `userRepositoryProvider`.
+ */
+export abstract class UserRepository {
+  /**
+   * @description Get every stored account, in storage order
+   * @returns {IUserAccount[]} Copies of the stored accounts
+   */
+  abstract findAll(): IUserAccount[];
+
+  /**
+   * @description Get a single account
+   * @param id - Id of the account
+   * @returns {IUserAccount | undefined} Copy of the account, undefined when missing
+   */
+  abstract findById(id: number): IUserAccount | undefined;
+
+  /**
+   * @description Get the account of an email address, regardless of case
+   * @param email - Email address of the account
+   * @returns {IUserAccount | undefined} Copy of the account, undefined when missing
+   */
+  abstract findByEmail(email: string): IUserAccount | undefined;
+
+  /**
+   * @description Apply a partial update to an account
+   * @param id - Id of the account
+   * @param changes - Fields to overwrite
+   * @returns {IUserAccount | undefined} Updated account, undefined when missing
+   */
+  abstract update(
+    id: number,
+    changes: Partial<IUserAccount>,
+  ): IUserAccount | undefined;
+}
@@ -0,0 +1,22 @@
+import { Body, Controller, Get, Patch, UseGuards } from '@nestjs/common';
+import { UsersService } from './users.service';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { IUser } from '../mails/interfaces/user.interface';
+
+@Controller('users')
+@UseGuards(JwtAuthGuard)
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Get('me')
+  getMe(@CurrentUser() user: IUser) {
+    return user;
+  }
+
+  @Patch('me')
+  updateMe(@CurrentUser() user: IUser, @Body() dto: UpdateUserDto) {
+    return this.usersService.updateUser(user.id!, dto);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+import { userRepositoryProvider } from './repositories/user-repository.provider';
+
+@Module({
+  // The auth module authenticates through the users module
+  imports: [forwardRef(() => AuthModule)],
+  controllers: [UsersController],
+  providers: [UsersService, userRepositoryProvider],
+  exports: [UsersService],
+})
+export class UsersModule {}
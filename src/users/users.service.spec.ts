@@ -0,0 +1,111 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { UsersService } from './users.service';
+import { userRepositoryProvider } from './repositories/user-repository.provider';
+import { UserStatus } from '../mails/interfaces/user-status.enum';
+
+// Mock the users data to have control over it during tests
+jest.mock('./users', () => ({
+  users: [
+    {
+      id: 1,
+      name: 'Test User 1',
+      email: 'test1@example.com',
+      passwordHash: 'scrypt$00$00',
+    },
+  ],
+}));
+
+describe('UsersService', () => {
+  let service: UsersService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [UsersService, userRepositoryProvider],
+    }).compile();
+
+    service = module.get<UsersService>(UsersService);
+  });
+
+  describe('findAccountByEmail', () => {
+    it('should find an account regardless of case', () => {
+      // CALL
+      const account = service.findAccountByEmail('Test1@Example.com');
+
+      // CONTROL
+      expect(account).toHaveProperty('id', 1);
+      expect(account).toHaveProperty('passwordHash', 'scrypt$00$00');
+    });
+
+    it('should return undefined for an unknown email', () => {
+      // CALL
+      const account = service.findAccountByEmail('test2@example.com');
+
+      // CONTROL
+      expect(account).toBeUndefined();
+    });
+  });
+
+  describe('getUserById', () => {
+    it('should return the profile without credentials', () => {
+      // CALL
+      const user = service.getUserById(1);
+
+      // CONTROL
+      expect(user).toEqual({
+        id: 1,
+        name: 'Test User 1',
+        email: 'test1@example.com',
+      });
+    });
+
+    it('should throw NotFoundException when the user does not exist', () => {
+      // CALL
+      const call = () => service.getUserById(42);
+
+      // CONTROL
+      expect(call).toThrow(NotFoundException);
+      expect(call).toThrow('User with id 42 not found');
+    });
+  });
+
+  describe('updateUser', () => {
+    it('should update the profile and keep the credentials', () => {
+      // CALL
+      const user = service.updateUser(1, {
+        name: ' Renamed ',
+        status: UserStatus.BUSY,
+        avatar: { src: 'https://example.com/avatar.png' },
+      });
+
+      // CONTROL
+      expect(user).toEqual({
+        id: 1,
+        name: 'Renamed',
+        email: 'test1@example.com',
+        status: UserStatus.BUSY,
+        avatar: { src: 'https://example.com/avatar.png' },
+      });
+      expect(service.findAccountByEmail('test1@example.com')).toHaveProperty(
+        'passwordHash',
+        'scrypt$00$00',
+      );
+    });
+
+    it('should throw BadRequestException without updatable field', () => {
+      // CALL
+      const call = () => service.updateUser(1, {});
+
+      // CONTROL
+      expect(call).toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException when the user does not exist', () => {
+      // CALL
+      const call = () => service.updateUser(42, { location: 'Paris' });
+
+      // CONTROL
+      expect(call).toThrow('User with id 42 not found');
+    });
+  });
+});
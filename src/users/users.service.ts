@@ -0,0 +1,110 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { IUser } from '../mails/interfaces/user.interface';
+import { IUserAccount } from './interfaces/user-account.interface';
+import { UserRepository } from './repositories/user.repository';
+import { UpdateUserDto } from './dto/update-user.dto';
+
+@Injectable()
+export class UsersService {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  private readonly logger = new Logger(UsersService.name);
+
+  /**
+   * @description Get the account of an email address, with its password hash
+   * @param email - Email address, regardless of case
+   * @returns {IUserAccount | undefined} The account, undefined when missing
+   */
+  findAccountByEmail(email: string): IUserAccount | undefined {
+    try {
+      return this.userRepository.findByEmail(email);
+    } catch (error) {
+      this.logger.error(`Error getting user ${email} from database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error getting user from database',
+      );
+    }
+  }
+
+  /**
+   * @description Get the public profile of a user
+   * @param id - Id of the user
+   * @returns {IUser} The user, without credentials
+   */
+  getUserById(id: number): IUser {
+    let account: IUserAccount | undefined;
+
+    try {
+      account = this.userRepository.findById(id);
+    } catch (error) {
+      this.logger.error(`Error getting user ${id} from database: ${error}`);
+      throw new InternalServerErrorException(
+        'Error getting user from database',
+      );
+    }
+
+    if (!account) {
+      throw new NotFoundException(`User with id ${id} not found`);
+    }
+
+    return this.toProfile(account);
+  }
+
+  /**
+   * @description Update the profile of a user, email and credentials are
+   * not editable
+   * @param id - Id of the user
+   * @param dto - Fields to update
+   * @returns {IUser} The updated profile
+   */
+  updateUser(id: number, dto: UpdateUserDto): IUser {
+    const changes: Partial<IUserAccount> = {};
+    if (dto.name !== undefined) {
+      changes.name = dto.name.trim();
+    }
+    if (dto.avatar !== undefined) {
+      changes.avatar = { ...dto.avatar };
+    }
+    if (dto.status !== undefined) {
+      changes.status = dto.status;
+    }
+    if (dto.location !== undefined) {
+      changes.location = dto.location.trim();
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new BadRequestException('No updatable field provided');
+    }
+
+    let account: IUserAccount | undefined;
+    try {
+      account = this.userRepository.update(id, changes);
+    } catch (error) {
+      this.logger.error(`Error updating user ${id} in database: ${error}`);
+      throw new InternalServerErrorException('Error updating user in database');
+    }
+
+    if (!account) {
+      throw new NotFoundException(`User with id ${id} not found`);
+    }
+
+    return this.toProfile(account);
+  }
+
+  /**
+   * @description Strip the credentials of an account
+   * @param account - Stored account
+   * @returns {IUser} Profile safe to return to clients
+   */
+  private toProfile(account: IUserAccount): IUser {
+    const profile: Partial<IUserAccount> = { ...account };
+    delete profile.passwordHash;
+    return profile as IUser;
+  }
+}
@@ -0,0 +1,19 @@
+import { IUserAccount } from './interfaces/user-account.interface';
+import { mailboxOwner } from '../mails/mailbox-owner';
+
+/** Seed accounts, both log in with the password `changeme` */
+export const users: IUserAccount[] = [
+  {
+    ...mailboxOwner,
+    id: 1,
+    passwordHash:
+      'scrypt$991a94891aec28dec639ee08c15ad5c5$51d8f3998bc558e0171d6dd195082d0f6bea36f6731a9eb309dcb67bd500ba18e168de742475fef724ba77e5e6af9597c8b99534baa55b85d198f92141fc7cc8',
+  },
+  {
+    id: 2,
+    name: 'Alex Smith',
+    email: 'alex.smith@example.com',
+    passwordHash:
+      'scrypt$faee082d144375bd8e78d0f32b8bdebb$2c71e9a587d95a2056ab1f3e5ed8d47ba1490997c56741c01dd3f459716b86a4e73640bfe91d3406d7ce1481b64bedb5334cd94c483e14854432f1f3fc95d810',
+  },
+];